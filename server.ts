@@ -0,0 +1,68 @@
+import "dotenv/config";
+import path from "path";
+import express from "express";
+import { createAdvisorStore } from "./server/advisorStore";
+import { createApp } from "./server/app";
+import { createCacheStore } from "./server/cacheStore";
+import { createCareerService } from "./server/careerService";
+import { loadAuthConfig, loadCacheTtlMs, loadLLMConfig, loadQuotaConfig } from "./server/config";
+import { openDatabase } from "./server/db";
+import { createHistoryStore } from "./server/historyStore";
+import { createInterviewStore } from "./server/interviewStore";
+import { createProvider } from "./server/providers";
+import { createQuota, meterProvider } from "./server/quota";
+import { createShareStore } from "./server/shareStore";
+import { createUsageStore } from "./server/usageStore";
+import { createUserStore } from "./server/userStore";
+import { createResponseCache } from "./src/lib/cache";
+
+const PORT = Number(process.env.PORT) || 3000;
+
+async function startServer() {
+  const config = loadLLMConfig();
+  if (config.provider === "gemini" && !config.apiKey) {
+    console.warn("GEMINI_API_KEY is not set; recommendations will come from the offline rule-based engine.");
+  }
+  const provider = createProvider(config);
+  const db = openDatabase();
+  const usageStore = createUsageStore(db);
+  const quotaConfig = loadQuotaConfig();
+  const app = createApp({
+    careerService: createCareerService(meterProvider(provider, usageStore)),
+    historyStore: createHistoryStore(db),
+    shareStore: createShareStore(db),
+    interviewStore: createInterviewStore(db),
+    userStore: createUserStore(db),
+    advisorStore: createAdvisorStore(db),
+    auth: loadAuthConfig(),
+    responseCache: createResponseCache({ storage: createCacheStore(db), ttlMs: loadCacheTtlMs() }),
+    model: `${provider.id}:${provider.model}`,
+    quota: createQuota(quotaConfig, usageStore),
+    usageStore,
+    adminToken: quotaConfig.adminToken,
+    trustProxyHops: quotaConfig.trustProxyHops,
+    // Ignore the unfilled placeholder from .env.example.
+    appUrl: process.env.APP_URL && process.env.APP_URL !== "MY_APP_URL" ? process.env.APP_URL : undefined,
+  });
+
+  if (process.env.NODE_ENV !== "production") {
+    const { createServer: createViteServer } = await import("vite");
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: "spa",
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.join(process.cwd(), "dist");
+    app.use(express.static(distPath));
+    app.get("*", (_req, res) => {
+      res.sendFile(path.join(distPath, "index.html"));
+    });
+  }
+
+  app.listen(PORT, "0.0.0.0", () => {
+    console.log(`Server running on http://localhost:${PORT} (${provider.id}: ${provider.model})`);
+  });
+}
+
+startServer();
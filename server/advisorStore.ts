@@ -0,0 +1,200 @@
+import { randomUUID } from "crypto";
+import type {
+  AdvisorComment,
+  CareerRecommendation,
+  CohortDashboard,
+  CohortFilter,
+  PathCount,
+  ProfileInputs,
+  SkillGapCount,
+  StudentSummary,
+} from "../src/types";
+import { upgradeRecommendation } from "../src/lib/history";
+import { canonicalSkill } from "../src/lib/skills";
+import { findTrack } from "../src/lib/taxonomy";
+import type { DB } from "./db";
+
+interface StudentRow {
+  id: string;
+  display_name: string;
+  email: string;
+  year: number | null;
+  section: string | null;
+  profile: string | null;
+  roadmaps: number;
+  last_saved_at: number | null;
+  latest: string | null;
+}
+
+interface CommentRow {
+  id: string;
+  body: string;
+  advisor_id: string | null;
+  advisor_name: string | null;
+  created_at: number;
+}
+
+export interface AdvisorStore {
+  /** Aggregates over students who share with advisors; the others are only counted. */
+  dashboard(filter: CohortFilter): CohortDashboard;
+  /** A student who shares with advisors, with their saved profile; undefined for anyone else. */
+  student(id: string): (StudentSummary & { profile: ProfileInputs | null }) | undefined;
+  comments(studentId: string): AdvisorComment[];
+  addComment(studentId: string, advisorId: string, body: string): AdvisorComment;
+  /** Only the advisor who wrote a comment may remove it. */
+  removeComment(studentId: string, advisorId: string, id: string): boolean;
+}
+
+// Enough to see the shape of a batch without a long tail of one-offs.
+const TOP_PATHS = 12;
+const TOP_SKILL_GAPS = 15;
+
+const toSummary = (row: StudentRow): StudentSummary => {
+  const latest: CareerRecommendation | null = row.latest ? upgradeRecommendation(JSON.parse(row.latest)) : null;
+  return {
+    id: row.id,
+    displayName: row.display_name,
+    email: row.email,
+    year: row.year,
+    section: row.section,
+    roadmaps: row.roadmaps,
+    lastSavedAt: row.last_saved_at === null ? null : new Date(row.last_saved_at).toISOString(),
+    topPath: latest?.careerPaths[0]?.title || null,
+  };
+};
+
+const byCount = <T extends { students: number }>(label: (item: T) => string) => (a: T, b: T) =>
+  b.students - a.students || label(a).localeCompare(label(b));
+
+/**
+ * Career paths and skill gaps across the latest saved recommendation of each
+ * student. Paths are grouped by career track, so "ASIC Design Engineer" and
+ * "VLSI Engineer" count together, and skills by their dictionary name; each
+ * student counts once per path or skill.
+ */
+export function summarizeRecommendations(latest: CareerRecommendation[]): {
+  paths: PathCount[];
+  skillGaps: SkillGapCount[];
+} {
+  const paths = new Map<string, PathCount>();
+  const skills = new Map<string, SkillGapCount>();
+
+  for (const recommendation of latest) {
+    const seenPaths = new Set<string>();
+    recommendation.careerPaths.forEach((careerPath, i) => {
+      const name = findTrack(careerPath.title)?.name ?? careerPath.title.trim();
+      if (!name || seenPaths.has(name)) return;
+      seenPaths.add(name);
+      const count = paths.get(name) ?? { path: name, students: 0, topChoice: 0 };
+      count.students++;
+      if (i === 0) count.topChoice++;
+      paths.set(name, count);
+    });
+
+    const seenSkills = new Set<string>();
+    for (const skill of recommendation.skillsToLearn) {
+      const { name } = canonicalSkill(skill);
+      const key = name.toLowerCase();
+      if (!name || seenSkills.has(key)) continue;
+      seenSkills.add(key);
+      const count = skills.get(key) ?? { skill: name, students: 0 };
+      count.students++;
+      skills.set(key, count);
+    }
+  }
+
+  return {
+    paths: [...paths.values()].sort(byCount((p) => p.path)).slice(0, TOP_PATHS),
+    skillGaps: [...skills.values()].sort(byCount((s) => s.skill)).slice(0, TOP_SKILL_GAPS),
+  };
+}
+
+// Students matching the filter, each with their roadmap count and latest saved recommendation.
+const STUDENTS = `
+  SELECT users.id, users.display_name, users.email, users.year, users.section, users.profile,
+    (SELECT COUNT(*) FROM history_items WHERE history_items.user_id = users.id) AS roadmaps,
+    (SELECT MAX(created_at) FROM history_items WHERE history_items.user_id = users.id) AS last_saved_at,
+    (SELECT recommendation FROM history_items WHERE history_items.user_id = users.id
+      ORDER BY created_at DESC LIMIT 1) AS latest
+  FROM users
+  WHERE users.role = 'student' AND users.share_with_advisors = 1`;
+
+const FILTER = "(@year IS NULL OR users.year = @year) AND (@section IS NULL OR users.section = @section)";
+
+export function createAdvisorStore(db: DB): AdvisorStore {
+  const studentsStmt = db.prepare<[{ year: number | null; section: string | null }], StudentRow>(
+    `${STUDENTS} AND ${FILTER} ORDER BY users.display_name COLLATE NOCASE`
+  );
+  const notSharingStmt = db.prepare<[{ year: number | null; section: string | null }], { count: number }>(
+    `SELECT COUNT(*) AS count FROM users
+     WHERE users.role = 'student' AND users.share_with_advisors = 0 AND ${FILTER}`
+  );
+  const yearsStmt = db
+    .prepare<[], number>(
+      `SELECT DISTINCT year FROM users
+       WHERE role = 'student' AND share_with_advisors = 1 AND year IS NOT NULL ORDER BY year`
+    )
+    .pluck();
+  const sectionsStmt = db
+    .prepare<[], string>(
+      `SELECT DISTINCT section FROM users
+       WHERE role = 'student' AND share_with_advisors = 1 AND section IS NOT NULL ORDER BY section`
+    )
+    .pluck();
+  const studentStmt = db.prepare<[string], StudentRow>(`${STUDENTS} AND users.id = ?`);
+  const commentsStmt = db.prepare<[string], CommentRow>(
+    `SELECT advisor_comments.id, advisor_comments.body, advisor_comments.advisor_id,
+       users.display_name AS advisor_name, advisor_comments.created_at
+     FROM advisor_comments LEFT JOIN users ON users.id = advisor_comments.advisor_id
+     WHERE advisor_comments.student_id = ? ORDER BY advisor_comments.created_at`
+  );
+  const insertCommentStmt = db.prepare(
+    "INSERT INTO advisor_comments (id, student_id, advisor_id, body, created_at) VALUES (?, ?, ?, ?, ?)"
+  );
+  const deleteCommentStmt = db.prepare(
+    "DELETE FROM advisor_comments WHERE id = ? AND student_id = ? AND advisor_id = ?"
+  );
+  const advisorNameStmt = db.prepare<[string], string>("SELECT display_name FROM users WHERE id = ?").pluck();
+
+  return {
+    dashboard(filter) {
+      const params = { year: filter.year ?? null, section: filter.section ?? null };
+      const rows = studentsStmt.all(params);
+      const students = rows.map(toSummary);
+      const latest = rows.flatMap((row) => (row.latest ? [upgradeRecommendation(JSON.parse(row.latest))] : []));
+      return {
+        filter,
+        students,
+        notSharing: notSharingStmt.get(params)?.count ?? 0,
+        ...summarizeRecommendations(latest),
+        withoutRoadmaps: students.filter((student) => student.roadmaps === 0),
+        years: yearsStmt.all(),
+        sections: sectionsStmt.all(),
+      };
+    },
+    student(id) {
+      const row = studentStmt.get(id);
+      return row && { ...toSummary(row), profile: row.profile ? JSON.parse(row.profile) : null };
+    },
+    comments: (studentId) =>
+      commentsStmt.all(studentId).map((row) => ({
+        id: row.id,
+        body: row.body,
+        advisorId: row.advisor_id,
+        advisorName: row.advisor_name,
+        createdAt: new Date(row.created_at).toISOString(),
+      })),
+    addComment(studentId, advisorId, body) {
+      const comment = { id: randomUUID(), createdAt: Date.now() };
+      insertCommentStmt.run(comment.id, studentId, advisorId, body, comment.createdAt);
+      return {
+        id: comment.id,
+        body,
+        advisorId,
+        advisorName: advisorNameStmt.get(advisorId) ?? null,
+        createdAt: new Date(comment.createdAt).toISOString(),
+      };
+    },
+    removeComment: (studentId, advisorId, id) => deleteCommentStmt.run(id, studentId, advisorId).changes > 0,
+  };
+}
@@ -0,0 +1,438 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+import { CAREER_TRACKS } from "../src/lib/taxonomy";
+import type {
+  AuthSession,
+  CareerRecommendation,
+  CohortDashboard,
+  HistoryItem,
+  InterviewSession,
+  ShareLink,
+  SharedRoadmap,
+} from "../src/types";
+import { FixtureProvider, type GenerateJsonRequest } from "./providers";
+import { startTestApp, type TestApp } from "./testApp";
+
+const PROFILE = {
+  education: "3rd Year B.Tech ECE",
+  skills: "Verilog, C, Digital Logic",
+  interests: "VLSI, Chip Design",
+};
+
+describe("API", () => {
+  let app: TestApp;
+  before(async () => {
+    app = await startTestApp();
+  });
+  after(() => app.close());
+
+  test("recommends career paths with the fixture model", async () => {
+    const res = await app.request<CareerRecommendation>("POST", "/api/recommendations", { body: PROFILE });
+    assert.equal(res.status, 200);
+    assert.ok(res.body.careerPaths.length > 0);
+    assert.ok(res.body.skillsToLearn.length > 0);
+  });
+
+  test("reports the prompt versions and model that browser caches are keyed on", async () => {
+    const res = await app.request<AuthSession>("GET", "/api/auth/session");
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body.cacheScope, ["career_recommendation@2", "resume_data@1", "fixture:fixture"]);
+  });
+
+  test("recommends from the rules engine without a model", async () => {
+    const res = await app.request<CareerRecommendation>("POST", "/api/recommendations", {
+      body: { ...PROFILE, engine: "rules" },
+    });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.engine, "rules");
+  });
+
+  test("passes projects, internships and certifications to the model", async () => {
+    const prompts: string[] = [];
+    const fixture = new FixtureProvider();
+    const recording = await startTestApp({
+      provider: {
+        id: "fixture",
+        model: "fixture",
+        generateJson: (request: GenerateJsonRequest) => {
+          prompts.push(request.prompt);
+          return fixture.generateJson(request);
+        },
+      },
+    });
+    try {
+      const res = await recording.request("POST", "/api/recommendations", {
+        body: { ...PROFILE, experience: "Project: 8-bit RISC processor in Verilog" },
+      });
+      assert.equal(res.status, 200);
+      assert.match(prompts.join("\n"), /<experience>Project: 8-bit RISC processor in Verilog<\/experience>/);
+    } finally {
+      await recording.close();
+    }
+  });
+
+  test("refuses a refinement that rejects every career track", async () => {
+    const constraints = {
+      pinnedPaths: [],
+      rejectedPaths: CAREER_TRACKS.map((track) => ({ title: track.name, reason: "" })),
+      hypotheticalSkills: [],
+    };
+    for (const engine of ["rules", "ai"]) {
+      const res = await app.request<{ error: string }>("POST", "/api/recommendations", {
+        body: { ...PROFILE, engine, constraints },
+      });
+      assert.equal(res.status, 400);
+      assert.match(res.body.error, /keep at least one/);
+    }
+  });
+
+  test("rejects a profile without skills", async () => {
+    const res = await app.request("POST", "/api/recommendations", {
+      body: { education: PROFILE.education, interests: PROFILE.interests },
+    });
+    assert.equal(res.status, 400);
+  });
+
+  test("keeps each account's saved roadmaps to itself", async () => {
+    const alice = await app.register("alice@example.edu");
+    const bob = await app.register("bob@example.edu");
+    const recommendation = (
+      await app.request<CareerRecommendation>("POST", "/api/recommendations", { body: { ...PROFILE, engine: "rules" } })
+    ).body;
+
+    const saved = await app.request<HistoryItem>("POST", "/api/history", {
+      cookie: alice,
+      body: { title: "VLSI plan", date: "1 Jan 2026", recommendation, inputs: PROFILE },
+    });
+    assert.equal(saved.status, 201);
+
+    const mine = await app.request<HistoryItem[]>("GET", "/api/history", { cookie: alice });
+    assert.deepEqual(
+      mine.body.map((item) => item.id),
+      [saved.body.id]
+    );
+    assert.deepEqual((await app.request<HistoryItem[]>("GET", "/api/history", { cookie: bob })).body, []);
+    assert.equal((await app.request("GET", `/api/history/${saved.body.id}`, { cookie: bob })).status, 404);
+  });
+
+  test("keeps the creation time of imported roadmaps, so they sort among those already saved", async () => {
+    const grace = await app.register("grace@example.edu");
+    const recommendation = (
+      await app.request<CareerRecommendation>("POST", "/api/recommendations", { body: { ...PROFILE, engine: "rules" } })
+    ).body;
+    const item = { title: "Plan", date: "", recommendation, inputs: PROFILE };
+    const saved = await app.request<HistoryItem>("POST", "/api/history", { cookie: grace, body: item });
+
+    await app.request("POST", "/api/history/import", {
+      cookie: grace,
+      body: { items: [{ ...item, id: "first-semester", createdAt: "2024-08-01T00:00:00.000Z" }] },
+    });
+
+    const list = (await app.request<HistoryItem[]>("GET", "/api/history", { cookie: grace })).body;
+    assert.deepEqual(
+      list.map((h) => [h.id, h.createdAt]),
+      [
+        [saved.body.id, saved.body.createdAt],
+        ["first-semester", "2024-08-01T00:00:00.000Z"],
+      ]
+    );
+  });
+
+  test("upgrades legacy roadmaps on import and skips malformed ones", async () => {
+    const carol = await app.register("carol@example.edu");
+    const legacy = {
+      id: "legacy-1",
+      title: "Old plan",
+      date: "1 Jan 2024",
+      recommendation: {
+        careerPaths: ["VLSI Engineer"],
+        internshipRoles: ["VLSI Intern"],
+        skillsToLearn: ["SystemVerilog"],
+        summary: "Old.",
+      },
+      inputs: PROFILE,
+    };
+    const res = await app.request("POST", "/api/history/import", {
+      cookie: carol,
+      body: { items: [legacy, { ...legacy, id: "broken", recommendation: "VLSI" }, null] },
+    });
+    assert.deepEqual(res.body, { imported: 1, skipped: 2, savedIds: ["legacy-1"] });
+
+    const [item] = (await app.request<HistoryItem[]>("GET", "/api/history", { cookie: carol })).body;
+    assert.equal(item.recommendation.careerPaths[0].title, "VLSI Engineer");
+    assert.equal(item.recommendation.careerPaths[0].fitScore, 0);
+  });
+
+  test("answers 404 when an interview is deleted while its answer is graded", async () => {
+    const fixture = new FixtureProvider();
+    let beforeReply: (() => Promise<unknown>) | undefined;
+    const grading = await startTestApp({
+      provider: {
+        id: "fixture",
+        model: "fixture",
+        generateJson: async (request: GenerateJsonRequest) => {
+          await beforeReply?.();
+          return fixture.generateJson(request);
+        },
+      },
+    });
+    try {
+      const dave = await grading.register("dave@example.edu");
+      const created = await grading.request<InterviewSession>("POST", "/api/interviews", {
+        cookie: dave,
+        body: { role: "VLSI Engineer", level: "beginner", inputs: PROFILE },
+      });
+      assert.equal(created.status, 201);
+      const session = created.body;
+      beforeReply = () => grading.request("DELETE", `/api/interviews/${session.id}`, { cookie: dave });
+
+      const res = await grading.request(
+        "POST",
+        `/api/interviews/${session.id}/questions/${session.questions[0].id}/answer`,
+        { cookie: dave, body: { answer: "Use non-blocking assignments in clocked blocks." } }
+      );
+      assert.equal(res.status, 404);
+      assert.deepEqual(res.body, { error: "Interview session not found." });
+    } finally {
+      await grading.close();
+    }
+  });
+
+  test("gives roadmaps saved before accounts, and their links, to the first account", async () => {
+    const fresh = await startTestApp();
+    try {
+      const recommendation = {
+        careerPaths: [],
+        internshipRoles: ["VLSI Intern"],
+        skillsToLearn: ["UVM"],
+        summary: "Old.",
+      };
+      fresh.db
+        .prepare(
+          `INSERT INTO history_items (id, title, date, created_at, recommendation, inputs)
+           VALUES (?, ?, ?, ?, ?, ?)`
+        )
+        .run("before-accounts", "Old plan", "1 Jan 2024", Date.now(), JSON.stringify(recommendation), "{}");
+      fresh.db
+        .prepare("INSERT INTO shares (id, history_id, snapshot, created_at) VALUES (?, ?, ?, ?)")
+        .run("old-link", "before-accounts", "{}", Date.now());
+
+      const owner = await fresh.register("owner@example.edu");
+      const later = await fresh.register("later@example.edu");
+      const owned = await fresh.request<HistoryItem[]>("GET", "/api/history", { cookie: owner });
+      assert.deepEqual(owned.body.map((item) => item.id), ["before-accounts"]);
+      assert.deepEqual((await fresh.request("GET", "/api/history", { cookie: later })).body, []);
+      const revoked = await fresh.request("DELETE", "/api/history/before-accounts/shares/old-link", { cookie: owner });
+      assert.equal(revoked.status, 204);
+    } finally {
+      await fresh.close();
+    }
+  });
+
+  test("reports which imported roadmaps the account holds, so only those leave the browser", async () => {
+    const erin = await app.register("erin@example.edu");
+    const item = {
+      id: "local-1",
+      title: "Kept in the browser",
+      date: "1 Jan 2025",
+      recommendation: {
+        careerPaths: ["VLSI Engineer"],
+        internshipRoles: ["VLSI Intern"],
+        skillsToLearn: ["UVM"],
+        summary: "Saved as a guest.",
+      },
+      inputs: PROFILE,
+    };
+    // Passes the browser's own check but not the server's: no internship roles.
+    const refused = { ...item, id: "local-2", recommendation: { ...item.recommendation, internshipRoles: [] } };
+    const first = await app.request("POST", "/api/history/import", { cookie: erin, body: { items: [item, refused] } });
+    assert.deepEqual(first.body, { imported: 1, skipped: 1, savedIds: ["local-1"] });
+    const again = await app.request("POST", "/api/history/import", { cookie: erin, body: { items: [item] } });
+    assert.deepEqual(again.body, { imported: 0, skipped: 1, savedIds: ["local-1"] });
+  });
+
+  test("requires signing in to save roadmaps", async () => {
+    assert.equal((await app.request("GET", "/api/history")).status, 401);
+  });
+});
+
+describe("Quota", () => {
+  const recommend = (app: TestApp, body: object = PROFILE) =>
+    app.request<{ category?: string; retryAfter?: number }>("POST", "/api/recommendations", { body });
+
+  test("refuses requests past the per-client limit with Retry-After", async () => {
+    const app = await startTestApp({ quotaEnv: { RATE_LIMIT_PER_CLIENT: "2" } });
+    try {
+      assert.equal((await recommend(app)).status, 200);
+      assert.equal((await recommend(app)).status, 200);
+      const refused = await recommend(app);
+      assert.equal(refused.status, 429);
+      assert.equal(refused.body.category, "rate_limit");
+      const retryAfter = Number(refused.headers.get("Retry-After"));
+      assert.ok(retryAfter > 0 && retryAfter <= 60, `Retry-After ${retryAfter}`);
+      assert.equal(refused.body.retryAfter, retryAfter);
+    } finally {
+      await app.close();
+    }
+  });
+
+  test("does not count invalid requests toward the limit", async () => {
+    const app = await startTestApp({ quotaEnv: { RATE_LIMIT_PER_CLIENT: "1" } });
+    try {
+      assert.equal((await recommend(app, { education: "B.Tech" })).status, 400);
+      assert.equal((await recommend(app, { education: "B.Tech" })).status, 400);
+      assert.equal((await recommend(app)).status, 200);
+      assert.equal((await recommend(app)).status, 429);
+    } finally {
+      await app.close();
+    }
+  });
+
+  test("charges model usage to the daily budget and refuses calls once it is spent", async () => {
+    const app = await startTestApp({ quotaEnv: { DAILY_TOKEN_BUDGET: "10" } });
+    try {
+      assert.equal((await recommend(app)).status, 200);
+      const tokens = app.db
+        .prepare("SELECT SUM(input_tokens + output_tokens) FROM usage_events WHERE endpoint = 'recommendations'")
+        .pluck()
+        .get() as number;
+      assert.ok(tokens >= 10, `charged ${tokens} tokens`);
+
+      const refused = await recommend(app, { ...PROFILE, skills: "SystemVerilog" });
+      assert.equal(refused.status, 429);
+      assert.equal(refused.body.category, "quota");
+      assert.ok(Number(refused.headers.get("Retry-After")) > 0);
+    } finally {
+      await app.close();
+    }
+  });
+});
+
+describe("Advisor dashboard", () => {
+  let app: TestApp;
+  let advisor: string;
+  let sharing: { id: string; cookie: string };
+  let holdout: { id: string; cookie: string };
+
+  const student = async (email: string) => {
+    const cookie = await app.register(email);
+    const session = await app.request<AuthSession>("GET", "/api/auth/session", { cookie });
+    return { id: session.body.user!.id, cookie };
+  };
+
+  before(async () => {
+    app = await startTestApp();
+    advisor = await app.register("advisor@example.edu", "Dr. Rao");
+    app.db.prepare("UPDATE users SET role = 'advisor' WHERE email = ?").run("advisor@example.edu");
+    sharing = await student("sharing@example.edu");
+    holdout = await student("private@example.edu");
+    await app.request("PATCH", "/api/account", { cookie: sharing.cookie, body: { shareWithAdvisors: true } });
+  });
+  after(() => app.close());
+
+  test("lists only students who agreed to share", async () => {
+    const res = await app.request<CohortDashboard>("GET", "/api/advisor/dashboard", { cookie: advisor });
+    assert.equal(res.status, 200);
+    const ids = res.body.students.map((s) => s.id);
+    assert.ok(ids.includes(sharing.id));
+    assert.ok(!ids.includes(holdout.id));
+    assert.equal(res.body.notSharing, 1);
+  });
+
+  test("refuses the details of, and comments on, a student who is not sharing", async () => {
+    const detail = await app.request("GET", `/api/advisor/students/${holdout.id}`, { cookie: advisor });
+    assert.equal(detail.status, 404);
+    const comment = await app.request("POST", `/api/advisor/students/${holdout.id}/comments`, {
+      cookie: advisor,
+      body: { body: "Try an FPGA project." },
+    });
+    assert.equal(comment.status, 404);
+    assert.equal((await app.request("GET", `/api/advisor/students/${sharing.id}`, { cookie: advisor })).status, 200);
+  });
+
+  test("keeps students and signed-out visitors out", async () => {
+    for (const path of ["/api/advisor/dashboard", `/api/advisor/students/${sharing.id}`]) {
+      assert.equal((await app.request("GET", path, { cookie: sharing.cookie })).status, 403, path);
+      assert.equal((await app.request("GET", path)).status, 401, path);
+    }
+    const comment = await app.request("POST", `/api/advisor/students/${sharing.id}/comments`, {
+      cookie: holdout.cookie,
+      body: { body: "Looks good." },
+    });
+    assert.equal(comment.status, 403);
+  });
+});
+
+describe("Shared links", () => {
+  let app: TestApp;
+  let owner: string;
+  let other: string;
+  let roadmap: HistoryItem;
+
+  before(async () => {
+    app = await startTestApp();
+    owner = await app.register("sharer@example.edu");
+    other = await app.register("other@example.edu");
+    const recommendation = (
+      await app.request<CareerRecommendation>("POST", "/api/recommendations", { body: { ...PROFILE, engine: "rules" } })
+    ).body;
+    roadmap = (
+      await app.request<HistoryItem>("POST", "/api/history", {
+        cookie: owner,
+        body: {
+          title: "VLSI plan",
+          date: "1 Jan 2026",
+          recommendation,
+          inputs: PROFILE,
+          conversation: [{ role: "user", content: "Is VLSI a good fit?" }],
+        },
+      })
+    ).body;
+  });
+  after(() => app.close());
+
+  const share = async (body: object = {}) => {
+    const res = await app.request<ShareLink>("POST", `/api/history/${roadmap.id}/shares`, { cookie: owner, body });
+    assert.equal(res.status, 201);
+    return res.body;
+  };
+
+  test("serves the roadmap as it was when shared, without its id or conversation", async () => {
+    const link = await share();
+    await app.request("PATCH", `/api/history/${roadmap.id}`, { cookie: owner, body: { title: "Renamed plan" } });
+
+    const res = await app.request<SharedRoadmap & Partial<HistoryItem>>("GET", `/api/shares/${link.id}`);
+    assert.equal(res.status, 200);
+    assert.equal(res.body.title, "VLSI plan");
+    assert.equal(res.body.id, undefined);
+    assert.equal(res.body.conversation, undefined);
+  });
+
+  test("stops serving a link once it is revoked", async () => {
+    const link = await share();
+    const revoked = await app.request("DELETE", `/api/history/${roadmap.id}/shares/${link.id}`, { cookie: owner });
+    assert.equal(revoked.status, 204);
+    assert.equal((await app.request("GET", `/api/shares/${link.id}`)).status, 410);
+  });
+
+  test("stops serving a link once it expires", async () => {
+    const link = await share({ expiresInDays: 1 });
+    assert.equal((await app.request("GET", `/api/shares/${link.id}`)).status, 200);
+    app.db.prepare("UPDATE shares SET expires_at = ? WHERE id = ?").run(Date.now() - 1, link.id);
+    assert.equal((await app.request("GET", `/api/shares/${link.id}`)).status, 410);
+  });
+
+  test("lets only the owner list or revoke links", async () => {
+    const link = await share();
+    assert.equal((await app.request("GET", `/api/history/${roadmap.id}/shares`, { cookie: other })).status, 404);
+    const revoke = await app.request("DELETE", `/api/history/${roadmap.id}/shares/${link.id}`, { cookie: other });
+    assert.equal(revoke.status, 404);
+    assert.equal((await app.request("GET", `/api/shares/${link.id}`)).status, 200);
+    const mine = await app.request<ShareLink[]>("GET", `/api/history/${roadmap.id}/shares`, { cookie: owner });
+    assert.ok(mine.body.some((l) => l.id === link.id));
+  });
+
+  test("answers 404 for a link that never existed", async () => {
+    assert.equal((await app.request("GET", "/api/shares/no-such-link")).status, 404);
+  });
+});
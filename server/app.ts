@@ -0,0 +1,87 @@
+import express from "express";
+import type { ResponseCache } from "../src/lib/cache";
+import type { AdvisorStore } from "./advisorStore";
+import { authenticate, requireUser } from "./auth";
+import type { CareerService } from "./careerService";
+import type { AuthConfig } from "./config";
+import type { HistoryStore } from "./historyStore";
+import type { InterviewStore } from "./interviewStore";
+import { PROMPTS, promptVersion } from "./prompts";
+import type { Quota } from "./quota";
+import { createAccountRouter } from "./routes/account";
+import { createAdminRouter } from "./routes/admin";
+import { createAdvisorRouter } from "./routes/advisor";
+import { createAIRouter } from "./routes/ai";
+import { createAuthRouter } from "./routes/auth";
+import { createHistoryRouter } from "./routes/history";
+import { createInterviewRouter } from "./routes/interviews";
+import { createShareRouter } from "./routes/shares";
+import type { ShareStore } from "./shareStore";
+import type { UsageStore } from "./usageStore";
+import type { UserStore } from "./userStore";
+
+export interface AppDeps {
+  careerService: CareerService;
+  historyStore: HistoryStore;
+  shareStore: ShareStore;
+  interviewStore: InterviewStore;
+  userStore: UserStore;
+  advisorStore: AdvisorStore;
+  /** Guest access and session length. */
+  auth: AuthConfig;
+  /** Cache for recommendations and resume scans. */
+  responseCache: ResponseCache;
+  /** Name of the configured model; cached responses are only reused for the same model. */
+  model: string;
+  /** Rate limits and the daily budget for the AI routes. */
+  quota: Quota;
+  usageStore: UsageStore;
+  /** Unlocks `/api/admin`, e.g. the usage report. */
+  adminToken?: string;
+  /** Proxies in front of the app, used to find each client's address. */
+  trustProxyHops?: number;
+  /** Public base URL for share links; defaults to the host of each request. */
+  appUrl?: string;
+}
+
+/**
+ * Builds the API app. Kept separate from `server.ts` so the routes can be
+ * exercised with a mocked Gemini client, an in-memory database and without Vite.
+ */
+export function createApp({
+  careerService,
+  historyStore,
+  shareStore,
+  interviewStore,
+  userStore,
+  advisorStore,
+  auth,
+  responseCache,
+  model,
+  quota,
+  usageStore,
+  adminToken,
+  trustProxyHops = 0,
+  appUrl,
+}: AppDeps) {
+  const app = express();
+  if (trustProxyHops) app.set("trust proxy", trustProxyHops);
+
+  // Resumes arrive as base64, which inflates a 10MB upload to roughly 14MB.
+  app.use(express.json({ limit: "15mb" }));
+
+  app.use("/api", authenticate(userStore));
+  const cacheScope = [promptVersion(PROMPTS.career_recommendation), promptVersion(PROMPTS.resume_data), model];
+  app.use("/api/auth", createAuthRouter(userStore, auth, cacheScope));
+  app.use("/api/account", createAccountRouter(userStore));
+  app.use("/api/history", createHistoryRouter(historyStore));
+  app.use("/api", createShareRouter(shareStore, historyStore, appUrl));
+  app.use("/api/interviews", createInterviewRouter(careerService, interviewStore, quota));
+  app.use("/api/advisor", createAdvisorRouter(advisorStore, historyStore));
+  app.use("/api/admin", createAdminRouter(usageStore, quota, userStore, adminToken));
+  // Mounted last: without guest access its sign-in check would otherwise also cover public share links.
+  const aiAccess = auth.allowGuests ? [] : [requireUser];
+  app.use("/api", ...aiAccess, createAIRouter(careerService, responseCache, model, quota));
+
+  return app;
+}
@@ -0,0 +1,114 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "crypto";
+import type { CookieOptions, Request, RequestHandler, Response } from "express";
+import type { User } from "../src/types";
+import type { UserStore } from "./userStore";
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** The signed-in student, set by `authenticate`. */
+      user?: User;
+      /** Token of the session cookie the request was signed in with. */
+      sessionToken?: string;
+    }
+  }
+}
+
+export const SESSION_COOKIE = "pathfinder_session";
+
+const SCRYPT = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+
+const deriveKey = (password: string, salt: Buffer, options: ScryptOptions) =>
+  new Promise<Buffer>((resolve, reject) =>
+    scrypt(password.normalize("NFKC"), salt, KEY_LENGTH, options, (err, key) => (err ? reject(err) : resolve(key)))
+  );
+
+/** A salted scrypt hash, stored with its parameters so they can be raised later: `scrypt$N$r$p$salt$key`. */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, SCRYPT);
+  return ["scrypt", SCRYPT.N, SCRYPT.r, SCRYPT.p, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, key] = stored.split("$");
+  if (scheme !== "scrypt" || !key) return false;
+  const expected = Buffer.from(key, "base64");
+  const actual = await deriveKey(password, Buffer.from(salt, "base64"), { N: Number(N), r: Number(r), p: Number(p) });
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Checked against when an email is unknown, so a failed sign-in takes as long either way.
+let dummyHash: Promise<string> | undefined;
+export const unknownUserHash = () => (dummyHash ??= hashPassword(randomBytes(16).toString("hex")));
+
+/** Cookie values by name, from the `Cookie` header. */
+export function parseCookies(header = ""): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of header.split(";")) {
+    const eq = part.indexOf("=");
+    if (eq < 0) continue;
+    const name = part.slice(0, eq).trim();
+    if (!name || name in cookies) continue;
+    try {
+      cookies[name] = decodeURIComponent(part.slice(eq + 1).trim());
+    } catch {
+      // Not ours; skip it
+    }
+  }
+  return cookies;
+}
+
+// SameSite=Lax keeps the cookie off cross-site form posts; Secure follows the connection so local HTTP still works.
+const cookieOptions = (req: Request): CookieOptions => ({
+  httpOnly: true,
+  sameSite: "lax",
+  secure: req.secure,
+  path: "/",
+});
+
+export function setSessionCookie(req: Request, res: Response, token: string, maxAgeMs: number) {
+  res.cookie(SESSION_COOKIE, token, { ...cookieOptions(req), maxAge: maxAgeMs });
+}
+
+export function clearSessionCookie(req: Request, res: Response) {
+  res.clearCookie(SESSION_COOKIE, cookieOptions(req));
+}
+
+/** Sets `req.user` from the session cookie; requests without a valid session carry on as guests. */
+export function authenticate(users: UserStore): RequestHandler {
+  return (req, _res, next) => {
+    const token = parseCookies(req.get("Cookie"))[SESSION_COOKIE];
+    const user = token ? users.sessionUser(token) : undefined;
+    if (user) {
+      req.user = user;
+      req.sessionToken = token;
+    }
+    next();
+  };
+}
+
+export const requireUser: RequestHandler = (req, res, next) => {
+  if (!req.user) {
+    res.status(401).json({ error: "Please sign in to continue." });
+    return;
+  }
+  next();
+};
+
+/** Only advisors may continue; everyone else gets a 403 (or a 401 when signed out). */
+export const requireAdvisor: RequestHandler = (req, res, next) => {
+  if (!req.user) {
+    res.status(401).json({ error: "Please sign in to continue." });
+    return;
+  }
+  if (req.user.role !== "advisor") {
+    res.status(403).json({ error: "Only advisors can see the advisor dashboard." });
+    return;
+  }
+  next();
+};
+
+/** The signed-in user of a request that passed `requireUser`. */
+export const userOf = (req: Request): User => req.user!;
@@ -0,0 +1,45 @@
+import type { CacheStorage } from "../src/lib/cache";
+import type { DB } from "./db";
+
+interface CacheRow {
+  value: string;
+  stored_at: number;
+  expires_at: number;
+}
+
+// Expired rows are only removed when read, so sweep the rest every so often.
+const PRUNE_EVERY = 100;
+
+/** Response cache storage in SQLite, so cached model output survives restarts. */
+export function createCacheStore(db: DB): CacheStorage {
+  const getStmt = db.prepare<[string], CacheRow>(
+    "SELECT value, stored_at, expires_at FROM response_cache WHERE key = ?"
+  );
+  const setStmt = db.prepare(
+    `INSERT INTO response_cache (key, value, stored_at, expires_at)
+     VALUES (@key, @value, @stored_at, @expires_at)
+     ON CONFLICT (key) DO UPDATE SET value = excluded.value, stored_at = excluded.stored_at, expires_at = excluded.expires_at`
+  );
+  const deleteStmt = db.prepare("DELETE FROM response_cache WHERE key = ?");
+  const pruneStmt = db.prepare("DELETE FROM response_cache WHERE expires_at <= ?");
+  let writes = 0;
+
+  return {
+    get(key) {
+      const row = getStmt.get(key);
+      return row && { value: JSON.parse(row.value), storedAt: row.stored_at, expiresAt: row.expires_at };
+    },
+    set(key, entry) {
+      setStmt.run({
+        key,
+        value: JSON.stringify(entry.value),
+        stored_at: entry.storedAt,
+        expires_at: entry.expiresAt,
+      });
+      if (++writes % PRUNE_EVERY === 0) pruneStmt.run(Date.now());
+    },
+    delete(key) {
+      deleteStmt.run(key);
+    },
+  };
+}
@@ -0,0 +1,341 @@
+import { randomUUID } from "crypto";
+import { constraintIssues, emptyConstraints } from "../src/lib/refinement";
+import {
+  careerRecommendationSchema,
+  chatReplySchema,
+  interviewFeedbackSchema,
+  interviewQuestionsSchema,
+  projectIdeasResponseSchema,
+  resumeDataSchema,
+  roadmapResponseSchema,
+  skillGapAnalysisSchema,
+} from "../src/lib/schemas";
+import { PROFICIENCY_LEVELS, canonicalSkill } from "../src/lib/skills";
+import type {
+  CareerRecommendation,
+  ChatMessage,
+  ChatRequest,
+  InterviewFeedback,
+  InterviewQuestion,
+  InterviewRequest,
+  LearningRoadmap,
+  ProjectIdea,
+  ProjectIdeasRequest,
+  ProjectPlan,
+  RecommendationEngine,
+  RefinementConstraints,
+  RoadmapMilestone,
+  RoadmapRequest,
+  ResumeData,
+  ResumeSource,
+  SkillGapAnalysis,
+  SkillGapRequest,
+} from "../src/types";
+import { SafetyBlockError } from "./errors";
+import { generateValidated, streamValidated, type RetryOptions, type StreamUpdate } from "./generate";
+import type { GenerateJsonRequest, LLMProvider } from "./providers";
+import {
+  INTERVIEW_QUESTION_COUNT,
+  PROMPTS,
+  promptVersion,
+  type AnswerToGrade,
+} from "./prompts";
+import { orderMilestones } from "./roadmap";
+import { recommendFromRules } from "./ruleRecommender";
+import { annotateTracks, checkRecommendation } from "./taxonomy";
+
+export type { AnswerToGrade } from "./prompts";
+
+export interface CareerService {
+  scanResume(source: ResumeSource, signal?: AbortSignal): Promise<ResumeData>;
+  getCareerRecommendations(
+    education: string,
+    skills: string,
+    interests: string,
+    signal?: AbortSignal,
+    engine?: RecommendationEngine,
+    constraints?: RefinementConstraints,
+    experience?: string
+  ): Promise<CareerRecommendation>;
+  streamCareerRecommendations(
+    education: string,
+    skills: string,
+    interests: string,
+    signal?: AbortSignal,
+    engine?: RecommendationEngine,
+    constraints?: RefinementConstraints,
+    experience?: string
+  ): AsyncGenerator<StreamUpdate<CareerRecommendation>>;
+  generateLearningRoadmap(request: RoadmapRequest, signal?: AbortSignal): Promise<LearningRoadmap>;
+  analyzeSkillGap(request: SkillGapRequest, signal?: AbortSignal): Promise<SkillGapAnalysis>;
+  /** Answers the last (student) message in `request.messages`. */
+  answerFollowUp(request: ChatRequest, signal?: AbortSignal): Promise<ChatMessage>;
+  /** Questions without ids; the caller assigns them when storing a session. */
+  generateInterviewQuestions(
+    request: InterviewRequest,
+    signal?: AbortSignal
+  ): Promise<Omit<InterviewQuestion, "id">[]>;
+  gradeInterviewAnswer(request: AnswerToGrade, signal?: AbortSignal): Promise<InterviewFeedback>;
+  /** Ideas with fresh ids and no status; the student tracks progress on the saved plan. */
+  generateProjectIdeas(request: ProjectIdeasRequest, signal?: AbortSignal): Promise<ProjectPlan>;
+}
+
+type GeneratedProjectIdea = Omit<ProjectIdea, "id" | "status">;
+
+const skillKey = (skill: string) => canonicalSkill(skill).name.toLowerCase();
+
+/** Every level needs an idea, and every idea has to exercise at least one of the skills to learn. */
+function checkProjectIdeas(value: unknown, skillsToLearn: string[]): string[] {
+  const { ideas } = value as { ideas: GeneratedProjectIdea[] };
+  const wanted = new Set(skillsToLearn.map(skillKey));
+  const issues = PROFICIENCY_LEVELS.filter((level) => !ideas.some((idea) => idea.level === level)).map(
+    (level) => `$.ideas has no ${level} project`
+  );
+  ideas.forEach((idea, i) => {
+    if (wanted.size && !idea.skillsCovered.some((skill) => wanted.has(skillKey(skill)))) {
+      issues.push(`$.ideas[${i}].skillsCovered lists none of the skills to learn`);
+    }
+  });
+  return issues;
+}
+
+/**
+ * Whether a failed model call should be answered by the offline recommender.
+ * Safety blocks are about the input, so the student is asked to rephrase instead.
+ */
+function shouldFallBack(err: unknown, signal?: AbortSignal) {
+  if (signal?.aborted || err instanceof SafetyBlockError) return false;
+  console.warn("Model recommendation failed, falling back to rule-based recommender:", err);
+  return true;
+}
+
+const RECOMMENDATION_PROMPT_VERSION = promptVersion(PROMPTS.career_recommendation);
+
+export function createCareerService(
+  provider: LLMProvider,
+  retryOptions?: RetryOptions
+): CareerService {
+  async function scanResume(source: ResumeSource, signal?: AbortSignal): Promise<ResumeData> {
+    const template = PROMPTS.resume_data;
+    return generateValidated<ResumeData>(
+      provider,
+      {
+        name: template.name,
+        prompt: template.render({ resumeText: "text" in source ? source.text : undefined }),
+        schema: resumeDataSchema,
+        document: "text" in source ? undefined : source,
+        signal,
+      },
+      retryOptions
+    );
+  }
+
+  function recommendationRequest(
+    education: string,
+    skills: string,
+    interests: string,
+    signal?: AbortSignal,
+    constraints: RefinementConstraints = emptyConstraints(),
+    experience?: string
+  ): GenerateJsonRequest {
+    const template = PROMPTS.career_recommendation;
+    return {
+      name: template.name,
+      prompt: template.render({ education, skills, interests, experience, constraints }),
+      schema: careerRecommendationSchema,
+      check: (value) => [
+        ...checkRecommendation(value),
+        ...constraintIssues(value as CareerRecommendation, constraints),
+      ],
+      signal,
+    };
+  }
+
+  async function getCareerRecommendations(
+    education: string,
+    skills: string,
+    interests: string,
+    signal?: AbortSignal,
+    engine: RecommendationEngine = "ai",
+    constraints?: RefinementConstraints,
+    experience?: string
+  ): Promise<CareerRecommendation> {
+    if (engine === "rules") return recommendFromRules(education, skills, interests, constraints);
+
+    try {
+      const recommendation = await generateValidated<CareerRecommendation>(
+        provider,
+        recommendationRequest(education, skills, interests, signal, constraints, experience),
+        retryOptions
+      );
+      return { ...annotateTracks(recommendation), promptVersion: RECOMMENDATION_PROMPT_VERSION, engine: "ai" };
+    } catch (err) {
+      if (!shouldFallBack(err, signal)) throw err;
+      return recommendFromRules(education, skills, interests, constraints);
+    }
+  }
+
+  async function* streamCareerRecommendations(
+    education: string,
+    skills: string,
+    interests: string,
+    signal?: AbortSignal,
+    engine: RecommendationEngine = "ai",
+    constraints?: RefinementConstraints,
+    experience?: string
+  ): AsyncGenerator<StreamUpdate<CareerRecommendation>> {
+    if (engine === "rules") {
+      yield { type: "done", data: recommendFromRules(education, skills, interests, constraints) };
+      return;
+    }
+
+    try {
+      for await (const update of streamValidated<CareerRecommendation>(
+        provider,
+        recommendationRequest(education, skills, interests, signal, constraints, experience),
+        retryOptions
+      )) {
+        yield update.type === "done"
+          ? {
+              type: "done",
+              data: { ...annotateTracks(update.data), promptVersion: RECOMMENDATION_PROMPT_VERSION, engine: "ai" },
+            }
+          : update;
+      }
+    } catch (err) {
+      if (!shouldFallBack(err, signal)) throw err;
+      yield { type: "done", data: recommendFromRules(education, skills, interests, constraints) };
+    }
+  }
+
+  async function generateLearningRoadmap(request: RoadmapRequest, signal?: AbortSignal): Promise<LearningRoadmap> {
+    const template = PROMPTS.learning_roadmap;
+    const { milestones } = await generateValidated<{ milestones: RoadmapMilestone[] }>(
+      provider,
+      {
+        name: template.name,
+        prompt: template.render(request),
+        schema: roadmapResponseSchema,
+        signal,
+      },
+      retryOptions
+    );
+
+    const ordered = orderMilestones(milestones);
+    return {
+      careerPath: request.careerPath,
+      granularity: request.granularity,
+      totalHours: ordered.reduce((sum, m) => sum + m.estimatedHours, 0),
+      milestones: ordered,
+      promptVersion: promptVersion(template),
+    };
+  }
+
+  async function analyzeSkillGap(request: SkillGapRequest, signal?: AbortSignal): Promise<SkillGapAnalysis> {
+    const template = PROMPTS.skill_gap_analysis;
+    return generateValidated<SkillGapAnalysis>(
+      provider,
+      {
+        name: template.name,
+        prompt: template.render(request),
+        schema: skillGapAnalysisSchema,
+        signal,
+      },
+      retryOptions
+    );
+  }
+
+  async function answerFollowUp(request: ChatRequest, signal?: AbortSignal): Promise<ChatMessage> {
+    const template = PROMPTS.chat_reply;
+    const { reply } = await generateValidated<{ reply: string }>(
+      provider,
+      {
+        name: template.name,
+        prompt: template.render(request),
+        schema: chatReplySchema,
+        signal,
+      },
+      retryOptions
+    );
+    return { role: "assistant", content: reply.trim(), promptVersion: promptVersion(template) };
+  }
+
+  async function generateInterviewQuestions(
+    request: InterviewRequest,
+    signal?: AbortSignal
+  ): Promise<Omit<InterviewQuestion, "id">[]> {
+    const template = PROMPTS.interview_questions;
+    const { questions } = await generateValidated<{ questions: Omit<InterviewQuestion, "id">[] }>(
+      provider,
+      {
+        name: template.name,
+        prompt: template.render(request),
+        schema: interviewQuestionsSchema,
+        signal,
+      },
+      retryOptions
+    );
+    return questions
+      .slice(0, INTERVIEW_QUESTION_COUNT)
+      .map((question) => ({ ...question, promptVersion: promptVersion(template) }));
+  }
+
+  async function gradeInterviewAnswer(request: AnswerToGrade, signal?: AbortSignal): Promise<InterviewFeedback> {
+    const template = PROMPTS.interview_feedback;
+    const feedback = await generateValidated<InterviewFeedback>(
+      provider,
+      {
+        name: template.name,
+        prompt: template.render(request),
+        schema: interviewFeedbackSchema,
+        signal,
+      },
+      retryOptions
+    );
+    return { ...feedback, promptVersion: promptVersion(template) };
+  }
+
+  async function generateProjectIdeas(request: ProjectIdeasRequest, signal?: AbortSignal): Promise<ProjectPlan> {
+    const { careerPath, skillsToLearn } = request;
+    const template = PROMPTS.project_ideas;
+    const { ideas } = await generateValidated<{ ideas: GeneratedProjectIdea[] }>(
+      provider,
+      {
+        name: template.name,
+        prompt: template.render(request),
+        schema: projectIdeasResponseSchema,
+        check: (value) => checkProjectIdeas(value, skillsToLearn),
+        signal,
+      },
+      retryOptions
+    );
+
+    // Report covered skills by the names the student sees, dropping any that are not gaps.
+    const byKey = new Map(skillsToLearn.map((skill) => [skillKey(skill), skill]));
+    return {
+      careerPath,
+      ideas: ideas
+        .map((idea) => ({
+          ...idea,
+          id: randomUUID(),
+          skillsCovered: byKey.size
+            ? Array.from(new Set(idea.skillsCovered.flatMap((skill) => byKey.get(skillKey(skill)) ?? [])))
+            : idea.skillsCovered,
+        }))
+        .sort((a, b) => PROFICIENCY_LEVELS.indexOf(a.level) - PROFICIENCY_LEVELS.indexOf(b.level)),
+      promptVersion: promptVersion(template),
+    };
+  }
+
+  return {
+    scanResume,
+    getCareerRecommendations,
+    streamCareerRecommendations,
+    generateLearningRoadmap,
+    analyzeSkillGap,
+    answerFollowUp,
+    generateInterviewQuestions,
+    gradeInterviewAnswer,
+    generateProjectIdeas,
+  };
+}
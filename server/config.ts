@@ -0,0 +1,103 @@
+export type ProviderId = "gemini" | "openai" | "fixture";
+
+export interface LLMConfig {
+  provider: ProviderId;
+  model: string;
+  apiKey?: string;
+  baseUrl: string;
+}
+
+const DEFAULT_MODELS: Record<ProviderId, string> = {
+  gemini: "gemini-3-flash-preview",
+  openai: "gpt-4o-mini",
+  fixture: "fixture",
+};
+
+const isProviderId = (value: string): value is ProviderId => value in DEFAULT_MODELS;
+
+export function loadLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const provider = (env.LLM_PROVIDER || "gemini").toLowerCase();
+  if (!isProviderId(provider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}". Use gemini, openai or fixture.`);
+  }
+
+  return {
+    provider,
+    model: env.LLM_MODEL || DEFAULT_MODELS[provider],
+    apiKey: provider === "gemini" ? env.GEMINI_API_KEY : env.OPENAI_API_KEY,
+    baseUrl: env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+  };
+}
+
+/** A non-negative number from `env[name]`, or `fallback` when it is unset. */
+function readCount(env: NodeJS.ProcessEnv, name: string, fallback: number, unit: string): number {
+  const raw = env[name];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid ${name} "${raw}". Use a number of ${unit}, or 0 to disable.`);
+  }
+  return value;
+}
+
+// Model output for the same inputs is worth reusing for a day; set 0 to only share in-flight requests.
+const DEFAULT_CACHE_TTL_MINUTES = 24 * 60;
+
+/** How long cached recommendations and resume scans are kept, from `CACHE_TTL_MINUTES`. */
+export function loadCacheTtlMs(env: NodeJS.ProcessEnv = process.env): number {
+  return readCount(env, "CACHE_TTL_MINUTES", DEFAULT_CACHE_TTL_MINUTES, "minutes") * 60_000;
+}
+
+export interface RateLimit {
+  /** Requests allowed per window; 0 means unlimited. */
+  limit: number;
+  windowMs: number;
+}
+
+export interface QuotaConfig {
+  /** Recommendation and resume scan requests from one client. */
+  perClient: RateLimit;
+  /** The same requests from everyone together. */
+  global: RateLimit;
+  /** Input plus output tokens all AI endpoints may use per UTC day; 0 means unlimited. */
+  dailyTokenBudget: number;
+  /** Bearer token for the usage report; the report is disabled without one. */
+  adminToken?: string;
+  /** Reverse proxies in front of the app, so limits see the client's address rather than the proxy's. */
+  trustProxyHops: number;
+}
+
+export function loadQuotaConfig(env: NodeJS.ProcessEnv = process.env): QuotaConfig {
+  return {
+    perClient: { limit: readCount(env, "RATE_LIMIT_PER_CLIENT", 10, "requests per minute"), windowMs: 60_000 },
+    global: { limit: readCount(env, "RATE_LIMIT_GLOBAL", 120, "requests per minute"), windowMs: 60_000 },
+    dailyTokenBudget: readCount(env, "DAILY_TOKEN_BUDGET", 2_000_000, "tokens"),
+    adminToken: env.ADMIN_TOKEN || undefined,
+    trustProxyHops: readCount(env, "TRUST_PROXY_HOPS", 0, "proxies"),
+  };
+}
+
+/** `env[name]` as a yes/no setting, or `fallback` when it is unset. */
+function readFlag(env: NodeJS.ProcessEnv, name: string, fallback: boolean): boolean {
+  const raw = env[name]?.trim().toLowerCase();
+  if (!raw) return fallback;
+  if (["true", "1", "yes", "on"].includes(raw)) return true;
+  if (["false", "0", "no", "off"].includes(raw)) return false;
+  throw new Error(`Invalid ${name} "${env[name]}". Use true or false.`);
+}
+
+export interface AuthConfig {
+  /** Whether the app works without signing in; guests keep roadmaps in their browser only. */
+  allowGuests: boolean;
+  /** How long a sign-in lasts. */
+  sessionTtlMs: number;
+}
+
+export function loadAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthConfig {
+  const days = readCount(env, "SESSION_DAYS", 30, "days");
+  if (!days) throw new Error("SESSION_DAYS must be more than 0.");
+  return {
+    allowGuests: readFlag(env, "ALLOW_GUESTS", true),
+    sessionTtlMs: days * 86_400_000,
+  };
+}
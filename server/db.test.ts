@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { migrate, openDatabase } from "./db";
+
+describe("migrate", () => {
+  test("gives roadmaps and interviews left without an owner to the earliest account", () => {
+    const db = openDatabase(":memory:");
+    const version = db.pragma("user_version", { simple: true }) as number;
+    const insertUser = db.prepare(
+      "INSERT INTO users (id, email, password_hash, display_name, created_at) VALUES (?, ?, 'hash', 'Student', ?)"
+    );
+    insertUser.run("second", "second@example.edu", 2);
+    insertUser.run("first", "first@example.edu", 1);
+    db.prepare(
+      `INSERT INTO history_items (id, title, date, created_at, recommendation, inputs)
+       VALUES ('plan', 'Plan', '', 0, '{}', '{}')`
+    ).run();
+    db.prepare(
+      `INSERT INTO interview_sessions (id, role, level, focus_topics, questions, created_at, updated_at)
+       VALUES ('interview', 'VLSI Engineer', 'beginner', '[]', '[]', 0, 0)`
+    ).run();
+
+    db.pragma(`user_version = ${version - 1}`);
+    migrate(db);
+
+    assert.equal(db.prepare("SELECT user_id FROM history_items").pluck().get(), "first");
+    assert.equal(db.prepare("SELECT user_id FROM interview_sessions").pluck().get(), "first");
+  });
+});
@@ -0,0 +1,150 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+
+export type DB = Database.Database;
+
+/**
+ * Schema migrations, applied in order. The index of the last applied entry
+ * plus one is stored in `PRAGMA user_version`; append new entries, never edit
+ * old ones.
+ */
+const migrations: string[] = [
+  `
+  CREATE TABLE history_items (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    date TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    recommendation TEXT NOT NULL,
+    inputs TEXT NOT NULL
+  );
+  CREATE INDEX history_items_created_at ON history_items (created_at DESC);
+  `,
+  `
+  ALTER TABLE history_items ADD COLUMN roadmap TEXT;
+  `,
+  `
+  CREATE TABLE shares (
+    id TEXT PRIMARY KEY,
+    history_id TEXT NOT NULL REFERENCES history_items (id) ON DELETE CASCADE,
+    snapshot TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER,
+    revoked_at INTEGER
+  );
+  CREATE INDEX shares_history_id ON shares (history_id);
+  `,
+  `
+  ALTER TABLE history_items ADD COLUMN conversation TEXT;
+  `,
+  `
+  ALTER TABLE history_items ADD COLUMN versions TEXT;
+  `,
+  `
+  CREATE TABLE interview_sessions (
+    id TEXT PRIMARY KEY,
+    role TEXT NOT NULL,
+    level TEXT NOT NULL,
+    focus_topics TEXT NOT NULL,
+    questions TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX interview_sessions_updated_at ON interview_sessions (updated_at DESC);
+  `,
+  `
+  ALTER TABLE history_items ADD COLUMN projects TEXT;
+  `,
+  `
+  CREATE TABLE response_cache (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    stored_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+  CREATE INDEX response_cache_expires_at ON response_cache (expires_at);
+  `,
+  `
+  CREATE TABLE usage_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    client TEXT NOT NULL,
+    endpoint TEXT NOT NULL,
+    status INTEGER,
+    model_calls INTEGER NOT NULL DEFAULT 0,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX usage_events_created_at ON usage_events (created_at);
+  `,
+  // Roadmaps and interviews saved before accounts existed have no owner until the first account
+  // registers and takes them over (see `createUserStore`).
+  `
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    password_hash TEXT NOT NULL,
+    display_name TEXT NOT NULL,
+    profile TEXT,
+    created_at INTEGER NOT NULL
+  );
+  CREATE TABLE sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+  CREATE INDEX sessions_user_id ON sessions (user_id);
+  CREATE INDEX sessions_expires_at ON sessions (expires_at);
+  ALTER TABLE history_items ADD COLUMN user_id TEXT REFERENCES users (id) ON DELETE CASCADE;
+  CREATE INDEX history_items_user_id ON history_items (user_id, created_at DESC);
+  ALTER TABLE interview_sessions ADD COLUMN user_id TEXT REFERENCES users (id) ON DELETE CASCADE;
+  CREATE INDEX interview_sessions_user_id ON interview_sessions (user_id, updated_at DESC);
+  `,
+  `
+  ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'student';
+  ALTER TABLE users ADD COLUMN year INTEGER;
+  ALTER TABLE users ADD COLUMN section TEXT;
+  ALTER TABLE users ADD COLUMN share_with_advisors INTEGER NOT NULL DEFAULT 0;
+  CREATE TABLE advisor_comments (
+    id TEXT PRIMARY KEY,
+    student_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    advisor_id TEXT REFERENCES users (id) ON DELETE SET NULL,
+    body TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX advisor_comments_student_id ON advisor_comments (student_id, created_at);
+  `,
+  // Databases that gained accounts before the first one took over older roadmaps and
+  // interviews: give them to the earliest account, so they and their share links can be managed.
+  `
+  UPDATE history_items SET user_id = (SELECT id FROM users ORDER BY created_at, rowid LIMIT 1)
+  WHERE user_id IS NULL;
+  UPDATE interview_sessions SET user_id = (SELECT id FROM users ORDER BY created_at, rowid LIMIT 1)
+  WHERE user_id IS NULL;
+  `,
+];
+
+export function migrate(db: DB) {
+  const current = db.pragma("user_version", { simple: true }) as number;
+  const apply = db.transaction(() => {
+    for (let version = current; version < migrations.length; version++) {
+      db.exec(migrations[version]);
+    }
+    db.pragma(`user_version = ${migrations.length}`);
+  });
+  if (current < migrations.length) apply();
+}
+
+/** Opens (creating if needed) the SQLite database and brings its schema up to date. */
+export function openDatabase(filename = process.env.DATABASE_PATH || "data/pathfinder.db"): DB {
+  if (filename !== ":memory:") {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+  }
+  const db = new Database(filename);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  migrate(db);
+  return db;
+}
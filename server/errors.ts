@@ -0,0 +1,75 @@
+import type { AIErrorCategory } from "../src/types";
+
+/**
+ * Base class for failures talking to a model. `retryable` marks errors that
+ * are worth retrying with backoff; `status` is the HTTP status the API
+ * responds with.
+ */
+export class LLMError extends Error {
+  readonly category: AIErrorCategory = "unknown";
+  readonly retryable: boolean = false;
+  readonly status: number = 500;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+export class NetworkError extends LLMError {
+  readonly category = "network";
+  readonly retryable = true;
+  readonly status = 503;
+
+  constructor(message = "Could not reach the AI service. Check your connection and try again.", options?: { cause?: unknown }) {
+    super(message, options);
+  }
+}
+
+export class QuotaError extends LLMError {
+  readonly category = "quota";
+  readonly retryable = true;
+  readonly status = 429;
+
+  constructor(message = "The AI service quota has been reached. Please wait a minute and try again.", options?: { cause?: unknown }) {
+    super(message, options);
+  }
+}
+
+export class SafetyBlockError extends LLMError {
+  readonly category = "safety";
+  readonly status = 422;
+
+  constructor(message = "The request was blocked by the AI safety filters. Try rephrasing your input.", options?: { cause?: unknown }) {
+    super(message, options);
+  }
+}
+
+export class MalformedOutputError extends LLMError {
+  readonly category = "malformed_output";
+  readonly status = 502;
+
+  constructor(
+    message = "The AI returned an incomplete or invalid answer. Please try again.",
+    readonly issues: string[] = [],
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+  }
+}
+
+/** Maps an HTTP status from a provider to the matching error class. */
+export function errorFromStatus(status: number, detail: string, cause?: unknown): LLMError {
+  if (status === 429) return new QuotaError(undefined, { cause });
+  if (status >= 500 || status === 408) return new NetworkError(undefined, { cause });
+  return new LLMError(`AI request failed (${status}): ${detail}`, { cause });
+}
+
+/** Normalizes anything thrown by a provider into an `LLMError`. */
+export function toLLMError(err: unknown): LLMError {
+  if (err instanceof LLMError) return err;
+  // fetch() rejects with a TypeError when the connection itself fails.
+  if (err instanceof TypeError) return new NetworkError(undefined, { cause: err });
+  const message = err instanceof Error ? err.message : String(err);
+  return new LLMError(message, { cause: err });
+}
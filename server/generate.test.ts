@@ -0,0 +1,153 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { CareerRecommendation } from "../src/types";
+import {
+  LLMError,
+  MalformedOutputError,
+  NetworkError,
+  QuotaError,
+  SafetyBlockError,
+  errorFromStatus,
+  toLLMError,
+} from "./errors";
+import { generateValidated, streamValidated, type StreamUpdate } from "./generate";
+import type { GenerateJsonRequest, JsonSchema, LLMProvider } from "./providers";
+import { startTestApp } from "./testApp";
+
+const schema: JsonSchema = {
+  type: "object",
+  properties: { answer: { type: "integer", minimum: 0 } },
+  required: ["answer"],
+};
+
+const REQUEST: GenerateJsonRequest = { name: "answer", prompt: "What is six times seven?", schema };
+const NO_WAIT = { retries: 2, sleep: async () => {} };
+
+/** The error `promise` rejects with. */
+const failure = (promise: Promise<unknown>) =>
+  promise.then(
+    () => assert.fail("expected the call to fail"),
+    (err: LLMError) => err
+  );
+
+/** Answers each call with the next scripted reply, throwing the ones that are errors. */
+function scriptedProvider(replies: (string | Error)[], chunks?: string[]) {
+  const prompts: string[] = [];
+  const provider: LLMProvider = {
+    id: "scripted",
+    model: "scripted",
+    async generateJson(request) {
+      prompts.push(request.prompt);
+      const reply = replies.shift();
+      if (reply === undefined) throw new Error("No more scripted replies");
+      if (reply instanceof Error) throw reply;
+      return reply;
+    },
+    ...(chunks
+      ? {
+          async *streamJson(request: GenerateJsonRequest) {
+            prompts.push(request.prompt);
+            yield* chunks;
+          },
+        }
+      : {}),
+  };
+  return { provider, prompts };
+}
+
+describe("generateValidated", () => {
+  test("retries a transient failure, then repairs invalid output once", async () => {
+    const { provider, prompts } = scriptedProvider([new NetworkError(), '{"answer": "42"}', '{"answer": 42}']);
+    assert.deepEqual(await generateValidated(provider, REQUEST, NO_WAIT), { answer: 42 });
+    assert.equal(prompts.length, 3);
+    assert.equal(prompts[1], REQUEST.prompt);
+    assert.match(prompts[2], /\$\.answer must be a number/);
+    assert.match(prompts[2], /\{"answer": "42"\}/);
+  });
+
+  test("repairs output that fails the request's own checks", async () => {
+    const { provider, prompts } = scriptedProvider(['{"answer": 41}', '{"answer": 42}']);
+    const check = (value: unknown) => ((value as { answer: number }).answer === 42 ? [] : ["answer is wrong"]);
+    assert.deepEqual(await generateValidated(provider, { ...REQUEST, check }, NO_WAIT), { answer: 42 });
+    assert.equal(prompts.length, 2);
+    assert.match(prompts[1], /answer is wrong/);
+  });
+
+  test("gives up with the problems after a single repair", async () => {
+    const { provider, prompts } = scriptedProvider(["not json", '{"answer": -1}', '{"answer": 42}']);
+    const error = await failure(generateValidated(provider, REQUEST, NO_WAIT));
+    assert.ok(error instanceof MalformedOutputError);
+    assert.deepEqual(error.issues, ["$.answer must be >= 0"]);
+    assert.equal(prompts.length, 2);
+  });
+
+  test("stops retrying transient failures after the configured attempts", async () => {
+    const { provider, prompts } = scriptedProvider([new QuotaError(), new QuotaError(), new QuotaError(), "{}"]);
+    const error = await failure(generateValidated(provider, REQUEST, NO_WAIT));
+    assert.equal(error.category, "quota");
+    assert.equal(prompts.length, 3);
+  });
+
+  test("does not retry a safety block", async () => {
+    const { provider, prompts } = scriptedProvider([new SafetyBlockError(), '{"answer": 42}']);
+    const error = await failure(generateValidated(provider, REQUEST, NO_WAIT));
+    assert.equal(error.category, "safety");
+    assert.equal(prompts.length, 1);
+  });
+});
+
+describe("streamValidated", () => {
+  test("yields partial results, then repairs the finished output", async () => {
+    const { provider, prompts } = scriptedProvider(['{"answer": 42}'], ['{"answer"', ': "forty', '-two"}']);
+    const updates: StreamUpdate<{ answer: number }>[] = [];
+    for await (const update of streamValidated<{ answer: number }>(provider, REQUEST, NO_WAIT)) updates.push(update);
+
+    assert.deepEqual(updates.at(-1), { type: "done", data: { answer: 42 } });
+    assert.ok(updates.slice(0, -1).every((update) => update.type === "partial"));
+    assert.deepEqual(updates.at(-2), { type: "partial", data: { answer: "forty-two" } });
+    assert.equal(prompts.length, 2);
+  });
+});
+
+describe("provider errors", () => {
+  test("map to categories the client can act on", () => {
+    assert.equal(errorFromStatus(429, "").category, "quota");
+    assert.equal(errorFromStatus(503, "").category, "network");
+    assert.equal(errorFromStatus(408, "").category, "network");
+    assert.equal(errorFromStatus(400, "bad request").category, "unknown");
+    assert.equal(toLLMError(new TypeError("fetch failed")).category, "network");
+    assert.equal(toLLMError("boom").category, "unknown");
+    assert.ok(toLLMError(new SafetyBlockError()) instanceof SafetyBlockError);
+  });
+
+  test("reach the client with their status and category", async () => {
+    const cases: [string | Error, number, string][] = [
+      [new QuotaError(), 429, "quota"],
+      [new SafetyBlockError(), 422, "safety"],
+      [new NetworkError(), 503, "network"],
+      ["not json", 502, "malformed_output"],
+      [new LLMError("Unexpected"), 500, "unknown"],
+    ];
+    for (const [reply, status, category] of cases) {
+      const { provider } = scriptedProvider([reply, reply]);
+      const app = await startTestApp({ provider });
+      try {
+        const recommendation = (
+          await app.request<CareerRecommendation>("POST", "/api/recommendations", {
+            body: { education: "B.Tech ECE", skills: "Verilog", interests: "VLSI", engine: "rules" },
+          })
+        ).body;
+        const res = await app.request<{ category: string }>("POST", "/api/chat", {
+          body: {
+            inputs: { education: "B.Tech ECE", skills: "Verilog", interests: "VLSI" },
+            recommendation,
+            messages: [{ role: "user", content: "Which path pays best?" }],
+          },
+        });
+        assert.deepEqual([res.status, res.body.category], [status, category], String(reply));
+      } finally {
+        await app.close();
+      }
+    }
+  });
+});
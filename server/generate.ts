@@ -0,0 +1,126 @@
+import { parseAndValidate, type ValidationResult } from "../src/lib/validation";
+import { MalformedOutputError, toLLMError } from "./errors";
+import type { GenerateJsonRequest, LLMProvider } from "./providers";
+import { parsePartialJson } from "./partialJson";
+
+export interface RetryOptions {
+  /** Extra attempts after the first one for transient failures. */
+  retries?: number;
+  baseDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/** Runs `fn`, retrying retryable `LLMError`s with exponential backoff and jitter. */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  { retries = 2, baseDelayMs = 500, sleep = defaultSleep }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      const error = toLLMError(err);
+      if (!error.retryable || attempt >= retries) throw error;
+      const delay = baseDelayMs * 2 ** attempt;
+      await sleep(delay + Math.random() * delay * 0.25);
+    }
+  }
+}
+
+/** Schema validation followed by the request's own domain checks, if any. */
+function parseOutput<T>(text: string, request: GenerateJsonRequest): ValidationResult<T> {
+  const parsed = parseAndValidate<T>(text, request.schema);
+  if (parsed.issues.length || !request.check) return parsed;
+
+  const issues = request.check(parsed.value);
+  return issues.length ? { issues } : parsed;
+}
+
+function repairPrompt(request: GenerateJsonRequest, previous: string, issues: string[]) {
+  return `${request.prompt}
+
+    Your previous response did not meet the requirements.
+    Problems found:
+${issues.map((issue) => `    - ${issue}`).join("\n")}
+
+    Previous response:
+    ${previous || "(empty)"}
+
+    Reply again with only the corrected JSON object, including every required field.
+  `;
+}
+
+/** Re-prompts once with the validation problems, throwing if the retry is still invalid. */
+async function repair<T>(
+  provider: LLMProvider,
+  request: GenerateJsonRequest,
+  previous: string,
+  issues: string[],
+  retryOptions?: RetryOptions
+): Promise<T> {
+  console.warn(`Invalid ${request.name} response, attempting repair:`, issues);
+  const repairRequest = { ...request, prompt: repairPrompt(request, previous, issues) };
+  const second = await withRetry(() => provider.generateJson(repairRequest), retryOptions);
+  const repaired = parseOutput<T>(second, request);
+  if (!repaired.issues.length) return repaired.value as T;
+
+  throw new MalformedOutputError(undefined, repaired.issues);
+}
+
+/**
+ * Generates JSON with `provider`, validates it against the request schema and
+ * checks and, if it does not conform, re-prompts once with the validation
+ * problems before giving up with a `MalformedOutputError`.
+ */
+export async function generateValidated<T>(
+  provider: LLMProvider,
+  request: GenerateJsonRequest,
+  retryOptions?: RetryOptions
+): Promise<T> {
+  const first = await withRetry(() => provider.generateJson(request), retryOptions);
+  const parsed = parseOutput<T>(first, request);
+  if (!parsed.issues.length) return parsed.value as T;
+
+  return repair<T>(provider, request, first, parsed.issues, retryOptions);
+}
+
+export type StreamUpdate<T> =
+  | { type: "partial"; data: Partial<T> }
+  | { type: "done"; data: T };
+
+/**
+ * Streaming counterpart of `generateValidated`: yields each new partial parse
+ * of the output, then the validated (or repaired) result. Providers without
+ * `streamJson` produce a single final update. Mid-stream failures are not
+ * retried, since partial output may already have been shown.
+ */
+export async function* streamValidated<T>(
+  provider: LLMProvider,
+  request: GenerateJsonRequest,
+  retryOptions?: RetryOptions
+): AsyncGenerator<StreamUpdate<T>> {
+  if (!provider.streamJson) {
+    yield { type: "done", data: await generateValidated<T>(provider, request, retryOptions) };
+    return;
+  }
+
+  let text = "";
+  let lastSnapshot = "";
+  for await (const chunk of provider.streamJson(request)) {
+    text += chunk;
+    const partial = parsePartialJson(text);
+    const snapshot = JSON.stringify(partial);
+    if (partial && snapshot !== lastSnapshot) {
+      lastSnapshot = snapshot;
+      yield { type: "partial", data: partial as Partial<T> };
+    }
+  }
+
+  const parsed = parseOutput<T>(text, request);
+  const data = parsed.issues.length
+    ? await repair<T>(provider, request, text, parsed.issues, retryOptions)
+    : (parsed.value as T);
+  yield { type: "done", data };
+}
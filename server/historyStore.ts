@@ -0,0 +1,177 @@
+import { randomUUID } from "crypto";
+import { upgradeRecommendation } from "../src/lib/history";
+import type {
+  CareerRecommendation,
+  ChatMessage,
+  HistoryItem,
+  LearningRoadmap,
+  ProjectPlan,
+  RecommendationVersion,
+} from "../src/types";
+import type { DB } from "./db";
+
+interface HistoryRow {
+  id: string;
+  title: string;
+  date: string;
+  created_at: number;
+  recommendation: string;
+  inputs: string;
+  roadmap: string | null;
+  projects: string | null;
+  conversation: string | null;
+  versions: string | null;
+}
+
+export type NewHistoryItem = Omit<HistoryItem, "id"> & { id?: string };
+
+/** Saved roadmaps, each belonging to one user; every method only sees `userId`'s items. */
+export interface HistoryStore {
+  list(userId: string): HistoryItem[];
+  get(userId: string, id: string): HistoryItem | undefined;
+  create(userId: string, item: NewHistoryItem): HistoryItem;
+  rename(userId: string, id: string, title: string): HistoryItem | undefined;
+  /** Attaches (or with `null`, detaches) a learning roadmap. */
+  setRoadmap(userId: string, id: string, roadmap: LearningRoadmap | null): HistoryItem | undefined;
+  /** Replaces the project ideas and their statuses; `null` removes them. */
+  setProjects(userId: string, id: string, projects: ProjectPlan | null): HistoryItem | undefined;
+  /** Replaces the recommendation after a refinement, along with the version chain that led to it. */
+  setRecommendation(
+    userId: string,
+    id: string,
+    recommendation: CareerRecommendation,
+    versions: RecommendationVersion[]
+  ): HistoryItem | undefined;
+  /** Replaces the follow-up conversation; `null` or an empty list removes it. */
+  setConversation(userId: string, id: string, conversation: ChatMessage[] | null): HistoryItem | undefined;
+  remove(userId: string, id: string): boolean;
+  clear(userId: string): void;
+  /**
+   * Inserts items keeping their ids and `createdAt`, skipping ids the user already has. An id
+   * taken by someone else, e.g. a roadmap exported by a friend, is given a new one. `savedIds`
+   * are the incoming ids now in the account, whether imported or already there.
+   */
+  importMany(userId: string, items: HistoryItem[]): { imported: number; savedIds: string[] };
+}
+
+const fromRow = (row: HistoryRow): HistoryItem => ({
+  id: row.id,
+  title: row.title,
+  date: row.date,
+  createdAt: new Date(row.created_at).toISOString(),
+  recommendation: upgradeRecommendation(JSON.parse(row.recommendation)),
+  inputs: JSON.parse(row.inputs),
+  ...(row.roadmap ? { roadmap: JSON.parse(row.roadmap) } : {}),
+  ...(row.projects ? { projects: JSON.parse(row.projects) } : {}),
+  ...(row.conversation ? { conversation: JSON.parse(row.conversation) } : {}),
+  ...(row.versions ? { versions: JSON.parse(row.versions) } : {}),
+});
+
+export function createHistoryStore(db: DB): HistoryStore {
+  const listStmt = db.prepare<[string], HistoryRow>(
+    "SELECT * FROM history_items WHERE user_id = ? ORDER BY created_at DESC"
+  );
+  const getStmt = db.prepare<[string, string], HistoryRow>(
+    "SELECT * FROM history_items WHERE id = ? AND user_id = ?"
+  );
+  const ownerStmt = db.prepare<[string], { user_id: string | null }>(
+    "SELECT user_id FROM history_items WHERE id = ?"
+  );
+  const insertStmt = db.prepare(
+    `INSERT OR IGNORE INTO history_items (id, user_id, title, date, created_at, recommendation, inputs, roadmap, projects, conversation, versions)
+     VALUES (@id, @user_id, @title, @date, @created_at, @recommendation, @inputs, @roadmap, @projects, @conversation, @versions)`
+  );
+  const renameStmt = db.prepare("UPDATE history_items SET title = ? WHERE id = ? AND user_id = ?");
+  const roadmapStmt = db.prepare("UPDATE history_items SET roadmap = ? WHERE id = ? AND user_id = ?");
+  const projectsStmt = db.prepare("UPDATE history_items SET projects = ? WHERE id = ? AND user_id = ?");
+  const recommendationStmt = db.prepare(
+    "UPDATE history_items SET recommendation = ?, versions = ? WHERE id = ? AND user_id = ?"
+  );
+  const conversationStmt = db.prepare(
+    "UPDATE history_items SET conversation = ? WHERE id = ? AND user_id = ?"
+  );
+  const deleteStmt = db.prepare("DELETE FROM history_items WHERE id = ? AND user_id = ?");
+  const clearStmt = db.prepare("DELETE FROM history_items WHERE user_id = ?");
+
+  const insert = (userId: string, item: HistoryItem, createdAt: number) =>
+    insertStmt.run({
+      id: item.id,
+      user_id: userId,
+      title: item.title,
+      date: item.date,
+      created_at: createdAt,
+      recommendation: JSON.stringify(item.recommendation),
+      inputs: JSON.stringify(item.inputs),
+      roadmap: item.roadmap ? JSON.stringify(item.roadmap) : null,
+      projects: item.projects ? JSON.stringify(item.projects) : null,
+      conversation: item.conversation?.length ? JSON.stringify(item.conversation) : null,
+      versions: item.versions?.length ? JSON.stringify(item.versions) : null,
+    }).changes > 0;
+
+  const get = (userId: string, id: string) => {
+    const row = getStmt.get(id, userId);
+    return row ? fromRow(row) : undefined;
+  };
+
+  return {
+    list: (userId) => listStmt.all(userId).map(fromRow),
+    get,
+    create(userId, item) {
+      const createdAt = Date.now();
+      const created: HistoryItem = {
+        ...item,
+        id: item.id || randomUUID(),
+        createdAt: new Date(createdAt).toISOString(),
+      };
+      insert(userId, created, createdAt);
+      return created;
+    },
+    rename(userId, id, title) {
+      renameStmt.run(title, id, userId);
+      return get(userId, id);
+    },
+    setRoadmap(userId, id, roadmap) {
+      roadmapStmt.run(roadmap ? JSON.stringify(roadmap) : null, id, userId);
+      return get(userId, id);
+    },
+    setProjects(userId, id, projects) {
+      projectsStmt.run(projects ? JSON.stringify(projects) : null, id, userId);
+      return get(userId, id);
+    },
+    setRecommendation(userId, id, recommendation, versions) {
+      recommendationStmt.run(
+        JSON.stringify(recommendation),
+        versions.length ? JSON.stringify(versions) : null,
+        id,
+        userId
+      );
+      return get(userId, id);
+    },
+    setConversation(userId, id, conversation) {
+      conversationStmt.run(conversation?.length ? JSON.stringify(conversation) : null, id, userId);
+      return get(userId, id);
+    },
+    remove: (userId, id) => deleteStmt.run(id, userId).changes > 0,
+    clear(userId) {
+      clearStmt.run(userId);
+    },
+    importMany: db.transaction((userId: string, items: HistoryItem[]) => {
+      const now = Date.now();
+      let imported = 0;
+      const saved = items.filter((item, i) => {
+        const existing = ownerStmt.get(item.id);
+        if (existing?.user_id === userId) return true;
+        // Items from older exports have no creation time: keep their newest-first order, as of now.
+        const createdAt = Date.parse(item.createdAt ?? "");
+        const inserted = insert(
+          userId,
+          existing ? { ...item, id: randomUUID() } : item,
+          Number.isFinite(createdAt) ? createdAt : now - i
+        );
+        if (inserted) imported++;
+        return inserted;
+      });
+      return { imported, savedIds: saved.map((item) => item.id) };
+    }),
+  };
+}
@@ -0,0 +1,84 @@
+import { randomUUID } from "crypto";
+import type { InterviewQuestion, InterviewSession, ProficiencyLevel } from "../src/types";
+import type { DB } from "./db";
+
+interface InterviewRow {
+  id: string;
+  role: string;
+  level: ProficiencyLevel;
+  focus_topics: string;
+  questions: string;
+  created_at: number;
+  updated_at: number;
+}
+
+export type NewInterviewSession = Pick<InterviewSession, "role" | "level" | "focusTopics" | "questions">;
+
+/** Mock interview sessions, each belonging to one user; every method only sees `userId`'s sessions. */
+export interface InterviewStore {
+  /** Most recently practised first; `role` narrows to one internship role. */
+  list(userId: string, role?: string): InterviewSession[];
+  get(userId: string, id: string): InterviewSession | undefined;
+  create(userId: string, session: NewInterviewSession): InterviewSession;
+  setQuestions(userId: string, id: string, questions: InterviewQuestion[]): InterviewSession | undefined;
+  remove(userId: string, id: string): boolean;
+}
+
+const fromRow = (row: InterviewRow): InterviewSession => ({
+  id: row.id,
+  role: row.role,
+  level: row.level,
+  focusTopics: JSON.parse(row.focus_topics),
+  questions: JSON.parse(row.questions),
+  createdAt: new Date(row.created_at).toISOString(),
+  updatedAt: new Date(row.updated_at).toISOString(),
+});
+
+export function createInterviewStore(db: DB): InterviewStore {
+  const listStmt = db.prepare<[string], InterviewRow>(
+    "SELECT * FROM interview_sessions WHERE user_id = ? ORDER BY updated_at DESC"
+  );
+  const listByRoleStmt = db.prepare<[string, string], InterviewRow>(
+    "SELECT * FROM interview_sessions WHERE user_id = ? AND role = ? ORDER BY updated_at DESC"
+  );
+  const getStmt = db.prepare<[string, string], InterviewRow>(
+    "SELECT * FROM interview_sessions WHERE id = ? AND user_id = ?"
+  );
+  const insertStmt = db.prepare(
+    `INSERT INTO interview_sessions (id, user_id, role, level, focus_topics, questions, created_at, updated_at)
+     VALUES (@id, @user_id, @role, @level, @focus_topics, @questions, @created_at, @updated_at)`
+  );
+  const questionsStmt = db.prepare(
+    "UPDATE interview_sessions SET questions = ?, updated_at = ? WHERE id = ? AND user_id = ?"
+  );
+  const deleteStmt = db.prepare("DELETE FROM interview_sessions WHERE id = ? AND user_id = ?");
+
+  const get = (userId: string, id: string) => {
+    const row = getStmt.get(id, userId);
+    return row ? fromRow(row) : undefined;
+  };
+
+  return {
+    list: (userId, role) => (role ? listByRoleStmt.all(userId, role) : listStmt.all(userId)).map(fromRow),
+    get,
+    create(userId, { role, level, focusTopics, questions }) {
+      const now = Date.now();
+      const row: InterviewRow = {
+        id: randomUUID(),
+        role,
+        level,
+        focus_topics: JSON.stringify(focusTopics),
+        questions: JSON.stringify(questions),
+        created_at: now,
+        updated_at: now,
+      };
+      insertStmt.run({ ...row, user_id: userId });
+      return fromRow(row);
+    },
+    setQuestions(userId, id, questions) {
+      questionsStmt.run(JSON.stringify(questions), Date.now(), id, userId);
+      return get(userId, id);
+    },
+    remove: (userId, id) => deleteStmt.run(id, userId).changes > 0,
+  };
+}
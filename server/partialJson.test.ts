@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { parsePartialJson } from "./partialJson";
+
+// Escaped quotes and backslashes, \u escapes (including a surrogate pair), negative and
+// fractional numbers, literals, and arrays nested in objects nested in arrays.
+const RECOMMENDATION = `{
+  "careerPaths": [
+    {
+      "title": "FPGA \\"Prototyping\\" Engineer",
+      "fitScore": 87,
+      "rationale": "Verilog \\u0026 timing closure \\u2014 a strong start \\ud83d\\ude80 on C:\\\\tools",
+      "entryLevelTitles": ["FPGA Engineer", "RTL Designer"],
+      "exampleEmployers": [],
+      "salaryBands": [
+        { "level": "entry", "min": 6.5, "max": 12, "currency": "INR", "unit": "LPA" },
+        { "level": "mid", "min": -1.25e2, "max": 1200, "currency": "INR", "unit": "LPA" }
+      ],
+      "transferableSkills": [["Verilog", "SystemVerilog"], []],
+      "remote": false,
+      "notes": null
+    }
+  ],
+  "internshipRoles": ["FPGA Intern"],
+  "skillsToLearn": ["UVM"],
+  "summary": "Focus on \\"verification\\" next."
+}`;
+
+/**
+ * Whether `partial` could be the start of `full`: every value it has agrees with
+ * `full`, except that strings may still be arriving and containers may be short.
+ */
+function consistent(partial: unknown, full: unknown, path = "$"): void {
+  if (typeof partial === "string" && typeof full === "string") {
+    assert.ok(full.startsWith(partial), `${path}: "${partial}" is not the start of "${full}"`);
+  } else if (Array.isArray(partial)) {
+    assert.ok(Array.isArray(full) && partial.length <= full.length, `${path}: unexpected array`);
+    partial.forEach((item, i) => consistent(item, full[i], `${path}[${i}]`));
+  } else if (partial && typeof partial === "object") {
+    assert.ok(full && typeof full === "object" && !Array.isArray(full), `${path}: unexpected object`);
+    for (const [key, value] of Object.entries(partial)) {
+      assert.ok(key in full, `${path}: unexpected key ${key}`);
+      consistent(value, (full as Record<string, unknown>)[key], `${path}.${key}`);
+    }
+  } else {
+    assert.deepEqual(partial, full, path);
+  }
+}
+
+describe("parsePartialJson", () => {
+  const full = JSON.parse(RECOMMENDATION);
+
+  test("never throws and never contradicts the finished document, at any prefix", () => {
+    for (let end = 0; end <= RECOMMENDATION.length; end++) {
+      const prefix = RECOMMENDATION.slice(0, end);
+      const partial = parsePartialJson(prefix);
+      if (partial === undefined) continue;
+      assert.doesNotThrow(() => consistent(partial, full), `prefix of ${end} characters`);
+    }
+  });
+
+  test("returns the whole document once it is complete", () => {
+    assert.deepEqual(parsePartialJson(RECOMMENDATION), full);
+    assert.deepEqual(parsePartialJson(`Here you go:\n${RECOMMENDATION}\n`), full);
+  });
+
+  test("leaves out a number until it is complete", () => {
+    const cut = RECOMMENDATION.indexOf('"fitScore": 87') + '"fitScore": 8'.length;
+    const partial = parsePartialJson(RECOMMENDATION.slice(0, cut)) as typeof full;
+    assert.equal(partial.careerPaths[0].fitScore, undefined);
+    assert.equal(partial.careerPaths[0].title, 'FPGA "Prototyping" Engineer');
+  });
+
+  test("shows a string property as far as it has arrived, but not a cut escape", () => {
+    const summary = RECOMMENDATION.indexOf('"summary": "') + '"summary": "'.length;
+    const words = parsePartialJson(RECOMMENDATION.slice(0, summary + "Focus on".length)) as typeof full;
+    assert.equal(words.summary, "Focus on");
+    const escape = parsePartialJson(RECOMMENDATION.slice(0, summary + "Focus on \\".length)) as typeof full;
+    assert.equal(escape.summary, "Focus on ");
+  });
+
+  test("returns undefined before an object opens", () => {
+    assert.equal(parsePartialJson(""), undefined);
+    assert.equal(parsePartialJson("```json\n"), undefined);
+  });
+});
@@ -0,0 +1,104 @@
+type Frame = { type: "{" | "["; expectKey: boolean };
+
+interface SafePoint {
+  pos: number;
+  stack: Frame[];
+}
+
+const closers = (stack: Frame[]) =>
+  stack
+    .map((frame) => (frame.type === "{" ? "}" : "]"))
+    .reverse()
+    .join("");
+
+/**
+ * Best-effort parse of a JSON document that is still being streamed.
+ *
+ * The text is cut back to the last point where a value was complete and the
+ * open objects/arrays are closed. Array items only appear once complete, while
+ * a string property that is still arriving is included as far as it got, so a
+ * summary can render word by word. Returns `undefined` until an object opens.
+ */
+export function parsePartialJson(text: string): unknown {
+  const start = text.indexOf("{");
+  if (start === -1) return undefined;
+
+  const stack: Frame[] = [];
+  let safe: SafePoint | undefined;
+  let inString = false;
+  let isKey = false;
+  let escaped = false;
+
+  const markSafe = (pos: number) => {
+    safe = { pos, stack: stack.map((frame) => ({ ...frame })) };
+  };
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    const top = stack[stack.length - 1];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (ch === "\\") {
+        escaped = true;
+      } else if (ch === '"') {
+        inString = false;
+        if (!isKey) markSafe(i + 1);
+      }
+      continue;
+    }
+
+    switch (ch) {
+      case '"':
+        inString = true;
+        isKey = top?.type === "{" && top.expectKey;
+        break;
+      case "{":
+      case "[":
+        stack.push({ type: ch, expectKey: ch === "{" });
+        markSafe(i + 1);
+        break;
+      case "}":
+      case "]":
+        stack.pop();
+        markSafe(i + 1);
+        if (!stack.length) {
+          try {
+            return JSON.parse(text.slice(start, i + 1));
+          } catch {
+            return undefined;
+          }
+        }
+        break;
+      case ":":
+        if (top) top.expectKey = false;
+        break;
+      case ",":
+        markSafe(i);
+        if (top?.type === "{") top.expectKey = true;
+        break;
+    }
+  }
+
+  // Prefer closing a string property mid-value; fall back to the last safe point
+  // if that does not parse (e.g. the cut landed inside a \u escape).
+  const candidates: string[] = [];
+  const top = stack[stack.length - 1];
+  if (inString && !isKey && top?.type === "{") {
+    const partial = escaped ? text.slice(start, -1) : text.slice(start);
+    candidates.push(`${partial}"${closers(stack)}`);
+  }
+  if (safe) {
+    candidates.push(text.slice(start, safe.pos) + closers(safe.stack));
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next, shorter candidate.
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,48 @@
+import type { ChatRequest } from "../../src/types";
+import { UNTRUSTED_CONTENT_RULE, definePrompt, profileBlock, userContent } from "./template";
+
+export const chatReplyPrompt = definePrompt<ChatRequest>(
+  "chat_reply",
+  2,
+  ({ inputs, recommendation, messages }) => {
+    // The recommendation comes back from the browser, so it is delimited like the student's own text.
+    const summary = [
+      `Summary: ${recommendation.summary}`,
+      "Career paths:",
+      ...recommendation.careerPaths.map(
+        (path) => `- ${path.title}${path.fitScore > 0 ? ` (fit ${path.fitScore}/100)` : ""}: ${path.rationale}`
+      ),
+      `Internship roles: ${recommendation.internshipRoles.join(", ")}`,
+      `Skills to learn: ${recommendation.skillsToLearn.join(", ")}`,
+    ].join("\n");
+    const transcript = messages
+      .map((message) =>
+        message.role === "user"
+          ? `    Student: ${userContent("student_message", message.content)}`
+          : `    Advisor: ${userContent("advisor_message", message.content)}`
+      )
+      .join("\n\n");
+
+    return `
+    You are a career advisor specializing in Electronics and Communication Engineering (ECE),
+    answering follow-up questions about recommendations you already gave this student.
+    ${UNTRUSTED_CONTENT_RULE}
+
+${profileBlock(inputs)}
+
+    Your recommendation:
+    ${userContent("recommendation", summary)}
+
+    Conversation so far:
+${transcript}
+
+    Answer the student's last message. Ground the answer in their profile and the recommendation
+    above, and say so when a question needs information you do not have rather than guessing.
+    Be concrete (named tools, project ideas, courses) and keep it under about 250 words. Format
+    the reply as Markdown, using short lists where they help.
+
+    Provide the response in JSON format with the following structure:
+    { "reply": "..." }
+  `;
+  }
+);
@@ -0,0 +1,190 @@
+/**
+ * Prompt regression check: runs each sample profile through every career
+ * service call against the fixture model, recording the prompts sent and the
+ * results returned, and compares them with `golden/<sample>.json`.
+ *
+ *   npm run prompts:check            fail on any difference
+ *   npm run prompts:check -- --update rewrite the golden files
+ *
+ * A prompt whose text changed while its template version did not is always
+ * reported, so saved `promptVersion`s keep identifying the exact prompt.
+ */
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { createCareerService } from "../careerService";
+import { FixtureProvider, type GenerateJsonRequest, type LLMProvider } from "../providers";
+import { PROMPTS } from "./index";
+import { PROMPT_SAMPLES, type PromptSample } from "./samples";
+
+const GOLDEN_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "golden");
+
+interface RecordedCall {
+  name: string;
+  version: number | null;
+  prompt: string;
+}
+
+interface CaseResult {
+  calls: RecordedCall[];
+  output: unknown;
+}
+
+type Golden = Record<string, CaseResult>;
+
+/** Passes requests to the fixture model, keeping each prompt it was sent. */
+class RecordingProvider implements LLMProvider {
+  readonly id = "fixture";
+  readonly model = "fixture";
+  calls: RecordedCall[] = [];
+  private readonly inner = new FixtureProvider();
+
+  generateJson(request: GenerateJsonRequest): Promise<string> {
+    const template = PROMPTS[request.name as keyof typeof PROMPTS];
+    this.calls.push({ name: request.name, version: template?.version ?? null, prompt: request.prompt });
+    return this.inner.generateJson(request);
+  }
+}
+
+// Generated ids differ on every run.
+const UUID = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/g;
+const stable = (value: unknown): unknown => JSON.parse(JSON.stringify(value).replace(UUID, "<id>"));
+
+async function runSample(sample: PromptSample): Promise<Golden> {
+  const provider = new RecordingProvider();
+  const service = createCareerService(provider, { retries: 0 });
+  const results: Golden = {};
+  const record = async (name: string, run: () => Promise<unknown>) => {
+    provider.calls = [];
+    let output: unknown;
+    try {
+      output = await run();
+    } catch (err) {
+      output = { error: err instanceof Error ? err.message : String(err) };
+    }
+    results[name] = stable({ calls: provider.calls, output }) as CaseResult;
+    return output;
+  };
+
+  const { inputs } = sample;
+  await record("scanResume", () => service.scanResume({ text: sample.resumeText }));
+  const recommendation = (await record("getCareerRecommendations", () =>
+    service.getCareerRecommendations(
+      inputs.education,
+      inputs.skills,
+      inputs.interests,
+      undefined,
+      "ai",
+      undefined,
+      inputs.experience
+    )
+  )) as Awaited<ReturnType<typeof service.getCareerRecommendations>>;
+  await record("getCareerRecommendations (refined)", () =>
+    service.getCareerRecommendations(
+      inputs.education,
+      inputs.skills,
+      inputs.interests,
+      undefined,
+      "ai",
+      sample.constraints,
+      inputs.experience
+    )
+  );
+
+  const careerPath = recommendation.careerPaths[0].title;
+  const { skillsToLearn } = recommendation;
+  await record("generateLearningRoadmap", () =>
+    service.generateLearningRoadmap({ careerPath, inputs, skillsToLearn, granularity: "month" })
+  );
+  await record("analyzeSkillGap", () =>
+    service.analyzeSkillGap({ jobDescription: sample.jobDescription, inputs })
+  );
+  await record("answerFollowUp", () =>
+    service.answerFollowUp({ inputs, recommendation, messages: [{ role: "user", content: sample.question }] })
+  );
+  const role = recommendation.internshipRoles[0];
+  const questions = (await record("generateInterviewQuestions", () =>
+    service.generateInterviewQuestions({ role, level: "intermediate", inputs })
+  )) as { question: string }[];
+  await record("gradeInterviewAnswer", () =>
+    service.gradeInterviewAnswer({
+      role,
+      level: "intermediate",
+      question: questions[0].question,
+      answer: sample.interviewAnswer,
+    })
+  );
+  await record("generateProjectIdeas", () => service.generateProjectIdeas({ careerPath, inputs, skillsToLearn }));
+  return results;
+}
+
+/** Lines that differ at the same position, capped to keep the output readable. */
+function diffLines(expected: string, actual: string, limit = 40): string[] {
+  const a = expected.split("\n");
+  const b = actual.split("\n");
+  const out: string[] = [];
+  for (let i = 0; i < Math.max(a.length, b.length) && out.length < limit; i++) {
+    if (a[i] === b[i]) continue;
+    if (a[i] !== undefined) out.push(`  - ${a[i]}`);
+    if (b[i] !== undefined) out.push(`  + ${b[i]}`);
+  }
+  return out;
+}
+
+/** Calls whose prompt text changed but whose template version did not. */
+function unversionedChanges(golden: Golden, actual: Golden): string[] {
+  const problems: string[] = [];
+  for (const [name, result] of Object.entries(actual)) {
+    result.calls.forEach((call, i) => {
+      const before = golden[name]?.calls[i];
+      if (before && before.name === call.name && before.prompt !== call.prompt && before.version === call.version) {
+        problems.push(`${name}: "${call.name}" prompt changed without bumping its version (still ${call.version})`);
+      }
+    });
+  }
+  return problems;
+}
+
+async function main() {
+  const update = process.argv.includes("--update");
+  fs.mkdirSync(GOLDEN_DIR, { recursive: true });
+  let failures = 0;
+
+  for (const sample of PROMPT_SAMPLES) {
+    const file = path.join(GOLDEN_DIR, `${sample.id}.json`);
+    const actual = await runSample(sample);
+    const actualText = `${JSON.stringify(actual, null, 2)}\n`;
+    const golden: Golden | null = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : null;
+
+    const versionProblems = golden ? unversionedChanges(golden, actual) : [];
+    for (const problem of versionProblems) console.error(`✗ ${sample.id}: ${problem}`);
+    failures += versionProblems.length;
+
+    if (update) {
+      if (versionProblems.length) continue;
+      fs.writeFileSync(file, actualText);
+      console.log(`${golden ? "updated" : "created"} ${path.relative(process.cwd(), file)}`);
+      continue;
+    }
+    if (!golden) {
+      console.error(`✗ ${sample.id}: no golden file; run with --update to create it`);
+      failures++;
+      continue;
+    }
+    const expectedText = `${JSON.stringify(golden, null, 2)}\n`;
+    if (expectedText === actualText) {
+      console.log(`✓ ${sample.id}`);
+      continue;
+    }
+    failures++;
+    console.error(`✗ ${sample.id} differs from ${path.relative(process.cwd(), file)}:`);
+    for (const line of diffLines(expectedText, actualText)) console.error(line);
+  }
+
+  if (failures) {
+    console.error(`\n${failures} problem(s). If the changes are intended, bump the template versions and rerun with --update.`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,28 @@
+import { chatReplyPrompt } from "./chat";
+import { interviewFeedbackPrompt, interviewQuestionsPrompt } from "./interview";
+import { projectIdeasPrompt } from "./projects";
+import { careerRecommendationPrompt } from "./recommendation";
+import { resumeDataPrompt } from "./resume";
+import { learningRoadmapPrompt } from "./roadmap";
+import { skillGapPrompt } from "./skillGap";
+
+export { INTERVIEW_QUESTION_COUNT, type AnswerToGrade } from "./interview";
+export { PROJECT_IDEAS_PER_LEVEL } from "./projects";
+export type { RecommendationPromptVars } from "./recommendation";
+export { promptVersion, userContent, type PromptTemplate } from "./template";
+
+/**
+ * Every prompt the app sends, by request name. Templates live one file per
+ * feature; `npm run prompts:check` renders them for the sample profiles and
+ * compares against the golden files in `server/prompts/golden`.
+ */
+export const PROMPTS = {
+  resume_data: resumeDataPrompt,
+  career_recommendation: careerRecommendationPrompt,
+  learning_roadmap: learningRoadmapPrompt,
+  skill_gap_analysis: skillGapPrompt,
+  chat_reply: chatReplyPrompt,
+  interview_questions: interviewQuestionsPrompt,
+  interview_feedback: interviewFeedbackPrompt,
+  project_ideas: projectIdeasPrompt,
+};
@@ -0,0 +1,41 @@
+import type { ProjectIdeasRequest } from "../../src/types";
+import { UNTRUSTED_CONTENT_RULE, definePrompt, profileBlock, userContent } from "./template";
+
+export const PROJECT_IDEAS_PER_LEVEL = 2;
+
+export const projectIdeasPrompt = definePrompt<ProjectIdeasRequest>(
+  "project_ideas",
+  2,
+  ({ careerPath, inputs, skillsToLearn }) => `
+    You are a lab mentor for Electronics and Communication Engineering (ECE) students.
+    Suggest hands-on projects that would strengthen this student's resume for a role as ${userContent("career_path", careerPath)}.
+    ${UNTRUSTED_CONTENT_RULE}
+
+${profileBlock(inputs)}
+    ${userContent("skills_to_learn", skillsToLearn.join(", "))}
+
+    Give ${PROJECT_IDEAS_PER_LEVEL} projects at each level: beginner, intermediate and advanced.
+    Each project must exercise at least one of the skills to learn; list those in "skillsCovered"
+    using the names given above. For each project list a bill of materials of affordable, commonly
+    available parts (boards, sensors, ICs and modules, with quantities; an empty list for
+    simulation-only projects), the software, EDA tools or lab equipment needed, concrete learning
+    outcomes, and realistic hours for a student with classes.
+
+    Provide the response in JSON format with the following structure:
+    {
+      "ideas": [
+        {
+          "title": "...",
+          "level": "beginner",
+          "description": "...",
+          "billOfMaterials": [{ "name": "...", "kind": "board", "quantity": 1 }],
+          "tools": ["..."],
+          "learningOutcomes": ["..."],
+          "skillsCovered": ["..."],
+          "estimatedHours": 15
+        },
+        ...
+      ]
+    }
+  `
+);
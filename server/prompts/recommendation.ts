@@ -0,0 +1,83 @@
+import type { RefinementConstraints } from "../../src/types";
+import { emptyConstraints } from "../../src/lib/refinement";
+import { normalizeInterestText, normalizeSkillText } from "../../src/lib/skills";
+import { taxonomyPrompt } from "../taxonomy";
+import { UNTRUSTED_CONTENT_RULE, definePrompt, profileBlock, userContent } from "./template";
+
+export interface RecommendationPromptVars {
+  education: string;
+  skills: string;
+  interests: string;
+  experience?: string;
+  constraints?: RefinementConstraints;
+}
+
+/** Extra instructions for a "what if" refinement; empty when there are no constraints. */
+function refinementLines({ pinnedPaths, rejectedPaths, hypotheticalSkills }: RefinementConstraints) {
+  const lines: string[] = [];
+  if (hypotheticalSkills.length) {
+    lines.push(
+      `Assume the student also learns ${userContent("hypothetical_skills", hypotheticalSkills.join(", "))} and say how that changes the picture.`
+    );
+  }
+  if (pinnedPaths.length) {
+    lines.push(`The student pinned these paths; keep them in careerPaths: ${userContent("pinned_paths", pinnedPaths.join(", "))}.`);
+  }
+  for (const { title, reason } of rejectedPaths) {
+    lines.push(
+      `Do not recommend ${userContent("rejected_path", title)}. The student's reason: ${reason ? userContent("reason", reason) : "not given"}.`
+    );
+  }
+  if (!lines.length) return "";
+  return `
+    This refines an earlier recommendation for the same student.
+${lines.map((line) => `    - ${line}`).join("\n")}
+`;
+}
+
+export const careerRecommendationPrompt = definePrompt<RecommendationPromptVars>(
+  "career_recommendation",
+  2,
+  ({ education, skills, interests, experience, constraints = emptyConstraints() }) => `
+    You are a career advisor specializing in Electronics and Communication Engineering (ECE).
+    Based on the following student profile, provide career recommendations. Skills may carry a
+    self-assessed level in parentheses, e.g. "Verilog (advanced)".
+    ${UNTRUSTED_CONTENT_RULE}
+
+${profileBlock({
+  education,
+  skills: normalizeSkillText(skills),
+  interests: normalizeInterestText(interests),
+  experience,
+})}
+${refinementLines(constraints)}
+    Choose career paths only from this catalog of ECE career tracks. Use the track name or one of
+    its roles as the path title, and pick skills to learn from the skills and tools it lists:
+${taxonomyPrompt()}
+
+    For each career path, score how well it fits this student from 0 to 100, explain the fit
+    with reference to the skills and any projects, internships or certifications they listed, and
+    list which of their current skills transfer.
+    Give entry-level annual salary bands for India and at least one other major market, using
+    ISO currency codes and whole numbers.
+
+    Provide the response in JSON format with the following structure:
+    {
+      "careerPaths": [
+        {
+          "title": "AI Engineer",
+          "fitScore": 85,
+          "rationale": "Why this path suits the student, tied to their skills.",
+          "entryLevelTitles": ["Junior ML Engineer", ...],
+          "exampleEmployers": ["Qualcomm", "Automotive ADAS teams", ...],
+          "salaryBands": [{ "region": "India", "currency": "INR", "min": 600000, "max": 1200000 }, ...],
+          "transferableSkills": ["Python", ...]
+        },
+        ...
+      ],
+      "internshipRoles": ["role1", "role2", ...],
+      "skillsToLearn": ["skill1", "skill2", ...],
+      "summary": "A brief encouraging summary of why these paths fit."
+    }
+  `
+);
@@ -0,0 +1,37 @@
+import type { RoadmapRequest } from "../../src/types";
+import { UNTRUSTED_CONTENT_RULE, definePrompt, profileBlock, userContent } from "./template";
+
+export const learningRoadmapPrompt = definePrompt<RoadmapRequest>(
+  "learning_roadmap",
+  2,
+  ({ careerPath, inputs, skillsToLearn, granularity }) => `
+    You are a mentor for Electronics and Communication Engineering (ECE) students.
+    Create a ${granularity === "week" ? "week-by-week" : "month-by-month"} learning roadmap that takes this student to an entry-level role as ${userContent("career_path", careerPath)}.
+    ${UNTRUSTED_CONTENT_RULE}
+
+${profileBlock(inputs)}
+    ${userContent("skills_to_learn", skillsToLearn.join(", "))}
+
+    Split the plan into milestones. For each milestone give the ${granularity}s it spans
+    (e.g. "${granularity === "week" ? "Weeks 1–2" : "Month 1"}"), the skills covered, a hands-on project that
+    proves those skills, and realistic study hours for a student with classes.
+    List the ids of earlier milestones a milestone depends on in "prerequisites", and order
+    milestones so prerequisites come first. Build on skills the student already has.
+
+    Provide the response in JSON format with the following structure:
+    {
+      "milestones": [
+        {
+          "id": "m1",
+          "title": "...",
+          "period": "...",
+          "skills": ["..."],
+          "prerequisites": [],
+          "project": { "title": "...", "description": "..." },
+          "estimatedHours": 20
+        },
+        ...
+      ]
+    }
+  `
+);
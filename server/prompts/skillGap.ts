@@ -0,0 +1,31 @@
+import type { SkillGapRequest } from "../../src/types";
+import { UNTRUSTED_CONTENT_RULE, definePrompt, profileBlock, userContent } from "./template";
+
+export const skillGapPrompt = definePrompt<SkillGapRequest>(
+  "skill_gap_analysis",
+  2,
+  ({ jobDescription, inputs }) => `
+    You are a technical recruiter hiring Electronics and Communication Engineering (ECE) graduates.
+    Compare the student profile below with the job description and judge how ready they are.
+    ${UNTRUSTED_CONTENT_RULE}
+
+${profileBlock(inputs)}
+
+    ${userContent("job_description", jobDescription)}
+
+    Separate the job's must-have requirements from its nice-to-haves. List the student's skills
+    that satisfy a requirement, then every requirement they are missing with concrete actions
+    to close it (a course, a specific project, practice problems). Score overall readiness from
+    0 to 100, weighting must-haves far above nice-to-haves, and summarize in two sentences.
+
+    Provide the response in JSON format with the following structure:
+    {
+      "jobTitle": "...",
+      "readinessScore": 60,
+      "matchedSkills": ["..."],
+      "missingMustHaves": [{ "skill": "...", "actions": ["..."] }],
+      "missingNiceToHaves": [{ "skill": "...", "actions": ["..."] }],
+      "summary": "..."
+    }
+  `
+);
@@ -0,0 +1,307 @@
+import type { CareerRecommendation, ResumeData } from "../../src/types";
+import type { GenerateJsonRequest, LLMProvider } from "./types";
+import { estimateUsage } from "./usage";
+
+export const defaultFixtures: Record<string, unknown> = {
+  career_recommendation: {
+    careerPaths: [
+      {
+        title: "VLSI Design Engineer",
+        fitScore: 86,
+        rationale:
+          "Your Verilog and digital logic coursework map directly onto RTL design, the entry point for most ASIC teams.",
+        entryLevelTitles: ["RTL Design Engineer", "Graduate ASIC Engineer"],
+        exampleEmployers: ["Qualcomm", "Intel", "Texas Instruments", "Semiconductor design services firms"],
+        salaryBands: [
+          { region: "India", currency: "INR", min: 800000, max: 1600000 },
+          { region: "United States", currency: "USD", min: 95000, max: 130000 },
+        ],
+        transferableSkills: ["Verilog", "Digital Logic"],
+      },
+      {
+        title: "Embedded Systems Engineer",
+        fitScore: 78,
+        rationale:
+          "Hands-on Arduino and C experience is the core of firmware work; an RTOS would round it out.",
+        entryLevelTitles: ["Firmware Engineer", "Embedded Software Engineer"],
+        exampleEmployers: ["Bosch", "Continental", "Consumer IoT startups"],
+        salaryBands: [
+          { region: "India", currency: "INR", min: 500000, max: 1000000 },
+          { region: "United States", currency: "USD", min: 80000, max: 110000 },
+        ],
+        transferableSkills: ["C", "Arduino"],
+      },
+      {
+        title: "FPGA Engineer",
+        fitScore: 72,
+        rationale: "FPGA roles reuse your HDL skills while letting you ship working hardware quickly.",
+        entryLevelTitles: ["FPGA Design Engineer", "Hardware Engineer"],
+        exampleEmployers: ["AMD", "Defence electronics labs", "Test and measurement companies"],
+        salaryBands: [
+          { region: "India", currency: "INR", min: 600000, max: 1200000 },
+          { region: "United States", currency: "USD", min: 90000, max: 125000 },
+        ],
+        transferableSkills: ["Verilog"],
+      },
+    ],
+    internshipRoles: ["RTL Design Intern", "Firmware Intern", "Hardware Verification Intern"],
+    skillsToLearn: ["SystemVerilog", "UVM", "Static Timing Analysis", "RTOS"],
+    summary:
+      "Your digital design foundation and hands-on microcontroller work make hardware-centric roles a natural next step.",
+  } satisfies CareerRecommendation,
+  learning_roadmap: {
+    milestones: [
+      {
+        id: "m1",
+        title: "SystemVerilog for design",
+        period: "Month 1",
+        skills: ["SystemVerilog"],
+        prerequisites: [],
+        project: {
+          title: "Parameterised FIFO",
+          description: "Write a synchronous FIFO with full/empty flags and a self-checking testbench.",
+        },
+        estimatedHours: 30,
+      },
+      {
+        id: "m2",
+        title: "Verification with UVM",
+        period: "Month 2",
+        skills: ["UVM"],
+        prerequisites: ["m1"],
+        project: {
+          title: "UVM testbench for the FIFO",
+          description: "Build an agent, scoreboard and coverage model around the FIFO from month 1.",
+        },
+        estimatedHours: 40,
+      },
+      {
+        id: "m3",
+        title: "Timing closure basics",
+        period: "Month 3",
+        skills: ["Static Timing Analysis"],
+        prerequisites: ["m1"],
+        project: {
+          title: "Constrain and close timing on an FPGA",
+          description: "Synthesise the FIFO on an FPGA, write SDC constraints and fix any violating paths.",
+        },
+        estimatedHours: 25,
+      },
+    ],
+  },
+  skill_gap_analysis: {
+    jobTitle: "Digital Design Intern",
+    readinessScore: 64,
+    matchedSkills: ["Verilog", "Digital Logic"],
+    missingMustHaves: [
+      {
+        skill: "SystemVerilog assertions",
+        actions: [
+          "Work through the SVA chapter of a verification textbook",
+          "Add assertions to an existing FIFO or UART design and check them in simulation",
+        ],
+      },
+    ],
+    missingNiceToHaves: [
+      {
+        skill: "Python scripting for regressions",
+        actions: ["Automate running your testbenches and parsing the logs with a Python script"],
+      },
+    ],
+    summary:
+      "You cover the core RTL requirements. Closing the assertion gap would make you a strong applicant.",
+  },
+  interview_questions: {
+    questions: [
+      {
+        topic: "Digital design",
+        question: "What is the difference between a latch and a flip-flop, and why do synthesis tools warn about inferred latches?",
+      },
+      {
+        topic: "Timing",
+        question: "Explain setup and hold time. What happens to a design if hold time is violated, and can a slower clock fix it?",
+      },
+      {
+        topic: "Verilog",
+        question: "When should you use blocking versus non-blocking assignments in Verilog? Give an example of a bug caused by mixing them.",
+      },
+      {
+        topic: "C pointers",
+        question: "What does `volatile` mean for a pointer to a memory-mapped register, and what can go wrong without it?",
+      },
+      {
+        topic: "Op-amps",
+        question: "Derive the gain of a non-inverting amplifier and state the ideal op-amp assumptions you used.",
+      },
+    ],
+  },
+  interview_feedback: {
+    score: 6,
+    strengths: ["Correctly states that a flip-flop is edge-triggered and a latch is level-sensitive"],
+    improvements: [
+      "Explain why inferred latches are a problem: they come from incomplete assignments in combinational blocks and complicate timing analysis",
+      "Mention how to avoid them, such as default assignments or complete case statements",
+    ],
+    modelAnswer:
+      "A latch is level-sensitive and passes its input while enabled; a flip-flop samples only on a clock edge. Tools warn about inferred latches because they usually come from combinational logic that does not assign an output on every path, which is rarely intended and makes timing harder to analyse. Assign defaults at the top of the block or cover every case.",
+  },
+  project_ideas: {
+    ideas: [
+      {
+        title: "UART transceiver with a self-checking testbench",
+        level: "beginner",
+        description:
+          "Write a parameterised UART transmitter and receiver in SystemVerilog, loop them back in simulation and check every byte automatically.",
+        billOfMaterials: [{ name: "USB-UART adapter (CP2102)", kind: "module", quantity: 1 }],
+        tools: ["Icarus Verilog or Verilator", "GTKWave"],
+        learningOutcomes: [
+          "Write synthesisable SystemVerilog with interfaces and packages",
+          "Build a testbench that checks results without reading waveforms",
+        ],
+        skillsCovered: ["SystemVerilog"],
+        estimatedHours: 15,
+      },
+      {
+        title: "FreeRTOS sensor logger",
+        level: "beginner",
+        description:
+          "Read a temperature sensor on one task and log averaged readings over UART on another, sharing data through a queue.",
+        billOfMaterials: [
+          { name: "STM32 Nucleo-F401RE", kind: "board", quantity: 1 },
+          { name: "BME280 breakout", kind: "sensor", quantity: 1 },
+          { name: "Jumper wires", kind: "passive", quantity: 10 },
+        ],
+        tools: ["STM32CubeIDE", "Serial terminal"],
+        learningOutcomes: ["Create tasks and queues in FreeRTOS", "Talk to an I2C sensor"],
+        skillsCovered: ["RTOS"],
+        estimatedHours: 12,
+      },
+      {
+        title: "UVM environment for a synchronous FIFO",
+        level: "intermediate",
+        description:
+          "Verify a FIFO with a UVM agent, scoreboard and functional coverage, including full and empty corner cases.",
+        billOfMaterials: [],
+        tools: ["EDA Playground (free simulator access)"],
+        learningOutcomes: ["Structure a UVM testbench", "Close functional coverage on corner cases"],
+        skillsCovered: ["UVM", "SystemVerilog"],
+        estimatedHours: 25,
+      },
+      {
+        title: "Pipelined MAC unit timed on an FPGA",
+        level: "intermediate",
+        description:
+          "Design a multiply-accumulate unit, pipeline it to meet a 100 MHz clock and explain each failing path in the timing report.",
+        billOfMaterials: [{ name: "Digilent Basys 3", kind: "board", quantity: 1 }],
+        tools: ["Vivado"],
+        learningOutcomes: ["Read setup and hold slack", "Fix timing by pipelining and retiming"],
+        skillsCovered: ["Static Timing Analysis", "SystemVerilog"],
+        estimatedHours: 20,
+      },
+      {
+        title: "RISC-V core verified with UVM",
+        level: "advanced",
+        description:
+          "Build a five-stage RV32I core, verify it against a reference model in UVM and run it on an FPGA at the highest clock you can close timing on.",
+        billOfMaterials: [{ name: "Digilent Arty A7-35T", kind: "board", quantity: 1 }],
+        tools: ["Vivado", "Verilator", "RISC-V GCC toolchain"],
+        learningOutcomes: [
+          "Handle hazards and forwarding in a pipeline",
+          "Compare a design against a reference model",
+          "Close timing on a multi-stage design",
+        ],
+        skillsCovered: ["SystemVerilog", "UVM", "Static Timing Analysis"],
+        estimatedHours: 80,
+      },
+      {
+        title: "Soft-core SoC running FreeRTOS",
+        level: "advanced",
+        description:
+          "Put a soft processor with SPI and UART peripherals on an FPGA and port FreeRTOS to it to drive an SPI display.",
+        billOfMaterials: [
+          { name: "Digilent Arty A7-35T", kind: "board", quantity: 1 },
+          { name: "ST7735 SPI TFT display", kind: "module", quantity: 1 },
+        ],
+        tools: ["Vivado", "Vitis"],
+        learningOutcomes: ["Integrate peripherals on a bus", "Port an RTOS to new hardware"],
+        skillsCovered: ["RTOS", "Static Timing Analysis"],
+        estimatedHours: 60,
+      },
+    ],
+  },
+  chat_reply: {
+    reply:
+      "VLSI scores higher because your **Verilog** and digital logic work already match what RTL teams hire for, while embedded roles would lean more on C and RTOS experience you are still building.\n\nTo test the fit, try:\n\n- A UART or FIFO design with a self-checking testbench\n- Synthesising it on an FPGA and reading the timing report",
+  },
+  resume_data: {
+    education: [
+      {
+        degree: "B.Tech in Electronics and Communication Engineering",
+        institution: "National Institute of Technology",
+        year: "2026",
+        cgpa: "8.4",
+        confidence: 0.95,
+      },
+    ],
+    skills: {
+      languages: [
+        { name: "Verilog", confidence: 0.9 },
+        { name: "C", confidence: 0.9 },
+        { name: "Python", confidence: 0.7 },
+      ],
+      edaTools: [
+        { name: "Vivado", confidence: 0.85 },
+        { name: "MATLAB", confidence: 0.8 },
+      ],
+      hardwarePlatforms: [{ name: "Arduino", confidence: 0.9 }],
+      protocols: [{ name: "I2C", confidence: 0.6 }],
+      other: [],
+    },
+    projects: [
+      {
+        title: "FPGA-based traffic light controller",
+        description: "Designed a finite state machine in Verilog and deployed it on a Basys 3 board.",
+        technologies: ["Verilog", "Vivado"],
+        confidence: 0.85,
+      },
+    ],
+    internships: [],
+    certifications: [
+      { name: "Embedded Systems Essentials", issuer: "NPTEL", year: "2025", confidence: 0.75 },
+    ],
+    interests: [
+      { name: "VLSI", confidence: 0.8 },
+      { name: "Embedded Systems", confidence: 0.55 },
+    ],
+  } satisfies ResumeData,
+};
+
+/**
+ * Returns canned responses keyed by request name, so the app can run offline
+ * in demos and tests with identical output every time.
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly id = "fixture";
+  readonly model = "fixture";
+
+  constructor(private readonly fixtures: Record<string, unknown> = defaultFixtures) {}
+
+  async generateJson(request: GenerateJsonRequest): Promise<string> {
+    if (!(request.name in this.fixtures)) {
+      throw new Error(`No fixture registered for "${request.name}".`);
+    }
+    const text = JSON.stringify(this.fixtures[request.name]);
+    request.onUsage?.(estimateUsage(request, text));
+    return text;
+  }
+
+  /** Replays the fixture in small chunks to exercise progressive rendering. */
+  async *streamJson(request: GenerateJsonRequest): AsyncIterable<string> {
+    const text = await this.generateJson(request);
+    for (let i = 0; i < text.length; i += 24) {
+      if (request.signal?.aborted) return;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      yield text.slice(i, i + 24);
+    }
+  }
+}
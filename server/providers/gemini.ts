@@ -0,0 +1,112 @@
+import {
+  ApiError,
+  FinishReason,
+  type GenerateContentParameters,
+  type GenerateContentResponse,
+  type GoogleGenAI,
+} from "@google/genai";
+import { SafetyBlockError, errorFromStatus, toLLMError } from "../errors";
+import type { GenerateJsonRequest, LLMProvider } from "./types";
+import { estimateUsage } from "./usage";
+
+/**
+ * The subset of the Gemini SDK the provider relies on. Accepting this instead
+ * of a concrete `GoogleGenAI` lets callers substitute a mocked client.
+ */
+export type GenAIClient = Pick<GoogleGenAI, "models">;
+
+const SAFETY_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+function toLLMErrorFromGemini(err: unknown) {
+  if (err instanceof ApiError) return errorFromStatus(err.status, err.message, err);
+  return toLLMError(err);
+}
+
+/** Reports the token counts Gemini returns, estimating them if it left them out. */
+function reportUsage(request: GenerateJsonRequest, response: GenerateContentResponse | undefined, text: string) {
+  if (!request.onUsage) return;
+  const metadata = response?.usageMetadata;
+  request.onUsage(
+    metadata?.promptTokenCount !== undefined
+      ? { inputTokens: metadata.promptTokenCount, outputTokens: metadata.candidatesTokenCount ?? 0 }
+      : estimateUsage(request, text)
+  );
+}
+
+function assertNotBlocked(response: GenerateContentResponse) {
+  if (
+    response.promptFeedback?.blockReason ||
+    SAFETY_FINISH_REASONS.includes(response.candidates?.[0]?.finishReason)
+  ) {
+    throw new SafetyBlockError();
+  }
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly id = "gemini";
+
+  constructor(private readonly ai: GenAIClient, readonly model: string) {}
+
+  private params({ prompt, schema, document, signal }: GenerateJsonRequest): GenerateContentParameters {
+    return {
+      model: this.model,
+      contents: document
+        ? [
+            {
+              inlineData: {
+                data: document.data,
+                mimeType: document.mimeType,
+              },
+            },
+            {
+              text: prompt,
+            },
+          ]
+        : prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseJsonSchema: schema,
+        abortSignal: signal,
+      },
+    };
+  }
+
+  async generateJson(request: GenerateJsonRequest): Promise<string> {
+    let response;
+    try {
+      response = await this.ai.models.generateContent(this.params(request));
+    } catch (err) {
+      throw toLLMErrorFromGemini(err);
+    }
+
+    assertNotBlocked(response);
+    const text = response.text ?? "";
+    reportUsage(request, response, text);
+    return text;
+  }
+
+  async *streamJson(request: GenerateJsonRequest): AsyncIterable<string> {
+    let text = "";
+    // Counts arrive on the final chunk.
+    let last: GenerateContentResponse | undefined;
+    try {
+      const stream = await this.ai.models.generateContentStream(this.params(request));
+      for await (const chunk of stream) {
+        assertNotBlocked(chunk);
+        last = chunk;
+        if (chunk.text) {
+          text += chunk.text;
+          yield chunk.text;
+        }
+      }
+    } catch (err) {
+      throw toLLMErrorFromGemini(err);
+    }
+    reportUsage(request, last, text);
+  }
+}
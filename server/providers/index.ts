@@ -0,0 +1,20 @@
+import { GoogleGenAI } from "@google/genai";
+import type { LLMConfig } from "../config";
+import { FixtureProvider } from "./fixture";
+import { GeminiProvider } from "./gemini";
+import { OpenAICompatibleProvider } from "./openai";
+import type { LLMProvider } from "./types";
+
+export type { GenerateJsonRequest, InlineDocument, JsonSchema, LLMProvider, TokenUsage } from "./types";
+export { FixtureProvider, GeminiProvider, OpenAICompatibleProvider };
+
+export function createProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case "gemini":
+      return new GeminiProvider(new GoogleGenAI({ apiKey: config.apiKey || "" }), config.model);
+    case "openai":
+      return new OpenAICompatibleProvider(config.baseUrl, config.model, config.apiKey);
+    case "fixture":
+      return new FixtureProvider();
+  }
+}
@@ -0,0 +1,127 @@
+import { LLMError, SafetyBlockError, errorFromStatus, toLLMError } from "../errors";
+import type { GenerateJsonRequest, LLMProvider, TokenUsage } from "./types";
+import { estimateUsage } from "./usage";
+
+/** Counts from an OpenAI `usage` object, if the server sent one. */
+const usageFrom = (usage: { prompt_tokens?: number; completion_tokens?: number } | undefined): TokenUsage | undefined =>
+  usage?.prompt_tokens !== undefined
+    ? { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens ?? 0 }
+    : undefined;
+
+type ContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API, including
+ * local runtimes such as Ollama, LM Studio or vLLM.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id = "openai";
+
+  constructor(
+    private readonly baseUrl: string,
+    readonly model: string,
+    private readonly apiKey?: string
+  ) {}
+
+  private async request(
+    { name, prompt, schema, document, signal }: GenerateJsonRequest,
+    stream: boolean
+  ): Promise<Response> {
+    const content: ContentPart[] = [];
+    if (document) {
+      if (document.mimeType.startsWith("text/")) {
+        const text = Buffer.from(document.data, "base64").toString("utf8");
+        content.push({ type: "text", text: `Document:\n${text}` });
+      } else if (document.mimeType.startsWith("image/")) {
+        content.push({
+          type: "image_url",
+          image_url: { url: `data:${document.mimeType};base64,${document.data}` },
+        });
+      } else {
+        throw new LLMError(`The ${this.model} provider cannot read ${document.mimeType} documents.`);
+      }
+    }
+    content.push({ type: "text", text: prompt });
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages: [{ role: "user", content }],
+          response_format: {
+            type: "json_schema",
+            json_schema: { name, schema },
+          },
+          stream,
+          // Ask for token counts on the final chunk; servers that do not support it ignore this.
+          ...(stream ? { stream_options: { include_usage: true } } : {}),
+        }),
+        signal,
+      });
+    } catch (err) {
+      throw toLLMError(err);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw errorFromStatus(response.status, detail);
+    }
+    return response;
+  }
+
+  async generateJson(request: GenerateJsonRequest): Promise<string> {
+    const response = await this.request(request, false);
+    const payload = await response.json().catch(() => null);
+    const choice = payload?.choices?.[0];
+    if (choice?.finish_reason === "content_filter") {
+      throw new SafetyBlockError();
+    }
+    const text = choice?.message?.content ?? "";
+    request.onUsage?.(usageFrom(payload?.usage) ?? estimateUsage(request, text));
+    return text;
+  }
+
+  /** Reads the server-sent events of a `stream: true` completion. */
+  async *streamJson(request: GenerateJsonRequest): AsyncIterable<string> {
+    const response = await this.request(request, true);
+    if (!response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let text = "";
+    let usage: TokenUsage | undefined;
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, "").trim();
+          if (!line.startsWith("data:") || !data || data === "[DONE]") continue;
+          const event = JSON.parse(data);
+          usage = usageFrom(event?.usage) ?? usage;
+          const choice = event?.choices?.[0];
+          if (choice?.finish_reason === "content_filter") throw new SafetyBlockError();
+          if (choice?.delta?.content) {
+            text += choice.delta.content;
+            yield choice.delta.content;
+          }
+        }
+      }
+    } catch (err) {
+      throw toLLMError(err);
+    }
+    request.onUsage?.(usage ?? estimateUsage(request, text));
+  }
+}
@@ -0,0 +1,47 @@
+import type { JsonSchema } from "../../src/lib/validation";
+
+export type { JsonSchema };
+
+export interface InlineDocument {
+  /** Base64-encoded file contents. */
+  data: string;
+  mimeType: string;
+}
+
+/** Tokens one model call consumed, as reported by the provider or estimated. */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface GenerateJsonRequest {
+  /** Short identifier for the response shape, e.g. "career_recommendation". */
+  name: string;
+  prompt: string;
+  schema: JsonSchema;
+  document?: InlineDocument;
+  /**
+   * Domain checks run on output that already matches `schema`. Returned
+   * problems are treated like schema violations and trigger a repair.
+   */
+  check?: (value: unknown) => string[];
+  /** Aborts the underlying request, e.g. when the browser disconnects. */
+  signal?: AbortSignal;
+  /** Called once a call completes with the tokens it used, for usage accounting. */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface LLMProvider {
+  readonly id: string;
+  readonly model: string;
+  /**
+   * Returns the raw JSON text produced by the model. Failures are thrown as
+   * `LLMError` subclasses so callers can tell transient errors from blocks.
+   */
+  generateJson(request: GenerateJsonRequest): Promise<string>;
+  /**
+   * Streams the JSON text as the model produces it. Optional; callers fall
+   * back to `generateJson` for providers that cannot stream.
+   */
+  streamJson?(request: GenerateJsonRequest): AsyncIterable<string>;
+}
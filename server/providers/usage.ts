@@ -0,0 +1,13 @@
+import type { GenerateJsonRequest, TokenUsage } from "./types";
+
+/** Rough token count for text, at about four characters per token. */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Usage for providers that do not report it. Attached documents are not
+ * counted, so this undercounts scans of uploaded files.
+ */
+export const estimateUsage = (request: GenerateJsonRequest, output: string): TokenUsage => ({
+  inputTokens: estimateTokens(request.prompt),
+  outputTokens: estimateTokens(output),
+});
@@ -0,0 +1,168 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { RequestHandler, Response } from "express";
+import type { AIErrorCategory } from "../src/types";
+import type { QuotaConfig, RateLimit } from "./config";
+import type { GenerateJsonRequest, LLMProvider } from "./providers";
+import type { UsageStore } from "./usageStore";
+
+/** Usage event id of the request being handled, so the model calls it makes are charged to it. */
+const currentRequest = new AsyncLocalStorage<number>();
+
+const DAY_MS = 86_400_000;
+const startOfUtcDay = (at: number) => at - (at % DAY_MS);
+
+// Forget idle clients once this many are tracked.
+const MAX_TRACKED_KEYS = 10_000;
+
+// Statuses the routes answer with when they refuse a request before calling the model.
+const INVALID_REQUEST_STATUSES = [400, 404, 413];
+
+/** Counts requests per key over a sliding window. */
+export function createRateLimiter({ limit, windowMs }: RateLimit) {
+  const hits = new Map<string, number[]>();
+
+  const recent = (key: string, now: number) => {
+    const times = (hits.get(key) ?? []).filter((time) => time > now - windowMs);
+    if (times.length) hits.set(key, times);
+    else hits.delete(key);
+    return times;
+  };
+
+  return {
+    /** Milliseconds until `key` may make another request; 0 if it may now. */
+    retryAfter(key: string, now: number): number {
+      if (!limit) return 0;
+      const times = recent(key, now);
+      return times.length < limit ? 0 : times[times.length - limit] + windowMs - now;
+    },
+    hit(key: string, now: number) {
+      if (!limit) return;
+      if (hits.size >= MAX_TRACKED_KEYS) for (const other of hits.keys()) recent(other, now);
+      hits.set(key, [...recent(key, now), now]);
+    },
+    /** Takes back the hit `key` made at `time`. */
+    release(key: string, time: number) {
+      const times = hits.get(key) ?? [];
+      const index = times.lastIndexOf(time);
+      if (index >= 0) times.splice(index, 1);
+      if (!times.length) hits.delete(key);
+    },
+  };
+}
+
+export interface QuotaStatus {
+  dailyTokenBudget: number;
+  tokensToday: number;
+  resetsAt: string;
+  perClient: RateLimit;
+  global: RateLimit;
+}
+
+export interface Quota {
+  /** Charges the model calls a request makes to it, and refuses requests once the daily budget is spent. */
+  metered(endpoint: string): RequestHandler;
+  /**
+   * `metered`, plus the per-client and global rate limits. Requests the route
+   * then refuses as invalid are not counted toward them.
+   */
+  limited(endpoint: string): RequestHandler;
+  status(): QuotaStatus;
+}
+
+function tooManyRequests(res: Response, waitMs: number, category: AIErrorCategory, error: string) {
+  const retryAfter = Math.max(1, Math.ceil(waitMs / 1000));
+  res.setHeader("Retry-After", String(retryAfter));
+  res.status(429).json({ error, category, retryAfter });
+}
+
+export function createQuota(config: QuotaConfig, usage: UsageStore, now: () => number = Date.now): Quota {
+  const perClient = createRateLimiter(config.perClient);
+  const global = createRateLimiter(config.global);
+
+  const handler =
+    (endpoint: string, rateLimited: boolean): RequestHandler =>
+    (req, res, next) => {
+      const at = now();
+      // Signed-in students get their own allowance even when a campus network shares one address.
+      const client = req.user ? `user:${req.user.id}` : req.ip ?? "unknown";
+      const id = usage.start(client, endpoint, at);
+      res.on("close", () => usage.finish(id, res.statusCode));
+
+      if (rateLimited) {
+        const clientWait = perClient.retryAfter(client, at);
+        if (clientWait) {
+          return tooManyRequests(
+            res,
+            clientWait,
+            "rate_limit",
+            "You're sending requests faster than we can answer them. Please wait a moment."
+          );
+        }
+        const globalWait = global.retryAfter("", at);
+        if (globalWait) {
+          return tooManyRequests(res, globalWait, "rate_limit", "Lots of students are using PathFinder right now. Please try again shortly.");
+        }
+      }
+      if (config.dailyTokenBudget && usage.tokensSince(startOfUtcDay(at)) >= config.dailyTokenBudget) {
+        return tooManyRequests(
+          res,
+          startOfUtcDay(at) + DAY_MS - at,
+          "quota",
+          "Today's AI budget has been used up. It resets at midnight UTC."
+        );
+      }
+
+      if (rateLimited) {
+        perClient.hit(client, at);
+        global.hit("", at);
+        // Validation happens in the route, after this; a request it refuses gives its place back.
+        res.on("close", () => {
+          if (!INVALID_REQUEST_STATUSES.includes(res.statusCode)) return;
+          perClient.release(client, at);
+          global.release("", at);
+        });
+      }
+      currentRequest.run(id, next);
+    };
+
+  return {
+    metered: (endpoint) => handler(endpoint, false),
+    limited: (endpoint) => handler(endpoint, true),
+    status() {
+      const today = startOfUtcDay(now());
+      return {
+        dailyTokenBudget: config.dailyTokenBudget,
+        tokensToday: usage.tokensSince(today),
+        resetsAt: new Date(today + DAY_MS).toISOString(),
+        perClient: config.perClient,
+        global: config.global,
+      };
+    },
+  };
+}
+
+/**
+ * Wraps `provider` so each call's token usage is added to the request that
+ * made it. A call shared through the response cache is charged once, to the
+ * request that started it.
+ */
+export function meterProvider(provider: LLMProvider, usage: UsageStore): LLMProvider {
+  const metered = (request: GenerateJsonRequest): GenerateJsonRequest => {
+    const id = currentRequest.getStore();
+    if (id === undefined) return request;
+    return {
+      ...request,
+      onUsage: (tokens) => {
+        usage.addUsage(id, tokens);
+        request.onUsage?.(tokens);
+      },
+    };
+  };
+
+  return {
+    id: provider.id,
+    model: provider.model,
+    generateJson: (request) => provider.generateJson(metered(request)),
+    ...(provider.streamJson ? { streamJson: (request) => provider.streamJson!(metered(request)) } : {}),
+  };
+}
@@ -0,0 +1,30 @@
+import type { RoadmapMilestone } from "../src/types";
+
+/**
+ * Returns the milestones in an order where every prerequisite comes first,
+ * keeping the model's order wherever it is already consistent. References to
+ * unknown milestones are dropped, and a prerequisite cycle is broken by
+ * discarding the edges that close it.
+ */
+export function orderMilestones(milestones: RoadmapMilestone[]): RoadmapMilestone[] {
+  const ids = new Set(milestones.map((m) => m.id));
+  const pending = milestones.map((m) => ({
+    ...m,
+    prerequisites: Array.from(new Set(m.prerequisites)).filter((p) => ids.has(p) && p !== m.id),
+  }));
+  const placed = new Set<string>();
+  const ordered: RoadmapMilestone[] = [];
+
+  while (pending.length) {
+    let index = pending.findIndex((m) => m.prerequisites.every((p) => placed.has(p)));
+    if (index === -1) {
+      // Cycle: take the earliest remaining milestone and forget its unmet prerequisites.
+      index = 0;
+      pending[0].prerequisites = pending[0].prerequisites.filter((p) => placed.has(p));
+    }
+    const [next] = pending.splice(index, 1);
+    placed.add(next.id);
+    ordered.push(next);
+  }
+  return ordered;
+}
@@ -0,0 +1,119 @@
+import { Router } from "express";
+import { profileInputsSchema } from "../../src/lib/schemas";
+import { validateSchema } from "../../src/lib/validation";
+import { clearSessionCookie, hashPassword, requireUser, userOf, verifyPassword } from "../auth";
+import type { UserStore } from "../userStore";
+import { MAX_NAME_LENGTH, MAX_PASSWORD_LENGTH, passwordProblem } from "./auth";
+
+export const MAX_YEAR = 6;
+export const MAX_SECTION_LENGTH = 20;
+
+/** The signed-in student's own account: name, profile, class and consent, password, and deleting it all. */
+export function createAccountRouter(users: UserStore) {
+  const router = Router();
+  router.use(requireUser);
+
+  router.get("/", (req, res) => {
+    res.json(userOf(req));
+  });
+
+  // Accepts a new `displayName`, a `profile`, `year` and `section` (any `null` to forget it), and
+  // `shareWithAdvisors`, in any combination.
+  router.patch("/", (req, res) => {
+    const { displayName, profile, year, section, shareWithAdvisors } = req.body ?? {};
+    if (
+      displayName !== undefined &&
+      (typeof displayName !== "string" || !displayName.trim() || displayName.length > MAX_NAME_LENGTH)
+    ) {
+      res.status(400).json({ error: `displayName must be a non-empty string of at most ${MAX_NAME_LENGTH} characters.` });
+      return;
+    }
+    if (profile !== undefined && profile !== null && validateSchema(profile, profileInputsSchema).length) {
+      res.status(400).json({ error: "Invalid profile." });
+      return;
+    }
+    if (year !== undefined && year !== null && (!Number.isInteger(year) || year < 1 || year > MAX_YEAR)) {
+      res.status(400).json({ error: `year must be a whole number from 1 to ${MAX_YEAR}.` });
+      return;
+    }
+    if (
+      section !== undefined &&
+      section !== null &&
+      (typeof section !== "string" || section.length > MAX_SECTION_LENGTH)
+    ) {
+      res.status(400).json({ error: `section must be at most ${MAX_SECTION_LENGTH} characters.` });
+      return;
+    }
+    if (shareWithAdvisors !== undefined && typeof shareWithAdvisors !== "boolean") {
+      res.status(400).json({ error: "shareWithAdvisors must be true or false." });
+      return;
+    }
+    if (
+      displayName === undefined &&
+      profile === undefined &&
+      year === undefined &&
+      section === undefined &&
+      shareWithAdvisors === undefined
+    ) {
+      res.status(400).json({ error: "Nothing to update." });
+      return;
+    }
+    const { education, skills, interests, experience } = profile ?? {};
+    const savedExperience = experience?.trim();
+    res.json(
+      users.update(userOf(req).id, {
+        displayName: displayName?.trim(),
+        profile:
+          profile === undefined
+            ? undefined
+            : profile && { education, skills, interests, ...(savedExperience ? { experience: savedExperience } : {}) },
+        year,
+        // Upper-cased so "b" and "B" filter as one section.
+        section: typeof section === "string" ? section.trim().toUpperCase() || null : section,
+        shareWithAdvisors,
+      })
+    );
+  });
+
+  // Signs out every other session, since a password change usually means the old one leaked.
+  router.post("/password", async (req, res) => {
+    const { currentPassword, newPassword } = req.body ?? {};
+    const problem = passwordProblem(newPassword);
+    if (problem) {
+      res.status(400).json({ error: problem });
+      return;
+    }
+    const record = users.getRecord(userOf(req).id);
+    if (
+      !record ||
+      typeof currentPassword !== "string" ||
+      currentPassword.length > MAX_PASSWORD_LENGTH ||
+      !(await verifyPassword(currentPassword, record.passwordHash))
+    ) {
+      res.status(403).json({ error: "Your current password is not correct." });
+      return;
+    }
+    users.setPasswordHash(record.id, await hashPassword(newPassword));
+    users.endSessionsFor(record.id, req.sessionToken);
+    res.status(204).end();
+  });
+
+  router.delete("/", async (req, res) => {
+    const { password } = req.body ?? {};
+    const record = users.getRecord(userOf(req).id);
+    if (
+      !record ||
+      typeof password !== "string" ||
+      password.length > MAX_PASSWORD_LENGTH ||
+      !(await verifyPassword(password, record.passwordHash))
+    ) {
+      res.status(403).json({ error: "Your password is not correct." });
+      return;
+    }
+    users.remove(record.id);
+    clearSessionCookie(req, res);
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,107 @@
+import { timingSafeEqual } from "crypto";
+import { Router, type RequestHandler } from "express";
+import type { Quota } from "../quota";
+import type { UsageReport, UsageStore, UsageTotals } from "../usageStore";
+import type { UserStore } from "../userStore";
+import { normalizeEmail } from "./auth";
+
+const DAY_MS = 86_400_000;
+const MAX_REPORT_DAYS = 90;
+
+const sameToken = (given: string, expected: string) => {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+/** Requires `Authorization: Bearer <ADMIN_TOKEN>`; everything is refused when no token is configured. */
+function requireAdmin(adminToken?: string): RequestHandler {
+  return (req, res, next) => {
+    if (!adminToken) {
+      res.status(403).json({ error: "Admin endpoints are disabled. Set ADMIN_TOKEN to enable them." });
+      return;
+    }
+    const given = /^Bearer (.+)$/.exec(req.get("Authorization") ?? "")?.[1];
+    if (!given || !sameToken(given, adminToken)) {
+      res.status(401).json({ error: "A valid admin token is required." });
+      return;
+    }
+    next();
+  };
+}
+
+const COLUMNS: [string, keyof UsageTotals][] = [
+  ["requests", "requests"],
+  ["limited", "limited"],
+  ["model calls", "modelCalls"],
+  ["input tokens", "inputTokens"],
+  ["output tokens", "outputTokens"],
+];
+
+/** A plain-text table, for reading the report in a terminal. */
+function table(label: string, rows: (UsageTotals & { label: string })[]): string {
+  const header = [label, ...COLUMNS.map(([title]) => title)];
+  const body = rows.map((row) => [row.label, ...COLUMNS.map(([, key]) => row[key].toLocaleString("en-US"))]);
+  const widths = header.map((title, i) => Math.max(title.length, ...body.map((cells) => cells[i].length)));
+  const line = (cells: string[]) =>
+    cells.map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join("  ");
+  return [line(header), ...body.map(line)].join("\n");
+}
+
+function formatReport(report: UsageReport, status: ReturnType<Quota["status"]>): string {
+  const budget = status.dailyTokenBudget
+    ? `${status.tokensToday.toLocaleString("en-US")} of ${status.dailyTokenBudget.toLocaleString("en-US")} tokens used today, resets ${status.resetsAt}`
+    : `${status.tokensToday.toLocaleString("en-US")} tokens used today (no daily budget)`;
+  return [
+    `Usage from ${report.from} to ${report.to}`,
+    budget,
+    "",
+    table("day", report.byDay.map((row) => ({ ...row, label: row.day }))),
+    "",
+    table("endpoint", report.byEndpoint.map((row) => ({ ...row, label: row.endpoint }))),
+    "",
+    table("top clients", report.topClients.map((row) => ({ ...row, label: row.client }))),
+    "",
+    table("total", [{ ...report.totals, label: "all" }]),
+    "",
+  ].join("\n");
+}
+
+export function createAdminRouter(usage: UsageStore, quota: Quota, users: UserStore, adminToken?: string) {
+  const router = Router();
+  router.use(requireAdmin(adminToken));
+
+  // `?days=7` (default) up to 90; `?format=text` for a plain-text table instead of JSON.
+  router.get("/usage", (req, res) => {
+    const days = Number(req.query.days ?? 7);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_REPORT_DAYS) {
+      res.status(400).json({ error: `days must be a whole number from 1 to ${MAX_REPORT_DAYS}.` });
+      return;
+    }
+    const to = Date.now();
+    const report = usage.report(to - days * DAY_MS, to);
+    const status = quota.status();
+    if (req.query.format === "text") {
+      res.type("text/plain").send(formatReport(report, status));
+      return;
+    }
+    res.json({ ...report, quota: status });
+  });
+
+  // Gives an existing account the advisor role, or with `"role": "student"` takes it away.
+  router.post("/roles", (req, res) => {
+    const { email, role } = req.body ?? {};
+    if (typeof email !== "string" || (role !== "advisor" && role !== "student")) {
+      res.status(400).json({ error: 'email and a role of "advisor" or "student" are required.' });
+      return;
+    }
+    const user = users.setRole(normalizeEmail(email), role);
+    if (!user) {
+      res.status(404).json({ error: "No account has this email. Ask them to register first." });
+      return;
+    }
+    res.json(user);
+  });
+
+  return router;
+}
@@ -0,0 +1,76 @@
+import { Router } from "express";
+import type { CohortFilter, StudentDetail } from "../../src/types";
+import type { AdvisorStore } from "../advisorStore";
+import { requireAdvisor, userOf } from "../auth";
+import type { HistoryStore } from "../historyStore";
+import { MAX_SECTION_LENGTH, MAX_YEAR } from "./account";
+
+const MAX_COMMENT_LENGTH = 2_000;
+
+/**
+ * The advisor dashboard. Students only appear once they have agreed to share
+ * with advisors, and their follow-up conversations are never included.
+ */
+export function createAdvisorRouter(advisors: AdvisorStore, history: HistoryStore) {
+  const router = Router();
+  router.use(requireAdvisor);
+
+  // `?year=3&section=B`, either or both.
+  router.get("/dashboard", (req, res) => {
+    const { year, section } = req.query;
+    const filter: CohortFilter = {};
+    if (year !== undefined && year !== "") {
+      const value = Number(year);
+      if (!Number.isInteger(value) || value < 1 || value > MAX_YEAR) {
+        res.status(400).json({ error: `year must be a whole number from 1 to ${MAX_YEAR}.` });
+        return;
+      }
+      filter.year = value;
+    }
+    if (section !== undefined && section !== "") {
+      if (typeof section !== "string" || section.length > MAX_SECTION_LENGTH) {
+        res.status(400).json({ error: "Invalid section." });
+        return;
+      }
+      filter.section = section.trim().toUpperCase();
+    }
+    res.json(advisors.dashboard(filter));
+  });
+
+  router.get("/students/:id", (req, res) => {
+    const student = advisors.student(req.params.id);
+    if (!student) {
+      res.status(404).json({ error: "This student is not sharing with advisors." });
+      return;
+    }
+    const detail: StudentDetail = {
+      student,
+      roadmaps: history.list(student.id).map(({ conversation: _conversation, ...item }) => item),
+      comments: advisors.comments(student.id),
+    };
+    res.json(detail);
+  });
+
+  router.post("/students/:id/comments", (req, res) => {
+    const body = req.body?.body;
+    if (typeof body !== "string" || !body.trim() || body.length > MAX_COMMENT_LENGTH) {
+      res.status(400).json({ error: `Comments must be 1 to ${MAX_COMMENT_LENGTH} characters.` });
+      return;
+    }
+    if (!advisors.student(req.params.id)) {
+      res.status(404).json({ error: "This student is not sharing with advisors." });
+      return;
+    }
+    res.status(201).json(advisors.addComment(req.params.id, userOf(req).id, body.trim()));
+  });
+
+  router.delete("/students/:id/comments/:commentId", (req, res) => {
+    if (!advisors.removeComment(req.params.id, userOf(req).id, req.params.commentId)) {
+      res.status(404).json({ error: "Comment not found." });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  return router;
+}
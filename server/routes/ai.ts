@@ -0,0 +1,326 @@
+import { Router, type Request, type Response } from "express";
+import {
+  markCached,
+  recommendationCacheKey,
+  resumeCacheKey,
+  type RecommendationCacheInput,
+  type ResponseCache,
+} from "../../src/lib/cache";
+import { rejectsEveryTrack } from "../../src/lib/refinement";
+import {
+  careerRecommendationSchema,
+  chatMessageSchema,
+  profileInputsSchema,
+  refinementConstraintsSchema,
+} from "../../src/lib/schemas";
+import { validateSchema } from "../../src/lib/validation";
+import type {
+  CareerRecommendation,
+  RecommendationEngine,
+  RecommendationStreamEvent,
+  RefinementConstraints,
+  ResumeData,
+  ResumeSource,
+} from "../../src/types";
+import type { CareerService } from "../careerService";
+import { LLMError, toLLMError } from "../errors";
+import { PROMPTS, promptVersion } from "../prompts";
+import type { Quota } from "../quota";
+
+// Generous for a resume or job posting (a few pages is ~10k characters) while keeping prompts bounded.
+const MAX_DOCUMENT_TEXT_LENGTH = 50_000;
+
+// Bounds the prompt size for follow-up chat; older turns beyond this are the client's to trim.
+const MAX_CHAT_MESSAGES = 40;
+const MAX_CHAT_MESSAGE_LENGTH = 4_000;
+
+/** File types the models accept inline; Word files are converted to text in the browser. */
+const SCANNABLE_MIME_TYPES = ["application/pdf", "text/plain"];
+
+/** Responds with the status and category of an AI failure so the UI can explain it. */
+export function sendAIError(res: Response, err: unknown, fallback: string) {
+  console.error(err);
+  const error = toLLMError(err);
+  res.status(error.status).json({
+    error: error.category === "unknown" && !(err instanceof LLMError) ? fallback : error.message,
+    category: error.category,
+  });
+}
+
+/** An AbortSignal that fires if the client disconnects before the response is finished. */
+export function abortOnClose(res: Response) {
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller.signal;
+}
+
+// Offline fallbacks are stored nowhere, so the model is asked again next time.
+const isModelResult = (recommendation: CareerRecommendation) => recommendation.engine === "ai";
+
+function profileFromBody(req: Request, res: Response) {
+  const { education, skills, interests, experience, engine = "ai", constraints, refresh } = req.body ?? {};
+  if (
+    typeof education !== "string" ||
+    typeof skills !== "string" ||
+    typeof interests !== "string"
+  ) {
+    res.status(400).json({ error: "education, skills and interests are required." });
+    return undefined;
+  }
+  if (experience !== undefined && typeof experience !== "string") {
+    res.status(400).json({ error: "experience must be a string." });
+    return undefined;
+  }
+  if (engine !== "ai" && engine !== "rules") {
+    res.status(400).json({ error: "engine must be ai or rules." });
+    return undefined;
+  }
+  if (constraints !== undefined && validateSchema(constraints, refinementConstraintsSchema).length) {
+    res.status(400).json({ error: "Invalid refinement constraints." });
+    return undefined;
+  }
+  if (constraints !== undefined && rejectsEveryTrack(constraints)) {
+    res.status(400).json({ error: "Every career track is rejected; keep at least one open." });
+    return undefined;
+  }
+  return {
+    education,
+    skills,
+    interests,
+    experience: experience as string | undefined,
+    engine: engine as RecommendationEngine,
+    constraints: constraints as RefinementConstraints | undefined,
+    /** Skip the response cache ("regenerate anyway"). */
+    refresh: refresh === true,
+  };
+}
+
+/**
+ * Model-backed routes. Recommendations and resume scans go through
+ * `responseCache`, keyed on the normalized request, the prompt version and
+ * `model`, so repeated requests are answered without another model call.
+ * They are also the rate-limited ones; every route here counts toward `quota`.
+ */
+export function createAIRouter(
+  careerService: CareerService,
+  responseCache: ResponseCache,
+  model: string,
+  quota: Quota
+) {
+  const router = Router();
+
+  const recommendationKey = (profile: RecommendationCacheInput) =>
+    recommendationCacheKey(profile, [promptVersion(PROMPTS.career_recommendation), model]);
+
+  router.post("/recommendations", quota.limited("recommendations"), async (req, res) => {
+    const profile = profileFromBody(req, res);
+    if (!profile) return;
+
+    const { education, skills, interests, experience, engine, constraints, refresh } = profile;
+    try {
+      const result = await responseCache.load(
+        await recommendationKey(profile),
+        (signal) =>
+          careerService.getCareerRecommendations(education, skills, interests, signal, engine, constraints, experience),
+        { signal: abortOnClose(res), refresh, shouldStore: isModelResult }
+      );
+      res.json(markCached(result));
+    } catch (err) {
+      sendAIError(res, err, "Could not generate recommendations. Please try again.");
+    }
+  });
+
+  // Newline-delimited JSON: a `partial` event per parse update, then `done` or `error`.
+  router.post("/recommendations/stream", quota.limited("recommendations"), async (req, res) => {
+    const profile = profileFromBody(req, res);
+    if (!profile) return;
+
+    const signal = abortOnClose(res);
+    const send = (event: RecommendationStreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+    res.setHeader("Content-Type", "application/x-ndjson");
+    res.setHeader("Cache-Control", "no-cache");
+
+    const { education, skills, interests, experience, engine, constraints, refresh } = profile;
+    try {
+      // A cached result arrives as a lone `done`; a request joined midway streams from where it is.
+      const result = await responseCache.load<CareerRecommendation, Partial<CareerRecommendation>>(
+        await recommendationKey(profile),
+        async (sharedSignal, progress) => {
+          for await (const update of careerService.streamCareerRecommendations(
+            education,
+            skills,
+            interests,
+            sharedSignal,
+            engine,
+            constraints,
+            experience
+          )) {
+            if (update.type === "done") return update.data;
+            progress(update.data);
+          }
+          throw new Error("The recommendation stream ended without a result.");
+        },
+        {
+          signal,
+          refresh,
+          shouldStore: isModelResult,
+          onProgress: (data) => {
+            if (!signal.aborted) send({ type: "partial", data });
+          },
+        }
+      );
+      if (!signal.aborted) send({ type: "done", data: markCached(result) });
+    } catch (err) {
+      if (!signal.aborted) {
+        console.error(err);
+        const error = toLLMError(err);
+        send({ type: "error", error: error.message, category: error.category });
+      }
+    }
+    res.end();
+  });
+
+  router.post("/roadmap", quota.metered("roadmap"), async (req, res) => {
+    const { careerPath, inputs, skillsToLearn, granularity } = req.body ?? {};
+    if (
+      typeof careerPath !== "string" ||
+      !careerPath.trim() ||
+      validateSchema(inputs, profileInputsSchema).length ||
+      !Array.isArray(skillsToLearn) ||
+      (granularity !== "week" && granularity !== "month")
+    ) {
+      res.status(400).json({
+        error: "careerPath, inputs, skillsToLearn and granularity (week or month) are required.",
+      });
+      return;
+    }
+
+    try {
+      const roadmap = await careerService.generateLearningRoadmap(
+        { careerPath, inputs, skillsToLearn: skillsToLearn.map(String), granularity },
+        abortOnClose(res)
+      );
+      res.json(roadmap);
+    } catch (err) {
+      sendAIError(res, err, "Could not build a learning roadmap. Please try again.");
+    }
+  });
+
+  router.post("/projects", quota.metered("projects"), async (req, res) => {
+    const { careerPath, inputs, skillsToLearn } = req.body ?? {};
+    if (
+      typeof careerPath !== "string" ||
+      !careerPath.trim() ||
+      validateSchema(inputs, profileInputsSchema).length ||
+      !Array.isArray(skillsToLearn)
+    ) {
+      res.status(400).json({ error: "careerPath, inputs and skillsToLearn are required." });
+      return;
+    }
+
+    try {
+      const plan = await careerService.generateProjectIdeas(
+        { careerPath, inputs, skillsToLearn: skillsToLearn.map(String) },
+        abortOnClose(res)
+      );
+      res.json(plan);
+    } catch (err) {
+      sendAIError(res, err, "Could not suggest projects. Please try again.");
+    }
+  });
+
+  router.post("/skill-gap", quota.metered("skill-gap"), async (req, res) => {
+    const { jobDescription, inputs } = req.body ?? {};
+    if (
+      typeof jobDescription !== "string" ||
+      !jobDescription.trim() ||
+      validateSchema(inputs, profileInputsSchema).length
+    ) {
+      res.status(400).json({ error: "jobDescription and inputs are required." });
+      return;
+    }
+    if (jobDescription.length > MAX_DOCUMENT_TEXT_LENGTH) {
+      res.status(413).json({ error: "The job description is too long. Please trim it and try again." });
+      return;
+    }
+
+    try {
+      const analysis = await careerService.analyzeSkillGap(
+        { jobDescription, inputs },
+        abortOnClose(res)
+      );
+      res.json(analysis);
+    } catch (err) {
+      sendAIError(res, err, "Could not analyze this job description. Please try again.");
+    }
+  });
+
+  router.post("/chat", quota.metered("chat"), async (req, res) => {
+    const { inputs, recommendation, messages } = req.body ?? {};
+    if (
+      validateSchema(inputs, profileInputsSchema).length ||
+      validateSchema(recommendation, careerRecommendationSchema).length ||
+      !Array.isArray(messages) ||
+      !messages.length ||
+      messages.some((message) => validateSchema(message, chatMessageSchema).length) ||
+      messages[messages.length - 1].role !== "user" ||
+      !messages[messages.length - 1].content.trim()
+    ) {
+      res.status(400).json({
+        error: "inputs, recommendation and messages ending with a question from the student are required.",
+      });
+      return;
+    }
+    if (
+      messages.length > MAX_CHAT_MESSAGES ||
+      messages.some((message) => message.content.length > MAX_CHAT_MESSAGE_LENGTH)
+    ) {
+      res.status(413).json({ error: "This conversation is too long. Start a new one to keep asking." });
+      return;
+    }
+
+    try {
+      const reply = await careerService.answerFollowUp(
+        { inputs, recommendation, messages },
+        abortOnClose(res)
+      );
+      res.json(reply);
+    } catch (err) {
+      sendAIError(res, err, "Could not answer this question. Please try again.");
+    }
+  });
+
+  router.post("/scan-resume", quota.limited("scan-resume"), async (req, res) => {
+    const { text, data, mimeType, refresh } = req.body ?? {};
+    let source: ResumeSource;
+    if (typeof text === "string" && text.trim()) {
+      if (text.length > MAX_DOCUMENT_TEXT_LENGTH) {
+        res.status(413).json({ error: "The resume text is too long. Please trim it and try again." });
+        return;
+      }
+      source = { text };
+    } else if (typeof data === "string" && data && SCANNABLE_MIME_TYPES.includes(mimeType)) {
+      source = { data, mimeType };
+    } else {
+      res.status(400).json({
+        error: "Send the resume as text, or as base64 data with a PDF or plain-text mimeType.",
+      });
+      return;
+    }
+
+    try {
+      const result = await responseCache.load<ResumeData>(
+        await resumeCacheKey(source, [promptVersion(PROMPTS.resume_data), model]),
+        (signal) => careerService.scanResume(source, signal),
+        { signal: abortOnClose(res), refresh: refresh === true }
+      );
+      res.json(markCached(result));
+    } catch (err) {
+      sendAIError(res, err, "Could not scan the resume. Please try manual input.");
+    }
+  });
+
+  return router;
+}
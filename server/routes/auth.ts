@@ -0,0 +1,117 @@
+import { Router, type Request, type Response } from "express";
+import type { AuthSession, User } from "../../src/types";
+import {
+  clearSessionCookie,
+  hashPassword,
+  setSessionCookie,
+  unknownUserHash,
+  verifyPassword,
+} from "../auth";
+import type { AuthConfig } from "../config";
+import { createRateLimiter } from "../quota";
+import type { UserStore } from "../userStore";
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_EMAIL_LENGTH = 254;
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_PASSWORD_LENGTH = 200;
+export const MAX_NAME_LENGTH = 80;
+
+// Failed sign-ins allowed per email before it is locked for the rest of the window.
+const SIGN_IN_ATTEMPTS = { limit: 10, windowMs: 15 * 60_000 };
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+/** Why `password` cannot be used, or null if it can. */
+export function passwordProblem(password: unknown): string | null {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return `Passwords need at least ${MIN_PASSWORD_LENGTH} characters.`;
+  }
+  if (password.length > MAX_PASSWORD_LENGTH) return `Passwords can be at most ${MAX_PASSWORD_LENGTH} characters.`;
+  return null;
+}
+
+/**
+ * Registration, sign-in and sign-out. Sessions live in an HttpOnly cookie; see `../auth`.
+ * `cacheScope` is reported with the session so the browser can key its cache like the server.
+ */
+export function createAuthRouter(users: UserStore, config: AuthConfig, cacheScope: string[] = []) {
+  const router = Router();
+  const failedSignIns = createRateLimiter(SIGN_IN_ATTEMPTS);
+
+  const signIn = (req: Request, res: Response, user: User) => {
+    const token = users.createSession(user.id, Date.now() + config.sessionTtlMs);
+    setSessionCookie(req, res, token, config.sessionTtlMs);
+  };
+
+  router.get("/session", (req, res) => {
+    const session: AuthSession = { user: req.user ?? null, allowGuests: config.allowGuests, cacheScope };
+    res.json(session);
+  });
+
+  router.post("/register", async (req, res) => {
+    const { email, password, displayName } = req.body ?? {};
+    if (typeof email !== "string" || email.length > MAX_EMAIL_LENGTH || !EMAIL.test(email.trim())) {
+      res.status(400).json({ error: "Enter a valid email address." });
+      return;
+    }
+    const problem = passwordProblem(password);
+    if (problem) {
+      res.status(400).json({ error: problem });
+      return;
+    }
+    if (displayName !== undefined && (typeof displayName !== "string" || displayName.length > MAX_NAME_LENGTH)) {
+      res.status(400).json({ error: `Names can be at most ${MAX_NAME_LENGTH} characters.` });
+      return;
+    }
+
+    const normalized = normalizeEmail(email);
+    const user = users.create({
+      email: normalized,
+      passwordHash: await hashPassword(password),
+      displayName: displayName?.trim() || normalized.split("@")[0],
+    });
+    if (!user) {
+      res.status(409).json({ error: "An account with this email already exists. Sign in instead." });
+      return;
+    }
+    signIn(req, res, user);
+    res.status(201).json(user);
+  });
+
+  router.post("/login", async (req, res) => {
+    const { email, password } = req.body ?? {};
+    if (typeof email !== "string" || typeof password !== "string" || password.length > MAX_PASSWORD_LENGTH) {
+      res.status(400).json({ error: "email and password are required." });
+      return;
+    }
+    const normalized = normalizeEmail(email);
+    const now = Date.now();
+    const waitMs = failedSignIns.retryAfter(normalized, now);
+    if (waitMs) {
+      const retryAfter = Math.ceil(waitMs / 1000);
+      res.setHeader("Retry-After", String(retryAfter));
+      res.status(429).json({ error: "Too many failed sign-ins. Please wait and try again.", category: "rate_limit", retryAfter });
+      return;
+    }
+
+    const record = users.findByEmail(normalized);
+    const valid = await verifyPassword(password, record?.passwordHash ?? (await unknownUserHash()));
+    if (!record || !valid) {
+      failedSignIns.hit(normalized, now);
+      res.status(401).json({ error: "That email and password do not match an account." });
+      return;
+    }
+    const { passwordHash: _passwordHash, ...user } = record;
+    signIn(req, res, user);
+    res.json(user);
+  });
+
+  router.post("/logout", (req, res) => {
+    if (req.sessionToken) users.endSession(req.sessionToken);
+    clearSessionCookie(req, res);
+    res.status(204).end();
+  });
+
+  return router;
+}
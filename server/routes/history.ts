@@ -0,0 +1,142 @@
+import { Router } from "express";
+import { parseHistoryItem } from "../../src/lib/history";
+import {
+  careerRecommendationSchema,
+  chatMessageSchema,
+  historyItemSchema,
+  learningRoadmapSchema,
+  projectPlanSchema,
+  recommendationVersionSchema,
+} from "../../src/lib/schemas";
+import { validateSchema } from "../../src/lib/validation";
+import type { HistoryItem } from "../../src/types";
+import { requireUser, userOf } from "../auth";
+import type { HistoryStore } from "../historyStore";
+
+export function createHistoryRouter(store: HistoryStore) {
+  const router = Router();
+  router.use(requireUser);
+
+  router.get("/", (req, res) => {
+    res.json(store.list(userOf(req).id));
+  });
+
+  router.get("/:id", (req, res) => {
+    const item = store.get(userOf(req).id, req.params.id);
+    if (!item) {
+      res.status(404).json({ error: "Roadmap not found." });
+      return;
+    }
+    res.json(item);
+  });
+
+  router.post("/", (req, res) => {
+    const issues = validateSchema(req.body, historyItemSchema);
+    if (issues.length || !req.body.title.trim()) {
+      res.status(400).json({ error: "Invalid roadmap.", issues });
+      return;
+    }
+    const { title, date, recommendation, inputs, roadmap, projects, conversation, versions } =
+      req.body as HistoryItem;
+    res.status(201).json(
+      store.create(userOf(req).id, {
+        title: title.trim(),
+        date,
+        recommendation,
+        inputs,
+        roadmap,
+        projects,
+        conversation,
+        versions,
+      })
+    );
+  });
+
+  // Bulk import of JSON exports, also used to move roadmaps kept in the browser (by guests) into an account.
+  // Items that fail validation or whose id already exists are skipped; `savedIds` lists the sent ids now in
+  // the account, so a browser only drops its copies of those.
+  router.post("/import", (req, res) => {
+    const items = req.body?.items;
+    if (!Array.isArray(items)) {
+      res.status(400).json({ error: "items must be an array." });
+      return;
+    }
+    const valid = items.map(parseHistoryItem).filter((item): item is HistoryItem => !!item);
+    const { imported, savedIds } = store.importMany(userOf(req).id, valid);
+    res.json({ imported, skipped: items.length - imported, savedIds });
+  });
+
+  // Accepts a new `title`, a `roadmap`, `projects` and a `conversation` (any `null` to remove it), and a refined
+  // `recommendation` with its `versions` chain, in any combination.
+  router.patch("/:id", (req, res) => {
+    const { title, roadmap, projects, conversation, recommendation, versions } = req.body ?? {};
+    if (title !== undefined && (typeof title !== "string" || !title.trim())) {
+      res.status(400).json({ error: "title must be a non-empty string." });
+      return;
+    }
+    if (roadmap !== undefined && roadmap !== null && validateSchema(roadmap, learningRoadmapSchema).length) {
+      res.status(400).json({ error: "Invalid learning roadmap." });
+      return;
+    }
+    if (projects !== undefined && projects !== null && validateSchema(projects, projectPlanSchema).length) {
+      res.status(400).json({ error: "Invalid project plan." });
+      return;
+    }
+    if (
+      conversation !== undefined &&
+      conversation !== null &&
+      validateSchema(conversation, { type: "array", items: chatMessageSchema }).length
+    ) {
+      res.status(400).json({ error: "Invalid conversation." });
+      return;
+    }
+    if (
+      (recommendation !== undefined || versions !== undefined) &&
+      (validateSchema(recommendation, careerRecommendationSchema).length ||
+        validateSchema(versions, { type: "array", items: recommendationVersionSchema }).length)
+    ) {
+      res.status(400).json({ error: "recommendation and versions must be sent together and be valid." });
+      return;
+    }
+    if (
+      title === undefined &&
+      roadmap === undefined &&
+      projects === undefined &&
+      conversation === undefined &&
+      recommendation === undefined
+    ) {
+      res.status(400).json({ error: "Nothing to update." });
+      return;
+    }
+
+    const userId = userOf(req).id;
+    let item = store.get(userId, req.params.id);
+    if (item && title !== undefined) item = store.rename(userId, item.id, title.trim());
+    if (item && roadmap !== undefined) item = store.setRoadmap(userId, item.id, roadmap);
+    if (item && projects !== undefined) item = store.setProjects(userId, item.id, projects);
+    if (item && conversation !== undefined) item = store.setConversation(userId, item.id, conversation);
+    if (item && recommendation !== undefined) {
+      item = store.setRecommendation(userId, item.id, recommendation, versions);
+    }
+    if (!item) {
+      res.status(404).json({ error: "Roadmap not found." });
+      return;
+    }
+    res.json(item);
+  });
+
+  router.delete("/:id", (req, res) => {
+    if (!store.remove(userOf(req).id, req.params.id)) {
+      res.status(404).json({ error: "Roadmap not found." });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  router.delete("/", (req, res) => {
+    store.clear(userOf(req).id);
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,122 @@
+import { randomUUID } from "crypto";
+import { Router } from "express";
+import { profileInputsSchema } from "../../src/lib/schemas";
+import { validateSchema } from "../../src/lib/validation";
+import type { ProficiencyLevel } from "../../src/types";
+import { requireUser, userOf } from "../auth";
+import type { CareerService } from "../careerService";
+import type { InterviewStore } from "../interviewStore";
+import type { Quota } from "../quota";
+import { abortOnClose, sendAIError } from "./ai";
+
+const LEVELS: ProficiencyLevel[] = ["beginner", "intermediate", "advanced"];
+const MAX_ANSWER_LENGTH = 6_000;
+const MAX_FOCUS_TOPICS = 10;
+
+/** Mock interviews are generated and graded by the model, then kept with the student's account so weak topics can be retried. */
+export function createInterviewRouter(careerService: CareerService, interviews: InterviewStore, quota: Quota) {
+  const router = Router();
+  router.use(requireUser);
+
+  router.get("/", (req, res) => {
+    const role = typeof req.query.role === "string" ? req.query.role : undefined;
+    res.json(interviews.list(userOf(req).id, role));
+  });
+
+  router.get("/:id", (req, res) => {
+    const session = interviews.get(userOf(req).id, req.params.id);
+    if (!session) {
+      res.status(404).json({ error: "Interview session not found." });
+      return;
+    }
+    res.json(session);
+  });
+
+  router.post("/", quota.metered("interview-questions"), async (req, res) => {
+    const { role, level, inputs, focusTopics = [] } = req.body ?? {};
+    if (
+      typeof role !== "string" ||
+      !role.trim() ||
+      !LEVELS.includes(level) ||
+      validateSchema(inputs, profileInputsSchema).length ||
+      !Array.isArray(focusTopics) ||
+      focusTopics.length > MAX_FOCUS_TOPICS ||
+      focusTopics.some((topic) => typeof topic !== "string")
+    ) {
+      res.status(400).json({
+        error: "role, level (beginner, intermediate or advanced) and inputs are required.",
+      });
+      return;
+    }
+
+    try {
+      const questions = await careerService.generateInterviewQuestions(
+        { role: role.trim(), level, inputs, focusTopics },
+        abortOnClose(res)
+      );
+      const session = interviews.create(userOf(req).id, {
+        role: role.trim(),
+        level,
+        focusTopics,
+        questions: questions.map((question) => ({ id: randomUUID(), ...question })),
+      });
+      res.status(201).json(session);
+    } catch (err) {
+      sendAIError(res, err, "Could not prepare interview questions. Please try again.");
+    }
+  });
+
+  // Grades one answer; answering again replaces the earlier answer and its feedback.
+  router.post("/:id/questions/:questionId/answer", quota.metered("interview-feedback"), async (req, res) => {
+    const { answer } = req.body ?? {};
+    if (typeof answer !== "string" || !answer.trim()) {
+      res.status(400).json({ error: "answer is required." });
+      return;
+    }
+    if (answer.length > MAX_ANSWER_LENGTH) {
+      res.status(413).json({ error: "This answer is too long. Please shorten it and try again." });
+      return;
+    }
+    const userId = userOf(req).id;
+    const session = interviews.get(userId, req.params.id);
+    const question = session?.questions.find((q) => q.id === req.params.questionId);
+    if (!session || !question) {
+      res.status(404).json({ error: "Interview question not found." });
+      return;
+    }
+
+    try {
+      const feedback = await careerService.gradeInterviewAnswer(
+        { role: session.role, level: session.level, question: question.question, answer },
+        abortOnClose(res)
+      );
+      // Re-read so concurrent grading of other questions in the session is not lost.
+      const latest = interviews.get(userId, session.id);
+      const updated =
+        latest &&
+        interviews.setQuestions(
+          userId,
+          session.id,
+          latest.questions.map((q) => (q.id === question.id ? { ...q, answer, feedback } : q))
+        );
+      // The session may have been deleted while the answer was being graded.
+      if (!updated) {
+        res.status(404).json({ error: "Interview session not found." });
+        return;
+      }
+      res.json(updated);
+    } catch (err) {
+      sendAIError(res, err, "Could not grade this answer. Please try again.");
+    }
+  });
+
+  router.delete("/:id", (req, res) => {
+    if (!interviews.remove(userOf(req).id, req.params.id)) {
+      res.status(404).json({ error: "Interview session not found." });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,89 @@
+import { Router, type Request } from "express";
+import type { ShareLink } from "../../src/types";
+import { requireUser, userOf } from "../auth";
+import type { HistoryStore } from "../historyStore";
+import type { ShareRecord, ShareStore } from "../shareStore";
+
+const MAX_EXPIRY_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const GONE_MESSAGES = {
+  expired: "This shared link has expired.",
+  revoked: "This shared link was turned off by its owner.",
+};
+
+/**
+ * Share management lives under the saved roadmap (`/history/:id/shares`), so
+ * only the student who owns the roadmap can create or revoke its links. The
+ * public view (`/shares/:shareId`) needs no account and never exposes the
+ * roadmap's own id.
+ */
+export function createShareRouter(shares: ShareStore, history: HistoryStore, appUrl?: string) {
+  const router = Router();
+
+  // Links point at APP_URL when it is configured, otherwise at the host the request came in on.
+  const baseUrl = (req: Request) => (appUrl || `${req.protocol}://${req.get("host")}`).replace(/\/+$/, "");
+
+  const toLink = (req: Request, share: ShareRecord): ShareLink => ({
+    id: share.id,
+    url: `${baseUrl(req)}/share/${share.id}`,
+    createdAt: new Date(share.createdAt).toISOString(),
+    expiresAt: share.expiresAt === null ? null : new Date(share.expiresAt).toISOString(),
+  });
+
+  router.get("/history/:id/shares", requireUser, (req, res) => {
+    if (!history.get(userOf(req).id, req.params.id)) {
+      res.status(404).json({ error: "Roadmap not found." });
+      return;
+    }
+    const now = Date.now();
+    res.json(
+      shares
+        .listFor(req.params.id)
+        .filter((share) => share.expiresAt === null || share.expiresAt > now)
+        .map((share) => toLink(req, share))
+    );
+  });
+
+  // `expiresInDays` is optional; omitted or null means the link lasts until revoked.
+  router.post("/history/:id/shares", requireUser, (req, res) => {
+    const expiresInDays = req.body?.expiresInDays ?? null;
+    if (
+      expiresInDays !== null &&
+      (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS)
+    ) {
+      res.status(400).json({ error: `expiresInDays must be a whole number from 1 to ${MAX_EXPIRY_DAYS}.` });
+      return;
+    }
+    const item = history.get(userOf(req).id, req.params.id);
+    if (!item) {
+      res.status(404).json({ error: "Roadmap not found." });
+      return;
+    }
+    const expiresAt = expiresInDays === null ? null : Date.now() + expiresInDays * DAY_MS;
+    res.status(201).json(toLink(req, shares.create(item, expiresAt)));
+  });
+
+  router.delete("/history/:id/shares/:shareId", requireUser, (req, res) => {
+    if (!history.get(userOf(req).id, req.params.id) || !shares.revoke(req.params.id, req.params.shareId)) {
+      res.status(404).json({ error: "Shared link not found." });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  router.get("/shares/:shareId", (req, res) => {
+    const result = shares.lookup(req.params.shareId);
+    if (result.status === "missing") {
+      res.status(404).json({ error: "This shared link does not exist." });
+      return;
+    }
+    if (result.status !== "active") {
+      res.status(410).json({ error: GONE_MESSAGES[result.status] });
+      return;
+    }
+    res.json(result.roadmap);
+  });
+
+  return router;
+}
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { emptyConstraints, rejectsEveryTrack } from "../src/lib/refinement";
+import { careerRecommendationSchema } from "../src/lib/schemas";
+import { CAREER_TRACKS } from "../src/lib/taxonomy";
+import { validateSchema } from "../src/lib/validation";
+import { recommendFromRules } from "./ruleRecommender";
+
+describe("recommendFromRules", () => {
+  test("ranks the track the student's skills point to first", () => {
+    const rec = recommendFromRules("3rd Year B.Tech ECE", "Verilog, Digital Logic, FPGA", "Chip Design");
+    assert.equal(rec.engine, "rules");
+    assert.equal(rec.careerPaths.length, 3);
+    assert.match(rec.careerPaths[0].title, /RTL|Digital|FPGA|VLSI/);
+    assert.ok(rec.careerPaths[0].fitScore >= rec.careerPaths[1].fitScore);
+  });
+
+  test("gives the same answer for the same inputs", () => {
+    const a = recommendFromRules("B.Tech ECE", "Arduino, C", "IoT");
+    const b = recommendFromRules("B.Tech ECE", "Arduino, C", "IoT");
+    assert.deepEqual(a, b);
+  });
+
+  test("does not suggest skills the student already has", () => {
+    const rec = recommendFromRules("B.Tech ECE", "Verilog", "VLSI");
+    assert.ok(!rec.skillsToLearn.includes("Verilog"));
+  });
+
+  test("leaves out rejected tracks and keeps pinned ones", () => {
+    const first = recommendFromRules("B.Tech ECE", "Verilog, FPGA", "VLSI");
+    const top = first.careerPaths[0].title;
+    const rejected = recommendFromRules("B.Tech ECE", "Verilog, FPGA", "VLSI", {
+      ...emptyConstraints(),
+      rejectedPaths: [{ title: top, reason: "" }],
+    });
+    assert.ok(!rejected.careerPaths.some((path) => path.title === top));
+
+    const pinned = recommendFromRules("B.Tech ECE", "Verilog, FPGA", "VLSI", {
+      ...emptyConstraints(),
+      pinnedPaths: ["RF & Microwave Engineering"],
+    });
+    assert.ok(pinned.careerPaths.some((path) => path.title === "RF & Microwave Engineering"));
+  });
+
+  test("still gives a valid recommendation with only one track left", () => {
+    const [kept, ...others] = CAREER_TRACKS;
+    const constraints = {
+      ...emptyConstraints(),
+      rejectedPaths: others.map((track) => ({ title: track.name, reason: "" })),
+    };
+    assert.equal(rejectsEveryTrack(constraints), false);
+
+    const rec = recommendFromRules("B.Tech ECE", "Verilog", "VLSI", constraints);
+    assert.deepEqual(
+      rec.careerPaths.map((path) => path.title),
+      [kept.name]
+    );
+    assert.deepEqual(validateSchema(rec, careerRecommendationSchema), []);
+  });
+
+  test("counts rejecting every track as having nothing left", () => {
+    const constraints = {
+      ...emptyConstraints(),
+      rejectedPaths: CAREER_TRACKS.map((track) => ({ title: track.name, reason: "" })),
+    };
+    assert.equal(rejectsEveryTrack(constraints), true);
+  });
+});
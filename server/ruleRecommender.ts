@@ -0,0 +1,146 @@
+import type { CareerPath, CareerRecommendation, CareerTrack, RefinementConstraints } from "../src/types";
+import { emptyConstraints, isPinned, isRejected, withHypotheticalSkills } from "../src/lib/refinement";
+import { parseInterests, parseSkills } from "../src/lib/skills";
+import { CAREER_TRACKS, TAXONOMY_VERSION, matchScore, normalizeTerm } from "../src/lib/taxonomy";
+
+const MAX_PATHS = 3;
+const MAX_SKILLS_TO_LEARN = 6;
+const MAX_INTERNSHIPS = 5;
+
+interface TrackMatch {
+  track: CareerTrack;
+  /** Core skills and tools of the track the student already has, in catalog order. */
+  matchedSkills: string[];
+  /** The student's interests that relate to the track, as they wrote them. */
+  matchedInterests: string[];
+  score: number;
+}
+
+interface Term {
+  label: string;
+  normalized: string;
+}
+
+const toTerms = (items: string[]): Term[] =>
+  items.map((label) => ({ label, normalized: normalizeTerm(label) })).filter((term) => term.normalized);
+
+const related = (term: Term, candidate: string) => matchScore(term.normalized, normalizeTerm(candidate)) > 0;
+
+const mentions = (terms: Term[], candidate: string) => terms.some((term) => related(term, candidate));
+
+/**
+ * Scores a track from 0 to 100: core skills the student has count most,
+ * then overlapping interests, then familiarity with the track's tools.
+ */
+function scoreTrack(track: CareerTrack, skills: Term[], interests: Term[]): TrackMatch {
+  const coreMatches = track.coreSkills.filter((skill) => mentions(skills, skill));
+  const toolMatches = track.tools.filter((tool) => mentions(skills, tool));
+  const topics = [track.name, ...track.aliases, ...track.interests];
+  const matchedInterests = interests
+    .filter((interest) => topics.some((topic) => related(interest, topic)))
+    .map((interest) => interest.label);
+
+  const score =
+    60 * Math.min(1, coreMatches.length / 4) +
+    30 * Math.min(1, matchedInterests.length / Math.min(2, interests.length || 1)) +
+    10 * Math.min(1, toolMatches.length / 2);
+
+  return {
+    track,
+    matchedSkills: [...coreMatches, ...toolMatches],
+    matchedInterests,
+    score: Math.round(score),
+  };
+}
+
+const listPhrase = (items: string[]) =>
+  items.length <= 1 ? items.join("") : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+
+function toCareerPath({ track, matchedSkills, matchedInterests, score }: TrackMatch): CareerPath {
+  const reasons: string[] = [];
+  if (matchedSkills.length) {
+    reasons.push(`You already know ${listPhrase(matchedSkills.slice(0, 4))}, which ${track.name} work relies on.`);
+  }
+  if (matchedInterests.length) {
+    reasons.push(`It lines up with your interest in ${listPhrase(matchedInterests.slice(0, 2))}.`);
+  }
+  if (!reasons.length) {
+    reasons.push(`${track.name} is a common entry point for ECE graduates and builds on core coursework.`);
+  }
+
+  return {
+    title: track.name,
+    fitScore: score,
+    rationale: `${track.description} ${reasons.join(" ")}`,
+    entryLevelTitles: track.roles.slice(0, 3),
+    exampleEmployers: track.employers,
+    salaryBands: [],
+    transferableSkills: matchedSkills,
+    trackId: track.id,
+  };
+}
+
+const internshipTitle = (role: string) => role.replace(/\s+Engineer$/, "") + " Intern";
+
+/**
+ * Builds a complete recommendation from the track catalog without calling a
+ * model. Output depends only on the inputs: ties are broken by catalog order.
+ * Rejected tracks are left out and pinned ones always kept; hypothetical
+ * skills count as if the student had them.
+ */
+export function recommendFromRules(
+  education: string,
+  skills: string,
+  interests: string,
+  constraints: RefinementConstraints = emptyConstraints()
+): CareerRecommendation {
+  const skillTerms = toTerms(parseSkills(withHypotheticalSkills(skills, constraints)).map((skill) => skill.name));
+  const interestTerms = toTerms(parseInterests(interests));
+
+  const ranked = CAREER_TRACKS.map((track) => scoreTrack(track, skillTerms, interestTerms))
+    .map((match, index) => ({ match, index }))
+    .filter(({ match }) => !isRejected(constraints, match.track.name))
+    .sort((a, b) => b.match.score - a.match.score || a.index - b.index);
+  const pinned = ranked.filter(({ match }) => isPinned(constraints, match.track.name));
+  const matches = [...pinned, ...ranked.filter((entry) => !pinned.includes(entry))]
+    .slice(0, Math.max(MAX_PATHS, pinned.length))
+    .sort((a, b) => b.match.score - a.match.score || a.index - b.index)
+    .map(({ match }) => match);
+
+  const skillsToLearn = Array.from(
+    new Set(
+      matches.flatMap(({ track }) => track.coreSkills.filter((skill) => !mentions(skillTerms, skill)))
+    )
+  ).slice(0, MAX_SKILLS_TO_LEARN);
+
+  const internshipRoles = Array.from(
+    new Set(matches.flatMap(({ track }) => track.roles.slice(0, 2).map(internshipTitle)))
+  ).slice(0, MAX_INTERNSHIPS);
+
+  const [top, ...rest] = matches;
+  const background = education.trim() ? `As a ${education.trim()} student, your` : "Your";
+  const summary = [
+    !top
+      ? "Every career track in the catalog has been ruled out; remove a rejected path to see recommendations."
+      : top.matchedSkills.length || top.matchedInterests.length
+        ? `${background} profile points most strongly to ${top.track.name} (${top.score}% fit)` +
+          (rest.length ? `, with ${listPhrase(rest.map((m) => m.track.name))} also worth a look.` : ".")
+        : `${background} listed skills did not match a specific track yet, so these are common starting points for ECE students.`,
+    constraints.hypotheticalSkills.length
+      ? `This assumes you also learn ${listPhrase(constraints.hypotheticalSkills)}.`
+      : "",
+    skillsToLearn.length ? `Focus next on ${listPhrase(skillsToLearn.slice(0, 3))}.` : "",
+    "This is an offline estimate from the built-in career catalog; generate again with AI for a personalised analysis.",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  return {
+    careerPaths: matches.map(toCareerPath),
+    internshipRoles,
+    skillsToLearn,
+    summary,
+    taxonomyVersion: TAXONOMY_VERSION,
+    engine: "rules",
+  };
+}
@@ -0,0 +1,90 @@
+import { randomBytes } from "crypto";
+import type { HistoryItem, SharedRoadmap } from "../src/types";
+import type { DB } from "./db";
+
+interface ShareRow {
+  id: string;
+  history_id: string;
+  snapshot: string;
+  created_at: number;
+  expires_at: number | null;
+  revoked_at: number | null;
+}
+
+export interface ShareRecord {
+  id: string;
+  historyId: string;
+  createdAt: number;
+  expiresAt: number | null;
+}
+
+export type ShareLookup =
+  | { status: "active"; roadmap: SharedRoadmap }
+  | { status: "expired" | "revoked" | "missing" };
+
+export interface ShareStore {
+  /** Snapshots `item` as it is now; later edits to the saved roadmap do not change the link. */
+  create(item: HistoryItem, expiresAt: number | null): ShareRecord;
+  /** Links for a saved roadmap that have not been revoked, newest first. */
+  listFor(historyId: string): ShareRecord[];
+  lookup(id: string, now?: number): ShareLookup;
+  /** Returns false if no link with that id belongs to the roadmap. */
+  revoke(historyId: string, id: string): boolean;
+}
+
+const fromRow = (row: ShareRow): ShareRecord => ({
+  id: row.id,
+  historyId: row.history_id,
+  createdAt: row.created_at,
+  expiresAt: row.expires_at,
+});
+
+// 144 bits of randomness; ids are the only thing protecting a link.
+const newShareId = () => randomBytes(18).toString("base64url");
+
+export function createShareStore(db: DB): ShareStore {
+  const insertStmt = db.prepare(
+    `INSERT INTO shares (id, history_id, snapshot, created_at, expires_at)
+     VALUES (@id, @history_id, @snapshot, @created_at, @expires_at)`
+  );
+  const listStmt = db.prepare<[string], ShareRow>(
+    "SELECT * FROM shares WHERE history_id = ? AND revoked_at IS NULL ORDER BY created_at DESC"
+  );
+  const getStmt = db.prepare<[string], ShareRow>("SELECT * FROM shares WHERE id = ?");
+  const revokeStmt = db.prepare(
+    "UPDATE shares SET revoked_at = ? WHERE id = ? AND history_id = ? AND revoked_at IS NULL"
+  );
+
+  return {
+    create(item, expiresAt) {
+      // The follow-up conversation stays private to the owner.
+      const { id: _historyId, conversation: _conversation, ...snapshot } = item;
+      const row: ShareRow = {
+        id: newShareId(),
+        history_id: item.id,
+        snapshot: JSON.stringify(snapshot),
+        created_at: Date.now(),
+        expires_at: expiresAt,
+        revoked_at: null,
+      };
+      insertStmt.run(row);
+      return fromRow(row);
+    },
+    listFor: (historyId) => listStmt.all(historyId).map(fromRow),
+    lookup(id, now = Date.now()) {
+      const row = getStmt.get(id);
+      if (!row) return { status: "missing" };
+      if (row.revoked_at !== null) return { status: "revoked" };
+      if (row.expires_at !== null && row.expires_at <= now) return { status: "expired" };
+      return {
+        status: "active",
+        roadmap: {
+          ...JSON.parse(row.snapshot),
+          sharedAt: new Date(row.created_at).toISOString(),
+          expiresAt: row.expires_at === null ? null : new Date(row.expires_at).toISOString(),
+        },
+      };
+    },
+    revoke: (historyId, id) => revokeStmt.run(Date.now(), id, historyId).changes > 0,
+  };
+}
@@ -0,0 +1,40 @@
+import type { CareerRecommendation } from "../src/types";
+import { CAREER_TRACKS, TAXONOMY_VERSION, findTrack, isKnownSkill } from "../src/lib/taxonomy";
+
+/** The track catalog as prompt text, one track per line with its skills, tools and roles. */
+export function taxonomyPrompt(): string {
+  return CAREER_TRACKS.map(
+    (track) =>
+      `    - ${track.name}: skills ${track.coreSkills.join(", ")}; tools ${track.tools.join(", ")}; ` +
+      `roles ${track.roles.join(", ")}`
+  ).join("\n");
+}
+
+/**
+ * Flags career paths that do not belong to a known track and skills to learn
+ * that the taxonomy has never heard of, so the model is asked to correct them.
+ */
+export function checkRecommendation(value: unknown): string[] {
+  const { careerPaths, skillsToLearn } = value as CareerRecommendation;
+  const issues: string[] = [];
+  careerPaths.forEach((path, i) => {
+    if (!findTrack(path.title)) {
+      issues.push(`$.careerPaths[${i}].title "${path.title}" does not match any career track in the catalog`);
+    }
+  });
+  skillsToLearn.forEach((skill, i) => {
+    if (!isKnownSkill(skill)) {
+      issues.push(`$.skillsToLearn[${i}] "${skill}" is not a skill or tool from the catalog`);
+    }
+  });
+  return issues;
+}
+
+/** Records which track each path maps to and the taxonomy version used. */
+export function annotateTracks(recommendation: CareerRecommendation): CareerRecommendation {
+  return {
+    ...recommendation,
+    careerPaths: recommendation.careerPaths.map((path) => ({ ...path, trackId: findTrack(path.title)?.id })),
+    taxonomyVersion: TAXONOMY_VERSION,
+  };
+}
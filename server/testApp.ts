@@ -0,0 +1,106 @@
+import type { AddressInfo } from "net";
+import { createAdvisorStore } from "./advisorStore";
+import { createApp, type AppDeps } from "./app";
+import { createCacheStore } from "./cacheStore";
+import { createCareerService } from "./careerService";
+import { loadAuthConfig, loadQuotaConfig } from "./config";
+import { openDatabase, type DB } from "./db";
+import { createHistoryStore } from "./historyStore";
+import { createInterviewStore } from "./interviewStore";
+import { FixtureProvider, type LLMProvider } from "./providers";
+import { createQuota, meterProvider } from "./quota";
+import { createShareStore } from "./shareStore";
+import { createUsageStore } from "./usageStore";
+import { createUserStore } from "./userStore";
+import { createResponseCache } from "../src/lib/cache";
+
+export interface TestResponse<T = unknown> {
+  status: number;
+  body: T;
+  /** The `name=value` part of a `Set-Cookie` header, ready to send back. */
+  cookie: string | null;
+  headers: Headers;
+}
+
+export interface TestApp {
+  db: DB;
+  request<T = unknown>(
+    method: string,
+    path: string,
+    options?: { body?: unknown; cookie?: string; headers?: Record<string, string> }
+  ): Promise<TestResponse<T>>;
+  /** Registers an account and returns its session cookie. */
+  register(email: string, displayName?: string): Promise<string>;
+  close(): Promise<void>;
+}
+
+/**
+ * Serves the API on a random port over an in-memory database, with the
+ * fixture model and no rate limits, for tests. `quotaEnv` sets rate limits
+ * and the token budget as the environment would; `overrides` replace any
+ * dependency, e.g. a provider that fails or never answers.
+ */
+export async function startTestApp({
+  provider = new FixtureProvider(),
+  db = openDatabase(":memory:"),
+  quotaEnv = {},
+  overrides = {},
+}: {
+  provider?: LLMProvider;
+  db?: DB;
+  quotaEnv?: NodeJS.ProcessEnv;
+  overrides?: Partial<AppDeps>;
+} = {}): Promise<TestApp> {
+  const usageStore = createUsageStore(db);
+  const quotaConfig = loadQuotaConfig({ RATE_LIMIT_PER_CLIENT: "0", RATE_LIMIT_GLOBAL: "0", ...quotaEnv });
+  const app = createApp({
+    careerService: createCareerService(meterProvider(provider, usageStore), { retries: 0 }),
+    historyStore: createHistoryStore(db),
+    shareStore: createShareStore(db),
+    interviewStore: createInterviewStore(db),
+    userStore: createUserStore(db),
+    advisorStore: createAdvisorStore(db),
+    auth: loadAuthConfig({}),
+    responseCache: createResponseCache({ storage: createCacheStore(db), ttlMs: 60_000 }),
+    model: `${provider.id}:${provider.model}`,
+    quota: createQuota(quotaConfig, usageStore),
+    usageStore,
+    ...overrides,
+  });
+  const server = await new Promise<ReturnType<typeof app.listen>>((resolve) => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const request: TestApp["request"] = async (method, path, { body, cookie, headers = {} } = {}) => {
+    const res = await fetch(base + path, {
+      method,
+      headers: {
+        ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+        ...(cookie ? { Cookie: cookie } : {}),
+        ...headers,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await res.text();
+    return {
+      status: res.status,
+      body: text ? JSON.parse(text) : null,
+      cookie: res.headers.get("set-cookie")?.split(";")[0] ?? null,
+      headers: res.headers,
+    };
+  };
+
+  return {
+    db,
+    request,
+    async register(email, displayName = "Test Student") {
+      const res = await request("POST", "/api/auth/register", {
+        body: { email, password: "correct horse", displayName },
+      });
+      if (res.status !== 201 || !res.cookie) throw new Error(`Could not register ${email}: ${res.status}`);
+      return res.cookie;
+    },
+    close: () => new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
@@ -0,0 +1,111 @@
+import type { DB } from "./db";
+import type { TokenUsage } from "./providers";
+
+export interface UsageTotals {
+  requests: number;
+  /** Requests turned away by a rate limit or the daily budget. */
+  limited: number;
+  modelCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  byDay: (UsageTotals & { day: string })[];
+  byEndpoint: (UsageTotals & { endpoint: string })[];
+  /** The heaviest clients by tokens used. */
+  topClients: (UsageTotals & { client: string })[];
+}
+
+export interface UsageStore {
+  /** Starts accounting for a request; returns the id its model calls are added to. */
+  start(client: string, endpoint: string, at?: number): number;
+  /** Adds one model call. Calls may finish after the request does, e.g. when shared with another request. */
+  addUsage(id: number, usage: TokenUsage): void;
+  finish(id: number, status: number): void;
+  /** Input plus output tokens used by requests started at or after `since`. */
+  tokensSince(since: number): number;
+  report(from: number, to: number): UsageReport;
+}
+
+interface TotalsRow {
+  requests: number;
+  limited: number | null;
+  model_calls: number | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+}
+
+const TOP_CLIENTS = 10;
+
+const TOTALS = `COUNT(*) AS requests,
+  SUM(status = 429) AS limited,
+  SUM(model_calls) AS model_calls,
+  SUM(input_tokens) AS input_tokens,
+  SUM(output_tokens) AS output_tokens`;
+
+const toTotals = (row: TotalsRow | undefined): UsageTotals => ({
+  requests: row?.requests ?? 0,
+  limited: row?.limited ?? 0,
+  modelCalls: row?.model_calls ?? 0,
+  inputTokens: row?.input_tokens ?? 0,
+  outputTokens: row?.output_tokens ?? 0,
+});
+
+/** Per-request accounting of model calls and tokens, for the daily budget and usage reports. */
+export function createUsageStore(db: DB): UsageStore {
+  const startStmt = db.prepare(
+    "INSERT INTO usage_events (client, endpoint, created_at) VALUES (?, ?, ?)"
+  );
+  const addStmt = db.prepare(
+    `UPDATE usage_events
+     SET model_calls = model_calls + 1, input_tokens = input_tokens + ?, output_tokens = output_tokens + ?
+     WHERE id = ?`
+  );
+  const finishStmt = db.prepare("UPDATE usage_events SET status = ? WHERE id = ?");
+  const tokensStmt = db.prepare<[number], { tokens: number | null }>(
+    "SELECT SUM(input_tokens + output_tokens) AS tokens FROM usage_events WHERE created_at >= ?"
+  );
+  const totalsStmt = db.prepare<[number, number], TotalsRow>(
+    `SELECT ${TOTALS} FROM usage_events WHERE created_at >= ? AND created_at < ?`
+  );
+  const byDayStmt = db.prepare<[number, number], TotalsRow & { day: string }>(
+    `SELECT date(created_at / 1000, 'unixepoch') AS day, ${TOTALS}
+     FROM usage_events WHERE created_at >= ? AND created_at < ? GROUP BY day ORDER BY day`
+  );
+  const byEndpointStmt = db.prepare<[number, number], TotalsRow & { endpoint: string }>(
+    `SELECT endpoint, ${TOTALS}
+     FROM usage_events WHERE created_at >= ? AND created_at < ? GROUP BY endpoint ORDER BY endpoint`
+  );
+  const topClientsStmt = db.prepare<[number, number, number], TotalsRow & { client: string }>(
+    `SELECT client, ${TOTALS}
+     FROM usage_events WHERE created_at >= ? AND created_at < ?
+     GROUP BY client ORDER BY SUM(input_tokens + output_tokens) DESC, requests DESC LIMIT ?`
+  );
+
+  return {
+    start: (client, endpoint, at = Date.now()) => Number(startStmt.run(client, endpoint, at).lastInsertRowid),
+    addUsage(id, { inputTokens, outputTokens }) {
+      addStmt.run(inputTokens, outputTokens, id);
+    },
+    finish(id, status) {
+      finishStmt.run(status, id);
+    },
+    tokensSince: (since) => tokensStmt.get(since)?.tokens ?? 0,
+    report(from, to) {
+      return {
+        from: new Date(from).toISOString(),
+        to: new Date(to).toISOString(),
+        totals: toTotals(totalsStmt.get(from, to)),
+        byDay: byDayStmt.all(from, to).map((row) => ({ day: row.day, ...toTotals(row) })),
+        byEndpoint: byEndpointStmt.all(from, to).map((row) => ({ endpoint: row.endpoint, ...toTotals(row) })),
+        topClients: topClientsStmt
+          .all(from, to, TOP_CLIENTS)
+          .map((row) => ({ client: row.client, ...toTotals(row) })),
+      };
+    },
+  };
+}
@@ -0,0 +1,174 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
+import type { User, UserRole } from "../src/types";
+import type { DB } from "./db";
+
+interface UserRow {
+  id: string;
+  email: string;
+  password_hash: string;
+  display_name: string;
+  profile: string | null;
+  created_at: number;
+  role: UserRole;
+  year: number | null;
+  section: string | null;
+  share_with_advisors: number;
+}
+
+export type UserRecord = User & { passwordHash: string };
+
+export type UserChanges = Partial<Pick<User, "displayName" | "profile" | "year" | "section" | "shareWithAdvisors">>;
+
+export interface NewUser {
+  email: string;
+  passwordHash: string;
+  displayName: string;
+}
+
+export interface UserStore {
+  /**
+   * Returns undefined if the email is already registered (case-insensitively).
+   * The first account also takes over roadmaps and interviews saved before accounts existed.
+   */
+  create(user: NewUser): User | undefined;
+  get(id: string): User | undefined;
+  findByEmail(email: string): UserRecord | undefined;
+  getRecord(id: string): UserRecord | undefined;
+  update(id: string, changes: UserChanges): User | undefined;
+  setPasswordHash(id: string, passwordHash: string): void;
+  /** Makes the account with this email an advisor or a student again. */
+  setRole(email: string, role: UserRole): User | undefined;
+  /** Deletes the account along with its sessions, roadmaps, links and interviews. */
+  remove(id: string): boolean;
+
+  /** Starts a session and returns the token for the cookie; only its hash is stored. */
+  createSession(userId: string, expiresAt: number): string;
+  /** The user a session token belongs to, if the session exists and has not expired. */
+  sessionUser(token: string, now?: number): User | undefined;
+  endSession(token: string): void;
+  /** Ends every session of a user, except `keepToken` if given. */
+  endSessionsFor(userId: string, keepToken?: string): void;
+}
+
+const fromRow = (row: UserRow): UserRecord => ({
+  id: row.id,
+  email: row.email,
+  displayName: row.display_name,
+  profile: row.profile ? JSON.parse(row.profile) : null,
+  createdAt: new Date(row.created_at).toISOString(),
+  role: row.role,
+  year: row.year,
+  section: row.section,
+  shareWithAdvisors: row.share_with_advisors === 1,
+  passwordHash: row.password_hash,
+});
+
+const toUser = ({ passwordHash: _passwordHash, ...user }: UserRecord): User => user;
+
+// A stolen database then holds no usable session tokens.
+const sessionId = (token: string) => createHash("sha256").update(token).digest("hex");
+
+// Expired sessions are only removed when used, so sweep the rest every so often.
+const PRUNE_EVERY = 100;
+
+export function createUserStore(db: DB): UserStore {
+  const insertStmt = db.prepare(
+    `INSERT OR IGNORE INTO users (id, email, password_hash, display_name, created_at)
+     VALUES (@id, @email, @password_hash, @display_name, @created_at)`
+  );
+  const getStmt = db.prepare<[string], UserRow>("SELECT * FROM users WHERE id = ?");
+  const byEmailStmt = db.prepare<[string], UserRow>("SELECT * FROM users WHERE email = ?");
+  const nameStmt = db.prepare("UPDATE users SET display_name = ? WHERE id = ?");
+  const profileStmt = db.prepare("UPDATE users SET profile = ? WHERE id = ?");
+  const yearStmt = db.prepare("UPDATE users SET year = ? WHERE id = ?");
+  const sectionStmt = db.prepare("UPDATE users SET section = ? WHERE id = ?");
+  const consentStmt = db.prepare("UPDATE users SET share_with_advisors = ? WHERE id = ?");
+  const roleStmt = db.prepare("UPDATE users SET role = ? WHERE email = ?");
+  const passwordStmt = db.prepare("UPDATE users SET password_hash = ? WHERE id = ?");
+  const deleteStmt = db.prepare("DELETE FROM users WHERE id = ?");
+  const countStmt = db.prepare<[], { count: number }>("SELECT COUNT(*) AS count FROM users");
+  const claimHistoryStmt = db.prepare("UPDATE history_items SET user_id = ? WHERE user_id IS NULL");
+  const claimInterviewsStmt = db.prepare("UPDATE interview_sessions SET user_id = ? WHERE user_id IS NULL");
+
+  const insertSessionStmt = db.prepare(
+    "INSERT INTO sessions (id, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)"
+  );
+  const sessionUserStmt = db.prepare<[string, number], UserRow>(
+    `SELECT users.* FROM sessions JOIN users ON users.id = sessions.user_id
+     WHERE sessions.id = ? AND sessions.expires_at > ?`
+  );
+  const endSessionStmt = db.prepare("DELETE FROM sessions WHERE id = ?");
+  const endSessionsForStmt = db.prepare("DELETE FROM sessions WHERE user_id = ? AND id != ?");
+  const pruneStmt = db.prepare("DELETE FROM sessions WHERE expires_at <= ?");
+  let sessionsStarted = 0;
+
+  const getRecord = (id: string) => {
+    const row = getStmt.get(id);
+    return row ? fromRow(row) : undefined;
+  };
+
+  return {
+    create: db.transaction(({ email, passwordHash, displayName }: NewUser) => {
+      const id = randomUUID();
+      const inserted = insertStmt.run({
+        id,
+        email,
+        password_hash: passwordHash,
+        display_name: displayName,
+        created_at: Date.now(),
+      }).changes > 0;
+      if (!inserted) return undefined;
+      // Before accounts there was one shared history, so it belongs to whoever set the app up.
+      if (countStmt.get()!.count === 1) {
+        claimHistoryStmt.run(id);
+        claimInterviewsStmt.run(id);
+      }
+      return toUser(getRecord(id)!);
+    }),
+    get(id) {
+      const record = getRecord(id);
+      return record && toUser(record);
+    },
+    findByEmail(email) {
+      const row = byEmailStmt.get(email);
+      return row ? fromRow(row) : undefined;
+    },
+    getRecord,
+    update: db.transaction((id: string, { displayName, profile, year, section, shareWithAdvisors }: UserChanges) => {
+      if (displayName !== undefined) nameStmt.run(displayName, id);
+      if (profile !== undefined) profileStmt.run(profile ? JSON.stringify(profile) : null, id);
+      if (year !== undefined) yearStmt.run(year, id);
+      if (section !== undefined) sectionStmt.run(section, id);
+      if (shareWithAdvisors !== undefined) consentStmt.run(shareWithAdvisors ? 1 : 0, id);
+      const record = getRecord(id);
+      return record && toUser(record);
+    }),
+    setPasswordHash(id, passwordHash) {
+      passwordStmt.run(passwordHash, id);
+    },
+    setRole(email, role) {
+      roleStmt.run(role, email);
+      const row = byEmailStmt.get(email);
+      return row ? toUser(fromRow(row)) : undefined;
+    },
+    remove: (id) => deleteStmt.run(id).changes > 0,
+
+    createSession(userId, expiresAt) {
+      const token = randomBytes(32).toString("base64url");
+      const now = Date.now();
+      insertSessionStmt.run(sessionId(token), userId, now, expiresAt);
+      if (++sessionsStarted % PRUNE_EVERY === 0) pruneStmt.run(now);
+      return token;
+    },
+    sessionUser(token, now = Date.now()) {
+      const row = sessionUserStmt.get(sessionId(token), now);
+      return row ? toUser(fromRow(row)) : undefined;
+    },
+    endSession(token) {
+      endSessionStmt.run(sessionId(token));
+    },
+    endSessionsFor(userId, keepToken) {
+      endSessionsForStmt.run(userId, keepToken ? sessionId(keepToken) : "");
+    },
+  };
+}
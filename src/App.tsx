@@ -20,106 +20,505 @@ import {
   Upload,
   FileText,
   Scan,
-  AlertCircle
+  AlertCircle,
+  Pencil,
+  Square,
+  Target,
+  WifiOff,
+  GitCompare,
+  Share2,
+  Mic,
+  Clock,
+  LogIn,
+  Users
 } from 'lucide-react';
-import { getCareerRecommendations, CareerRecommendation, scanResume } from './services/geminiService';
-
-interface HistoryItem {
-  id: string;
-  title: string;
-  date: string;
-  recommendation: CareerRecommendation;
-  inputs: {
-    education: string;
-    skills: string;
-    interests: string;
-  };
-}
+import {
+  getCareerRecommendations,
+  generateLearningRoadmap,
+  CareerRecommendation,
+  ChatMessage,
+  LearningRoadmap,
+  ProfileInputs,
+  ProjectPlan,
+  RecommendationEngine,
+  RecommendationVersion,
+  RefinementConstraints,
+  RoadmapGranularity,
+  scanResume,
+  ResumeData,
+  clearCachedResponses,
+  setCacheScope
+} from './services/geminiService';
+import {
+  HistoryItem,
+  listHistory,
+  createHistoryItem,
+  renameHistoryItem,
+  setHistoryRoadmap,
+  setHistoryConversation,
+  setHistoryProjects,
+  setHistoryRecommendation,
+  deleteHistoryItem as deleteSavedItem,
+  clearHistory,
+  importHistoryItems,
+  countLocalHistory,
+  importLocalHistory,
+  keepHistoryLocally
+} from './services/historyService';
+import { AuthSession, User, getSession, signOut } from './services/authService';
+import { ApiError } from './services/http';
+import {
+  ACCEPTED_EXTENSIONS,
+  MAX_RESUME_BYTES,
+  ResumeKind,
+  extractText,
+  toResumeSource,
+  validateResumeFile
+} from './lib/documentIngestion';
+import { describeError } from './lib/errors';
+import { parseExportJson } from './lib/export';
+import { formatDuration } from './lib/format';
+import { emptyConstraints, isPinned, newVersion, rejectsEveryTrack, samePath } from './lib/refinement';
+import { resumeToProfile } from './lib/resume';
+import { normalizeInterestText, normalizeSkillText } from './lib/skills';
+import { QUICK_START_TEMPLATES } from './lib/taxonomy';
+import AdvisorDashboard from './components/AdvisorDashboard';
+import AuthScreen from './components/AuthScreen';
+import CachedNotice from './components/CachedNotice';
+import CareerPathList from './components/CareerPathList';
+import ChatPanel from './components/ChatPanel';
+import ExportMenu from './components/ExportMenu';
+import HistoryComparison from './components/HistoryComparison';
+import InterviewPrep from './components/InterviewPrep';
+import JobMatch from './components/JobMatch';
+import LearningRoadmapPanel from './components/LearningRoadmapPanel';
+import ProfilePage from './components/ProfilePage';
+import ProjectIdeasPanel from './components/ProjectIdeasPanel';
+import RefinementPanel from './components/RefinementPanel';
+import RenameInput from './components/RenameInput';
+import ResumeReview from './components/ResumeReview';
+import ShareDialog from './components/ShareDialog';
+import TagInput from './components/TagInput';
 
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      const base64String = (reader.result as string).split(',')[1];
-      resolve(base64String);
-    };
-    reader.onerror = (error) => reject(error);
+// Fills in fields that have not streamed in yet so the results panel can render.
+const withDefaults = (partial: Partial<CareerRecommendation>): CareerRecommendation => ({
+  careerPaths: (partial.careerPaths ?? []).map(path => ({
+    title: '',
+    fitScore: 0,
+    rationale: '',
+    entryLevelTitles: [],
+    exampleEmployers: [],
+    salaryBands: [],
+    transferableSkills: [],
+    ...path
+  })),
+  internshipRoles: partial.internshipRoles ?? [],
+  skillsToLearn: partial.skillsToLearn ?? [],
+  summary: partial.summary ?? ''
+});
+
+const savedDate = () =>
+  new Date().toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
   });
+
+/** Whole seconds left until `until`, ticking once a second; 0 when unset or past. */
+const useSecondsUntil = (until: number | null) => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!until) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [until]);
+  return until ? Math.max(0, Math.ceil((until - now) / 1000)) : 0;
 };
 
+// Set for the browser tab once the student chooses to continue without an account.
+const GUEST_KEY = 'pathfinder-guest';
+
+const StreamingPlaceholder = () => (
+  <div className="mt-3 h-4 w-2/3 bg-black/5 rounded-full animate-pulse" />
+);
+
 export default function App() {
-  const [activeTab, setActiveTab] = useState<'navigator' | 'history'>('navigator');
+  const [engine, setEngine] = useState<RecommendationEngine>('ai');
+  const [activeTab, setActiveTab] = useState<'navigator' | 'jobmatch' | 'history' | 'profile' | 'advisor'>('navigator');
+  // Who is signed in; null until the server has answered
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [guest, setGuest] = useState(() => sessionStorage.getItem(GUEST_KEY) === '1');
+  // Why the sign-in screen was opened from inside the app, e.g. to share
+  const [authNotice, setAuthNotice] = useState<string | null>(null);
   const [education, setEducation] = useState('');
   const [skills, setSkills] = useState('');
   const [interests, setInterests] = useState('');
+  // Projects, internships and certifications, filled in from a reviewed resume
+  const [experience, setExperience] = useState('');
   const [loading, setLoading] = useState(false);
   const [isScanning, setIsScanning] = useState(false);
   const [recommendation, setRecommendation] = useState<CareerRecommendation | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const profileInputs: ProfileInputs = {
+    education,
+    skills,
+    interests,
+    ...(experience.trim() ? { experience: experience.trim() } : {})
+  };
+  // Scanned resume awaiting the student's review
+  const [resumeReview, setResumeReview] = useState<ResumeData | null>(null);
+  // When the shown recommendation or scan was first generated, if it came from the response cache
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  // Set when the server rate-limits us; generating and scanning wait until then
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const retryIn = useSecondsUntil(retryAt);
+
+  // Learning Roadmap State
+  const [roadmap, setRoadmap] = useState<LearningRoadmap | null>(null);
+  const [roadmapLoading, setRoadmapLoading] = useState(false);
+  const [roadmapError, setRoadmapError] = useState<string | null>(null);
+  const [roadmapSaved, setRoadmapSaved] = useState(false);
+  // The saved history item currently shown, if any, so a new plan can be attached to it
+  const [activeHistoryId, setActiveHistoryId] = useState<string | null>(null);
+  // Follow-up questions about the current recommendation
+  const [conversation, setConversation] = useState<ChatMessage[]>([]);
+  // Project ideas and the student's progress on them
+  const [projects, setProjects] = useState<ProjectPlan | null>(null);
+  // "What if" refinements: every version of the recommendation, and the constraints for the next one
+  const [versions, setVersions] = useState<RecommendationVersion[]>([]);
+  const [currentVersionId, setCurrentVersionId] = useState<string | null>(null);
+  const [constraints, setConstraints] = useState<RefinementConstraints>(emptyConstraints());
+  const [refineError, setRefineError] = useState<string | null>(null);
   
   // File Upload State
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [resumeKind, setResumeKind] = useState<ResumeKind | null>(null);
+  const [extractedText, setExtractedText] = useState('');
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [showExtracted, setShowExtracted] = useState(false);
+  // Latest selected file, so a slow extraction cannot overwrite a newer one
+  const selectedFileRef = useRef<File | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   // History State
   const [history, setHistory] = useState<HistoryItem[]>([]);
   const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
   const [saveTitle, setSaveTitle] = useState('');
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [historyNotice, setHistoryNotice] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [shareItem, setShareItem] = useState<HistoryItem | null>(null);
+  // Set when Share is pressed on unsaved results, so the share dialog opens once they are saved
+  const shareAfterSaveRef = useRef(false);
+  const [interviewRole, setInterviewRole] = useState<string | null>(null);
+
+  const user = session?.user ?? null;
+  // Guests keep roadmaps in this browser; sharing and mock interviews need an account
+  const guestMode = !user && guest && !!session?.allowGuests;
 
-  // Load history from localStorage
   useEffect(() => {
-    const savedHistory = localStorage.getItem('ece_career_history');
-    if (savedHistory) {
-      try {
-        setHistory(JSON.parse(savedHistory));
-      } catch (e) {
-        console.error("Failed to parse history", e);
-      }
-    }
+    getSession()
+      .then((loaded) => {
+        setCacheScope(loaded.cacheScope);
+        setSession(loaded);
+        if (loaded.user?.profile) fillProfile(loaded.user.profile);
+      })
+      .catch((e) => {
+        console.error("Failed to check the session", e);
+        setSession({ user: null, allowGuests: true, cacheScope: [] });
+      });
   }, []);
 
-  // Save history to localStorage
-  const saveToLocalStorage = (newHistory: HistoryItem[]) => {
-    localStorage.setItem('ece_career_history', JSON.stringify(newHistory));
-    setHistory(newHistory);
+  // Load history from the account, or for guests from this browser
+  useEffect(() => {
+    if (!user && !guestMode) return;
+    keepHistoryLocally(!user);
+    listHistory()
+      .then(setHistory)
+      .catch((e) => {
+        console.error("Failed to load history", e);
+        setHistoryError(describeError(e, 'Could not load saved roadmaps.'));
+      });
+  }, [user?.id, guestMode]);
+
+  useEffect(() => {
+    if (retryAt && retryIn === 0) setRetryAt(null);
+  }, [retryAt, retryIn]);
+
+  // Starts the countdown when a request was turned away with a Retry-After
+  const noteRetryAfter = (err: unknown) => {
+    if (err instanceof ApiError && err.retryAfter) setRetryAt(Date.now() + err.retryAfter * 1000);
   };
 
   const handleSubmit = async (e?: React.FormEvent) => {
     if (e) e.preventDefault();
-    if (!education || !skills || !interests) return;
+    const normalizedSkills = normalizeSkillText(skills);
+    const normalizedInterests = normalizeInterestText(interests);
+    if (!education || !normalizedSkills || !normalizedInterests) return;
+    setSkills(normalizedSkills);
+    setInterests(normalizedInterests);
+    await generateRecommendations(education, normalizedSkills, normalizedInterests, experience);
+  };
 
+  const generateRecommendations = async (edu: string, skl: string, intr: string, exp: string, refresh = false) => {
+    const controller = startRequest();
     setLoading(true);
     setError(null);
+    setRecommendation(null);
+    setResumeReview(null);
+    setCachedAt(null);
+    clearRoadmap();
+    setConversation([]);
+    setProjects(null);
+    resetVersions([]);
+    setActiveHistoryId(null);
     try {
-      const result = await getCareerRecommendations(education, skills, interests);
+      const { cachedAt: storedAt, ...result } = await streamRecommendations(edu, skl, intr, exp, controller.signal, undefined, refresh);
       setRecommendation(result);
+      setCachedAt(storedAt ?? null);
+      const original = newVersion(result, emptyConstraints(), null);
+      resetVersions([original], original);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setRecommendation(null);
+      noteRetryAfter(err);
+      setError(describeError(err, 'Failed to get recommendations. Please try again.'));
+      console.error(err);
+    } finally {
+      finishRequest(controller);
+    }
+  };
+
+  // Aborts any in-flight request and returns a controller for a new one
+  const startRequest = () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return controller;
+  };
+
+  const finishRequest = (controller: AbortController) => {
+    if (abortRef.current !== controller) return;
+    abortRef.current = null;
+    setLoading(false);
+    setIsScanning(false);
+  };
+
+  const cancelRequest = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setLoading(false);
+    setIsScanning(false);
+    // A cancelled refinement goes back to the version it started from
+    setRecommendation(versions.find(v => v.id === currentVersionId)?.recommendation ?? null);
+  };
+
+  const streamRecommendations = (
+    edu: string,
+    skl: string,
+    intr: string,
+    exp: string,
+    signal: AbortSignal,
+    refinement?: RefinementConstraints,
+    refresh?: boolean
+  ) =>
+    getCareerRecommendations(edu, skl, intr, {
+      stream: true,
+      experience: exp,
+      engine,
+      signal,
+      constraints: refinement,
+      refresh,
+      onPartial: (partial) => setRecommendation(withDefaults(partial))
+    });
+
+  const resetVersions = (chain: RecommendationVersion[], current?: RecommendationVersion) => {
+    setVersions(chain);
+    setCurrentVersionId(current?.id ?? null);
+    setConstraints(current?.constraints ?? emptyConstraints());
+    setRefineError(null);
+  };
+
+  // Shows a version and, for saved roadmaps, stores it as the saved recommendation
+  const showVersion = async (chain: RecommendationVersion[], version: RecommendationVersion) => {
+    resetVersions(chain, version);
+    setRecommendation(version.recommendation);
+    setCachedAt(null);
+    if (!activeHistoryId) return;
+    try {
+      const updated = await setHistoryRecommendation(activeHistoryId, version.recommendation, chain);
+      setHistory(prev => prev.map(h => h.id === updated.id ? updated : h));
+    } catch (err) {
+      setRefineError(describeError(err, 'Failed to save the refined recommendation.'));
+      console.error(err);
+    }
+  };
+
+  const selectVersion = (id: string) => {
+    const version = versions.find(v => v.id === id);
+    if (version && version.id !== currentVersionId) showVersion(versions, version);
+  };
+
+  // Regenerates with the pinned, rejected and hypothetical changes, keeping the result as a new version
+  const refineRecommendation = async () => {
+    const parent = versions.find(v => v.id === currentVersionId);
+    if (!parent) return;
+
+    const controller = startRequest();
+    setLoading(true);
+    setRefineError(null);
+    try {
+      const { cachedAt: _cachedAt, ...result } = await streamRecommendations(education, skills, interests, experience, controller.signal, constraints);
+      const version = newVersion(result, constraints, parent.id);
+      showVersion([...versions, version], version);
     } catch (err) {
-      setError('Failed to get recommendations. Please try again.');
+      if (controller.signal.aborted) return;
+      setRecommendation(parent.recommendation);
+      noteRetryAfter(err);
+      setRefineError(describeError(err, 'Failed to refine the recommendations. Please try again.'));
       console.error(err);
     } finally {
-      setLoading(false);
+      finishRequest(controller);
+    }
+  };
+
+  const togglePin = (title: string) =>
+    setConstraints(c =>
+      isPinned(c, title)
+        ? { ...c, pinnedPaths: c.pinnedPaths.filter(p => !samePath(p, title)) }
+        : { ...c, pinnedPaths: [...c.pinnedPaths, title], rejectedPaths: c.rejectedPaths.filter(r => !samePath(r.title, title)) }
+    );
+
+  const rejectPath = (title: string) => {
+    if (rejectsEveryTrack({ ...constraints, rejectedPaths: [...constraints.rejectedPaths, { title, reason: '' }] })) {
+      setRefineError(`${title} is the last career track left. Keep it open, or un-reject another path first.`);
+      return;
+    }
+    // The reason is optional and typed into the rejected path's chip in the refine panel.
+    setConstraints(c => ({
+      ...c,
+      pinnedPaths: c.pinnedPaths.filter(p => !samePath(p, title)),
+      rejectedPaths: [...c.rejectedPaths.filter(r => !samePath(r.title, title)), { title, reason: '' }]
+    }));
+  };
+
+  const clearRoadmap = () => {
+    setRoadmap(null);
+    setRoadmapError(null);
+    setRoadmapSaved(false);
+  };
+
+  const handleGenerateRoadmap = async (careerPath: string, granularity: RoadmapGranularity) => {
+    if (!recommendation) return;
+
+    setRoadmapLoading(true);
+    setRoadmapError(null);
+    try {
+      const result = await generateLearningRoadmap({
+        careerPath,
+        granularity,
+        inputs: profileInputs,
+        skillsToLearn: recommendation.skillsToLearn
+      });
+      setRoadmap(result);
+      setRoadmapSaved(false);
+    } catch (err) {
+      setRoadmapError(describeError(err, 'Failed to build a learning roadmap. Please try again.'));
+      console.error(err);
+    } finally {
+      setRoadmapLoading(false);
+    }
+  };
+
+  const saveRoadmapToHistory = async () => {
+    if (!roadmap || !activeHistoryId) return;
+    try {
+      const updated = await setHistoryRoadmap(activeHistoryId, roadmap);
+      setHistory(prev => prev.map(h => h.id === updated.id ? updated : h));
+      setRoadmapSaved(true);
+    } catch (err) {
+      setRoadmapError(describeError(err, 'Failed to save the learning roadmap.'));
+      console.error(err);
+    }
+  };
+
+  // Saved items keep their conversation once each answer arrives; unsaved ones keep it until saved
+  const updateConversation = async (messages: ChatMessage[]) => {
+    setConversation(messages);
+    const settled = !messages.length || messages[messages.length - 1].role === 'assistant';
+    if (!activeHistoryId || !settled) return;
+    try {
+      const updated = await setHistoryConversation(activeHistoryId, messages);
+      setHistory(prev => prev.map(h => h.id === updated.id ? updated : h));
+    } catch (err) {
+      console.error('Failed to save the conversation', err);
+    }
+  };
+
+  // Status changes on a saved roadmap are stored as they happen
+  const updateProjects = async (plan: ProjectPlan) => {
+    setProjects(plan);
+    if (!activeHistoryId) return;
+    try {
+      const updated = await setHistoryProjects(activeHistoryId, plan);
+      setHistory(prev => prev.map(h => h.id === updated.id ? updated : h));
+    } catch (err) {
+      console.error('Failed to save project progress', err);
+    }
+  };
+
+  const clearUpload = () => {
+    selectedFileRef.current = null;
+    setUploadedFile(null);
+    setResumeKind(null);
+    setExtractedText('');
+    setShowExtracted(false);
+    setIsExtracting(false);
+  };
+
+  // Validates the file and extracts its text locally so it can be reviewed before scanning
+  const selectFile = async (file: File) => {
+    let kind: ResumeKind;
+    try {
+      kind = validateResumeFile(file);
+    } catch (err) {
+      clearUpload();
+      setError(describeError(err, 'Please upload a PDF, DOCX or TXT file.'));
+      return;
+    }
+
+    selectedFileRef.current = file;
+    setUploadedFile(file);
+    setResumeKind(kind);
+    setExtractedText('');
+    setError(null);
+    setIsExtracting(true);
+    try {
+      const text = await extractText(file, kind);
+      if (selectedFileRef.current !== file) return;
+      setExtractedText(text);
+      setShowExtracted(!!text);
+    } catch (err) {
+      if (selectedFileRef.current !== file) return;
+      clearUpload();
+      setError(describeError(err, 'Could not read this file.'));
+    } finally {
+      if (selectedFileRef.current === file) setIsExtracting(false);
     }
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      const validTypes = [
-        'application/pdf', 
-        'application/msword', 
-        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-        'text/plain'
-      ];
-      if (validTypes.includes(file.type) || file.name.endsWith('.pdf') || file.name.endsWith('.doc') || file.name.endsWith('.docx')) {
-        setUploadedFile(file);
-        setError(null);
-      } else {
-        setError('Please upload a PDF or Word document.');
-        setUploadedFile(null);
-      }
-    }
+    if (file) selectFile(file);
+    e.target.value = '';
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -135,102 +534,319 @@ export default function App() {
     e.preventDefault();
     setIsDragging(false);
     const file = e.dataTransfer.files?.[0];
-    if (file) {
-      const validTypes = [
-        'application/pdf', 
-        'application/msword', 
-        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-        'text/plain'
-      ];
-      if (validTypes.includes(file.type) || file.name.endsWith('.pdf') || file.name.endsWith('.doc') || file.name.endsWith('.docx')) {
-        setUploadedFile(file);
-        setError(null);
-      } else {
-        setError('Please upload a PDF or Word document.');
-        setUploadedFile(null);
-      }
-    }
+    if (file) selectFile(file);
   };
 
-  const handleScan = async () => {
-    if (!uploadedFile) return;
+  const handleScan = async (refresh = false) => {
+    if (!uploadedFile || !resumeKind || isExtracting) return;
 
+    const controller = startRequest();
     setIsScanning(true);
     setError(null);
     setRecommendation(null);
+    setResumeReview(null);
+    setCachedAt(null);
+    clearRoadmap();
+    setConversation([]);
+    setProjects(null);
+    resetVersions([]);
+    setActiveHistoryId(null);
 
     try {
-      const base64 = await fileToBase64(uploadedFile);
-      const mimeType = uploadedFile.type || 'application/pdf';
+      const source = await toResumeSource(uploadedFile, resumeKind, extractedText);
       
       // 1. Scan and extract data
-      const extractedData = await scanResume(base64, mimeType);
+      const { cachedAt: storedAt, ...extractedData } = await scanResume(source, controller.signal, refresh);
       
-      // 2. Update form fields
-      setEducation(extractedData.education);
-      setSkills(extractedData.skills);
-      setInterests(extractedData.interests);
-
-      // 3. Generate recommendations automatically
-      const result = await getCareerRecommendations(
-        extractedData.education,
-        extractedData.skills,
-        extractedData.interests
-      );
-      setRecommendation(result);
+      // 2. Let the student review and correct it before generating recommendations
+      setResumeReview(extractedData);
+      setCachedAt(storedAt ?? null);
     } catch (err) {
-      setError('Failed to scan resume. Please try manual input.');
+      if (controller.signal.aborted) return;
+      noteRetryAfter(err);
+      setError(describeError(err, 'Failed to scan resume. Please try manual input.'));
       console.error(err);
     } finally {
-      setIsScanning(false);
+      finishRequest(controller);
     }
   };
 
-  const handleSave = () => {
+  const acceptResumeReview = () => {
+    if (!resumeReview) return;
+    const profile = resumeToProfile(resumeReview);
+    setEducation(profile.education);
+    setSkills(profile.skills);
+    setInterests(profile.interests);
+    setExperience(profile.experience ?? '');
+    setResumeReview(null);
+    generateRecommendations(profile.education, profile.skills, profile.interests, profile.experience ?? '');
+  };
+
+  const handleSave = async () => {
     if (!recommendation || !saveTitle.trim()) return;
 
-    const newItem: HistoryItem = {
-      id: crypto.randomUUID(),
+    const newItem: Omit<HistoryItem, 'id'> = {
       title: saveTitle,
-      date: new Date().toLocaleDateString(undefined, { 
-        year: 'numeric', 
-        month: 'short', 
-        day: 'numeric',
-        hour: '2-digit',
-        minute: '2-digit'
-      }),
+      date: savedDate(),
       recommendation,
-      inputs: { education, skills, interests }
+      inputs: profileInputs,
+      ...(roadmap ? { roadmap } : {}),
+      ...(projects ? { projects } : {}),
+      ...(conversation.length ? { conversation } : {}),
+      ...(versions.length > 1 ? { versions } : {})
     };
 
-    const newHistory = [newItem, ...history];
-    saveToLocalStorage(newHistory);
+    try {
+      const saved = await createHistoryItem(newItem);
+      setHistory(prev => [saved, ...prev]);
+      setActiveHistoryId(saved.id);
+      setRoadmapSaved(!!saved.roadmap);
+      if (shareAfterSaveRef.current) setShareItem(saved);
+      closeSaveModal();
+      setSaveTitle('');
+    } catch (err) {
+      closeSaveModal();
+      setError(describeError(err, 'Failed to save roadmap. Please try again.'));
+      console.error(err);
+    }
+  };
+
+  const closeSaveModal = () => {
+    shareAfterSaveRef.current = false;
     setIsSaveModalOpen(false);
-    setSaveTitle('');
   };
 
-  const deleteHistoryItem = (id: string, e: React.MouseEvent) => {
+  // The results on screen as a history item: the saved one when it is open, otherwise an unsaved draft
+  const currentHistoryItem = (): HistoryItem => {
+    const saved = history.find(item => item.id === activeHistoryId);
+    if (saved) return { ...saved, ...(roadmap ? { roadmap } : {}), ...(projects ? { projects } : {}), conversation };
+    return {
+      id: crypto.randomUUID(),
+      title: recommendation?.careerPaths[0]?.title ? `${recommendation.careerPaths[0].title} Roadmap` : 'Career Roadmap',
+      date: savedDate(),
+      recommendation: recommendation!,
+      inputs: profileInputs,
+      ...(roadmap ? { roadmap } : {}),
+      ...(projects ? { projects } : {}),
+      ...(conversation.length ? { conversation } : {}),
+      ...(versions.length > 1 ? { versions } : {})
+    };
+  };
+
+  // Links snapshot the saved roadmap, so unsaved results are saved first
+  const shareCurrent = () => {
+    if (!user) return askToSignIn('Sign in to share a read-only link to your roadmap.');
+    const saved = history.find(item => item.id === activeHistoryId);
+    if (saved) {
+      setShareItem(saved);
+    } else {
+      shareAfterSaveRef.current = true;
+      setIsSaveModalOpen(true);
+    }
+  };
+
+  const openShare = (item: HistoryItem, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!user) return askToSignIn('Sign in to share a read-only link to your roadmap. You can move the roadmaps saved in this browser into your account.');
+    setShareItem(item);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (!files.length) return;
+
+    setHistoryError(null);
+    setHistoryNotice(null);
+    try {
+      const items = (await Promise.all(files.map(async file => parseExportJson(await file.text())))).flat();
+      const { imported, skipped } = await importHistoryItems(items);
+      setHistory(await listHistory());
+      setHistoryNotice(
+        `Imported ${imported} roadmap${imported === 1 ? '' : 's'}` +
+        (skipped ? `; skipped ${skipped} that already exist or are invalid.` : '.')
+      );
+    } catch (err) {
+      setHistoryError(describeError(err, 'Could not import this file.'));
+      console.error(err);
+    }
+  };
+
+  const toggleCompare = (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setCompareIds(ids => (ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]));
+  };
+
+  const deleteHistoryItem = async (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await deleteSavedItem(id);
+      setHistory(prev => prev.filter(item => item.id !== id));
+      setCompareIds(ids => ids.filter(i => i !== id));
+    } catch (err) {
+      setHistoryError(describeError(err, 'Failed to delete roadmap.'));
+      console.error(err);
+    }
+  };
+
+  const startRename = (item: HistoryItem, e: React.MouseEvent) => {
     e.stopPropagation();
-    const newHistory = history.filter(item => item.id !== id);
-    saveToLocalStorage(newHistory);
+    setRenamingId(item.id);
+  };
+
+  const renameItem = async (item: HistoryItem, title: string) => {
+    setRenamingId(null);
+    try {
+      const updated = await renameHistoryItem(item.id, title);
+      setHistory(prev => prev.map(h => h.id === updated.id ? updated : h));
+    } catch (err) {
+      setHistoryError(describeError(err, 'Failed to rename roadmap.'));
+      console.error(err);
+    }
+  };
+
+  const clearAllHistory = async () => {
+    if (!confirm('Clear all history?')) return;
+    try {
+      await clearHistory();
+      setHistory([]);
+      setCompareIds([]);
+      setIsComparing(false);
+    } catch (err) {
+      setHistoryError(describeError(err, 'Failed to clear history.'));
+      console.error(err);
+    }
   };
 
   const viewHistoryItem = (item: HistoryItem) => {
     setRecommendation(item.recommendation);
+    setCachedAt(null);
     setEducation(item.inputs.education);
     setSkills(item.inputs.skills);
     setInterests(item.inputs.interests);
+    setExperience(item.inputs.experience ?? '');
+    setRoadmap(item.roadmap ?? null);
+    setRoadmapError(null);
+    setRoadmapSaved(!!item.roadmap);
+    setConversation(item.conversation ?? []);
+    setProjects(item.projects ?? null);
+    // Roadmaps saved before refinement existed start a chain with their recommendation as the original
+    const chain = item.versions?.length ? item.versions : [newVersion(item.recommendation, emptyConstraints(), null)];
+    const saved = JSON.stringify(item.recommendation);
+    resetVersions(chain, chain.find(v => JSON.stringify(v.recommendation) === saved) ?? chain[chain.length - 1]);
+    setActiveHistoryId(item.id);
+    setActiveTab('navigator');
+  };
+
+  const fillProfile = (profile: ProfileInputs) => {
+    setEducation(profile.education);
+    setSkills(profile.skills);
+    setInterests(profile.interests);
+    setExperience(profile.experience ?? '');
+  };
+
+  // Offers to move roadmaps saved in this browser (e.g. as a guest) into the account just signed in to
+  const handleSignedIn = async (signedIn: User) => {
+    keepHistoryLocally(false);
+    const local = countLocalHistory();
+    let moved = false;
+    if (local && confirm(`Move ${local} roadmap${local === 1 ? '' : 's'} saved in this browser into your account?`)) {
+      try {
+        const { imported, kept } = await importLocalHistory();
+        moved = true;
+        setHistoryNotice(
+          `Moved ${imported} roadmap${imported === 1 ? '' : 's'} from this browser into your account` +
+          (kept ? `; ${kept} could not be moved and are still kept in this browser.` : '.')
+        );
+      } catch (e) {
+        console.error("Failed to move roadmaps into the account", e);
+        setHistoryError(describeError(e, 'Could not move the roadmaps saved in this browser.'));
+      }
+    }
+    if (!moved) setActiveHistoryId(null);
+    if (signedIn.profile && !education && !skills && !interests) fillProfile(signedIn.profile);
+    sessionStorage.removeItem(GUEST_KEY);
+    setGuest(false);
+    setAuthNotice(null);
+    setSession(prev => ({ allowGuests: prev?.allowGuests ?? true, cacheScope: prev?.cacheScope ?? [], user: signedIn }));
+  };
+
+  const continueAsGuest = () => {
+    sessionStorage.setItem(GUEST_KEY, '1');
+    setGuest(true);
+    setAuthNotice(null);
+  };
+
+  // Shows the sign-in screen over the app; what is on screen is kept for after signing in
+  const askToSignIn = (notice: string | null) => {
+    sessionStorage.removeItem(GUEST_KEY);
+    setGuest(false);
+    setAuthNotice(notice);
+  };
+
+  // Clears everything on screen and in the response cache, so the next person at a shared computer starts afresh
+  const endSession = () => {
+    reset();
+    clearCachedResponses();
+    setHistory([]);
+    setCompareIds([]);
+    setIsComparing(false);
+    setHistoryNotice(null);
+    setHistoryError(null);
     setActiveTab('navigator');
+    setAuthNotice(null);
+    setSession(prev => prev && { ...prev, user: null });
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (e) {
+      console.error("Failed to sign out", e);
+    }
+    endSession();
+  };
+
+  const practiseInterview = (role: string) => {
+    if (user) setInterviewRole(role);
+    else askToSignIn('Sign in to practise mock interviews. Your answers and feedback are kept with your account.');
   };
 
   const reset = () => {
     setRecommendation(null);
+    setResumeReview(null);
+    setCachedAt(null);
+    clearRoadmap();
+    setConversation([]);
+    setProjects(null);
+    resetVersions([]);
+    setActiveHistoryId(null);
     setEducation('');
     setSkills('');
     setInterests('');
-    setUploadedFile(null);
+    setExperience('');
+    clearUpload();
   };
 
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-[#F8F9FA] flex items-center justify-center text-emerald-600">
+        <Loader2 className="animate-spin" size={28} />
+      </div>
+    );
+  }
+
+  if (!user && !guestMode) {
+    return (
+      <AuthScreen
+        allowGuests={session.allowGuests}
+        notice={authNotice}
+        onSignedIn={handleSignedIn}
+        onGuest={continueAsGuest}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-[#F8F9FA] text-[#1A1A1A] font-sans selection:bg-emerald-100">
       {/* Header */}
@@ -243,25 +859,57 @@ export default function App() {
             <span className="font-bold tracking-tight text-lg">ECE Career Navigator</span>
           </div>
           
-          <nav className="flex items-center bg-black/5 p-1 rounded-xl">
-            <button 
-              onClick={() => setActiveTab('navigator')}
-              className={`px-4 py-1.5 rounded-lg text-sm font-medium transition-all ${activeTab === 'navigator' ? 'bg-white text-black shadow-sm' : 'text-black/50 hover:text-black'}`}
-            >
-              Navigator
-            </button>
-            <button 
-              onClick={() => setActiveTab('history')}
-              className={`px-4 py-1.5 rounded-lg text-sm font-medium transition-all flex items-center gap-2 ${activeTab === 'history' ? 'bg-white text-black shadow-sm' : 'text-black/50 hover:text-black'}`}
-            >
-              <History size={14} /> History
-              {history.length > 0 && (
-                <span className="bg-emerald-100 text-emerald-700 text-[10px] px-1.5 rounded-full">
-                  {history.length}
-                </span>
+          <div className="flex items-center gap-3">
+            <nav className="flex items-center bg-black/5 p-1 rounded-xl">
+              <button 
+                onClick={() => setActiveTab('navigator')}
+                className={`px-4 py-1.5 rounded-lg text-sm font-medium transition-all ${activeTab === 'navigator' ? 'bg-white text-black shadow-sm' : 'text-black/50 hover:text-black'}`}
+              >
+                Navigator
+              </button>
+              <button 
+                onClick={() => setActiveTab('jobmatch')}
+                className={`px-4 py-1.5 rounded-lg text-sm font-medium transition-all flex items-center gap-2 ${activeTab === 'jobmatch' ? 'bg-white text-black shadow-sm' : 'text-black/50 hover:text-black'}`}
+              >
+                <Target size={14} /> Job Match
+              </button>
+              <button 
+                onClick={() => setActiveTab('history')}
+                className={`px-4 py-1.5 rounded-lg text-sm font-medium transition-all flex items-center gap-2 ${activeTab === 'history' ? 'bg-white text-black shadow-sm' : 'text-black/50 hover:text-black'}`}
+              >
+                <History size={14} /> History
+                {history.length > 0 && (
+                  <span className="bg-emerald-100 text-emerald-700 text-[10px] px-1.5 rounded-full">
+                    {history.length}
+                  </span>
+                )}
+              </button>
+              {user?.role === 'advisor' && (
+                <button
+                  onClick={() => setActiveTab('advisor')}
+                  className={`px-4 py-1.5 rounded-lg text-sm font-medium transition-all flex items-center gap-2 ${activeTab === 'advisor' ? 'bg-white text-black shadow-sm' : 'text-black/50 hover:text-black'}`}
+                >
+                  <Users size={14} /> Advisor
+                </button>
               )}
-            </button>
-          </nav>
+            </nav>
+            {user ? (
+              <button
+                onClick={() => setActiveTab('profile')}
+                title={`${user.displayName} · Profile`}
+                className={`w-9 h-9 rounded-full text-sm font-bold flex items-center justify-center transition-all ${activeTab === 'profile' ? 'bg-emerald-600 text-white' : 'bg-emerald-50 text-emerald-700 hover:bg-emerald-100'}`}
+              >
+                {(user.displayName || user.email).charAt(0).toUpperCase()}
+              </button>
+            ) : (
+              <button
+                onClick={() => askToSignIn(null)}
+                className="px-3 py-1.5 rounded-lg text-sm font-semibold text-emerald-600 hover:bg-emerald-50 transition-all flex items-center gap-1.5"
+              >
+                <LogIn size={14} /> Sign in
+              </button>
+            )}
+          </div>
         </div>
       </header>
 
@@ -289,7 +937,7 @@ export default function App() {
                 {/* File Upload Area */}
                 <div className="space-y-4">
                   <label className="text-xs font-semibold uppercase tracking-wider text-black/50 flex items-center gap-2">
-                    <Upload size={14} /> Scan Resume (PDF/DOC)
+                    <Upload size={14} /> Scan Resume (PDF/DOCX/TXT)
                   </label>
                   <div 
                     onDragOver={handleDragOver}
@@ -306,7 +954,7 @@ export default function App() {
                       type="file" 
                       ref={fileInputRef}
                       onChange={handleFileChange}
-                      accept=".pdf,.doc,.docx"
+                      accept={ACCEPTED_EXTENSIONS}
                       className="hidden"
                     />
                     
@@ -322,7 +970,7 @@ export default function App() {
                         <button 
                           onClick={(e) => {
                             e.stopPropagation();
-                            setUploadedFile(null);
+                            clearUpload();
                           }}
                           className="absolute top-4 right-4 p-1.5 hover:bg-black/5 rounded-full text-black/40 hover:text-red-500 transition-all"
                         >
@@ -336,24 +984,62 @@ export default function App() {
                         </div>
                         <div className="text-center">
                           <p className="font-semibold text-sm">Click or drag to upload</p>
-                          <p className="text-xs text-black/40">PDF, DOC, DOCX up to 10MB</p>
+                          <p className="text-xs text-black/40">PDF, DOCX, TXT up to {MAX_RESUME_BYTES / 1024 / 1024}MB</p>
                         </div>
                       </>
                     )}
                   </div>
                   
+                  {uploadedFile && isExtracting && (
+                    <p className="text-xs text-black/40 flex items-center gap-2">
+                      <Loader2 className="animate-spin" size={12} /> Reading text from your resume...
+                    </p>
+                  )}
+
+                  {uploadedFile && !isExtracting && resumeKind === 'pdf' && !extractedText && (
+                    <p className="text-xs text-black/40">
+                      No selectable text was found, so the PDF itself will be sent for scanning.
+                    </p>
+                  )}
+
+                  {uploadedFile && !isExtracting && extractedText && (
+                    <div className="bg-white border border-black/10 rounded-2xl overflow-hidden">
+                      <button
+                        type="button"
+                        onClick={() => setShowExtracted(!showExtracted)}
+                        className="w-full px-4 py-3 flex items-center justify-between text-xs font-semibold text-black/60 hover:bg-black/[0.02] transition-all"
+                      >
+                        <span className="flex items-center gap-2">
+                          <FileText size={14} /> Review extracted text ({extractedText.split(/\s+/).filter(Boolean).length} words)
+                        </span>
+                        <ChevronRight size={14} className={`transition-transform ${showExtracted ? 'rotate-90' : ''}`} />
+                      </button>
+                      {showExtracted && (
+                        <textarea
+                          value={extractedText}
+                          onChange={(e) => setExtractedText(e.target.value)}
+                          className="w-full px-4 py-3 border-t border-black/5 text-xs font-mono text-black/70 min-h-[180px] focus:outline-none resize-y"
+                        />
+                      )}
+                    </div>
+                  )}
+
                   {uploadedFile && (
                     <motion.button
                       initial={{ opacity: 0, y: 10 }}
                       animate={{ opacity: 1, y: 0 }}
-                      onClick={handleScan}
-                      disabled={isScanning}
+                      onClick={() => handleScan()}
+                      disabled={isScanning || isExtracting || retryIn > 0}
                       className="w-full bg-emerald-600 text-white py-3 rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-900/10 disabled:opacity-50"
                     >
                       {isScanning ? (
                         <>
                           <Loader2 className="animate-spin" size={18} /> Scanning...
                         </>
+                      ) : retryIn > 0 ? (
+                        <>
+                          <Clock size={18} /> Scan again in {formatDuration(retryIn)}
+                        </>
                       ) : (
                         <>
                           <Scan size={18} /> Scan Now
@@ -378,14 +1064,9 @@ export default function App() {
                       <Sparkles size={14} /> Quick Start Templates
                     </label>
                     <div className="flex flex-wrap gap-2">
-                      {[
-                        { label: 'VLSI', skills: 'Verilog, Digital Logic, CMOS, SPICE', interests: 'Chip Design, ASIC, FPGA' },
-                        { label: 'Embedded', skills: 'C/C++, Microcontrollers, RTOS, I2C', interests: 'Firmware, IoT, ESP32' },
-                        { label: 'Robotics', skills: 'Python, Control Systems, Arduino', interests: 'Automation, ROS, Mechatronics' },
-                        { label: 'Telecom', skills: 'MATLAB, Signal Processing, TCP/IP', interests: 'Wireless, 5G, Networking' }
-                      ].map((tmpl) => (
+                      {QUICK_START_TEMPLATES.map((tmpl) => (
                         <button
-                          key={tmpl.label}
+                          key={tmpl.trackId}
                           type="button"
                           onClick={() => {
                             setSkills(tmpl.skills);
@@ -417,12 +1098,11 @@ export default function App() {
                     <label className="text-xs font-semibold uppercase tracking-wider text-black/50 flex items-center gap-2">
                       <Wrench size={14} /> Current Skills
                     </label>
-                    <textarea
+                    <TagInput
+                      kind="skills"
                       placeholder="e.g. Verilog, Arduino, Python, Circuit Design"
-                      className="w-full px-4 py-3 rounded-xl border border-black/10 bg-white focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all min-h-[100px] resize-none"
                       value={skills}
-                      onChange={(e) => setSkills(e.target.value)}
-                      required
+                      onChange={setSkills}
                     />
                   </div>
 
@@ -430,22 +1110,50 @@ export default function App() {
                     <label className="text-xs font-semibold uppercase tracking-wider text-black/50 flex items-center gap-2">
                       <Heart size={14} /> Interests
                     </label>
-                    <textarea
+                    <TagInput
+                      kind="interests"
                       placeholder="e.g. VLSI, Embedded Systems, Robotics, IoT"
-                      className="w-full px-4 py-3 rounded-xl border border-black/10 bg-white focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all min-h-[100px] resize-none"
                       value={interests}
-                      onChange={(e) => setInterests(e.target.value)}
-                      required
+                      onChange={setInterests}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-xs font-semibold uppercase tracking-wider text-black/50 flex items-center gap-2">
+                      <Briefcase size={14} /> Projects, Internships & Certifications <span className="normal-case tracking-normal font-normal text-black/40">(optional)</span>
+                    </label>
+                    <textarea
+                      rows={3}
+                      placeholder="One per line, e.g. Project: 8-bit RISC processor in Verilog"
+                      className="w-full px-4 py-3 rounded-xl border border-black/10 bg-white focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all resize-y text-sm"
+                      value={experience}
+                      onChange={(e) => setExperience(e.target.value)}
                     />
                   </div>
 
+                  <label className="flex items-start gap-3 text-sm text-black/60 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="mt-0.5 accent-emerald-600"
+                      checked={engine === 'rules'}
+                      onChange={(e) => setEngine(e.target.checked ? 'rules' : 'ai')}
+                    />
+                    <span>
+                      <span className="font-medium text-black/80">Offline mode</span> — instant, rule-based matching against the built-in career catalog, without AI.
+                    </span>
+                  </label>
+
                   <button
                     type="submit"
-                    disabled={loading}
+                    disabled={loading || retryIn > 0}
                     className="w-full bg-black text-white py-4 rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-emerald-600 transition-colors disabled:opacity-50 disabled:hover:bg-black"
                   >
                     {loading ? (
                       <Loader2 className="animate-spin" size={20} />
+                    ) : retryIn > 0 ? (
+                      <>
+                        <Clock size={18} /> Try again in {formatDuration(retryIn)}
+                      </>
                     ) : (
                       <>
                         Generate Roadmap <ArrowRight size={18} />
@@ -458,7 +1166,7 @@ export default function App() {
               {/* Output Section */}
               <div className="relative min-h-[400px]">
                 <AnimatePresence mode="wait">
-                  {!recommendation && !loading && !isScanning && !error && (
+                  {!recommendation && !resumeReview && !loading && !isScanning && !error && (
                     <motion.div
                       key="empty"
                       initial={{ opacity: 0 }}
@@ -476,7 +1184,7 @@ export default function App() {
                     </motion.div>
                   )}
 
-                  {(loading || isScanning) && (
+                  {(loading || isScanning) && !recommendation && (
                     <motion.div
                       key="loading"
                       initial={{ opacity: 0 }}
@@ -494,6 +1202,12 @@ export default function App() {
                       <p className="text-black/40">
                         {isScanning ? 'Extracting skills and education details.' : 'Consulting our ECE career database.'}
                       </p>
+                      <button
+                        onClick={cancelRequest}
+                        className="mt-6 flex items-center gap-2 px-4 py-2 border border-black/10 rounded-xl text-sm font-semibold text-black/60 hover:border-red-200 hover:text-red-500 transition-all"
+                      >
+                        <Square size={14} /> Cancel
+                      </button>
                     </motion.div>
                   )}
 
@@ -509,12 +1223,39 @@ export default function App() {
                         <AlertCircle size={24} />
                       </div>
                       <p className="text-red-600 font-medium">{error}</p>
-                      <button 
-                        onClick={() => setError(null)}
-                        className="mt-4 text-sm font-semibold underline"
-                      >
-                        Try again
-                      </button>
+                      {retryIn > 0 ? (
+                        <p className="mt-4 text-sm font-semibold text-red-500 flex items-center gap-1.5">
+                          <Clock size={14} /> You can try again in {formatDuration(retryIn)}
+                        </p>
+                      ) : (
+                        <button 
+                          onClick={() => setError(null)}
+                          className="mt-4 text-sm font-semibold underline"
+                        >
+                          Try again
+                        </button>
+                      )}
+                    </motion.div>
+                  )}
+
+                  {resumeReview && !isScanning && !error && (
+                    <motion.div
+                      key="review"
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0 }}
+                      className="space-y-4"
+                    >
+                      {cachedAt && <CachedNotice cachedAt={cachedAt} onRegenerate={() => handleScan(true)} label="Scan again" />}
+                      <ResumeReview
+                        data={resumeReview}
+                        onChange={setResumeReview}
+                        onAccept={acceptResumeReview}
+                        onDiscard={() => {
+                          setResumeReview(null);
+                          setCachedAt(null);
+                        }}
+                      />
                     </motion.div>
                   )}
 
@@ -525,21 +1266,45 @@ export default function App() {
                       animate={{ opacity: 1, y: 0 }}
                       className="space-y-6"
                     >
+                      {cachedAt && !loading && (
+                        <CachedNotice cachedAt={cachedAt} onRegenerate={() => generateRecommendations(education, skills, interests, experience, true)} />
+                      )}
+
                       {/* Summary Card */}
                       <div className="bg-emerald-600 text-white p-8 rounded-3xl shadow-xl shadow-emerald-900/10 relative overflow-hidden">
                         <div className="relative z-10">
                           <div className="flex justify-between items-start mb-2">
                             <h3 className="text-xs font-bold uppercase tracking-widest opacity-70">Your Profile Analysis</h3>
-                            <button 
-                              onClick={() => setIsSaveModalOpen(true)}
-                              className="flex items-center gap-2 bg-white/20 hover:bg-white/30 px-3 py-1 rounded-full text-xs font-semibold backdrop-blur-sm transition-all"
-                            >
-                              <Save size={12} /> Save to History
-                            </button>
+                            {loading ? (
+                              <button 
+                                onClick={cancelRequest}
+                                className="flex items-center gap-2 bg-white/20 hover:bg-white/30 px-3 py-1 rounded-full text-xs font-semibold backdrop-blur-sm transition-all"
+                              >
+                                <Square size={12} /> Cancel
+                              </button>
+                            ) : (
+                              <button 
+                                onClick={() => setIsSaveModalOpen(true)}
+                                className="flex items-center gap-2 bg-white/20 hover:bg-white/30 px-3 py-1 rounded-full text-xs font-semibold backdrop-blur-sm transition-all"
+                              >
+                                <Save size={12} /> Save to History
+                              </button>
+                            )}
                           </div>
-                          <p className="text-xl font-medium leading-relaxed italic">
-                            "{recommendation.summary}"
-                          </p>
+                          {recommendation.engine === 'rules' && (
+                            <span className="inline-flex items-center gap-1.5 mb-3 bg-white/20 px-2.5 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider">
+                              <WifiOff size={12} /> Offline estimate
+                            </span>
+                          )}
+                          {recommendation.summary ? (
+                            <p className="text-xl font-medium leading-relaxed italic">
+                              "{recommendation.summary}"
+                            </p>
+                          ) : (
+                            <p className="text-xl font-medium leading-relaxed opacity-70 flex items-center gap-2">
+                              <Loader2 className="animate-spin" size={18} /> Writing your summary...
+                            </p>
+                          )}
                         </div>
                         <Sparkles className="absolute -right-4 -bottom-4 text-white/10" size={120} />
                       </div>
@@ -553,16 +1318,28 @@ export default function App() {
                             </div>
                             <h4 className="font-bold text-lg">Suggested Career Paths</h4>
                           </div>
-                          <ul className="space-y-3">
-                            {recommendation.careerPaths.map((path, i) => (
-                              <li key={i} className="flex items-start gap-3 group">
-                                <div className="mt-1.5 w-1.5 h-1.5 rounded-full bg-blue-400 group-hover:scale-150 transition-transform" />
-                                <span className="text-black/70 font-medium">{path}</span>
-                              </li>
-                            ))}
-                          </ul>
+                          <CareerPathList
+                            paths={recommendation.careerPaths}
+                            refinement={versions.length > 0 && !loading ? { constraints, onTogglePin: togglePin, onReject: rejectPath } : undefined}
+                          />
+                          {loading && <StreamingPlaceholder />}
                         </div>
 
+                        {/* What-if Refinement */}
+                        {versions.length > 0 && (
+                          <RefinementPanel
+                            constraints={constraints}
+                            onChange={setConstraints}
+                            versions={versions}
+                            currentVersionId={currentVersionId}
+                            onSelectVersion={selectVersion}
+                            onRegenerate={refineRecommendation}
+                            loading={loading}
+                            error={refineError}
+                            retryIn={retryIn}
+                          />
+                        )}
+
                         {/* Internship Roles */}
                         <div className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm">
                           <div className="flex items-center gap-3 mb-4">
@@ -573,12 +1350,26 @@ export default function App() {
                           </div>
                           <ul className="space-y-3">
                             {recommendation.internshipRoles.map((role, i) => (
-                              <li key={i} className="flex items-start gap-3 group">
-                                <div className="mt-1.5 w-1.5 h-1.5 rounded-full bg-purple-400 group-hover:scale-150 transition-transform" />
-                                <span className="text-black/70 font-medium">{role}</span>
+                              <li key={i}>
+                                <button
+                                  type="button"
+                                  onClick={() => practiseInterview(role)}
+                                  disabled={loading}
+                                  title="Practise a mock interview for this role"
+                                  className="w-full flex items-start gap-3 group text-left disabled:cursor-default"
+                                >
+                                  <div className="mt-1.5 w-1.5 h-1.5 rounded-full bg-purple-400 group-hover:scale-150 transition-transform" />
+                                  <span className="flex-1 text-black/70 font-medium group-enabled:group-hover:text-purple-700 transition-colors">{role}</span>
+                                  {!loading && (
+                                    <span className="shrink-0 flex items-center gap-1 text-xs font-semibold text-black/30 group-hover:text-purple-600 transition-colors">
+                                      <Mic size={12} /> Practise
+                                    </span>
+                                  )}
+                                </button>
                               </li>
                             ))}
                           </ul>
+                          {loading && <StreamingPlaceholder />}
                         </div>
 
                         {/* Skills to Learn */}
@@ -599,29 +1390,107 @@ export default function App() {
                               </span>
                             ))}
                           </div>
+                          {loading && <StreamingPlaceholder />}
                         </div>
-                      </div>
 
-                      <div className="flex flex-col gap-3">
-                        <button
-                          onClick={() => setIsSaveModalOpen(true)}
-                          className="w-full bg-emerald-600 text-white py-4 rounded-2xl font-bold flex items-center justify-center gap-2 hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-900/10"
-                        >
-                          <Save size={18} /> Save this Roadmap
-                        </button>
+                        {/* Learning Roadmap */}
+                        {!loading && recommendation.careerPaths.length > 0 && (
+                          <LearningRoadmapPanel
+                            careerPaths={recommendation.careerPaths}
+                            roadmap={roadmap}
+                            loading={roadmapLoading}
+                            error={roadmapError}
+                            onGenerate={handleGenerateRoadmap}
+                            onSave={activeHistoryId ? saveRoadmapToHistory : undefined}
+                            saved={roadmapSaved}
+                          />
+                        )}
 
-                        <button
-                          onClick={reset}
-                          className="w-full py-4 border-2 border-dashed border-black/10 rounded-2xl text-black/40 font-semibold hover:border-emerald-500 hover:text-emerald-600 transition-all"
-                        >
-                          Start New Analysis
-                        </button>
+                        {/* Project Ideas */}
+                        {!loading && recommendation.careerPaths.length > 0 && (
+                          <ProjectIdeasPanel
+                            inputs={profileInputs}
+                            careerPaths={recommendation.careerPaths}
+                            skillsToLearn={recommendation.skillsToLearn}
+                            plan={projects}
+                            onChange={updateProjects}
+                            persisted={!!activeHistoryId}
+                          />
+                        )}
+
+                        {/* Follow-up Chat */}
+                        {!loading && (
+                          <ChatPanel
+                            key={activeHistoryId ?? 'draft'}
+                            inputs={profileInputs}
+                            recommendation={recommendation}
+                            messages={conversation}
+                            onChange={updateConversation}
+                            persisted={!!activeHistoryId}
+                          />
+                        )}
                       </div>
+
+                      {!loading && (
+                        <div className="flex flex-col gap-3">
+                          <button
+                            onClick={() => setIsSaveModalOpen(true)}
+                            className="w-full bg-emerald-600 text-white py-4 rounded-2xl font-bold flex items-center justify-center gap-2 hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-900/10"
+                          >
+                            <Save size={18} /> Save this Roadmap
+                          </button>
+
+                          <div className="grid grid-cols-2 gap-3">
+                            <ExportMenu getItem={currentHistoryItem} />
+                            <button
+                              onClick={shareCurrent}
+                              className="w-full py-4 border border-black/10 rounded-2xl font-semibold text-black/70 flex items-center justify-center gap-2 hover:border-emerald-500 hover:text-emerald-600 transition-all"
+                            >
+                              <Share2 size={18} /> Share
+                            </button>
+                          </div>
+
+                          <button
+                            onClick={reset}
+                            className="w-full py-4 border-2 border-dashed border-black/10 rounded-2xl text-black/40 font-semibold hover:border-emerald-500 hover:text-emerald-600 transition-all"
+                          >
+                            Start New Analysis
+                          </button>
+                        </div>
+                      )}
                     </motion.div>
                   )}
                 </AnimatePresence>
               </div>
             </motion.div>
+          ) : activeTab === 'jobmatch' ? (
+            <motion.div
+              key="jobmatch"
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -10 }}
+            >
+              <JobMatch
+                inputs={profileInputs}
+                recommendation={recommendation}
+                onEditProfile={() => setActiveTab('navigator')}
+              />
+            </motion.div>
+          ) : activeTab === 'advisor' && user?.role === 'advisor' ? (
+            <AdvisorDashboard advisor={user} />
+          ) : activeTab === 'profile' && user ? (
+            <ProfilePage
+              user={user}
+              currentInputs={profileInputs}
+              savedRoadmaps={history.length}
+              onUpdated={(updated) => setSession(prev => prev && { ...prev, user: updated })}
+              onUseProfile={(profile) => {
+                fillProfile(profile);
+                setActiveTab('navigator');
+              }}
+              onSignOut={handleSignOut}
+              onDeleted={endSession}
+            />
           ) : (
             <motion.div 
               key="history"
@@ -630,79 +1499,178 @@ export default function App() {
               exit={{ opacity: 0, y: -10 }}
               className="space-y-8"
             >
-              <div className="flex justify-between items-end">
-                <div>
-                  <h2 className="text-3xl font-bold tracking-tight mb-2">Saved Roadmaps</h2>
-                  <p className="text-black/60">Review your previously generated career paths.</p>
-                </div>
-                {history.length > 0 && (
-                  <button 
-                    onClick={() => {
-                      if(confirm('Clear all history?')) saveToLocalStorage([]);
-                    }}
-                    className="text-red-500 text-sm font-medium hover:underline flex items-center gap-2"
-                  >
-                    <Trash2 size={14} /> Clear All
-                  </button>
-                )}
-              </div>
-
-              {history.length === 0 ? (
-                <div className="py-20 flex flex-col items-center justify-center text-center border-2 border-dashed border-black/5 rounded-3xl bg-white/50">
-                  <div className="w-16 h-16 bg-black/5 rounded-full flex items-center justify-center text-black/20 mb-4">
-                    <History size={32} />
-                  </div>
-                  <h3 className="text-xl font-semibold mb-2">No history yet</h3>
-                  <p className="text-black/40 max-w-xs mb-6">
-                    Your saved career roadmaps will appear here for easy access.
-                  </p>
-                  <button 
-                    onClick={() => setActiveTab('navigator')}
-                    className="flex items-center gap-2 bg-black text-white px-6 py-2.5 rounded-xl font-semibold hover:bg-emerald-600 transition-all"
-                  >
-                    <Plus size={18} /> Create First Roadmap
-                  </button>
-                </div>
+              {isComparing && compareIds.length >= 2 ? (
+                <HistoryComparison
+                  items={history.filter(item => compareIds.includes(item.id))}
+                  history={history}
+                  onClose={() => setIsComparing(false)}
+                />
               ) : (
-                <div className="grid md:grid-cols-2 gap-6">
-                  {history.map((item) => (
-                    <motion.div 
-                      key={item.id}
-                      layoutId={item.id}
-                      onClick={() => viewHistoryItem(item)}
-                      className="group bg-white p-6 rounded-3xl border border-black/5 shadow-sm hover:shadow-md hover:border-emerald-500/30 transition-all cursor-pointer relative overflow-hidden"
-                    >
-                      <div className="flex justify-between items-start mb-4">
-                        <div className="space-y-1">
-                          <h4 className="font-bold text-lg group-hover:text-emerald-600 transition-colors">{item.title}</h4>
-                          <p className="text-xs text-black/40 font-medium">{item.date}</p>
-                        </div>
+                <>
+                  <div className="flex justify-between items-end">
+                    <div>
+                      <h2 className="text-3xl font-bold tracking-tight mb-2">Saved Roadmaps</h2>
+                      <p className="text-black/60">
+                        {guestMode
+                          ? 'Saved in this browser only. Sign in to keep them in an account and share them.'
+                          : 'Review your previously generated career paths.'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <button
+                        onClick={() => importInputRef.current?.click()}
+                        className="text-emerald-600 text-sm font-medium hover:underline flex items-center gap-2"
+                      >
+                        <Upload size={14} /> Import
+                      </button>
+                      <input
+                        type="file"
+                        ref={importInputRef}
+                        onChange={handleImport}
+                        accept=".json,application/json"
+                        multiple
+                        className="hidden"
+                      />
+                      {history.length > 0 && (
                         <button 
-                          onClick={(e) => deleteHistoryItem(item.id, e)}
-                          className="p-2 text-black/20 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all"
+                          onClick={clearAllHistory}
+                          className="text-red-500 text-sm font-medium hover:underline flex items-center gap-2"
                         >
-                          <Trash2 size={16} />
+                          <Trash2 size={14} /> Clear All
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {historyNotice && (
+                    <div className="flex items-center justify-between gap-3 p-4 bg-emerald-50 border border-emerald-100 rounded-2xl text-sm text-emerald-700 font-medium">
+                      <span>{historyNotice}</span>
+                      <button onClick={() => setHistoryNotice(null)} className="p-1 hover:bg-emerald-100 rounded-full transition-all">
+                        <X size={14} />
+                      </button>
+                    </div>
+                  )}
+
+                  {historyError && (
+                    <div className="flex items-center justify-between gap-3 p-4 bg-red-50 border border-red-100 rounded-2xl text-sm text-red-600 font-medium">
+                      <span className="flex items-center gap-2"><AlertCircle size={16} /> {historyError}</span>
+                      <button onClick={() => setHistoryError(null)} className="p-1 hover:bg-red-100 rounded-full transition-all">
+                        <X size={14} />
+                      </button>
+                    </div>
+                  )}
+
+                  {compareIds.length > 0 && (
+                    <div className="flex items-center justify-between gap-3 p-4 bg-emerald-50 border border-emerald-100 rounded-2xl text-sm">
+                      <span className="font-medium text-emerald-800">
+                        {compareIds.length} selected{compareIds.length < 2 && ' — select at least one more to compare'}
+                      </span>
+                      <div className="flex items-center gap-2">
+                        <button onClick={() => setCompareIds([])} className="px-3 py-1.5 text-emerald-700 font-medium hover:underline">
+                          Clear
+                        </button>
+                        <button
+                          onClick={() => setIsComparing(true)}
+                          disabled={compareIds.length < 2}
+                          className="flex items-center gap-2 bg-emerald-600 text-white px-4 py-1.5 rounded-lg font-semibold hover:bg-emerald-700 transition-all disabled:opacity-50"
+                        >
+                          <GitCompare size={14} /> Compare
                         </button>
                       </div>
-                      
-                      <div className="space-y-3 mb-6">
-                        <div className="flex items-center gap-2 text-xs text-black/60">
-                          <GraduationCap size={12} className="text-emerald-600" />
-                          <span className="truncate">{item.inputs.education}</span>
-                        </div>
-                        <div className="flex items-center gap-2 text-xs text-black/60">
-                          <Wrench size={12} className="text-emerald-600" />
-                          <span className="truncate">{item.inputs.skills}</span>
-                        </div>
-                      </div>
+                    </div>
+                  )}
 
-                      <div className="flex items-center justify-between pt-4 border-t border-black/5">
-                        <span className="text-xs font-bold text-emerald-600 uppercase tracking-wider">View Full Roadmap</span>
-                        <ChevronRight size={16} className="text-black/20 group-hover:text-emerald-600 group-hover:translate-x-1 transition-all" />
+                  {history.length === 0 ? (
+                    <div className="py-20 flex flex-col items-center justify-center text-center border-2 border-dashed border-black/5 rounded-3xl bg-white/50">
+                      <div className="w-16 h-16 bg-black/5 rounded-full flex items-center justify-center text-black/20 mb-4">
+                        <History size={32} />
                       </div>
-                    </motion.div>
-                  ))}
-                </div>
+                      <h3 className="text-xl font-semibold mb-2">No history yet</h3>
+                      <p className="text-black/40 max-w-xs mb-6">
+                        Your saved career roadmaps will appear here for easy access.
+                      </p>
+                      <button 
+                        onClick={() => setActiveTab('navigator')}
+                        className="flex items-center gap-2 bg-black text-white px-6 py-2.5 rounded-xl font-semibold hover:bg-emerald-600 transition-all"
+                      >
+                        <Plus size={18} /> Create First Roadmap
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="grid md:grid-cols-2 gap-6">
+                      {history.map((item) => (
+                        <motion.div 
+                          key={item.id}
+                          layoutId={item.id}
+                          onClick={() => viewHistoryItem(item)}
+                          className={`group bg-white p-6 rounded-3xl border shadow-sm hover:shadow-md hover:border-emerald-500/30 transition-all cursor-pointer relative ${compareIds.includes(item.id) ? 'border-emerald-500 ring-2 ring-emerald-500/20' : 'border-black/5'}`}
+                        >
+                          <div className="flex justify-between items-start mb-4">
+                            <div className="space-y-1">
+                              {renamingId === item.id ? (
+                                <RenameInput
+                                  value={item.title}
+                                  onSave={(title) => renameItem(item, title)}
+                                  onCancel={() => setRenamingId(null)}
+                                  className="font-bold text-lg"
+                                />
+                              ) : (
+                                <h4 className="font-bold text-lg group-hover:text-emerald-600 transition-colors">{item.title}</h4>
+                              )}
+                              <p className="text-xs text-black/40 font-medium">{item.date}</p>
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <ExportMenu compact getItem={() => item} />
+                              <button
+                                onClick={(e) => openShare(item, e)}
+                                title="Share a read-only link"
+                                className="p-2 text-black/20 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-all"
+                              >
+                                <Share2 size={16} />
+                              </button>
+                              <button
+                                onClick={(e) => toggleCompare(item.id, e)}
+                                title={compareIds.includes(item.id) ? 'Remove from comparison' : 'Select to compare'}
+                                className={`p-2 rounded-lg transition-all ${compareIds.includes(item.id) ? 'text-emerald-600 bg-emerald-50' : 'text-black/20 hover:text-emerald-600 hover:bg-emerald-50'}`}
+                              >
+                                <GitCompare size={16} />
+                              </button>
+                              <button 
+                                onClick={(e) => startRename(item, e)}
+                                title="Rename"
+                                className="p-2 text-black/20 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-all"
+                              >
+                                <Pencil size={16} />
+                              </button>
+                              <button 
+                                onClick={(e) => deleteHistoryItem(item.id, e)}
+                                className="p-2 text-black/20 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all"
+                              >
+                                <Trash2 size={16} />
+                              </button>
+                            </div>
+                          </div>
+                        
+                          <div className="space-y-3 mb-6">
+                            <div className="flex items-center gap-2 text-xs text-black/60">
+                              <GraduationCap size={12} className="text-emerald-600" />
+                              <span className="truncate">{item.inputs.education}</span>
+                            </div>
+                            <div className="flex items-center gap-2 text-xs text-black/60">
+                              <Wrench size={12} className="text-emerald-600" />
+                              <span className="truncate">{item.inputs.skills}</span>
+                            </div>
+                          </div>
+
+                          <div className="flex items-center justify-between pt-4 border-t border-black/5">
+                            <span className="text-xs font-bold text-emerald-600 uppercase tracking-wider">View Full Roadmap</span>
+                            <ChevronRight size={16} className="text-black/20 group-hover:text-emerald-600 group-hover:translate-x-1 transition-all" />
+                          </div>
+                        </motion.div>
+                      ))}
+                    </div>
+                  )}
+                </>
               )}
             </motion.div>
           )}
@@ -717,7 +1685,7 @@ export default function App() {
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
-              onClick={() => setIsSaveModalOpen(false)}
+              onClick={closeSaveModal}
               className="absolute inset-0 bg-black/40 backdrop-blur-sm"
             />
             <motion.div 
@@ -729,7 +1697,7 @@ export default function App() {
               <div className="flex justify-between items-center mb-6">
                 <h3 className="text-xl font-bold">Save Roadmap</h3>
                 <button 
-                  onClick={() => setIsSaveModalOpen(false)}
+                  onClick={closeSaveModal}
                   className="p-2 hover:bg-black/5 rounded-full transition-all"
                 >
                   <X size={20} />
@@ -763,6 +1731,20 @@ export default function App() {
         )}
       </AnimatePresence>
 
+      <AnimatePresence>
+        {shareItem && <ShareDialog item={shareItem} onClose={() => setShareItem(null)} />}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {interviewRole && (
+          <InterviewPrep
+            role={interviewRole}
+            inputs={profileInputs}
+            onClose={() => setInterviewRole(null)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Footer */}
       <footer className="max-w-5xl mx-auto px-6 py-12 border-t border-black/5 mt-12">
         <div className="flex flex-col md:flex-row justify-between items-center gap-6 text-black/40 text-sm">
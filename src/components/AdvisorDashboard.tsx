@@ -0,0 +1,409 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import {
+  ArrowLeft,
+  BarChart3,
+  EyeOff,
+  Loader2,
+  MessageSquare,
+  Route,
+  Send,
+  Trash2,
+  UserX,
+  Users,
+  Wrench
+} from 'lucide-react';
+import type { CohortDashboard, CohortFilter, StudentDetail, StudentSummary, User } from '../types';
+import {
+  addAdvisorComment,
+  deleteAdvisorComment,
+  getCohortDashboard,
+  getStudentDetail
+} from '../services/advisorService';
+import { describeError } from '../lib/errors';
+
+interface Props {
+  advisor: User;
+}
+
+const MAX_COMMENT_LENGTH = 2000;
+
+const selectClass =
+  'px-3 py-2 rounded-xl border border-black/10 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all';
+
+const classLabel = (student: Pick<StudentSummary, 'year' | 'section'>) =>
+  [student.year && `Year ${student.year}`, student.section && `Section ${student.section}`].filter(Boolean).join(' · ') ||
+  'Class not set';
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+const Stat = ({ icon, label, value }: { icon: React.ReactNode; label: string; value: number }) => (
+  <div className="bg-white p-5 rounded-3xl border border-black/5 shadow-sm">
+    <p className="text-xs font-bold uppercase tracking-widest text-black/40 flex items-center gap-1.5">{icon} {label}</p>
+    <p className="text-3xl font-bold mt-1">{value}</p>
+  </div>
+);
+
+/** Horizontal bars scaled to the largest count; `highlight` shades the part of each bar it covers. */
+const Bars = ({
+  rows,
+  total,
+  empty
+}: {
+  rows: { label: string; value: number; highlight?: number }[];
+  total: number;
+  empty: string;
+}) =>
+  rows.length === 0 ? (
+    <p className="text-sm text-black/40">{empty}</p>
+  ) : (
+    <ul className="space-y-3">
+      {rows.map((row) => (
+        <li key={row.label} className="space-y-1">
+          <div className="flex justify-between gap-4 text-sm">
+            <span className="font-medium truncate">{row.label}</span>
+            <span className="text-black/50 shrink-0">
+              {row.value} of {total}
+              {row.highlight !== undefined && row.highlight > 0 && ` · ${row.highlight} top choice`}
+            </span>
+          </div>
+          <div className="h-2 bg-black/5 rounded-full overflow-hidden">
+            <div className="h-full bg-emerald-200 rounded-full relative" style={{ width: `${(row.value / Math.max(total, 1)) * 100}%` }}>
+              {row.highlight !== undefined && (
+                <div className="absolute inset-y-0 left-0 bg-emerald-600 rounded-full" style={{ width: `${(row.highlight / row.value) * 100}%` }} />
+              )}
+            </div>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+
+function StudentDrillDown({ advisor, studentId, onBack }: { advisor: User; studentId: string; onBack: () => void }) {
+  const [detail, setDetail] = useState<StudentDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [comment, setComment] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [commentError, setCommentError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDetail(null);
+    setError(null);
+    getStudentDetail(studentId)
+      .then((loaded) => !cancelled && setDetail(loaded))
+      .catch((err) => !cancelled && setError(describeError(err, 'Could not load this student.')));
+    return () => {
+      cancelled = true;
+    };
+  }, [studentId]);
+
+  const postComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPosting(true);
+    setCommentError(null);
+    try {
+      const added = await addAdvisorComment(studentId, comment.trim());
+      setDetail((prev) => prev && { ...prev, comments: [...prev.comments, added] });
+      setComment('');
+    } catch (err) {
+      setCommentError(describeError(err, 'Could not add your comment.'));
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const removeComment = async (commentId: string) => {
+    setCommentError(null);
+    try {
+      await deleteAdvisorComment(studentId, commentId);
+      setDetail((prev) => prev && { ...prev, comments: prev.comments.filter((c) => c.id !== commentId) });
+    } catch (err) {
+      setCommentError(describeError(err, 'Could not delete this comment.'));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <button
+        onClick={onBack}
+        className="text-sm font-semibold text-black/60 hover:text-black flex items-center gap-1.5 transition-colors"
+      >
+        <ArrowLeft size={16} /> Back to cohort
+      </button>
+
+      {error ? (
+        <p className="text-sm text-red-600 font-medium">{error}</p>
+      ) : !detail ? (
+        <div className="flex justify-center py-16"><Loader2 className="animate-spin text-emerald-600" size={28} /></div>
+      ) : (
+        <>
+          <div className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm space-y-3">
+            <div>
+              <h3 className="text-2xl font-bold tracking-tight">{detail.student.displayName}</h3>
+              <p className="text-sm text-black/50">{detail.student.email} · {classLabel(detail.student)}</p>
+            </div>
+            {detail.student.profile ? (
+              <dl className="grid sm:grid-cols-3 gap-4 text-sm">
+                {(['education', 'skills', 'interests'] as const).map((field) => (
+                  <div key={field}>
+                    <dt className="text-xs font-semibold uppercase tracking-wider text-black/40 capitalize">{field}</dt>
+                    <dd className="text-black/70">{detail.student.profile![field] || '—'}</dd>
+                  </div>
+                ))}
+                {detail.student.profile.experience && (
+                  <div className="sm:col-span-3">
+                    <dt className="text-xs font-semibold uppercase tracking-wider text-black/40">Projects, internships & certifications</dt>
+                    <dd className="text-black/70 whitespace-pre-line">{detail.student.profile.experience}</dd>
+                  </div>
+                )}
+              </dl>
+            ) : (
+              <p className="text-sm text-black/40">No saved profile.</p>
+            )}
+          </div>
+
+          <section className="space-y-3">
+            <h4 className="font-bold text-lg flex items-center gap-2">
+              <Route size={18} className="text-emerald-600" /> Saved roadmaps
+              <span className="text-xs font-semibold text-black/40">({detail.roadmaps.length})</span>
+            </h4>
+            {detail.roadmaps.length === 0 ? (
+              <p className="text-sm text-black/40">This student has not saved a roadmap yet.</p>
+            ) : (
+              detail.roadmaps.map((item) => (
+                <div key={item.id} className="bg-white p-5 rounded-3xl border border-black/5 shadow-sm space-y-3">
+                  <div className="flex justify-between gap-4">
+                    <p className="font-semibold">{item.title}</p>
+                    <p className="text-xs text-black/40 shrink-0">{item.date}</p>
+                  </div>
+                  <ol className="space-y-1 text-sm">
+                    {item.recommendation.careerPaths.slice(0, 3).map((path, i) => (
+                      <li key={i} className="flex justify-between gap-4">
+                        <span>{i + 1}. {path.title}</span>
+                        <span className="text-black/50">{path.fitScore}% fit</span>
+                      </li>
+                    ))}
+                  </ol>
+                  {item.recommendation.skillsToLearn.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {item.recommendation.skillsToLearn.map((skill) => (
+                        <span key={skill} className="px-2 py-0.5 bg-amber-50 text-amber-700 rounded-md text-xs font-medium">{skill}</span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </section>
+
+          <section className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm space-y-4">
+            <h4 className="font-bold text-lg flex items-center gap-2">
+              <MessageSquare size={18} className="text-emerald-600" /> Advisor comments
+            </h4>
+            {detail.comments.length === 0 ? (
+              <p className="text-sm text-black/40">No comments yet.</p>
+            ) : (
+              <ul className="space-y-3">
+                {detail.comments.map((c) => (
+                  <li key={c.id} className="p-4 rounded-2xl bg-black/[0.02] border border-black/5">
+                    <div className="flex justify-between gap-4 text-xs text-black/40 mb-1">
+                      <span>{c.advisorName ?? 'Former advisor'} · {formatDate(c.createdAt)}</span>
+                      {c.advisorId === advisor.id && (
+                        <button onClick={() => removeComment(c.id)} title="Delete comment" className="hover:text-red-600 transition-colors">
+                          <Trash2 size={14} />
+                        </button>
+                      )}
+                    </div>
+                    <p className="text-sm whitespace-pre-wrap">{c.body}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <form onSubmit={postComment} className="space-y-2">
+              <textarea
+                rows={3}
+                maxLength={MAX_COMMENT_LENGTH}
+                placeholder="Add a comment for this student…"
+                className="w-full px-4 py-3 rounded-xl border border-black/10 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all resize-none"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+              />
+              {commentError && <p className="text-sm text-red-600 font-medium">{commentError}</p>}
+              <button
+                type="submit"
+                disabled={posting || !comment.trim()}
+                className="px-4 py-2 bg-black text-white rounded-xl text-sm font-semibold flex items-center gap-2 hover:bg-emerald-600 transition-colors disabled:opacity-50 disabled:hover:bg-black"
+              >
+                {posting ? <Loader2 className="animate-spin" size={16} /> : <Send size={16} />} Add comment
+              </button>
+            </form>
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The placement cell's view of a batch: where students' latest saved roadmaps
+ * point, the skills they most often still need, who has not saved one yet, and
+ * a drill-down per student. Only students who opted in to sharing appear.
+ */
+export default function AdvisorDashboard({ advisor }: Props) {
+  const [filter, setFilter] = useState<CohortFilter>({});
+  const [dashboard, setDashboard] = useState<CohortDashboard | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getCohortDashboard(filter)
+      .then((loaded) => !cancelled && setDashboard(loaded))
+      .catch((err) => !cancelled && setError(describeError(err, 'Could not load the advisor dashboard.')))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [filter.year, filter.section]);
+
+  const withRoadmaps = dashboard ? dashboard.students.length - dashboard.withoutRoadmaps.length : 0;
+
+  return (
+    <motion.div
+      key="advisor"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -10 }}
+      className="space-y-8"
+    >
+      {selectedId ? (
+        <StudentDrillDown advisor={advisor} studentId={selectedId} onBack={() => setSelectedId(null)} />
+      ) : (
+        <>
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h2 className="text-3xl font-bold tracking-tight">Advisor dashboard</h2>
+              <p className="text-black/50">Where your students are heading, from the roadmaps they chose to share.</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <select
+                className={selectClass}
+                value={filter.year ?? ''}
+                onChange={(e) => setFilter({ ...filter, year: e.target.value ? Number(e.target.value) : undefined })}
+              >
+                <option value="">All years</option>
+                {dashboard?.years.map((year) => (
+                  <option key={year} value={year}>Year {year}</option>
+                ))}
+              </select>
+              <select
+                className={selectClass}
+                value={filter.section ?? ''}
+                onChange={(e) => setFilter({ ...filter, section: e.target.value || undefined })}
+              >
+                <option value="">All sections</option>
+                {dashboard?.sections.map((section) => (
+                  <option key={section} value={section}>Section {section}</option>
+                ))}
+              </select>
+              {loading && <Loader2 className="animate-spin text-emerald-600" size={18} />}
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600 font-medium">{error}</p>}
+
+          {dashboard && (
+            <>
+              <div className="grid sm:grid-cols-3 gap-4">
+                <Stat icon={<Users size={12} />} label="Sharing" value={dashboard.students.length} />
+                <Stat icon={<Route size={12} />} label="With a roadmap" value={withRoadmaps} />
+                <Stat icon={<EyeOff size={12} />} label="Not sharing" value={dashboard.notSharing} />
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-6">
+                <section className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm space-y-4">
+                  <h4 className="font-bold text-lg flex items-center gap-2">
+                    <BarChart3 size={18} className="text-emerald-600" /> Recommended paths
+                  </h4>
+                  <Bars
+                    rows={dashboard.paths.map((p) => ({ label: p.path, value: p.students, highlight: p.topChoice }))}
+                    total={withRoadmaps}
+                    empty="No saved roadmaps yet."
+                  />
+                </section>
+                <section className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm space-y-4">
+                  <h4 className="font-bold text-lg flex items-center gap-2">
+                    <Wrench size={18} className="text-amber-500" /> Most common skill gaps
+                  </h4>
+                  <Bars
+                    rows={dashboard.skillGaps.map((s) => ({ label: s.skill, value: s.students }))}
+                    total={withRoadmaps}
+                    empty="No skill gaps recorded yet."
+                  />
+                </section>
+              </div>
+
+              {dashboard.withoutRoadmaps.length > 0 && (
+                <section className="p-6 rounded-3xl border border-amber-100 bg-amber-50/40 space-y-3">
+                  <h4 className="font-bold text-lg text-amber-800 flex items-center gap-2">
+                    <UserX size={18} /> No saved roadmap yet
+                    <span className="text-xs font-semibold text-amber-700/60">({dashboard.withoutRoadmaps.length})</span>
+                  </h4>
+                  <div className="flex flex-wrap gap-2">
+                    {dashboard.withoutRoadmaps.map((student) => (
+                      <button
+                        key={student.id}
+                        onClick={() => setSelectedId(student.id)}
+                        className="px-3 py-1 bg-white border border-amber-200 rounded-full text-sm hover:border-amber-400 transition-all"
+                      >
+                        {student.displayName}
+                      </button>
+                    ))}
+                  </div>
+                </section>
+              )}
+
+              <section className="bg-white rounded-3xl border border-black/5 shadow-sm overflow-hidden">
+                <h4 className="font-bold text-lg flex items-center gap-2 p-6 pb-4">
+                  <Users size={18} className="text-emerald-600" /> Students
+                </h4>
+                {dashboard.students.length === 0 ? (
+                  <p className="text-sm text-black/40 px-6 pb-6">
+                    No students in this group share their roadmaps with advisors yet.
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-black/5">
+                    {dashboard.students.map((student) => (
+                      <li key={student.id}>
+                        <button
+                          onClick={() => setSelectedId(student.id)}
+                          className="w-full text-left px-6 py-3 flex items-center justify-between gap-4 hover:bg-black/[0.02] transition-colors"
+                        >
+                          <div className="min-w-0">
+                            <p className="font-semibold truncate">{student.displayName}</p>
+                            <p className="text-xs text-black/40">{classLabel(student)}</p>
+                          </div>
+                          <div className="text-right text-sm shrink-0">
+                            <p className="text-black/70">{student.topPath ?? '—'}</p>
+                            <p className="text-xs text-black/40">
+                              {student.roadmaps} roadmap{student.roadmaps === 1 ? '' : 's'}
+                              {student.lastSavedAt && ` · last ${formatDate(student.lastSavedAt)}`}
+                            </p>
+                          </div>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            </>
+          )}
+        </>
+      )}
+    </motion.div>
+  );
+}
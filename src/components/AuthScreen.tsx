@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { ArrowRight, Cpu, Loader2, LogIn, UserPlus } from 'lucide-react';
+import type { User } from '../types';
+import { register, signIn } from '../services/authService';
+import { describeError } from '../lib/errors';
+
+interface Props {
+  /** Whether "Continue as guest" is offered. */
+  allowGuests: boolean;
+  /** Why the student was asked to sign in, e.g. to share a roadmap. */
+  notice?: string | null;
+  onSignedIn: (user: User) => void;
+  onGuest: () => void;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const inputClass =
+  'w-full px-4 py-3 rounded-xl border border-black/10 focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all';
+
+/** Sign-in and account creation, with an optional way in as a guest whose roadmaps stay in this browser. */
+export default function AuthScreen({ allowGuests, notice, onSignedIn, onGuest }: Props) {
+  const [mode, setMode] = useState<'sign-in' | 'register'>('sign-in');
+  const [displayName, setDisplayName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const registering = mode === 'register';
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      onSignedIn(registering ? await register(email, password, displayName) : await signIn(email, password));
+    } catch (err) {
+      setError(describeError(err, registering ? 'Could not create your account.' : 'Could not sign in.'));
+      setSubmitting(false);
+    }
+  };
+
+  const switchMode = (next: typeof mode) => {
+    setMode(next);
+    setError(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-[#F8F9FA] text-[#1A1A1A] font-sans flex items-center justify-center p-6">
+      <motion.div
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-md space-y-6"
+      >
+        <div className="flex items-center justify-center gap-2">
+          <div className="w-8 h-8 bg-emerald-600 rounded-lg flex items-center justify-center text-white">
+            <Cpu size={20} />
+          </div>
+          <span className="font-bold tracking-tight text-lg">ECE Career Navigator</span>
+        </div>
+
+        <div className="bg-white p-8 rounded-3xl border border-black/5 shadow-sm space-y-6">
+          <div className="flex items-center bg-black/5 p-1 rounded-xl">
+            {(['sign-in', 'register'] as const).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => switchMode(option)}
+                className={`flex-1 px-4 py-1.5 rounded-lg text-sm font-medium transition-all ${mode === option ? 'bg-white text-black shadow-sm' : 'text-black/50 hover:text-black'}`}
+              >
+                {option === 'sign-in' ? 'Sign in' : 'Create account'}
+              </button>
+            ))}
+          </div>
+
+          {notice && <p className="p-3 bg-emerald-50 text-emerald-800 rounded-xl text-sm">{notice}</p>}
+
+          <form onSubmit={submit} className="space-y-4">
+            {registering && (
+              <div className="space-y-2">
+                <label className="text-xs font-bold uppercase tracking-wider text-black/40">Name</label>
+                <input
+                  type="text"
+                  autoComplete="name"
+                  placeholder="e.g. Asha Rao"
+                  maxLength={80}
+                  className={inputClass}
+                  value={displayName}
+                  onChange={(e) => setDisplayName(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <label className="text-xs font-bold uppercase tracking-wider text-black/40">Email</label>
+              <input
+                required
+                autoFocus
+                type="email"
+                autoComplete="email"
+                placeholder="you@college.edu"
+                className={inputClass}
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-bold uppercase tracking-wider text-black/40">Password</label>
+              <input
+                required
+                type="password"
+                autoComplete={registering ? 'new-password' : 'current-password'}
+                minLength={registering ? MIN_PASSWORD_LENGTH : undefined}
+                placeholder={registering ? `At least ${MIN_PASSWORD_LENGTH} characters` : ''}
+                className={inputClass}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-600 font-medium">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full bg-emerald-600 text-white py-4 rounded-xl font-bold hover:bg-emerald-700 transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {submitting ? <Loader2 className="animate-spin" size={18} /> : registering ? <UserPlus size={18} /> : <LogIn size={18} />}
+              {registering ? 'Create account' : 'Sign in'}
+            </button>
+          </form>
+        </div>
+
+        {allowGuests && (
+          <div className="text-center space-y-1">
+            <button
+              type="button"
+              onClick={onGuest}
+              className="text-sm font-semibold text-black/60 hover:text-emerald-600 transition-colors inline-flex items-center gap-1"
+            >
+              Continue as guest <ArrowRight size={14} />
+            </button>
+            <p className="text-xs text-black/40">
+              Roadmaps stay in this browser only. Sharing and mock interviews need an account.
+            </p>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
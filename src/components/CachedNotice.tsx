@@ -0,0 +1,30 @@
+import React from 'react';
+import { History, RefreshCw } from 'lucide-react';
+import { formatTimeAgo } from '../lib/format';
+
+interface Props {
+  /** When the result was first generated. */
+  cachedAt: string;
+  /** Asks the model again, bypassing the cache. */
+  onRegenerate: () => void;
+  label?: string;
+}
+
+/** Shown above a result served from the response cache instead of a new model call. */
+export default function CachedNotice({ cachedAt, onRegenerate, label = 'Regenerate anyway' }: Props) {
+  return (
+    <div className="flex items-center justify-between gap-3 px-4 py-2.5 bg-amber-50 border border-amber-100 rounded-2xl text-xs text-amber-800">
+      <span className="flex items-center gap-2">
+        <History size={14} className="shrink-0" />
+        Same inputs as before, so this is the result from {formatTimeAgo(cachedAt)}.
+      </span>
+      <button
+        type="button"
+        onClick={onRegenerate}
+        className="shrink-0 flex items-center gap-1.5 px-3 py-1 bg-white border border-amber-200 rounded-full font-semibold hover:border-amber-400 transition-all"
+      >
+        <RefreshCw size={12} /> {label}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { Ban, Building2, ChevronDown, Pin, Repeat, Table2, LayoutList } from 'lucide-react';
+import type { CareerPath, RefinementConstraints } from '../types';
+import { formatSalaryBand } from '../lib/format';
+import { isPinned } from '../lib/refinement';
+import { CAREER_TRACKS } from '../lib/taxonomy';
+
+/** Pin and reject actions on each path, for "what if" refinement. */
+export interface PathRefinement {
+  constraints: RefinementConstraints;
+  onTogglePin: (title: string) => void;
+  onReject: (title: string) => void;
+}
+
+const fitColor = (score: number) =>
+  score >= 75 ? 'bg-emerald-500' : score >= 50 ? 'bg-amber-400' : 'bg-black/20';
+
+const Chips = ({ label, items, className }: { label: string; items: string[]; className: string }) =>
+  items.length > 0 ? (
+    <div className="space-y-1.5">
+      <p className="text-[10px] font-bold uppercase tracking-wider text-black/40">{label}</p>
+      <div className="flex flex-wrap gap-1.5">
+        {items.map((item, i) => (
+          <span key={i} className={`px-2.5 py-1 rounded-full text-xs font-medium ${className}`}>{item}</span>
+        ))}
+      </div>
+    </div>
+  ) : null;
+
+const PathCard = ({ path, defaultOpen, refinement }: { path: CareerPath; defaultOpen: boolean; refinement?: PathRefinement }) => {
+  const [open, setOpen] = useState(defaultOpen);
+  const track = CAREER_TRACKS.find(t => t.id === path.trackId);
+  const pinned = !!refinement && isPinned(refinement.constraints, path.title);
+
+  return (
+    <li className="border border-black/5 rounded-2xl overflow-hidden">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full p-4 flex items-center gap-4 text-left hover:bg-black/[0.02] transition-all"
+      >
+        <div className="flex-1 min-w-0 space-y-2">
+          <div className="flex items-center justify-between gap-3">
+            <span className="font-semibold text-black/80 truncate flex items-center gap-1.5">
+              {pinned && <Pin size={12} className="text-emerald-600 shrink-0" />}
+              {path.title}
+            </span>
+            {path.fitScore > 0 && (
+              <span className="text-xs font-bold text-black/50 shrink-0">{path.fitScore}% fit</span>
+            )}
+          </div>
+          {path.fitScore > 0 && (
+            <div className="h-1.5 bg-black/5 rounded-full overflow-hidden">
+              <div className={`h-full rounded-full ${fitColor(path.fitScore)}`} style={{ width: `${path.fitScore}%` }} />
+            </div>
+          )}
+        </div>
+        <ChevronDown size={16} className={`text-black/30 shrink-0 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-4">
+          {track && (
+            <p className="text-xs text-black/40">
+              <span className="font-bold uppercase tracking-wider">{track.name}</span> · {track.description}
+            </p>
+          )}
+          {path.rationale && <p className="text-sm text-black/60 leading-relaxed">{path.rationale}</p>}
+          <Chips label="Skills that transfer" items={path.transferableSkills} className="bg-emerald-50 text-emerald-700" />
+          <Chips label="Entry-level titles" items={path.entryLevelTitles} className="bg-blue-50 text-blue-700" />
+          {path.exampleEmployers.length > 0 && (
+            <div className="flex items-start gap-2 text-xs text-black/60">
+              <Building2 size={14} className="mt-0.5 shrink-0 text-black/30" />
+              <span>{path.exampleEmployers.join(' · ')}</span>
+            </div>
+          )}
+          {path.salaryBands.length > 0 && (
+            <div className="grid sm:grid-cols-2 gap-2">
+              {path.salaryBands.map((band, i) => (
+                <div key={i} className="px-3 py-2 bg-black/[0.03] rounded-xl">
+                  <p className="text-[10px] font-bold uppercase tracking-wider text-black/40">{band.region}</p>
+                  <p className="text-sm font-semibold text-black/70">{formatSalaryBand(band)}</p>
+                </div>
+              ))}
+            </div>
+          )}
+          {refinement && path.title && (
+            <div className="flex gap-2 pt-1">
+              <button
+                type="button"
+                onClick={() => refinement.onTogglePin(path.title)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-semibold flex items-center gap-1.5 border transition-all ${pinned ? 'bg-emerald-50 border-emerald-200 text-emerald-700' : 'border-black/10 text-black/50 hover:border-emerald-500 hover:text-emerald-600'}`}
+              >
+                <Pin size={12} /> {pinned ? 'Pinned' : 'Pin'}
+              </button>
+              <button
+                type="button"
+                onClick={() => refinement.onReject(path.title)}
+                className="px-3 py-1.5 rounded-lg text-xs font-semibold flex items-center gap-1.5 border border-black/10 text-black/50 hover:border-red-200 hover:text-red-500 transition-all"
+              >
+                <Ban size={12} /> Not for me
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </li>
+  );
+};
+
+const ComparisonTable = ({ paths }: { paths: CareerPath[] }) => {
+  const regions = Array.from(new Set(paths.flatMap(p => p.salaryBands.map(b => b.region))));
+
+  return (
+    <div className="overflow-x-auto -mx-2">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-[10px] uppercase tracking-wider text-black/40">
+            <th className="px-2 py-2 font-bold">Path</th>
+            <th className="px-2 py-2 font-bold">Fit</th>
+            {regions.map(region => (
+              <th key={region} className="px-2 py-2 font-bold whitespace-nowrap">{region}</th>
+            ))}
+            <th className="px-2 py-2 font-bold">
+              <span className="flex items-center gap-1"><Repeat size={10} /> Transfers</span>
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {paths.map((path, i) => (
+            <tr key={i} className="border-t border-black/5 align-top">
+              <td className="px-2 py-3 font-semibold text-black/80">{path.title}</td>
+              <td className="px-2 py-3 font-bold text-black/60">{path.fitScore > 0 ? `${path.fitScore}%` : '–'}</td>
+              {regions.map(region => {
+                const band = path.salaryBands.find(b => b.region === region);
+                return (
+                  <td key={region} className="px-2 py-3 text-black/60 whitespace-nowrap">
+                    {band ? formatSalaryBand(band) : '–'}
+                  </td>
+                );
+              })}
+              <td className="px-2 py-3 text-black/60">{path.transferableSkills.join(', ') || '–'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+/** Career paths ranked by fit, viewable as expandable cards or a comparison table. */
+export default function CareerPathList({ paths, refinement }: { paths: CareerPath[]; refinement?: PathRefinement }) {
+  const [view, setView] = useState<'cards' | 'compare'>('cards');
+  const ranked = [...paths].sort((a, b) => b.fitScore - a.fitScore);
+
+  return (
+    <div className="space-y-4">
+      {paths.length > 1 && (
+        <div className="flex justify-end">
+          <div className="flex items-center bg-black/5 p-1 rounded-lg">
+            <button
+              type="button"
+              onClick={() => setView('cards')}
+              className={`px-2.5 py-1 rounded-md text-xs font-medium flex items-center gap-1.5 transition-all ${view === 'cards' ? 'bg-white text-black shadow-sm' : 'text-black/50 hover:text-black'}`}
+            >
+              <LayoutList size={12} /> Details
+            </button>
+            <button
+              type="button"
+              onClick={() => setView('compare')}
+              className={`px-2.5 py-1 rounded-md text-xs font-medium flex items-center gap-1.5 transition-all ${view === 'compare' ? 'bg-white text-black shadow-sm' : 'text-black/50 hover:text-black'}`}
+            >
+              <Table2 size={12} /> Compare
+            </button>
+          </div>
+        </div>
+      )}
+
+      {view === 'compare' ? (
+        <ComparisonTable paths={ranked} />
+      ) : (
+        <ul className="space-y-3">
+          {ranked.map((path, i) => (
+            <PathCard key={path.title || i} path={path} defaultOpen={i === 0} refinement={refinement} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
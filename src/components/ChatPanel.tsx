@@ -0,0 +1,178 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Markdown from 'react-markdown';
+import { Loader2, MessageCircle, RotateCcw, Send, Square } from 'lucide-react';
+import type { CareerRecommendation, ChatMessage, ProfileInputs } from '../types';
+import { askFollowUp } from '../services/geminiService';
+import { describeError } from '../lib/errors';
+
+interface Props {
+  inputs: ProfileInputs;
+  recommendation: CareerRecommendation;
+  messages: ChatMessage[];
+  onChange: (messages: ChatMessage[]) => void;
+  /** Whether the conversation is being kept with a saved history item. */
+  persisted: boolean;
+}
+
+// Tailwind has no typography plugin here, so style the few elements replies use.
+const MARKDOWN_CLASSES =
+  '[&_p]:my-1.5 [&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5 [&_li]:my-0.5 [&_strong]:font-semibold [&_code]:font-mono [&_code]:text-xs [&_code]:bg-black/5 [&_code]:px-1 [&_code]:rounded [&_a]:text-emerald-700 [&_a]:underline';
+
+const starterQuestions = (rec: CareerRecommendation) => {
+  const [first, second] = rec.careerPaths.map(p => p.title);
+  return [
+    first && second && `Why ${first} over ${second}?`,
+    first && `What projects should I build for ${first}?`,
+    rec.skillsToLearn[0] && `How should I start learning ${rec.skillsToLearn[0]}?`
+  ].filter(Boolean) as string[];
+};
+
+/** Multi-turn follow-up questions about a recommendation, grounded on the student's profile. */
+export default function ChatPanel({ inputs, recommendation, messages, onChange, persisted }: Props) {
+  const [draft, setDraft] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [messages.length, loading]);
+
+  const ask = async (question: string) => {
+    if (!question.trim() || loading) return;
+    const pending: ChatMessage[] = [...messages, { role: 'user', content: question.trim() }];
+    const controller = new AbortController();
+    abortRef.current = controller;
+    onChange(pending);
+    setDraft('');
+    setError(null);
+    setLoading(true);
+    try {
+      const reply = await askFollowUp({ inputs, recommendation, messages: pending }, controller.signal);
+      onChange([...pending, reply]);
+    } catch (err) {
+      // Put the question back so it can be edited or resent
+      onChange(messages);
+      setDraft(question);
+      if (!controller.signal.aborted) {
+        setError(describeError(err, 'Could not answer this question. Please try again.'));
+        console.error(err);
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    ask(draft);
+  };
+
+  const clear = () => {
+    if (!confirm('Start a new conversation? The current one will be removed.')) return;
+    abortRef.current?.abort();
+    onChange([]);
+    setError(null);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-sky-50 rounded-xl flex items-center justify-center text-sky-600">
+            <MessageCircle size={20} />
+          </div>
+          <div>
+            <h4 className="font-bold text-lg">Ask a Follow-up</h4>
+            <p className="text-xs text-black/40 font-medium">
+              {persisted ? 'Saved with this roadmap' : 'Save the roadmap to keep this conversation'}
+            </p>
+          </div>
+        </div>
+        {messages.length > 0 && !loading && (
+          <button
+            type="button"
+            onClick={clear}
+            title="New conversation"
+            className="p-2 text-black/30 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-all"
+          >
+            <RotateCcw size={16} />
+          </button>
+        )}
+      </div>
+
+      {messages.length === 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {starterQuestions(recommendation).map(question => (
+            <button
+              key={question}
+              type="button"
+              onClick={() => ask(question)}
+              disabled={loading}
+              className="px-3 py-1.5 border border-black/10 rounded-full text-xs font-medium text-black/60 hover:border-emerald-500 hover:text-emerald-600 transition-all disabled:opacity-50"
+            >
+              {question}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="max-h-[420px] overflow-y-auto space-y-3 pr-1">
+          {messages.map((message, i) =>
+            message.role === 'user' ? (
+              <div key={i} className="flex justify-end">
+                <p className="max-w-[85%] px-4 py-2.5 bg-black text-white rounded-2xl rounded-br-md text-sm whitespace-pre-wrap">
+                  {message.content}
+                </p>
+              </div>
+            ) : (
+              <div key={i} className={`max-w-[90%] px-4 py-2.5 bg-black/[0.03] rounded-2xl rounded-bl-md text-sm text-black/80 leading-relaxed ${MARKDOWN_CLASSES}`}>
+                <Markdown>{message.content}</Markdown>
+              </div>
+            )
+          )}
+          {loading && (
+            <div className="flex items-center gap-2 px-4 py-2.5 text-sm text-black/40">
+              <Loader2 className="animate-spin" size={14} /> Thinking...
+            </div>
+          )}
+          <div ref={endRef} />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 font-medium">{error}</p>}
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="e.g. What projects would help for RF roles?"
+          className="flex-1 px-4 py-2.5 rounded-xl border border-black/10 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all"
+        />
+        {loading ? (
+          <button
+            type="button"
+            onClick={() => abortRef.current?.abort()}
+            title="Stop"
+            className="px-3 border border-black/10 rounded-xl text-black/60 hover:border-red-200 hover:text-red-500 transition-all"
+          >
+            <Square size={16} />
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!draft.trim()}
+            title="Send"
+            className="px-3 bg-black text-white rounded-xl hover:bg-emerald-600 transition-colors disabled:opacity-50 disabled:hover:bg-black"
+          >
+            <Send size={16} />
+          </button>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Braces, ChevronDown, Download, FileDown, FileText } from 'lucide-react';
+import type { HistoryItem } from '../types';
+import { downloadFile, fileName, printReport, toExportJson, toMarkdown } from '../lib/export';
+
+interface Props {
+  /** Called when an option is picked, so unsaved results can be wrapped at that moment. */
+  getItem: () => HistoryItem;
+  /** Compact icon trigger for history cards; the results panel uses a labelled button. */
+  compact?: boolean;
+  className?: string;
+}
+
+/** Dropdown offering PDF (via print), Markdown and JSON exports of one roadmap. */
+export default function ExportMenu({ getItem, compact, className = '' }: Props) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => {
+      if (!ref.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const run = (action: (item: HistoryItem) => void | Promise<void>) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setOpen(false);
+    Promise.resolve(action(getItem())).catch(err => console.error('Export failed', err));
+  };
+
+  const options = [
+    { label: 'PDF report', icon: FileDown, action: (item: HistoryItem) => printReport(item) },
+    {
+      label: 'Markdown',
+      icon: FileText,
+      action: (item: HistoryItem) => downloadFile(fileName(item.title, 'md'), toMarkdown(item), 'text/markdown')
+    },
+    {
+      label: 'JSON',
+      icon: Braces,
+      action: (item: HistoryItem) => downloadFile(fileName(item.title, 'json'), toExportJson([item]), 'application/json')
+    }
+  ];
+
+  return (
+    <div ref={ref} className={`relative ${className}`} onClick={(e) => e.stopPropagation()}>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        title="Export"
+        className={
+          compact
+            ? 'p-2 text-black/20 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-all'
+            : 'w-full py-4 border border-black/10 rounded-2xl font-semibold text-black/70 flex items-center justify-center gap-2 hover:border-emerald-500 hover:text-emerald-600 transition-all'
+        }
+      >
+        <Download size={compact ? 16 : 18} />
+        {!compact && <>Export <ChevronDown size={16} className={`transition-transform ${open ? 'rotate-180' : ''}`} /></>}
+      </button>
+      {open && (
+        <ul className={`absolute z-30 mt-1 min-w-[180px] bg-white border border-black/10 rounded-xl shadow-lg overflow-hidden ${compact ? 'right-0' : 'left-0 right-0'}`}>
+          {options.map(({ label, icon: Icon, action }) => (
+            <li key={label}>
+              <button
+                type="button"
+                onClick={run(action)}
+                className="w-full text-left px-4 py-2.5 text-sm flex items-center gap-2 hover:bg-emerald-50 hover:text-emerald-700 transition-all"
+              >
+                <Icon size={14} /> {label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { ArrowDown, ArrowUp, Briefcase, GitCompare, Lightbulb, TrendingUp, X } from 'lucide-react';
+import type { HistoryItem } from '../types';
+import { ComparedEntry, ComparisonStep, compareHistoryItems, isShared, isUnique } from '../lib/comparison';
+import { formatSkill, parseInterests, parseSkills } from '../lib/skills';
+
+interface Props {
+  items: HistoryItem[];
+  /** The full history list, newest first, used to order the compared items. */
+  history: HistoryItem[];
+  onClose: () => void;
+}
+
+const Badge = ({ entry }: { entry: ComparedEntry }) =>
+  isShared(entry) ? (
+    <span className="px-2 py-0.5 rounded-full bg-emerald-50 text-emerald-700 text-[10px] font-bold uppercase tracking-wider">Shared</span>
+  ) : isUnique(entry) ? (
+    <span className="px-2 py-0.5 rounded-full bg-amber-50 text-amber-700 text-[10px] font-bold uppercase tracking-wider">Unique</span>
+  ) : null;
+
+const ChangeChips = ({ label, items, className }: { label: string; items: string[]; className: string }) =>
+  items.length > 0 ? (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <span className="text-[10px] font-bold uppercase tracking-wider text-black/40 mr-1">{label}</span>
+      {items.map((item, i) => (
+        <span key={i} className={`px-2 py-0.5 rounded-full text-xs font-medium ${className}`}>{item}</span>
+      ))}
+    </div>
+  ) : null;
+
+const hasChanges = (step: ComparisonStep) =>
+  step.educationChanged ||
+  [step.skillsGained, step.skillsDropped, step.levelChanges, step.interestsGained, step.interestsDropped, step.pathsAdded, step.pathsDropped, step.fitChanges]
+    .some(list => list.length > 0);
+
+/** Side-by-side view of two or more saved roadmaps, oldest first. */
+export default function HistoryComparison({ items, history, onClose }: Props) {
+  const comparison = compareHistoryItems(items, history);
+  const columns = `minmax(140px, 1fr) repeat(${comparison.items.length}, minmax(120px, 1fr))`;
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="space-y-6">
+      <div className="flex justify-between items-end">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight mb-2 flex items-center gap-3">
+            <GitCompare size={28} className="text-emerald-600" /> Comparing {comparison.items.length} Roadmaps
+          </h2>
+          <p className="text-black/60">Oldest on the left. Shared paths and skills appear in every roadmap; unique ones in only one.</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-all" title="Close comparison">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="bg-white rounded-3xl border border-black/5 shadow-sm overflow-x-auto">
+        <div className="min-w-fit">
+          {/* Column headers */}
+          <div className="grid gap-4 px-6 py-4 border-b border-black/5 bg-black/[0.02]" style={{ gridTemplateColumns: columns }}>
+            <span />
+            {comparison.items.map(item => (
+              <div key={item.id}>
+                <p className="font-bold text-sm truncate">{item.title}</p>
+                <p className="text-xs text-black/40">{item.date}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Inputs */}
+          <div className="px-6 pt-5 pb-2 text-xs font-bold uppercase tracking-widest text-black/40">Profile</div>
+          {(['education', 'skills', 'interests'] as const).map(field => (
+            <div key={field} className="grid gap-4 px-6 py-3 border-b border-black/5 text-sm" style={{ gridTemplateColumns: columns }}>
+              <span className="font-semibold text-black/60 capitalize">{field}</span>
+              {comparison.items.map((item, i) => {
+                if (field === 'education') {
+                  const changed = i > 0 && comparison.steps[i - 1].educationChanged;
+                  return <span key={item.id} className={changed ? 'text-emerald-700 font-medium' : 'text-black/70'}>{item.inputs.education}</span>;
+                }
+                const values = field === 'skills'
+                  ? parseSkills(item.inputs.skills).map(skill => ({ name: skill.name, label: formatSkill(skill) }))
+                  : parseInterests(item.inputs.interests).map(interest => ({ name: interest, label: interest }));
+                const step = comparison.steps[i - 1];
+                const gained = step ? (field === 'skills' ? step.skillsGained : step.interestsGained) : [];
+                return (
+                  <div key={item.id} className="flex flex-wrap gap-1">
+                    {values.map(value => (
+                      <span
+                        key={value.name}
+                        className={`px-2 py-0.5 rounded-full text-xs ${gained.includes(value.name) ? 'bg-emerald-100 text-emerald-800 font-semibold' : 'bg-black/5 text-black/60'}`}
+                      >
+                        {value.label}
+                      </span>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+
+          {/* Career paths */}
+          <div className="px-6 pt-5 pb-2 text-xs font-bold uppercase tracking-widest text-black/40 flex items-center gap-2">
+            <Briefcase size={12} /> Career Paths
+          </div>
+          {comparison.careerPaths.map(entry => (
+            <div key={entry.label} className="grid gap-4 px-6 py-3 border-b border-black/5 text-sm items-center" style={{ gridTemplateColumns: columns }}>
+              <span className="font-semibold text-black/80 flex flex-wrap items-center gap-2">
+                {entry.label} <Badge entry={entry} />
+              </span>
+              {entry.fitScores!.map((score, i) => (
+                <span key={i} className={score === null ? 'text-black/20' : 'font-bold text-black/60'}>
+                  {score === null ? '—' : score > 0 ? `${score}% fit` : '✓'}
+                </span>
+              ))}
+            </div>
+          ))}
+
+          {/* Skills to learn */}
+          <div className="px-6 pt-5 pb-2 text-xs font-bold uppercase tracking-widest text-black/40 flex items-center gap-2">
+            <Lightbulb size={12} /> Skills to Learn
+          </div>
+          <div className="grid gap-4 px-6 py-3 pb-6 text-sm" style={{ gridTemplateColumns: columns }}>
+            <div className="flex flex-wrap gap-1 content-start">
+              {comparison.skillsToLearn.filter(isShared).map(entry => (
+                <span key={entry.label} className="px-2 py-0.5 rounded-full bg-emerald-50 text-emerald-700 text-xs font-medium">{entry.label}</span>
+              ))}
+              {!comparison.skillsToLearn.some(isShared) && <span className="text-xs text-black/40">No skills shared by all</span>}
+            </div>
+            {comparison.items.map((item, i) => (
+              <div key={item.id} className="flex flex-wrap gap-1 content-start">
+                {comparison.skillsToLearn
+                  .filter(entry => entry.presentIn[i] && !isShared(entry))
+                  .map(entry => (
+                    <span
+                      key={entry.label}
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${isUnique(entry) ? 'bg-amber-50 text-amber-700' : 'bg-black/5 text-black/60'}`}
+                    >
+                      {entry.label}
+                    </span>
+                  ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* What changed over time */}
+      <div className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm">
+        <h3 className="font-bold text-lg mb-4 flex items-center gap-2"><TrendingUp size={18} className="text-emerald-600" /> What Changed</h3>
+        <ol className="space-y-5">
+          {comparison.steps.map(step => (
+            <li key={step.to.id} className="border-l-2 border-emerald-100 pl-4 space-y-2">
+              <p className="text-sm font-semibold">
+                {step.from.title} <span className="text-black/30">→</span> {step.to.title}
+                <span className="ml-2 text-xs font-normal text-black/40">{step.from.date} → {step.to.date}</span>
+              </p>
+              {!hasChanges(step) && <p className="text-xs text-black/40">No changes to the profile or recommended paths.</p>}
+              {step.educationChanged && <p className="text-xs text-black/60">Education: {step.to.inputs.education}</p>}
+              <ChangeChips label="Skills gained" items={step.skillsGained} className="bg-emerald-50 text-emerald-700" />
+              <ChangeChips label="Skills dropped" items={step.skillsDropped} className="bg-red-50 text-red-600 line-through" />
+              <ChangeChips
+                label="Levels"
+                items={step.levelChanges.map(c => `${c.skill}: ${c.from ?? 'unrated'} → ${c.to ?? 'unrated'}`)}
+                className="bg-blue-50 text-blue-700"
+              />
+              <ChangeChips label="New interests" items={step.interestsGained} className="bg-emerald-50 text-emerald-700" />
+              <ChangeChips label="Interests dropped" items={step.interestsDropped} className="bg-black/5 text-black/50 line-through" />
+              <ChangeChips label="New paths" items={step.pathsAdded} className="bg-blue-50 text-blue-700" />
+              <ChangeChips label="Paths dropped" items={step.pathsDropped} className="bg-black/5 text-black/50 line-through" />
+              {step.fitChanges.length > 0 && (
+                <div className="flex flex-wrap gap-3 text-xs">
+                  {step.fitChanges.map(change => (
+                    <span key={change.path} className={`flex items-center gap-1 font-medium ${change.delta > 0 ? 'text-emerald-600' : 'text-red-500'}`}>
+                      {change.delta > 0 ? <ArrowUp size={12} /> : <ArrowDown size={12} />}
+                      {change.path} {change.delta > 0 ? '+' : ''}{change.delta}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      </div>
+    </motion.div>
+  );
+}
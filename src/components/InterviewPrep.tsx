@@ -0,0 +1,344 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'motion/react';
+import { ArrowLeft, Check, ChevronRight, Loader2, Mic, RotateCcw, Send, Trash2, X } from 'lucide-react';
+import type { InterviewQuestion, ProficiencyLevel, ProfileInputs } from '../types';
+import {
+  InterviewSession,
+  deleteInterviewSession,
+  listInterviewSessions,
+  startInterview,
+  submitInterviewAnswer
+} from '../services/interviewService';
+import { PASSING_SCORE, averageScore, defaultInterviewLevel, gradedQuestions, weakTopics } from '../lib/interview';
+import { PROFICIENCY_LEVELS } from '../lib/skills';
+import { describeError } from '../lib/errors';
+
+interface Props {
+  role: string;
+  inputs: ProfileInputs;
+  onClose: () => void;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const scoreColor = (score: number) =>
+  score >= 8 ? 'bg-emerald-50 text-emerald-700' : score >= PASSING_SCORE ? 'bg-amber-50 text-amber-700' : 'bg-red-50 text-red-600';
+
+const FeedbackList = ({ title, items, className }: { title: string; items: string[]; className: string }) =>
+  items.length > 0 ? (
+    <div>
+      <p className={`text-[10px] font-bold uppercase tracking-wider mb-1 ${className}`}>{title}</p>
+      <ul className="list-disc pl-5 space-y-0.5 text-sm text-black/70">
+        {items.map((item, i) => <li key={i}>{item}</li>)}
+      </ul>
+    </div>
+  ) : null;
+
+/** Mock technical interview for one internship role, graded answer by answer and kept for retrying weak topics. */
+export default function InterviewPrep({ role, inputs, onClose }: Props) {
+  const [sessions, setSessions] = useState<InterviewSession[]>([]);
+  const [session, setSession] = useState<InterviewSession | null>(null);
+  const [level, setLevel] = useState<ProficiencyLevel>(() => defaultInterviewLevel(inputs.skills));
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [editing, setEditing] = useState<string | null>(null);
+  const [loadingSessions, setLoadingSessions] = useState(true);
+  const [starting, setStarting] = useState(false);
+  const [gradingId, setGradingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    listInterviewSessions(role)
+      .then(setSessions)
+      .catch(err => setError(describeError(err, 'Could not load past interviews.')))
+      .finally(() => setLoadingSessions(false));
+  }, [role]);
+
+  const track = () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return controller;
+  };
+
+  const remember = (updated: InterviewSession) => {
+    setSession(updated);
+    setSessions(prev => [updated, ...prev.filter(s => s.id !== updated.id)]);
+  };
+
+  const open = (selected: InterviewSession) => {
+    setSession(selected);
+    setLevel(selected.level);
+    setDrafts({});
+    setEditing(null);
+    setError(null);
+  };
+
+  const start = async (focusTopics: string[] = []) => {
+    const controller = track();
+    setStarting(true);
+    setError(null);
+    try {
+      const created = await startInterview({ role, level, inputs, focusTopics }, controller.signal);
+      remember(created);
+      setDrafts({});
+      setEditing(null);
+    } catch (err) {
+      if (!controller.signal.aborted) setError(describeError(err, 'Could not prepare interview questions. Please try again.'));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const submit = async (question: InterviewQuestion) => {
+    if (!session) return;
+    const answer = (drafts[question.id] ?? '').trim();
+    if (!answer) return;
+    const controller = track();
+    setGradingId(question.id);
+    setError(null);
+    try {
+      remember(await submitInterviewAnswer(session.id, question.id, answer, controller.signal));
+      setEditing(id => (id === question.id ? null : id));
+    } catch (err) {
+      if (!controller.signal.aborted) setError(describeError(err, 'Could not grade this answer. Please try again.'));
+    } finally {
+      setGradingId(null);
+    }
+  };
+
+  const remove = async (target: InterviewSession) => {
+    if (!confirm('Delete this interview and its feedback?')) return;
+    try {
+      await deleteInterviewSession(target.id);
+      setSessions(prev => prev.filter(s => s.id !== target.id));
+    } catch (err) {
+      setError(describeError(err, 'Could not delete this interview.'));
+    }
+  };
+
+  const reanswer = (question: InterviewQuestion) => {
+    setDrafts(prev => ({ ...prev, [question.id]: question.answer ?? '' }));
+    setEditing(question.id);
+  };
+
+  const average = session && averageScore(session);
+  const weak = session ? weakTopics(session) : [];
+  const allGraded = !!session && gradedQuestions(session).length === session.questions.length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative bg-white w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-3xl shadow-2xl p-8"
+      >
+        <div className="flex justify-between items-start gap-4 mb-6">
+          <div className="flex items-center gap-3">
+            {session && (
+              <button onClick={() => setSession(null)} title="All interviews" className="p-2 hover:bg-black/5 rounded-full transition-all">
+                <ArrowLeft size={18} />
+              </button>
+            )}
+            <div>
+              <h3 className="text-xl font-bold flex items-center gap-2"><Mic size={20} className="text-purple-600" /> Interview Prep</h3>
+              <p className="text-sm text-black/50 font-medium">{role}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-all">
+            <X size={20} />
+          </button>
+        </div>
+
+        {error && <p className="mb-4 text-sm text-red-600 font-medium">{error}</p>}
+
+        {!session ? (
+          <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+              <div className="flex-1 space-y-1">
+                <label className="text-xs font-bold uppercase tracking-wider text-black/40">Your level</label>
+                <div className="flex items-center bg-black/5 p-1 rounded-xl">
+                  {PROFICIENCY_LEVELS.map(option => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => setLevel(option)}
+                      className={`flex-1 px-2 py-1 rounded-lg text-xs font-medium capitalize transition-all ${level === option ? 'bg-white text-black shadow-sm' : 'text-black/50 hover:text-black'}`}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => start()}
+                disabled={starting}
+                className="px-5 py-2.5 bg-purple-600 text-white rounded-xl text-sm font-bold flex items-center justify-center gap-2 hover:bg-purple-700 transition-all disabled:opacity-50"
+              >
+                {starting ? <Loader2 className="animate-spin" size={16} /> : <Mic size={16} />} Start Mock Interview
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-bold uppercase tracking-wider text-black/40">Past interviews</p>
+              {loadingSessions ? (
+                <Loader2 className="animate-spin text-black/30" size={18} />
+              ) : sessions.length === 0 ? (
+                <p className="text-sm text-black/40">No interviews for this role yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {sessions.map(past => {
+                    const score = averageScore(past);
+                    return (
+                      <li key={past.id} className="p-3 bg-black/[0.03] rounded-xl flex items-center gap-3 group">
+                        <button type="button" onClick={() => open(past)} className="flex-1 min-w-0 text-left">
+                          <p className="text-sm font-semibold text-black/80 capitalize">
+                            {past.level}{past.focusTopics.length > 0 && <span className="normal-case font-normal text-black/50"> · retry: {past.focusTopics.join(', ')}</span>}
+                          </p>
+                          <p className="text-[11px] text-black/40">
+                            {formatDate(past.updatedAt)} · {gradedQuestions(past).length}/{past.questions.length} answered
+                          </p>
+                        </button>
+                        {score !== null && (
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${scoreColor(score)}`}>{score}/10</span>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => remove(past)}
+                          title="Delete"
+                          className="p-2 text-black/20 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all opacity-0 group-hover:opacity-100"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                        <ChevronRight size={16} className="text-black/20" />
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-xs text-black/40 font-medium capitalize">
+              {session.level} level{session.focusTopics.length > 0 && <span className="normal-case"> · retrying {session.focusTopics.join(', ')}</span>}
+            </p>
+
+            {session.questions.map((question, i) => {
+              const graded = question.feedback && editing !== question.id;
+              const grading = gradingId === question.id;
+              return (
+                <div key={question.id} className="p-5 border border-black/5 rounded-2xl space-y-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <span className="text-[10px] font-bold uppercase tracking-wider text-purple-600">{question.topic}</span>
+                      <p className="font-medium text-black/80">{i + 1}. {question.question}</p>
+                    </div>
+                    {question.feedback && (
+                      <span className={`shrink-0 px-2.5 py-1 rounded-full text-sm font-bold ${scoreColor(question.feedback.score)}`}>
+                        {question.feedback.score}/10
+                      </span>
+                    )}
+                  </div>
+
+                  {graded && question.feedback ? (
+                    <div className="space-y-3">
+                      <p className="p-3 bg-black/[0.03] rounded-xl text-sm text-black/60 whitespace-pre-wrap">{question.answer}</p>
+                      <FeedbackList title="What you got right" items={question.feedback.strengths} className="text-emerald-600" />
+                      <FeedbackList title="To improve" items={question.feedback.improvements} className="text-amber-600" />
+                      <details className="text-sm">
+                        <summary className="cursor-pointer text-xs font-bold uppercase tracking-wider text-black/40">Model answer</summary>
+                        <p className="mt-2 text-black/70 whitespace-pre-wrap">{question.feedback.modelAnswer}</p>
+                      </details>
+                      <button
+                        type="button"
+                        onClick={() => reanswer(question)}
+                        disabled={!!gradingId}
+                        className="text-xs font-semibold text-black/50 hover:text-purple-600 flex items-center gap-1 disabled:opacity-50"
+                      >
+                        <RotateCcw size={12} /> Answer again
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <textarea
+                        value={drafts[question.id] ?? ''}
+                        onChange={(e) => setDrafts(prev => ({ ...prev, [question.id]: e.target.value }))}
+                        placeholder="Type your answer as you would explain it to the interviewer..."
+                        rows={4}
+                        disabled={grading}
+                        className="w-full px-4 py-3 rounded-xl border border-black/10 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500/20 focus:border-purple-500 transition-all resize-y"
+                      />
+                      <div className="flex justify-end gap-2">
+                        {editing === question.id && (
+                          <button
+                            type="button"
+                            onClick={() => setEditing(null)}
+                            className="px-3 py-2 text-xs font-semibold text-black/50 hover:text-black"
+                          >
+                            Cancel
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => submit(question)}
+                          disabled={!(drafts[question.id] ?? '').trim() || !!gradingId}
+                          className="px-4 py-2 bg-black text-white rounded-xl text-xs font-semibold flex items-center gap-2 hover:bg-purple-600 transition-colors disabled:opacity-50 disabled:hover:bg-black"
+                        >
+                          {grading ? <Loader2 className="animate-spin" size={14} /> : <Send size={14} />} Get Feedback
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            {average !== null && (
+              <div className="p-5 bg-purple-50 rounded-2xl space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className="font-bold text-purple-900">
+                    {allGraded ? 'Interview complete' : 'So far'}: {average}/10 average
+                  </p>
+                  {weak.length === 0 && allGraded && (
+                    <span className="flex items-center gap-1 text-sm font-semibold text-emerald-700"><Check size={16} /> No weak areas</span>
+                  )}
+                </div>
+                {weak.length > 0 && (
+                  <>
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      <span className="text-[10px] font-bold uppercase tracking-wider text-purple-900/50 mr-1">Weak areas</span>
+                      {weak.map(topic => (
+                        <span key={topic} className="px-2 py-0.5 bg-white text-red-600 rounded-full text-xs font-medium">{topic}</span>
+                      ))}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => start(weak)}
+                      disabled={starting || !!gradingId}
+                      className="px-4 py-2 bg-purple-600 text-white rounded-xl text-sm font-bold flex items-center gap-2 hover:bg-purple-700 transition-all disabled:opacity-50"
+                    >
+                      {starting ? <Loader2 className="animate-spin" size={16} /> : <RotateCcw size={16} />} Retry Weak Areas
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
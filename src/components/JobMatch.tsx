@@ -0,0 +1,236 @@
+import React, { useRef, useState } from 'react';
+import { motion } from 'motion/react';
+import { CheckCircle2, CircleAlert, CircleDashed, ClipboardList, Gauge, Lightbulb, Loader2, Square, Target, Upload } from 'lucide-react';
+import type { CareerRecommendation, ProfileInputs, SkillGap, SkillGapAnalysis } from '../types';
+import { analyzeSkillGap } from '../services/geminiService';
+import { ACCEPTED_EXTENSIONS, extractText, validateResumeFile } from '../lib/documentIngestion';
+import { describeError } from '../lib/errors';
+
+interface Props {
+  inputs: ProfileInputs;
+  recommendation: CareerRecommendation | null;
+  onEditProfile: () => void;
+}
+
+const readinessColor = (score: number) =>
+  score >= 75 ? 'text-emerald-600' : score >= 50 ? 'text-amber-600' : 'text-red-600';
+
+const GapList = ({ title, gaps, tone }: { title: string; gaps: SkillGap[]; tone: 'red' | 'amber' }) => (
+  <div className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm">
+    <h4 className="font-bold text-lg mb-4 flex items-center gap-2">
+      {tone === 'red' ? <CircleAlert size={18} className="text-red-500" /> : <CircleDashed size={18} className="text-amber-500" />}
+      {title}
+      <span className="text-xs font-semibold text-black/40">({gaps.length})</span>
+    </h4>
+    {gaps.length === 0 ? (
+      <p className="text-sm text-black/40">Nothing missing here.</p>
+    ) : (
+      <ul className="space-y-4">
+        {gaps.map((gap, i) => (
+          <li key={i} className="space-y-1.5">
+            <p className={`font-semibold text-sm ${tone === 'red' ? 'text-red-700' : 'text-amber-700'}`}>{gap.skill}</p>
+            <ul className="space-y-1">
+              {gap.actions.map((action, j) => (
+                <li key={j} className="text-sm text-black/60 flex items-start gap-2">
+                  <span className="mt-2 w-1 h-1 rounded-full bg-black/30 shrink-0" />
+                  {action}
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const SkillGapView = ({ analysis }: { analysis: SkillGapAnalysis }) => (
+  <div className="space-y-6">
+    <div className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-xs font-bold uppercase tracking-widest text-black/40 mb-1">Readiness for</p>
+          <h3 className="text-xl font-bold">{analysis.jobTitle}</h3>
+        </div>
+        <div className={`text-right ${readinessColor(analysis.readinessScore)}`}>
+          <p className="text-4xl font-bold leading-none">{analysis.readinessScore}</p>
+          <p className="text-[10px] font-bold uppercase tracking-wider flex items-center gap-1 justify-end"><Gauge size={10} /> / 100</p>
+        </div>
+      </div>
+      <p className="mt-4 text-sm text-black/60 leading-relaxed">{analysis.summary}</p>
+      {analysis.matchedSkills.length > 0 && (
+        <div className="mt-4 flex flex-wrap gap-1.5">
+          {analysis.matchedSkills.map((skill, i) => (
+            <span key={i} className="px-2.5 py-1 bg-emerald-50 text-emerald-700 rounded-full text-xs font-medium flex items-center gap-1">
+              <CheckCircle2 size={12} /> {skill}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+    <GapList title="Missing must-haves" gaps={analysis.missingMustHaves} tone="red" />
+    <GapList title="Missing nice-to-haves" gaps={analysis.missingNiceToHaves} tone="amber" />
+  </div>
+);
+
+/** The current recommendations, with skills that also close a gap in this job highlighted. */
+const RecommendationSideView = ({ recommendation, analysis }: { recommendation: CareerRecommendation; analysis: SkillGapAnalysis }) => {
+  const gapSkills = [...analysis.missingMustHaves, ...analysis.missingNiceToHaves].map(g => g.skill.toLowerCase());
+  const closesGap = (skill: string) =>
+    gapSkills.some(gap => gap.includes(skill.toLowerCase()) || skill.toLowerCase().includes(gap));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm">
+        <h4 className="font-bold text-lg mb-4 flex items-center gap-2"><Target size={18} className="text-blue-600" /> Your Career Paths</h4>
+        <ul className="space-y-2">
+          {recommendation.careerPaths.map((path, i) => (
+            <li key={i} className="flex items-center justify-between text-sm">
+              <span className="font-medium text-black/70">{path.title}</span>
+              {path.fitScore > 0 && <span className="text-xs font-bold text-black/40">{path.fitScore}% fit</span>}
+            </li>
+          ))}
+        </ul>
+      </div>
+      <div className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm">
+        <h4 className="font-bold text-lg mb-1 flex items-center gap-2"><Lightbulb size={18} className="text-amber-600" /> Skills to Learn Next</h4>
+        <p className="text-xs text-black/40 mb-4">Highlighted skills also close a gap for this job.</p>
+        <div className="flex flex-wrap gap-2">
+          {recommendation.skillsToLearn.map((skill, i) => (
+            <span
+              key={i}
+              className={`px-3 py-1.5 rounded-full text-sm font-semibold border ${closesGap(skill) ? 'bg-red-50 text-red-700 border-red-200' : 'bg-amber-50 text-amber-700 border-amber-100'}`}
+            >
+              {skill}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/** Compares the student's profile with a pasted or uploaded job description. */
+export default function JobMatch({ inputs, recommendation, onEditProfile }: Props) {
+  const [jobDescription, setJobDescription] = useState('');
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [analysis, setAnalysis] = useState<SkillGapAnalysis | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const hasProfile = Boolean(inputs.education && inputs.skills);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setIsExtracting(true);
+    try {
+      setJobDescription(await extractText(file, validateResumeFile(file)));
+    } catch (err) {
+      setError(describeError(err, 'Could not read this file.'));
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const handleAnalyze = async () => {
+    if (!jobDescription.trim() || !hasProfile) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLoading(true);
+    setError(null);
+    try {
+      setAnalysis(await analyzeSkillGap({ jobDescription, inputs }, controller.signal));
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(describeError(err, 'Failed to analyze this job description. Please try again.'));
+      console.error(err);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  const cancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setLoading(false);
+  };
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h2 className="text-3xl font-bold tracking-tight mb-2">Am I ready for this job?</h2>
+        <p className="text-black/60">Paste or upload an internship or job posting to see how your profile measures up.</p>
+      </div>
+
+      {!hasProfile && (
+        <div className="flex items-center justify-between gap-4 p-4 bg-amber-50 border border-amber-100 rounded-2xl text-sm text-amber-800">
+          <span>Fill in your education and skills in the Navigator first so we have something to compare.</span>
+          <button onClick={onEditProfile} className="shrink-0 font-semibold underline">Go to Navigator</button>
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm space-y-4">
+        <div className="flex items-center justify-between">
+          <label className="text-xs font-semibold uppercase tracking-wider text-black/50 flex items-center gap-2">
+            <ClipboardList size={14} /> Job Description
+          </label>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isExtracting}
+            className="text-xs font-semibold text-emerald-600 flex items-center gap-1.5 hover:underline disabled:opacity-50"
+          >
+            {isExtracting ? <Loader2 className="animate-spin" size={12} /> : <Upload size={12} />} Upload PDF/DOCX/TXT
+          </button>
+          <input type="file" ref={fileInputRef} onChange={handleFile} accept={ACCEPTED_EXTENSIONS} className="hidden" />
+        </div>
+        <textarea
+          placeholder="Paste the job posting here..."
+          className="w-full px-4 py-3 rounded-xl border border-black/10 bg-white focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all min-h-[160px] resize-y text-sm"
+          value={jobDescription}
+          onChange={(e) => setJobDescription(e.target.value)}
+        />
+        <div className="flex gap-3">
+          <button
+            onClick={handleAnalyze}
+            disabled={loading || !jobDescription.trim() || !hasProfile}
+            className="flex-1 bg-black text-white py-3 rounded-xl font-semibold flex items-center justify-center gap-2 hover:bg-emerald-600 transition-colors disabled:opacity-50 disabled:hover:bg-black"
+          >
+            {loading ? <Loader2 className="animate-spin" size={18} /> : <><Gauge size={18} /> Check My Readiness</>}
+          </button>
+          {loading && (
+            <button
+              onClick={cancel}
+              className="px-4 py-3 border border-black/10 rounded-xl text-sm font-semibold text-black/60 hover:border-red-200 hover:text-red-500 transition-all flex items-center gap-2"
+            >
+              <Square size={14} /> Cancel
+            </button>
+          )}
+        </div>
+        {error && <p className="text-sm text-red-600 font-medium">{error}</p>}
+      </div>
+
+      {analysis && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className={`grid gap-6 items-start ${recommendation ? 'lg:grid-cols-2' : ''}`}
+        >
+          <SkillGapView analysis={analysis} />
+          {recommendation && <RecommendationSideView recommendation={recommendation} analysis={analysis} />}
+        </motion.div>
+      )}
+    </div>
+  );
+}
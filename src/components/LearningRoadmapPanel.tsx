@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarRange, Clock, FlaskConical, Link2, Loader2, Route, Save } from 'lucide-react';
+import type { CareerPath, LearningRoadmap, RoadmapGranularity } from '../types';
+
+interface Props {
+  careerPaths: CareerPath[];
+  roadmap: LearningRoadmap | null;
+  loading: boolean;
+  error: string | null;
+  onGenerate: (careerPath: string, granularity: RoadmapGranularity) => void;
+  /** Shown when the roadmap can be attached to an already saved history item. */
+  onSave?: () => void;
+  saved?: boolean;
+}
+
+export const RoadmapTimeline = ({ roadmap }: { roadmap: LearningRoadmap }) => {
+  const titles = new Map(roadmap.milestones.map(m => [m.id, m.title]));
+
+  return (
+    <ol className="relative border-l-2 border-emerald-100 ml-3 space-y-6">
+      {roadmap.milestones.map((milestone, i) => (
+        <li key={milestone.id} className="pl-6 relative">
+          <span className="absolute -left-[13px] top-0 w-6 h-6 rounded-full bg-emerald-600 text-white text-[10px] font-bold flex items-center justify-center">
+            {i + 1}
+          </span>
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <h5 className="font-semibold text-black/80">{milestone.title}</h5>
+              <span className="text-[10px] font-bold uppercase tracking-wider text-emerald-700 bg-emerald-50 px-2 py-0.5 rounded-full">
+                {milestone.period}
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {milestone.skills.map((skill, j) => (
+                <span key={j} className="px-2.5 py-1 bg-amber-50 text-amber-700 rounded-full text-xs font-medium">{skill}</span>
+              ))}
+            </div>
+            <div className="p-3 bg-black/[0.03] rounded-xl space-y-1">
+              <p className="text-xs font-semibold text-black/70 flex items-center gap-1.5">
+                <FlaskConical size={12} /> {milestone.project.title}
+              </p>
+              <p className="text-xs text-black/50 leading-relaxed">{milestone.project.description}</p>
+            </div>
+            <div className="flex flex-wrap gap-4 text-[11px] text-black/40 font-medium">
+              <span className="flex items-center gap-1"><Clock size={11} /> ~{milestone.estimatedHours}h</span>
+              {milestone.prerequisites.length > 0 && (
+                <span className="flex items-center gap-1">
+                  <Link2 size={11} /> After {milestone.prerequisites.map(p => titles.get(p) ?? p).join(', ')}
+                </span>
+              )}
+            </div>
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+/** Picks a career path and turns it into a time-phased learning plan. */
+export default function LearningRoadmapPanel({ careerPaths, roadmap, loading, error, onGenerate, onSave, saved }: Props) {
+  const [careerPath, setCareerPath] = useState(roadmap?.careerPath ?? careerPaths[0]?.title ?? '');
+  const [granularity, setGranularity] = useState<RoadmapGranularity>(roadmap?.granularity ?? 'month');
+
+  useEffect(() => {
+    if (roadmap) {
+      setCareerPath(roadmap.careerPath);
+      setGranularity(roadmap.granularity);
+    } else if (!careerPaths.some(p => p.title === careerPath)) {
+      setCareerPath(careerPaths[0]?.title ?? '');
+    }
+  }, [roadmap, careerPaths]);
+
+  return (
+    <div className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm space-y-5">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 bg-emerald-50 rounded-xl flex items-center justify-center text-emerald-600">
+          <Route size={20} />
+        </div>
+        <div>
+          <h4 className="font-bold text-lg">Learning Roadmap</h4>
+          {roadmap && (
+            <p className="text-xs text-black/40 font-medium">
+              {roadmap.milestones.length} milestones · ~{roadmap.totalHours} hours
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <select
+          value={careerPath}
+          onChange={(e) => setCareerPath(e.target.value)}
+          className="flex-1 px-3 py-2 rounded-xl border border-black/10 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500"
+        >
+          {careerPaths.map(path => (
+            <option key={path.title} value={path.title}>{path.title}</option>
+          ))}
+        </select>
+        <div className="flex items-center bg-black/5 p-1 rounded-xl">
+          {(['week', 'month'] as const).map(g => (
+            <button
+              key={g}
+              type="button"
+              onClick={() => setGranularity(g)}
+              className={`px-3 py-1 rounded-lg text-xs font-medium transition-all ${granularity === g ? 'bg-white text-black shadow-sm' : 'text-black/50 hover:text-black'}`}
+            >
+              {g === 'week' ? 'Weekly' : 'Monthly'}
+            </button>
+          ))}
+        </div>
+        <button
+          type="button"
+          disabled={loading || !careerPath}
+          onClick={() => onGenerate(careerPath, granularity)}
+          className="px-4 py-2 bg-black text-white rounded-xl text-sm font-semibold flex items-center justify-center gap-2 hover:bg-emerald-600 transition-colors disabled:opacity-50"
+        >
+          {loading ? <Loader2 className="animate-spin" size={16} /> : <CalendarRange size={16} />}
+          {roadmap ? 'Rebuild' : 'Build Plan'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 font-medium">{error}</p>}
+
+      {roadmap && <RoadmapTimeline roadmap={roadmap} />}
+
+      {roadmap && onSave && (
+        <button
+          type="button"
+          onClick={onSave}
+          disabled={saved}
+          className="w-full py-3 border border-emerald-200 text-emerald-700 rounded-xl text-sm font-semibold flex items-center justify-center gap-2 hover:bg-emerald-50 transition-all disabled:opacity-50"
+        >
+          <Save size={14} /> {saved ? 'Saved with this roadmap' : 'Save plan to history'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,391 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import {
+  ArrowRight,
+  Briefcase,
+  Check,
+  GraduationCap,
+  Heart,
+  KeyRound,
+  Loader2,
+  LogOut,
+  Save,
+  School,
+  Trash2,
+  UserRound,
+  Wrench
+} from 'lucide-react';
+import type { ProfileInputs, User } from '../types';
+import { changePassword, deleteAccount, updateAccount } from '../services/authService';
+import { describeError } from '../lib/errors';
+import TagInput from './TagInput';
+
+interface Props {
+  user: User;
+  /** What is in the Navigator form right now. */
+  currentInputs: ProfileInputs;
+  savedRoadmaps: number;
+  onUpdated: (user: User) => void;
+  /** Fills the Navigator form with the saved profile. */
+  onUseProfile: (profile: ProfileInputs) => void;
+  onSignOut: () => void;
+  onDeleted: () => void;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+const YEARS = [1, 2, 3, 4, 5, 6];
+
+const inputClass =
+  'w-full px-4 py-3 rounded-xl border border-black/10 bg-white focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all';
+
+const EMPTY_PROFILE: ProfileInputs = { education: '', skills: '', interests: '' };
+
+const sameProfile = (a: ProfileInputs | null, b: ProfileInputs) =>
+  (a?.education ?? '') === b.education &&
+  (a?.skills ?? '') === b.skills &&
+  (a?.interests ?? '') === b.interests &&
+  (a?.experience ?? '') === (b.experience ?? '');
+
+const Section = ({ icon, title, children }: { icon: React.ReactNode; title: string; children: React.ReactNode }) => (
+  <section className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm space-y-5">
+    <h3 className="font-bold text-lg flex items-center gap-2">{icon} {title}</h3>
+    {children}
+  </section>
+);
+
+/**
+ * The signed-in student's account: name, the profile that prefills the
+ * Navigator, their class and whether advisors may see their roadmaps,
+ * password, and deleting it all.
+ */
+export default function ProfilePage({
+  user,
+  currentInputs,
+  savedRoadmaps,
+  onUpdated,
+  onUseProfile,
+  onSignOut,
+  onDeleted
+}: Props) {
+  const [displayName, setDisplayName] = useState(user.displayName);
+  const [profile, setProfile] = useState<ProfileInputs>(user.profile ?? EMPTY_PROFILE);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [year, setYear] = useState<number | null>(user.year);
+  const [section, setSection] = useState(user.section ?? '');
+  const [shareWithAdvisors, setShareWithAdvisors] = useState(user.shareWithAdvisors);
+  const [classBusy, setClassBusy] = useState(false);
+  const [classMessage, setClassMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [passwordBusy, setPasswordBusy] = useState(false);
+  const [passwordMessage, setPasswordMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [deletePassword, setDeletePassword] = useState('');
+  const [deleting, setDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDisplayName(user.displayName);
+    setProfile(user.profile ?? EMPTY_PROFILE);
+    setYear(user.year);
+    setSection(user.section ?? '');
+    setShareWithAdvisors(user.shareWithAdvisors);
+  }, [user]);
+
+  const changed = displayName.trim() !== user.displayName || !sameProfile(user.profile, profile);
+  const hasProfile = !!(profile.education.trim() || profile.skills || profile.interests || profile.experience?.trim());
+  const classChanged =
+    year !== user.year ||
+    (section.trim().toUpperCase() || null) !== user.section ||
+    shareWithAdvisors !== user.shareWithAdvisors;
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      onUpdated(await updateAccount({ displayName: displayName.trim(), profile: hasProfile ? profile : null }));
+      setSaved(true);
+      setTimeout(() => setSaved(false), 2000);
+    } catch (err) {
+      setError(describeError(err, 'Could not save your profile.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveClass = async () => {
+    setClassBusy(true);
+    setClassMessage(null);
+    try {
+      onUpdated(await updateAccount({ year, section: section.trim() || null, shareWithAdvisors }));
+      setClassMessage({ ok: true, text: 'Saved.' });
+    } catch (err) {
+      setClassMessage({ ok: false, text: describeError(err, 'Could not save your class details.') });
+    } finally {
+      setClassBusy(false);
+    }
+  };
+
+  const submitPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordBusy(true);
+    setPasswordMessage(null);
+    try {
+      await changePassword(currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setPasswordMessage({ ok: true, text: 'Password changed. Other browsers have been signed out.' });
+    } catch (err) {
+      setPasswordMessage({ ok: false, text: describeError(err, 'Could not change your password.') });
+    } finally {
+      setPasswordBusy(false);
+    }
+  };
+
+  const submitDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setDeleting(true);
+    setDeleteError(null);
+    try {
+      await deleteAccount(deletePassword);
+      onDeleted();
+    } catch (err) {
+      setDeleteError(describeError(err, 'Could not delete your account.'));
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <motion.div
+      key="profile"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -10 }}
+      className="max-w-2xl mx-auto space-y-6"
+    >
+      <div className="flex items-center gap-4">
+        <div className="w-14 h-14 bg-emerald-600 rounded-2xl flex items-center justify-center text-white text-2xl font-bold">
+          {(user.displayName || user.email).charAt(0).toUpperCase()}
+        </div>
+        <div className="flex-1 min-w-0">
+          <h2 className="text-2xl font-bold tracking-tight truncate">{user.displayName}</h2>
+          <p className="text-sm text-black/50 truncate">
+            {user.email} · {savedRoadmaps} saved roadmap{savedRoadmaps === 1 ? '' : 's'} · member since{' '}
+            {new Date(user.createdAt).toLocaleDateString(undefined, { year: 'numeric', month: 'short' })}
+          </p>
+        </div>
+        <button
+          onClick={onSignOut}
+          className="px-4 py-2 text-sm font-semibold text-black/60 hover:text-black hover:bg-black/5 rounded-xl transition-all flex items-center gap-2"
+        >
+          <LogOut size={16} /> Sign out
+        </button>
+      </div>
+
+      <Section icon={<UserRound size={18} className="text-emerald-600" />} title="Profile">
+        <p className="text-sm text-black/50 -mt-3">Saved with your account and filled into the Navigator when you sign in.</p>
+        <div className="space-y-2">
+          <label className="text-xs font-semibold uppercase tracking-wider text-black/50">Name</label>
+          <input type="text" maxLength={80} className={inputClass} value={displayName} onChange={(e) => setDisplayName(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs font-semibold uppercase tracking-wider text-black/50 flex items-center gap-2">
+            <GraduationCap size={14} /> Education
+          </label>
+          <input
+            type="text"
+            placeholder="e.g. 3rd Year B.Tech in ECE"
+            className={inputClass}
+            value={profile.education}
+            onChange={(e) => setProfile({ ...profile, education: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs font-semibold uppercase tracking-wider text-black/50 flex items-center gap-2">
+            <Wrench size={14} /> Skills
+          </label>
+          <TagInput kind="skills" value={profile.skills} onChange={(skills) => setProfile({ ...profile, skills })} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs font-semibold uppercase tracking-wider text-black/50 flex items-center gap-2">
+            <Heart size={14} /> Interests
+          </label>
+          <TagInput kind="interests" value={profile.interests} onChange={(interests) => setProfile({ ...profile, interests })} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs font-semibold uppercase tracking-wider text-black/50 flex items-center gap-2">
+            <Briefcase size={14} /> Projects, internships & certifications
+          </label>
+          <textarea
+            rows={3}
+            placeholder="One per line"
+            className={`${inputClass} resize-y text-sm`}
+            value={profile.experience ?? ''}
+            onChange={(e) => setProfile({ ...profile, experience: e.target.value })}
+          />
+        </div>
+
+        {error && <p className="text-sm text-red-600 font-medium">{error}</p>}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={save}
+            disabled={!changed || saving || !displayName.trim()}
+            className="px-4 py-2 bg-black text-white rounded-xl text-sm font-semibold flex items-center gap-2 hover:bg-emerald-600 transition-colors disabled:opacity-50 disabled:hover:bg-black"
+          >
+            {saving ? <Loader2 className="animate-spin" size={16} /> : saved ? <Check size={16} /> : <Save size={16} />}
+            {saved ? 'Saved' : 'Save profile'}
+          </button>
+          <button
+            onClick={() => setProfile(currentInputs)}
+            disabled={sameProfile(profile, currentInputs) || !currentInputs.education}
+            className="px-4 py-2 text-sm font-semibold text-black/60 hover:text-black hover:bg-black/5 rounded-xl transition-all disabled:opacity-40"
+          >
+            Copy from Navigator
+          </button>
+          <button
+            onClick={() => onUseProfile(profile)}
+            disabled={!hasProfile}
+            className="px-4 py-2 text-sm font-semibold text-emerald-600 hover:bg-emerald-50 rounded-xl transition-all flex items-center gap-1 disabled:opacity-40"
+          >
+            Use in Navigator <ArrowRight size={14} />
+          </button>
+        </div>
+      </Section>
+
+      {user.role === 'student' && (
+        <Section icon={<School size={18} className="text-emerald-600" />} title="Class & advisors">
+          <p className="text-sm text-black/50 -mt-3">Your placement cell groups students by year and section.</p>
+          <div className="grid sm:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <label className="text-xs font-semibold uppercase tracking-wider text-black/50">Year</label>
+              <select
+                className={inputClass}
+                value={year ?? ''}
+                onChange={(e) => setYear(e.target.value ? Number(e.target.value) : null)}
+              >
+                <option value="">Not set</option>
+                {YEARS.map((y) => (
+                  <option key={y} value={y}>Year {y}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs font-semibold uppercase tracking-wider text-black/50">Section</label>
+              <input
+                type="text"
+                maxLength={20}
+                placeholder="e.g. B"
+                className={inputClass}
+                value={section}
+                onChange={(e) => setSection(e.target.value)}
+              />
+            </div>
+          </div>
+          <label className="flex items-start gap-3 p-4 rounded-2xl bg-black/[0.02] border border-black/5 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mt-1 accent-emerald-600"
+              checked={shareWithAdvisors}
+              onChange={(e) => setShareWithAdvisors(e.target.checked)}
+            />
+            <span className="text-sm">
+              <span className="font-semibold">Share my saved roadmaps with advisors</span>
+              <span className="block text-black/50">
+                Faculty advisors can then see your name, email, class, saved profile and roadmaps (not your chats), and
+                leave you comments. Turn this off at any time to hide them again.
+              </span>
+            </span>
+          </label>
+          {classMessage && (
+            <p className={`text-sm font-medium ${classMessage.ok ? 'text-emerald-700' : 'text-red-600'}`}>{classMessage.text}</p>
+          )}
+          <button
+            onClick={saveClass}
+            disabled={!classChanged || classBusy}
+            className="px-4 py-2 bg-black text-white rounded-xl text-sm font-semibold flex items-center gap-2 hover:bg-emerald-600 transition-colors disabled:opacity-50 disabled:hover:bg-black"
+          >
+            {classBusy ? <Loader2 className="animate-spin" size={16} /> : <Save size={16} />} Save
+          </button>
+        </Section>
+      )}
+
+      <Section icon={<KeyRound size={18} className="text-emerald-600" />} title="Password">
+        <form onSubmit={submitPassword} className="space-y-4">
+          <div className="grid sm:grid-cols-2 gap-3">
+            <input
+              required
+              type="password"
+              autoComplete="current-password"
+              placeholder="Current password"
+              className={inputClass}
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+            />
+            <input
+              required
+              type="password"
+              autoComplete="new-password"
+              minLength={MIN_PASSWORD_LENGTH}
+              placeholder={`New password (${MIN_PASSWORD_LENGTH}+ characters)`}
+              className={inputClass}
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+            />
+          </div>
+          {passwordMessage && (
+            <p className={`text-sm font-medium ${passwordMessage.ok ? 'text-emerald-700' : 'text-red-600'}`}>{passwordMessage.text}</p>
+          )}
+          <button
+            type="submit"
+            disabled={passwordBusy}
+            className="px-4 py-2 bg-black text-white rounded-xl text-sm font-semibold flex items-center gap-2 hover:bg-emerald-600 transition-colors disabled:opacity-50"
+          >
+            {passwordBusy && <Loader2 className="animate-spin" size={16} />} Change password
+          </button>
+        </form>
+      </Section>
+
+      <section className="p-6 rounded-3xl border border-red-100 bg-red-50/40 space-y-4">
+        <div>
+          <h3 className="font-bold text-lg text-red-700 flex items-center gap-2"><Trash2 size={18} /> Delete account</h3>
+          <p className="text-sm text-black/60">Removes your account, saved roadmaps, shared links and mock interviews. This cannot be undone.</p>
+        </div>
+        {confirmingDelete ? (
+          <form onSubmit={submitDelete} className="flex flex-col sm:flex-row gap-2">
+            <input
+              required
+              autoFocus
+              type="password"
+              autoComplete="current-password"
+              placeholder="Enter your password to confirm"
+              className={inputClass}
+              value={deletePassword}
+              onChange={(e) => setDeletePassword(e.target.value)}
+            />
+            <button
+              type="submit"
+              disabled={deleting}
+              className="px-4 py-2 bg-red-600 text-white rounded-xl text-sm font-semibold flex items-center justify-center gap-2 hover:bg-red-700 transition-colors disabled:opacity-50 shrink-0"
+            >
+              {deleting && <Loader2 className="animate-spin" size={16} />} Delete forever
+            </button>
+          </form>
+        ) : (
+          <button
+            onClick={() => setConfirmingDelete(true)}
+            className="px-4 py-2 border border-red-200 text-red-600 rounded-xl text-sm font-semibold hover:bg-red-50 transition-all"
+          >
+            Delete my account
+          </button>
+        )}
+        {deleteError && <p className="text-sm text-red-600 font-medium">{deleteError}</p>}
+      </section>
+    </motion.div>
+  );
+}
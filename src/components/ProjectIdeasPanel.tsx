@@ -0,0 +1,224 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Clock, Cpu, Hammer, Loader2, Sparkles, Wrench } from 'lucide-react';
+import type { CareerPath, ProficiencyLevel, ProfileInputs, ProjectIdea, ProjectPlan, ProjectStatus } from '../types';
+import { generateProjectIdeas } from '../services/geminiService';
+import { PROJECT_STATUSES, PROJECT_STATUS_LABELS, mergeProjectPlans, projectProgress } from '../lib/projects';
+import { PROFICIENCY_LEVELS } from '../lib/skills';
+import { describeError } from '../lib/errors';
+
+interface Props {
+  inputs: ProfileInputs;
+  careerPaths: CareerPath[];
+  skillsToLearn: string[];
+  plan: ProjectPlan | null;
+  onChange: (plan: ProjectPlan) => void;
+  /** Whether statuses are being kept with a saved history item. */
+  persisted: boolean;
+}
+
+const LEVEL_STYLES: Record<ProficiencyLevel, string> = {
+  beginner: 'bg-emerald-50 text-emerald-700',
+  intermediate: 'bg-blue-50 text-blue-700',
+  advanced: 'bg-purple-50 text-purple-700'
+};
+
+const STATUS_STYLES: Record<ProjectStatus, string> = {
+  planned: 'bg-white text-black shadow-sm',
+  'in-progress': 'bg-amber-500 text-white shadow-sm',
+  done: 'bg-emerald-600 text-white shadow-sm'
+};
+
+const ProjectCard = ({ idea, onStatus }: { idea: ProjectIdea; onStatus: (status: ProjectStatus | undefined) => void }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <li className={`p-4 border rounded-2xl space-y-3 transition-all ${idea.status === 'done' ? 'border-emerald-200 bg-emerald-50/30' : 'border-black/5'}`}>
+      <div className="flex items-start justify-between gap-3">
+        <div className="space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider ${LEVEL_STYLES[idea.level]}`}>{idea.level}</span>
+            <span className="flex items-center gap-1 text-[11px] text-black/40 font-medium"><Clock size={11} /> ~{idea.estimatedHours}h</span>
+          </div>
+          <h5 className="font-semibold text-black/80">{idea.title}</h5>
+        </div>
+        <button
+          type="button"
+          onClick={() => setOpen(o => !o)}
+          title={open ? 'Hide details' : 'Show details'}
+          className="p-1.5 text-black/30 hover:text-black hover:bg-black/5 rounded-lg transition-all"
+        >
+          <ChevronDown size={16} className={`transition-transform ${open ? 'rotate-180' : ''}`} />
+        </button>
+      </div>
+
+      <p className="text-sm text-black/60 leading-relaxed">{idea.description}</p>
+
+      <div className="flex flex-wrap gap-1.5">
+        {idea.skillsCovered.map(skill => (
+          <span key={skill} className="px-2.5 py-1 bg-amber-50 text-amber-700 rounded-full text-xs font-medium">{skill}</span>
+        ))}
+      </div>
+
+      {open && (
+        <div className="grid sm:grid-cols-2 gap-4 pt-1">
+          <div className="space-y-1.5">
+            <p className="text-[10px] font-bold uppercase tracking-wider text-black/40 flex items-center gap-1"><Cpu size={11} /> Bill of materials</p>
+            {idea.billOfMaterials.length === 0 ? (
+              <p className="text-xs text-black/50">None — simulation only.</p>
+            ) : (
+              <ul className="space-y-1 text-xs text-black/70">
+                {idea.billOfMaterials.map((part, i) => (
+                  <li key={i} className="flex items-baseline gap-2">
+                    <span className="font-mono text-black/40">{part.quantity}×</span>
+                    <span className="flex-1">{part.name}</span>
+                    <span className="text-[10px] uppercase text-black/30">{part.kind}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div className="space-y-1.5">
+            <p className="text-[10px] font-bold uppercase tracking-wider text-black/40 flex items-center gap-1"><Wrench size={11} /> Tools</p>
+            <p className="text-xs text-black/70">{idea.tools.join(', ') || '—'}</p>
+          </div>
+          <div className="sm:col-span-2 space-y-1.5">
+            <p className="text-[10px] font-bold uppercase tracking-wider text-black/40">You will learn to</p>
+            <ul className="list-disc pl-5 space-y-0.5 text-xs text-black/70">
+              {idea.learningOutcomes.map((outcome, i) => <li key={i}>{outcome}</li>)}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center bg-black/5 p-1 rounded-xl">
+        {PROJECT_STATUSES.map(status => (
+          <button
+            key={status}
+            type="button"
+            // Pressing the current status again clears it
+            onClick={() => onStatus(idea.status === status ? undefined : status)}
+            className={`flex-1 px-2 py-1 rounded-lg text-xs font-medium transition-all ${idea.status === status ? STATUS_STYLES[status] : 'text-black/50 hover:text-black'}`}
+          >
+            {PROJECT_STATUS_LABELS[status]}
+          </button>
+        ))}
+      </div>
+    </li>
+  );
+};
+
+/** Hands-on project ideas for a career path that cover the skills still to learn, with progress tracking. */
+export default function ProjectIdeasPanel({ inputs, careerPaths, skillsToLearn, plan, onChange, persisted }: Props) {
+  const [careerPath, setCareerPath] = useState(plan?.careerPath ?? careerPaths[0]?.title ?? '');
+  const [level, setLevel] = useState<ProficiencyLevel | 'all'>('all');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (plan) setCareerPath(plan.careerPath);
+    else if (!careerPaths.some(p => p.title === careerPath)) setCareerPath(careerPaths[0]?.title ?? '');
+  }, [plan?.careerPath, careerPaths]);
+
+  const suggest = async () => {
+    const controller = new AbortController();
+    abortRef.current?.abort();
+    abortRef.current = controller;
+    setLoading(true);
+    setError(null);
+    try {
+      const next = await generateProjectIdeas({ careerPath, inputs, skillsToLearn }, controller.signal);
+      onChange(mergeProjectPlans(plan, next));
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(describeError(err, 'Could not suggest projects. Please try again.'));
+        console.error(err);
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setLoading(false);
+    }
+  };
+
+  const setStatus = (id: string, status: ProjectStatus | undefined) => {
+    if (!plan) return;
+    onChange({
+      ...plan,
+      ideas: plan.ideas.map(idea => {
+        if (idea.id !== id) return idea;
+        const { status: _previous, ...rest } = idea;
+        return status ? { ...rest, status } : rest;
+      })
+    });
+  };
+
+  const progress = plan && projectProgress(plan);
+  const shown = plan?.ideas.filter(idea => level === 'all' || idea.level === level) ?? [];
+
+  return (
+    <div className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm space-y-5">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 bg-orange-50 rounded-xl flex items-center justify-center text-orange-600">
+          <Hammer size={20} />
+        </div>
+        <div>
+          <h4 className="font-bold text-lg">Project Ideas</h4>
+          <p className="text-xs text-black/40 font-medium">
+            {progress && (progress.done || progress['in-progress'] || progress.planned)
+              ? `${progress.done} done · ${progress['in-progress']} in progress · ${progress.planned} planned`
+              : 'Build what employers look for on a resume'}
+            {plan && !persisted && ' · save the roadmap to keep your progress'}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <select
+          value={careerPath}
+          onChange={(e) => setCareerPath(e.target.value)}
+          className="flex-1 px-3 py-2 rounded-xl border border-black/10 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500"
+        >
+          {careerPaths.map(path => (
+            <option key={path.title} value={path.title}>{path.title}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          disabled={loading || !careerPath}
+          onClick={suggest}
+          className="px-4 py-2 bg-black text-white rounded-xl text-sm font-semibold flex items-center justify-center gap-2 hover:bg-emerald-600 transition-colors disabled:opacity-50"
+        >
+          {loading ? <Loader2 className="animate-spin" size={16} /> : <Sparkles size={16} />}
+          {plan ? 'New Ideas' : 'Suggest Projects'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 font-medium">{error}</p>}
+
+      {plan && plan.ideas.length > 0 && (
+        <>
+          <div className="flex items-center bg-black/5 p-1 rounded-xl w-fit">
+            {(['all', ...PROFICIENCY_LEVELS] as const).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setLevel(option)}
+                className={`px-3 py-1 rounded-lg text-xs font-medium capitalize transition-all ${level === option ? 'bg-white text-black shadow-sm' : 'text-black/50 hover:text-black'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <ul className="space-y-3">
+            {shown.map(idea => (
+              <ProjectCard key={idea.id} idea={idea} onStatus={(status) => setStatus(idea.id, status)} />
+            ))}
+          </ul>
+          {shown.length === 0 && <p className="text-sm text-black/40">No {level} projects yet.</p>}
+        </>
+      )}
+    </div>
+  );
+}
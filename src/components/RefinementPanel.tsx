@@ -0,0 +1,172 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Ban, Clock, GitBranch, Loader2, Pin, RefreshCw, SlidersHorizontal, X } from 'lucide-react';
+import type { RecommendationVersion, RefinementConstraints } from '../types';
+import { diffRecommendations, isEmptyDiff } from '../lib/comparison';
+import { formatDuration } from '../lib/format';
+import { describeConstraints } from '../lib/refinement';
+import TagInput from './TagInput';
+
+interface Props {
+  /** Constraints for the next regeneration, starting from the current version's. */
+  constraints: RefinementConstraints;
+  onChange: (constraints: RefinementConstraints) => void;
+  versions: RecommendationVersion[];
+  currentVersionId: string | null;
+  onSelectVersion: (id: string) => void;
+  onRegenerate: () => void;
+  loading: boolean;
+  error: string | null;
+  /** Seconds until the server accepts another request, after a rate limit. */
+  retryIn: number;
+}
+
+const ChangeChips = ({ label, items, className }: { label: string; items: string[]; className: string }) =>
+  items.length > 0 ? (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <span className="text-[10px] font-bold uppercase tracking-wider text-black/40 mr-1">{label}</span>
+      {items.map((item, i) => (
+        <span key={i} className={`px-2 py-0.5 rounded-full text-xs font-medium ${className}`}>{item}</span>
+      ))}
+    </div>
+  ) : null;
+
+const sameConstraints = (a: RefinementConstraints, b: RefinementConstraints) => JSON.stringify(a) === JSON.stringify(b);
+
+/** "What if" controls for regenerating a recommendation, with its version chain and what changed. */
+export default function RefinementPanel({
+  constraints,
+  onChange,
+  versions,
+  currentVersionId,
+  onSelectVersion,
+  onRegenerate,
+  loading,
+  error,
+  retryIn
+}: Props) {
+  const current = versions.find(v => v.id === currentVersionId);
+  const parent = versions.find(v => v.id === current?.parentId);
+  const diff = current && parent ? diffRecommendations(parent.recommendation, current.recommendation) : null;
+  const versionNumber = (version: RecommendationVersion) => versions.indexOf(version) + 1;
+  const changed = !!current && !sameConstraints(constraints, current.constraints);
+
+  const unpin = (title: string) => onChange({ ...constraints, pinnedPaths: constraints.pinnedPaths.filter(p => p !== title) });
+  const unreject = (title: string) =>
+    onChange({ ...constraints, rejectedPaths: constraints.rejectedPaths.filter(r => r.title !== title) });
+  const setReason = (title: string, reason: string) =>
+    onChange({ ...constraints, rejectedPaths: constraints.rejectedPaths.map(r => (r.title === title ? { ...r, reason } : r)) });
+
+  return (
+    <div className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm space-y-5">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 bg-indigo-50 rounded-xl flex items-center justify-center text-indigo-600">
+          <SlidersHorizontal size={20} />
+        </div>
+        <div>
+          <h4 className="font-bold text-lg">Refine</h4>
+          <p className="text-xs text-black/40 font-medium">Pin or rule out paths above, or try a skill you are considering.</p>
+        </div>
+      </div>
+
+      {(constraints.pinnedPaths.length > 0 || constraints.rejectedPaths.length > 0) && (
+        <div className="flex flex-wrap gap-1.5">
+          {constraints.pinnedPaths.map(title => (
+            <span key={title} className="pl-2.5 pr-1 py-1 rounded-lg text-xs font-medium flex items-center gap-1 bg-emerald-50 text-emerald-700">
+              <Pin size={11} /> {title}
+              <button type="button" onClick={() => unpin(title)} className="p-0.5 opacity-50 hover:opacity-100"><X size={12} /></button>
+            </span>
+          ))}
+          {constraints.rejectedPaths.map(({ title, reason }) => (
+            <span key={title} className="pl-2.5 pr-1 py-1 rounded-lg text-xs font-medium flex items-center gap-1 bg-red-50 text-red-600">
+              <Ban size={11} /> {title}
+              <input
+                aria-label={`Why is ${title} not for you?`}
+                placeholder="Why not? (optional)"
+                value={reason}
+                onChange={(e) => setReason(title, e.target.value)}
+                onBlur={() => reason !== reason.trim() && setReason(title, reason.trim())}
+                className="w-36 ml-1 px-1.5 py-0.5 rounded-md bg-white/70 border border-red-100 outline-none focus:border-red-300 placeholder:text-red-300"
+              />
+              <button type="button" onClick={() => unreject(title)} className="p-0.5 opacity-50 hover:opacity-100"><X size={12} /></button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label className="text-xs font-semibold uppercase tracking-wider text-black/50">What if I learn...</label>
+        <TagInput
+          kind="skills"
+          placeholder="e.g. Cadence Virtuoso, SystemVerilog"
+          value={constraints.hypotheticalSkills.join(', ')}
+          onChange={(value) =>
+            onChange({ ...constraints, hypotheticalSkills: value.split(',').map(s => s.trim()).filter(Boolean) })
+          }
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600 font-medium">{error}</p>}
+
+      <button
+        type="button"
+        onClick={onRegenerate}
+        disabled={!changed || loading || retryIn > 0}
+        className="w-full py-3 bg-black text-white rounded-xl text-sm font-semibold flex items-center justify-center gap-2 hover:bg-emerald-600 transition-colors disabled:opacity-50 disabled:hover:bg-black"
+      >
+        {loading ? <Loader2 className="animate-spin" size={16} /> : retryIn > 0 ? <Clock size={16} /> : <RefreshCw size={16} />}
+        {retryIn > 0
+          ? `Try again in ${formatDuration(retryIn)}`
+          : changed ? 'Regenerate with changes' : 'Make a change to regenerate'}
+      </button>
+
+      {diff && parent && !loading && (
+        <div className="p-4 bg-black/[0.03] rounded-2xl space-y-2">
+          <p className="text-xs font-bold uppercase tracking-wider text-black/40">Changes from v{versionNumber(parent)}</p>
+          {isEmptyDiff(diff) && <p className="text-xs text-black/50">Same paths, skills and internships as before.</p>}
+          <ChangeChips label="New paths" items={diff.pathsAdded} className="bg-blue-50 text-blue-700" />
+          <ChangeChips label="Paths dropped" items={diff.pathsDropped} className="bg-black/5 text-black/50 line-through" />
+          {diff.fitChanges.length > 0 && (
+            <div className="flex flex-wrap gap-3 text-xs">
+              {diff.fitChanges.map(change => (
+                <span key={change.path} className={`flex items-center gap-1 font-medium ${change.delta > 0 ? 'text-emerald-600' : 'text-red-500'}`}>
+                  {change.delta > 0 ? <ArrowUp size={12} /> : <ArrowDown size={12} />}
+                  {change.path} {change.delta > 0 ? '+' : ''}{change.delta}
+                </span>
+              ))}
+            </div>
+          )}
+          <ChangeChips label="New skills to learn" items={diff.skillsToLearnAdded} className="bg-amber-50 text-amber-700" />
+          <ChangeChips label="No longer needed" items={diff.skillsToLearnDropped} className="bg-black/5 text-black/50 line-through" />
+          <ChangeChips label="New internships" items={diff.internshipsAdded} className="bg-purple-50 text-purple-700" />
+          <ChangeChips label="Internships dropped" items={diff.internshipsDropped} className="bg-black/5 text-black/50 line-through" />
+        </div>
+      )}
+
+      {versions.length > 1 && (
+        <div className="space-y-2">
+          <p className="text-xs font-bold uppercase tracking-wider text-black/40 flex items-center gap-1.5"><GitBranch size={12} /> Versions</p>
+          <ol className="space-y-1">
+            {versions.map(version => (
+              <li key={version.id}>
+                <button
+                  type="button"
+                  onClick={() => onSelectVersion(version.id)}
+                  disabled={loading}
+                  className={`w-full text-left px-3 py-2 rounded-xl text-xs flex items-center gap-2 transition-all ${version.id === currentVersionId ? 'bg-emerald-50 text-emerald-800' : 'hover:bg-black/5 text-black/60'}`}
+                >
+                  <span className="font-bold shrink-0">v{versionNumber(version)}</span>
+                  <span className="truncate">{describeConstraints(version.constraints)}</span>
+                  {version.parentId && (
+                    <span className="ml-auto shrink-0 text-black/30">
+                      from v{versions.findIndex(v => v.id === version.parentId) + 1}
+                    </span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
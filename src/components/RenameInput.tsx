@@ -0,0 +1,40 @@
+import React, { useRef, useState } from 'react';
+
+interface Props {
+  value: string;
+  /** Called with the trimmed title when it is non-empty and changed. */
+  onSave: (title: string) => void;
+  onCancel: () => void;
+  className?: string;
+}
+
+/** Inline title editor: Enter or leaving the field saves, Escape cancels. */
+export default function RenameInput({ value, onSave, onCancel, className = '' }: Props) {
+  const [draft, setDraft] = useState(value);
+  // Escape and Enter also blur the field, which must not save a second time.
+  const finished = useRef(false);
+
+  const finish = (save: boolean) => {
+    if (finished.current) return;
+    finished.current = true;
+    const title = draft.trim();
+    if (save && title && title !== value) onSave(title);
+    else onCancel();
+  };
+
+  return (
+    <input
+      autoFocus
+      aria-label="Title"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') finish(true);
+        else if (e.key === 'Escape') finish(false);
+      }}
+      onBlur={() => finish(true)}
+      className={`w-full px-2 py-0.5 -mx-2 rounded-lg border border-emerald-500/40 bg-white outline-none focus:ring-2 focus:ring-emerald-500/20 ${className}`}
+    />
+  );
+}
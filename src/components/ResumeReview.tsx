@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ArrowRight, Award, Briefcase, FlaskConical, GraduationCap, Heart, Plus, Wrench, X } from 'lucide-react';
+import type { ExtractedSkill, ResumeData, ResumeSkills } from '../types';
+import { LOW_CONFIDENCE, SKILL_CATEGORY_LABELS } from '../lib/resume';
+
+interface Props {
+  data: ResumeData;
+  onChange: (data: ResumeData) => void;
+  onAccept: () => void;
+  onDiscard: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-black/10 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 transition-all';
+
+// Anything the student has edited is treated as confirmed.
+const CONFIRMED = 1;
+
+const ConfidenceBadge = ({ value }: { value: number }) => {
+  const pct = Math.round(value * 100);
+  const style = value < LOW_CONFIDENCE
+    ? 'bg-red-50 text-red-600'
+    : value < 0.8 ? 'bg-amber-50 text-amber-700' : 'bg-emerald-50 text-emerald-700';
+  return (
+    <span className={`shrink-0 px-2 py-0.5 rounded-full text-[10px] font-bold flex items-center gap-1 ${style}`} title="Extraction confidence">
+      {value < LOW_CONFIDENCE && <AlertTriangle size={10} />} {pct}%
+    </span>
+  );
+};
+
+const Section = ({ icon, title, onAdd, children }: { icon: React.ReactNode; title: string; onAdd?: () => void; children: React.ReactNode }) => (
+  <div className="space-y-3">
+    <div className="flex items-center justify-between">
+      <h5 className="text-xs font-semibold uppercase tracking-wider text-black/50 flex items-center gap-2">{icon} {title}</h5>
+      {onAdd && (
+        <button type="button" onClick={onAdd} className="text-xs font-semibold text-emerald-600 flex items-center gap-1 hover:underline">
+          <Plus size={12} /> Add
+        </button>
+      )}
+    </div>
+    {children}
+  </div>
+);
+
+const EntryCard = ({ confidence, onRemove, children }: { confidence: number; onRemove: () => void; children: React.ReactNode }) => (
+  <div className={`p-3 rounded-xl border space-y-2 ${confidence < LOW_CONFIDENCE ? 'border-red-200 bg-red-50/30' : 'border-black/5 bg-black/[0.02]'}`}>
+    <div className="flex justify-end items-center gap-2">
+      <ConfidenceBadge value={confidence} />
+      <button type="button" onClick={onRemove} className="p-1 text-black/30 hover:text-red-500 rounded-full transition-all">
+        <X size={14} />
+      </button>
+    </div>
+    {children}
+  </div>
+);
+
+const SkillChips = ({ skills, onChange, placeholder }: { skills: ExtractedSkill[]; onChange: (skills: ExtractedSkill[]) => void; placeholder: string }) => {
+  const [draft, setDraft] = useState('');
+  const add = () => {
+    const name = draft.trim();
+    if (name && !skills.some(s => s.name.toLowerCase() === name.toLowerCase())) {
+      onChange([...skills, { name, confidence: CONFIRMED }]);
+    }
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {skills.map((skill, i) => (
+        <span
+          key={`${skill.name}-${i}`}
+          className={`pl-2.5 pr-1 py-1 rounded-full text-xs font-medium flex items-center gap-1 border ${skill.confidence < LOW_CONFIDENCE ? 'border-red-200 bg-red-50 text-red-700' : 'border-black/5 bg-white text-black/70'}`}
+          title={`${Math.round(skill.confidence * 100)}% confidence`}
+        >
+          {skill.name}
+          <button type="button" onClick={() => onChange(skills.filter((_, j) => j !== i))} className="p-0.5 rounded-full hover:bg-black/5">
+            <X size={10} />
+          </button>
+        </span>
+      ))}
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            add();
+          }
+        }}
+        onBlur={add}
+        placeholder={placeholder}
+        className="flex-1 min-w-[100px] px-2 py-1 text-xs bg-transparent focus:outline-none"
+      />
+    </div>
+  );
+};
+
+/**
+ * Lets the student check and correct what was extracted from their resume
+ * before it is used for recommendations. Low-confidence entries are flagged.
+ */
+export default function ResumeReview({ data, onChange, onAccept, onDiscard }: Props) {
+  const update = <K extends keyof ResumeData>(key: K, value: ResumeData[K]) => onChange({ ...data, [key]: value });
+
+  // Edits a single entry of a list section, marking it confirmed
+  const editEntry = <K extends 'education' | 'projects' | 'internships' | 'certifications'>(
+    key: K,
+    index: number,
+    patch: Partial<ResumeData[K][number]>
+  ) => {
+    const list = data[key] as ResumeData[K][number][];
+    update(key, list.map((entry, i) => (i === index ? { ...entry, ...patch, confidence: CONFIRMED } : entry)) as ResumeData[K]);
+  };
+
+  const removeEntry = <K extends 'education' | 'projects' | 'internships' | 'certifications'>(key: K, index: number) =>
+    update(key, (data[key] as unknown[]).filter((_, i) => i !== index) as ResumeData[K]);
+
+  const flagged = [
+    ...data.education,
+    ...data.projects,
+    ...data.internships,
+    ...data.certifications,
+    ...data.interests,
+    ...Object.values(data.skills).flat()
+  ].filter(entry => entry.confidence < LOW_CONFIDENCE).length;
+
+  return (
+    <div className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm space-y-6">
+      <div>
+        <h4 className="font-bold text-lg">Review your resume details</h4>
+        <p className="text-sm text-black/50">
+          Check what we extracted and fix anything that's wrong before we generate recommendations.
+          {flagged > 0 && <span className="text-red-600 font-medium"> {flagged} item{flagged === 1 ? '' : 's'} flagged for review.</span>}
+        </p>
+      </div>
+
+      <Section
+        icon={<GraduationCap size={14} />}
+        title="Education"
+        onAdd={() => update('education', [...data.education, { degree: '', institution: '', year: '', cgpa: '', confidence: CONFIRMED }])}
+      >
+        {data.education.map((entry, i) => (
+          <EntryCard key={i} confidence={entry.confidence} onRemove={() => removeEntry('education', i)}>
+            <input className={inputClass} placeholder="Degree" value={entry.degree} onChange={(e) => editEntry('education', i, { degree: e.target.value })} />
+            <input className={inputClass} placeholder="Institution" value={entry.institution} onChange={(e) => editEntry('education', i, { institution: e.target.value })} />
+            <div className="grid grid-cols-2 gap-2">
+              <input className={inputClass} placeholder="Year" value={entry.year} onChange={(e) => editEntry('education', i, { year: e.target.value })} />
+              <input className={inputClass} placeholder="CGPA" value={entry.cgpa} onChange={(e) => editEntry('education', i, { cgpa: e.target.value })} />
+            </div>
+          </EntryCard>
+        ))}
+      </Section>
+
+      <Section icon={<Wrench size={14} />} title="Skills">
+        {(Object.keys(SKILL_CATEGORY_LABELS) as (keyof ResumeSkills)[]).map(category => (
+          <div key={category} className="space-y-1">
+            <p className="text-[10px] font-bold uppercase tracking-wider text-black/40">{SKILL_CATEGORY_LABELS[category]}</p>
+            <SkillChips
+              skills={data.skills[category]}
+              onChange={(skills) => update('skills', { ...data.skills, [category]: skills })}
+              placeholder="Add..."
+            />
+          </div>
+        ))}
+      </Section>
+
+      <Section
+        icon={<FlaskConical size={14} />}
+        title="Projects"
+        onAdd={() => update('projects', [...data.projects, { title: '', description: '', technologies: [], confidence: CONFIRMED }])}
+      >
+        {data.projects.map((project, i) => (
+          <EntryCard key={i} confidence={project.confidence} onRemove={() => removeEntry('projects', i)}>
+            <input className={inputClass} placeholder="Title" value={project.title} onChange={(e) => editEntry('projects', i, { title: e.target.value })} />
+            <textarea className={`${inputClass} resize-none`} rows={2} placeholder="Description" value={project.description} onChange={(e) => editEntry('projects', i, { description: e.target.value })} />
+            <input
+              className={inputClass}
+              placeholder="Technologies (comma separated)"
+              value={project.technologies.join(', ')}
+              onChange={(e) => editEntry('projects', i, { technologies: e.target.value.split(',').map(t => t.trim()).filter(Boolean) })}
+            />
+          </EntryCard>
+        ))}
+      </Section>
+
+      <Section
+        icon={<Briefcase size={14} />}
+        title="Internships"
+        onAdd={() => update('internships', [...data.internships, { organization: '', role: '', duration: '', description: '', confidence: CONFIRMED }])}
+      >
+        {data.internships.map((internship, i) => (
+          <EntryCard key={i} confidence={internship.confidence} onRemove={() => removeEntry('internships', i)}>
+            <div className="grid grid-cols-2 gap-2">
+              <input className={inputClass} placeholder="Organization" value={internship.organization} onChange={(e) => editEntry('internships', i, { organization: e.target.value })} />
+              <input className={inputClass} placeholder="Role" value={internship.role} onChange={(e) => editEntry('internships', i, { role: e.target.value })} />
+            </div>
+            <input className={inputClass} placeholder="Duration" value={internship.duration} onChange={(e) => editEntry('internships', i, { duration: e.target.value })} />
+            <textarea className={`${inputClass} resize-none`} rows={2} placeholder="Description" value={internship.description} onChange={(e) => editEntry('internships', i, { description: e.target.value })} />
+          </EntryCard>
+        ))}
+      </Section>
+
+      <Section
+        icon={<Award size={14} />}
+        title="Certifications"
+        onAdd={() => update('certifications', [...data.certifications, { name: '', issuer: '', year: '', confidence: CONFIRMED }])}
+      >
+        {data.certifications.map((cert, i) => (
+          <EntryCard key={i} confidence={cert.confidence} onRemove={() => removeEntry('certifications', i)}>
+            <input className={inputClass} placeholder="Certification" value={cert.name} onChange={(e) => editEntry('certifications', i, { name: e.target.value })} />
+            <div className="grid grid-cols-2 gap-2">
+              <input className={inputClass} placeholder="Issuer" value={cert.issuer} onChange={(e) => editEntry('certifications', i, { issuer: e.target.value })} />
+              <input className={inputClass} placeholder="Year" value={cert.year} onChange={(e) => editEntry('certifications', i, { year: e.target.value })} />
+            </div>
+          </EntryCard>
+        ))}
+      </Section>
+
+      <Section icon={<Heart size={14} />} title="Interests">
+        <SkillChips skills={data.interests} onChange={(interests) => update('interests', interests)} placeholder="Add an interest..." />
+      </Section>
+
+      <div className="flex flex-col sm:flex-row gap-3 pt-2">
+        <button
+          type="button"
+          onClick={onAccept}
+          className="flex-1 bg-emerald-600 text-white py-3 rounded-xl font-bold flex items-center justify-center gap-2 hover:bg-emerald-700 transition-all"
+        >
+          Looks good, generate roadmap <ArrowRight size={16} />
+        </button>
+        <button
+          type="button"
+          onClick={onDiscard}
+          className="px-6 py-3 border border-black/10 rounded-xl font-semibold text-black/50 hover:text-red-500 hover:border-red-200 transition-all"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+}
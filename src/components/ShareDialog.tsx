@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { Check, Copy, Link2, Loader2, Share2, X } from 'lucide-react';
+import type { HistoryItem } from '../types';
+import { ShareLink, createShareLink, listShareLinks, revokeShareLink } from '../services/shareService';
+import { describeError } from '../lib/errors';
+
+interface Props {
+  item: HistoryItem;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: 'Never', days: null },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 }
+];
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+/** Creates, copies and revokes read-only links to a saved roadmap. */
+export default function ShareDialog({ item, onClose }: Props) {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(7);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listShareLinks(item.id)
+      .then(setLinks)
+      .catch(err => setError(describeError(err, 'Could not load shared links.')))
+      .finally(() => setLoading(false));
+  }, [item.id]);
+
+  const copy = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(link.url);
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId(id => (id === link.id ? null : id)), 2000);
+    } catch {
+      prompt('Copy this link', link.url);
+    }
+  };
+
+  const create = async () => {
+    setCreating(true);
+    setError(null);
+    try {
+      const link = await createShareLink(item.id, expiresInDays);
+      setLinks(prev => [link, ...prev]);
+      copy(link);
+    } catch (err) {
+      setError(describeError(err, 'Could not create a shared link.'));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revoke = async (link: ShareLink) => {
+    if (!confirm('Turn off this link? Anyone who has it will no longer be able to view the roadmap.')) return;
+    setError(null);
+    try {
+      await revokeShareLink(item.id, link.id);
+      setLinks(prev => prev.filter(l => l.id !== link.id));
+    } catch (err) {
+      setError(describeError(err, 'Could not turn off this link.'));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative bg-white w-full max-w-lg rounded-3xl shadow-2xl p-8"
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-xl font-bold flex items-center gap-2"><Share2 size={20} className="text-emerald-600" /> Share Roadmap</h3>
+          <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-all">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-5">
+          <p className="text-sm text-black/60">
+            Anyone with the link can view a read-only copy of <span className="font-semibold text-black/80">{item.title}</span> as it is now.
+            Later changes are not shared; create a new link to share them.
+          </p>
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <div className="flex-1 space-y-1">
+              <label className="text-xs font-bold uppercase tracking-wider text-black/40">Link expires</label>
+              <div className="flex items-center bg-black/5 p-1 rounded-xl">
+                {EXPIRY_OPTIONS.map(option => (
+                  <button
+                    key={option.label}
+                    type="button"
+                    onClick={() => setExpiresInDays(option.days)}
+                    className={`flex-1 px-2 py-1 rounded-lg text-xs font-medium transition-all ${expiresInDays === option.days ? 'bg-white text-black shadow-sm' : 'text-black/50 hover:text-black'}`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={create}
+              disabled={creating}
+              className="self-end px-4 py-2.5 bg-emerald-600 text-white rounded-xl text-sm font-bold flex items-center justify-center gap-2 hover:bg-emerald-700 transition-all disabled:opacity-50"
+            >
+              {creating ? <Loader2 className="animate-spin" size={16} /> : <Link2 size={16} />} Create Link
+            </button>
+          </div>
+
+          {error && <p className="text-sm text-red-600 font-medium">{error}</p>}
+
+          <div className="space-y-2">
+            <p className="text-xs font-bold uppercase tracking-wider text-black/40">Active links</p>
+            {loading ? (
+              <Loader2 className="animate-spin text-black/30" size={18} />
+            ) : links.length === 0 ? (
+              <p className="text-sm text-black/40">This roadmap has not been shared yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {links.map(link => (
+                  <li key={link.id} className="p-3 bg-black/[0.03] rounded-xl flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-mono truncate text-black/70">{link.url}</p>
+                      <p className="text-[11px] text-black/40">
+                        Created {formatDate(link.createdAt)} · {link.expiresAt ? `expires ${formatDate(link.expiresAt)}` : 'never expires'}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => copy(link)}
+                      title="Copy link"
+                      className="p-2 text-black/40 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-all"
+                    >
+                      {copiedId === link.id ? <Check size={16} className="text-emerald-600" /> : <Copy size={16} />}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => revoke(link)}
+                      className="px-2 py-1 text-xs font-semibold text-red-500 hover:bg-red-50 rounded-lg transition-all"
+                    >
+                      Revoke
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, BookOpen, Briefcase, Cpu, Eye, GraduationCap, Heart, Lightbulb, Loader2, Route, Sparkles, Wrench } from 'lucide-react';
+import { ApiError } from '../services/http';
+import { SharedRoadmap, getSharedRoadmap } from '../services/shareService';
+import CareerPathList from './CareerPathList';
+import { RoadmapTimeline } from './LearningRoadmapPanel';
+
+const Section = ({ icon, color, title, children }: { icon: React.ReactNode; color: string; title: string; children: React.ReactNode }) => (
+  <div className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm">
+    <div className="flex items-center gap-3 mb-4">
+      <div className={`w-10 h-10 rounded-xl flex items-center justify-center ${color}`}>{icon}</div>
+      <h4 className="font-bold text-lg">{title}</h4>
+    </div>
+    {children}
+  </div>
+);
+
+/** Read-only page for a shared roadmap link (`/share/:id`); has no access to the owner's history. */
+export default function SharedRoadmapView({ shareId }: { shareId: string }) {
+  const [shared, setShared] = useState<SharedRoadmap | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getSharedRoadmap(shareId)
+      .then(setShared)
+      .catch(err => setError(err instanceof ApiError ? err.message : 'Could not load this shared roadmap.'));
+  }, [shareId]);
+
+  const rec = shared?.recommendation;
+
+  return (
+    <div className="min-h-screen bg-[#F8F9FA] text-[#1A1A1A] font-sans selection:bg-emerald-100">
+      <header className="border-b border-black/5 bg-white/80 backdrop-blur-md sticky top-0 z-20">
+        <div className="max-w-3xl mx-auto px-6 h-16 flex items-center justify-between">
+          <a href="/" className="flex items-center gap-2">
+            <div className="w-8 h-8 bg-emerald-600 rounded-lg flex items-center justify-center text-white">
+              <Cpu size={20} />
+            </div>
+            <span className="font-bold tracking-tight text-lg">ECE Career Navigator</span>
+          </a>
+          <span className="flex items-center gap-1.5 text-xs font-semibold text-black/40 uppercase tracking-wider">
+            <Eye size={14} /> Read-only
+          </span>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-6 py-12">
+        {error ? (
+          <div className="flex flex-col items-center justify-center text-center p-12 bg-red-50 rounded-3xl border border-red-100">
+            <div className="w-12 h-12 bg-red-100 text-red-600 rounded-full flex items-center justify-center mb-4">
+              <AlertCircle size={24} />
+            </div>
+            <p className="text-red-600 font-medium">{error}</p>
+            <a href="/" className="mt-4 text-sm font-semibold underline">Build your own roadmap</a>
+          </div>
+        ) : !shared || !rec ? (
+          <div className="flex justify-center py-20">
+            <Loader2 className="animate-spin text-emerald-600" size={32} />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <h2 className="text-3xl font-bold tracking-tight mb-2">{shared.title}</h2>
+              <p className="text-sm text-black/40">
+                Saved {shared.date}
+                {shared.expiresAt && ` · link expires ${new Date(shared.expiresAt).toLocaleDateString()}`}
+              </p>
+            </div>
+
+            <div className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm space-y-2 text-sm text-black/70">
+              <p className="flex items-start gap-2"><GraduationCap size={16} className="mt-0.5 text-emerald-600 shrink-0" /> {shared.inputs.education}</p>
+              <p className="flex items-start gap-2"><Wrench size={16} className="mt-0.5 text-emerald-600 shrink-0" /> {shared.inputs.skills}</p>
+              <p className="flex items-start gap-2"><Heart size={16} className="mt-0.5 text-emerald-600 shrink-0" /> {shared.inputs.interests}</p>
+            </div>
+
+            <div className="bg-emerald-600 text-white p-8 rounded-3xl shadow-xl shadow-emerald-900/10 relative overflow-hidden">
+              <div className="relative z-10">
+                <h3 className="text-xs font-bold uppercase tracking-widest opacity-70 mb-2">Profile Analysis</h3>
+                <p className="text-xl font-medium leading-relaxed italic">"{rec.summary}"</p>
+              </div>
+              <Sparkles className="absolute -right-4 -bottom-4 text-white/10" size={120} />
+            </div>
+
+            <Section icon={<Briefcase size={20} />} color="bg-blue-50 text-blue-600" title="Suggested Career Paths">
+              <CareerPathList paths={rec.careerPaths} />
+            </Section>
+
+            <Section icon={<BookOpen size={20} />} color="bg-purple-50 text-purple-600" title="Internship Roles">
+              <ul className="space-y-3">
+                {rec.internshipRoles.map((role, i) => (
+                  <li key={i} className="flex items-start gap-3">
+                    <div className="mt-1.5 w-1.5 h-1.5 rounded-full bg-purple-400" />
+                    <span className="text-black/70 font-medium">{role}</span>
+                  </li>
+                ))}
+              </ul>
+            </Section>
+
+            <Section icon={<Lightbulb size={20} />} color="bg-amber-50 text-amber-600" title="Skills to Learn Next">
+              <div className="flex flex-wrap gap-2">
+                {rec.skillsToLearn.map((skill, i) => (
+                  <span key={i} className="px-4 py-2 bg-amber-50 text-amber-700 rounded-full text-sm font-semibold border border-amber-100">
+                    {skill}
+                  </span>
+                ))}
+              </div>
+            </Section>
+
+            {shared.roadmap && (
+              <Section icon={<Route size={20} />} color="bg-emerald-50 text-emerald-600" title={`Learning Roadmap: ${shared.roadmap.careerPath}`}>
+                <RoadmapTimeline roadmap={shared.roadmap} />
+              </Section>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import type { NormalizedSkill, SkillCategory } from '../types';
+import {
+  PROFICIENCY_LEVELS,
+  formatSkill,
+  formatSkills,
+  parseInterests,
+  parseSkills,
+  suggestInterests,
+  suggestSkills
+} from '../lib/skills';
+import { SKILL_CATEGORY_LABELS } from '../lib/resume';
+
+interface Props {
+  /** Comma-separated list; always emitted in normalized form. */
+  value: string;
+  onChange: (value: string) => void;
+  /** Skills get alias resolution, categories and levels; interests are plain topics. */
+  kind: 'skills' | 'interests';
+  placeholder?: string;
+}
+
+const CATEGORY_COLORS: Record<SkillCategory, string> = {
+  languages: 'bg-blue-50 text-blue-700 border-blue-100',
+  edaTools: 'bg-purple-50 text-purple-700 border-purple-100',
+  hardwarePlatforms: 'bg-amber-50 text-amber-700 border-amber-100',
+  protocols: 'bg-cyan-50 text-cyan-700 border-cyan-100',
+  other: 'bg-black/5 text-black/70 border-black/5'
+};
+
+const nextLevel = (skill: NormalizedSkill): NormalizedSkill => {
+  const index = skill.level ? PROFICIENCY_LEVELS.indexOf(skill.level) : -1;
+  const level = PROFICIENCY_LEVELS[index + 1];
+  return level ? { ...skill, level } : { name: skill.name, category: skill.category };
+};
+
+/** Chip input with dictionary autocomplete for the skills and interests fields. */
+export default function TagInput({ value, onChange, kind, placeholder }: Props) {
+  const [draft, setDraft] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+
+  const skills = kind === 'skills' ? parseSkills(value) : [];
+  const interests = kind === 'interests' ? parseInterests(value) : [];
+  const names = kind === 'skills' ? skills.map(s => s.name) : interests;
+  const suggestions = kind === 'skills' ? suggestSkills(draft, names) : suggestInterests(draft, names);
+
+  const emit = (items: string[]) => {
+    const text = items.join(', ');
+    onChange(kind === 'skills' ? formatSkills(parseSkills(text)) : parseInterests(text).join(', '));
+  };
+
+  const current = () => (kind === 'skills' ? skills.map(formatSkill) : interests);
+
+  const add = (text: string) => {
+    if (!text.trim()) return;
+    emit([...current(), text]);
+    setDraft('');
+    setHighlighted(0);
+  };
+
+  const removeAt = (index: number) => emit(current().filter((_, i) => i !== index));
+
+  const cycleLevel = (index: number) =>
+    onChange(formatSkills(skills.map((s, i) => (i === index ? nextLevel(s) : s))));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if ((e.key === 'Enter' || e.key === ',') && draft.trim()) {
+      e.preventDefault();
+      add(suggestions.length && e.key === 'Enter' ? suggestions[highlighted] ?? draft : draft);
+    } else if (e.key === 'Backspace' && !draft && names.length) {
+      removeAt(names.length - 1);
+    } else if (e.key === 'ArrowDown' && suggestions.length) {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length) {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Escape') {
+      setDraft('');
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = e.clipboardData.getData('text');
+    if (!/[,;\n]/.test(text)) return;
+    e.preventDefault();
+    emit([...current(), text]);
+  };
+
+  return (
+    <div className="relative">
+      <div className="w-full min-h-[100px] px-3 py-2.5 rounded-xl border border-black/10 bg-white focus-within:ring-2 focus-within:ring-emerald-500/20 focus-within:border-emerald-500 transition-all flex flex-wrap content-start gap-1.5">
+        {kind === 'skills'
+          ? skills.map((skill, i) => (
+              <span
+                key={skill.name}
+                className={`pl-2.5 pr-1 py-1 rounded-lg border text-xs font-medium flex items-center gap-1 ${CATEGORY_COLORS[skill.category]}`}
+              >
+                {skill.name}
+                <button
+                  type="button"
+                  onClick={() => cycleLevel(i)}
+                  title={`${SKILL_CATEGORY_LABELS[skill.category]} · click to set proficiency`}
+                  className="px-1.5 rounded-md bg-white/70 text-[10px] font-bold uppercase tracking-wider opacity-70 hover:opacity-100"
+                >
+                  {skill.level ?? 'level'}
+                </button>
+                <button type="button" onClick={() => removeAt(i)} className="p-0.5 opacity-50 hover:opacity-100">
+                  <X size={12} />
+                </button>
+              </span>
+            ))
+          : interests.map((interest, i) => (
+              <span
+                key={interest}
+                className="pl-2.5 pr-1 py-1 rounded-lg border text-xs font-medium flex items-center gap-1 bg-emerald-50 text-emerald-700 border-emerald-100"
+              >
+                {interest}
+                <button type="button" onClick={() => removeAt(i)} className="p-0.5 opacity-50 hover:opacity-100">
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+        <input
+          type="text"
+          value={draft}
+          placeholder={names.length ? '' : placeholder}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          onBlur={() => add(draft)}
+          className="flex-1 min-w-[120px] py-1 text-sm bg-transparent focus:outline-none"
+        />
+      </div>
+      {draft && suggestions.length > 0 && (
+        <ul className="absolute z-20 left-0 right-0 mt-1 bg-white border border-black/10 rounded-xl shadow-lg overflow-hidden">
+          {suggestions.map((suggestion, i) => (
+            <li key={suggestion}>
+              <button
+                type="button"
+                // Keep focus in the input so blur does not add the half-typed draft first
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => add(suggestion)}
+                className={`w-full text-left px-4 py-2 text-sm transition-all ${i === highlighted ? 'bg-emerald-50 text-emerald-700' : 'hover:bg-black/5'}`}
+              >
+                {suggestion}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
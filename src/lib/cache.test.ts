@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { createWebStorage, recommendationCacheKey, resumeCacheKey } from './cache';
+
+/** A `Storage` over a Map, standing in for `localStorage`. */
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+    clear: () => items.clear()
+  };
+}
+
+const PROFILE = { education: 'B.Tech ECE', skills: 'Verilog, C', interests: 'VLSI' };
+
+describe('createWebStorage', () => {
+  test('clears its own entries and leaves the rest of the storage alone', () => {
+    const storage = memoryStorage();
+    storage.setItem('pathfinder-history', '[]');
+    const cache = createWebStorage(storage);
+    const entry = { value: 1, storedAt: 0, expiresAt: 1 };
+    cache.set('a', entry);
+    cache.set('b', entry);
+
+    cache.clear();
+
+    assert.equal(cache.get('a'), undefined);
+    assert.equal(cache.get('b'), undefined);
+    assert.deepEqual([storage.length, storage.getItem('pathfinder-history')], [1, '[]']);
+  });
+});
+
+describe('cache keys', () => {
+  test('change with the prompt version and model in scope', async () => {
+    const keys = new Set([
+      await recommendationCacheKey(PROFILE),
+      await recommendationCacheKey(PROFILE, ['career_recommendation@2', 'gemini:flash']),
+      await recommendationCacheKey(PROFILE, ['career_recommendation@3', 'gemini:flash']),
+      await recommendationCacheKey(PROFILE, ['career_recommendation@3', 'openai:gpt'])
+    ]);
+    assert.equal(keys.size, 4);
+    assert.notEqual(await resumeCacheKey({ text: 'CV' }, ['a']), await resumeCacheKey({ text: 'CV' }, ['b']));
+  });
+});
@@ -0,0 +1,271 @@
+import type { Cached, RecommendationEngine, RefinementConstraints, ResumeSource } from '../types';
+import { parseInterests, parseSkills, formatSkill } from './skills';
+import { normalizeTerm } from './taxonomy';
+
+/**
+ * Response cache for model calls, shared by the browser and the server. Values
+ * live in a pluggable `CacheStorage` (memory, Web Storage or SQLite), expire
+ * after a TTL, and concurrent loads of the same key share one request.
+ */
+
+export interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface CacheStorage {
+  get(key: string): CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): void;
+}
+
+/** Storage that can also drop every value it holds, e.g. when someone signs out. */
+export interface ClearableStorage extends CacheStorage {
+  clear(): void;
+}
+
+/** In-process storage holding the `maxEntries` most recently stored values. */
+export function createMemoryStorage(maxEntries = 200): ClearableStorage {
+  const entries = new Map<string, CacheEntry>();
+  return {
+    get: (key) => entries.get(key),
+    set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      if (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+    },
+    delete: (key) => {
+      entries.delete(key);
+    },
+    clear: () => entries.clear()
+  };
+}
+
+/** Storage in `localStorage` or `sessionStorage`; a full or unavailable store just stops caching. */
+export function createWebStorage(storage: Storage, prefix = 'pathfinder-cache:'): ClearableStorage {
+  return {
+    get(key) {
+      try {
+        const raw = storage.getItem(prefix + key);
+        return raw ? (JSON.parse(raw) as CacheEntry) : undefined;
+      } catch {
+        return undefined;
+      }
+    },
+    set(key, entry) {
+      try {
+        storage.setItem(prefix + key, JSON.stringify(entry));
+      } catch (err) {
+        console.warn('Could not cache a response', err);
+      }
+    },
+    delete(key) {
+      try {
+        storage.removeItem(prefix + key);
+      } catch {
+        // Nothing to remove
+      }
+    },
+    clear() {
+      try {
+        // Collect first: removing while indexing shifts the remaining keys.
+        const keys = Array.from({ length: storage.length }, (_, i) => storage.key(i));
+        for (const key of keys) if (key?.startsWith(prefix)) storage.removeItem(key);
+      } catch {
+        // Nothing to remove
+      }
+    }
+  };
+}
+
+export interface LoadOptions<T, P> {
+  /** Aborts this caller's wait; the request itself stops once every caller sharing it has aborted. */
+  signal?: AbortSignal;
+  /** Skip a stored value and replace it with a new one ("regenerate anyway"). */
+  refresh?: boolean;
+  /** Progress reported by the request, e.g. partial results while streaming. */
+  onProgress?: (progress: P) => void;
+  /** Whether a new value may be stored; defaults to always. */
+  shouldStore?: (value: T) => boolean;
+}
+
+export interface Loaded<T> {
+  value: T;
+  /** When the value was stored, if it came from the cache rather than a new request. */
+  cachedAt?: number;
+}
+
+export interface ResponseCache {
+  load<T, P = never>(
+    key: string,
+    produce: (signal: AbortSignal, progress: (progress: P) => void) => Promise<T>,
+    options?: LoadOptions<T, P>
+  ): Promise<Loaded<T>>;
+}
+
+interface Flight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+  listeners: Set<(progress: unknown) => void>;
+}
+
+/** A cache over `storage` keeping values for `ttlMs`; a TTL of 0 or less only shares in-flight requests. */
+export function createResponseCache({
+  storage,
+  ttlMs,
+  now = Date.now
+}: {
+  storage: CacheStorage;
+  ttlMs: number;
+  now?: () => number;
+}): ResponseCache {
+  const flights = new Map<string, Flight>();
+
+  const read = (key: string) => {
+    const entry = storage.get(key);
+    if (entry && entry.expiresAt <= now()) {
+      storage.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  const start = <T, P>(
+    key: string,
+    produce: (signal: AbortSignal, progress: (progress: P) => void) => Promise<T>,
+    shouldStore?: (value: T) => boolean
+  ): Flight => {
+    const controller = new AbortController();
+    const listeners = new Set<(progress: unknown) => void>();
+    const flight: Flight = { promise: Promise.resolve(), controller, waiters: 0, listeners };
+    flight.promise = Promise.resolve()
+      .then(() => produce(controller.signal, (progress) => listeners.forEach((listener) => listener(progress))))
+      .then((value) => {
+        if (ttlMs > 0 && !controller.signal.aborted && (shouldStore?.(value) ?? true)) {
+          const storedAt = now();
+          storage.set(key, { value, storedAt, expiresAt: storedAt + ttlMs });
+        }
+        return value;
+      })
+      .finally(() => {
+        if (flights.get(key) === flight) flights.delete(key);
+      });
+    flights.set(key, flight);
+    return flight;
+  };
+
+  const join = <T, P>(key: string, flight: Flight, signal?: AbortSignal, onProgress?: (progress: P) => void) =>
+    new Promise<T>((resolve, reject) => {
+      const listener = onProgress as ((progress: unknown) => void) | undefined;
+      const leave = () => {
+        flight.waiters--;
+        if (listener) flight.listeners.delete(listener);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        leave();
+        // Nobody is waiting any more, so stop the request and let the next caller start afresh.
+        if (flight.waiters === 0) {
+          if (flights.get(key) === flight) flights.delete(key);
+          flight.controller.abort(signal!.reason);
+        }
+        reject(signal!.reason);
+      };
+
+      flight.waiters++;
+      if (listener) flight.listeners.add(listener);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      flight.promise.then(
+        (value) => {
+          leave();
+          resolve(value as T);
+        },
+        (err) => {
+          leave();
+          reject(err);
+        }
+      );
+    });
+
+  return {
+    async load(key, produce, { signal, refresh, onProgress, shouldStore } = {}) {
+      if (signal?.aborted) throw signal.reason;
+      if (!refresh) {
+        const entry = read(key);
+        if (entry) return { value: entry.value as never, cachedAt: entry.storedAt };
+      }
+      // A request already under way is as fresh as a new one, so "refresh" joins it too.
+      const flight = flights.get(key) ?? start(key, produce, shouldStore);
+      return { value: await join(key, flight, signal, onProgress) };
+    }
+  };
+}
+
+/**
+ * `value` noting when it was stored if it came from the cache. A `cachedAt`
+ * already on the value, from an earlier cache layer, is older and wins.
+ */
+export const markCached = <T extends object>({ value, cachedAt }: Loaded<Cached<T>>): Cached<T> =>
+  cachedAt === undefined ? value : { cachedAt: new Date(cachedAt).toISOString(), ...value };
+
+/** JSON with object keys sorted, so equal values always serialize the same way. */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** Hex SHA-256 of `text`, using Web Crypto (available in browsers and Node 20). */
+export async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const sortedUnique = (items: string[]) => Array.from(new Set(items)).sort();
+const skillKeys = (text: string) => sortedUnique(parseSkills(text).map((skill) => formatSkill(skill).toLowerCase()));
+
+export interface RecommendationCacheInput {
+  education: string;
+  skills: string;
+  interests: string;
+  experience?: string;
+  engine?: RecommendationEngine;
+  constraints?: RefinementConstraints;
+}
+
+/**
+ * Cache key for a recommendation request. Inputs are normalized first, so the
+ * same profile typed with different spacing, casing, aliases or ordering hits
+ * the same entry. `scope` holds whatever else decides the output, such as the
+ * prompt version and model.
+ */
+export async function recommendationCacheKey(input: RecommendationCacheInput, scope: string[] = []): Promise<string> {
+  const constraints = input.constraints;
+  const normalized = {
+    scope,
+    engine: input.engine ?? 'ai',
+    education: input.education.trim().replace(/\s+/g, ' ').toLowerCase(),
+    skills: skillKeys(input.skills),
+    interests: sortedUnique(parseInterests(input.interests).map((interest) => interest.toLowerCase())),
+    experience: (input.experience ?? '').trim().replace(/\s+/g, ' ').toLowerCase(),
+    pinned: sortedUnique((constraints?.pinnedPaths ?? []).map(normalizeTerm)),
+    rejected: sortedUnique(
+      (constraints?.rejectedPaths ?? []).map(({ title, reason }) => `${normalizeTerm(title)}|${reason.trim().toLowerCase()}`)
+    ),
+    hypothetical: skillKeys((constraints?.hypotheticalSkills ?? []).join(', '))
+  };
+  return `recommendation:${await sha256(stableStringify(normalized))}`;
+}
+
+/** Cache key for a resume scan: a hash of the reviewed text or of the uploaded file itself. */
+export async function resumeCacheKey(source: ResumeSource, scope: string[] = []): Promise<string> {
+  const content = 'text' in source ? `text:${source.text.trim()}` : `${source.mimeType}:${source.data}`;
+  return `resume:${await sha256(stableStringify({ scope, hash: await sha256(content) }))}`;
+}
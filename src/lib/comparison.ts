@@ -0,0 +1,143 @@
+import type { CareerPath, CareerRecommendation, HistoryItem, NormalizedSkill } from '../types';
+import { parseInterests, parseSkills } from './skills';
+
+/** A career path or skill across the compared items; `presentIn[i]` is true if item `i` has it. */
+export interface ComparedEntry {
+  label: string;
+  presentIn: boolean[];
+  /** Fit score per item for career paths, null where the path is absent. */
+  fitScores?: (number | null)[];
+}
+
+/** What changed between two recommendations, e.g. before and after a refinement. */
+export interface RecommendationDiff {
+  pathsAdded: string[];
+  pathsDropped: string[];
+  fitChanges: { path: string; delta: number }[];
+  skillsToLearnAdded: string[];
+  skillsToLearnDropped: string[];
+  internshipsAdded: string[];
+  internshipsDropped: string[];
+}
+
+export interface ComparisonStep extends Pick<RecommendationDiff, 'pathsAdded' | 'pathsDropped' | 'fitChanges'> {
+  from: HistoryItem;
+  to: HistoryItem;
+  skillsGained: string[];
+  skillsDropped: string[];
+  levelChanges: { skill: string; from?: string; to?: string }[];
+  interestsGained: string[];
+  interestsDropped: string[];
+  educationChanged: boolean;
+}
+
+export interface HistoryComparison {
+  /** The compared items, oldest first. */
+  items: HistoryItem[];
+  careerPaths: ComparedEntry[];
+  skillsToLearn: ComparedEntry[];
+  /** Changes between each item and the one saved after it. */
+  steps: ComparisonStep[];
+}
+
+// Paths are matched by taxonomy track where known, so "VLSI Design Engineer"
+// and "Digital / RTL Design" count as the same path across runs.
+const pathKey = (path: { title: string; trackId?: string }) => path.trackId ?? path.title.trim().toLowerCase();
+
+function collect<T>(
+  items: HistoryItem[],
+  list: (item: HistoryItem) => T[],
+  key: (value: T) => string,
+  label: (value: T) => string,
+  score?: (value: T) => number
+) {
+  const entries = new Map<string, ComparedEntry>();
+  items.forEach((item, i) => {
+    for (const value of list(item)) {
+      const k = key(value);
+      if (!entries.has(k)) {
+        entries.set(k, {
+          label: label(value),
+          presentIn: items.map(() => false),
+          ...(score ? { fitScores: items.map(() => null) } : {})
+        });
+      }
+      const entry = entries.get(k)!;
+      entry.presentIn[i] = true;
+      if (score) entry.fitScores![i] = score(value);
+    }
+  });
+  return Array.from(entries.values());
+}
+
+const difference = (a: string[], b: string[]) => {
+  const lower = new Set(b.map(s => s.toLowerCase()));
+  return a.filter(s => !lower.has(s.toLowerCase()));
+};
+
+export function diffRecommendations(before: CareerRecommendation, after: CareerRecommendation): RecommendationDiff {
+  const fromPaths = new Map(before.careerPaths.map(p => [pathKey(p), p]));
+  const toPaths = new Map(after.careerPaths.map(p => [pathKey(p), p]));
+
+  return {
+    pathsAdded: [...toPaths.keys()].filter(k => !fromPaths.has(k)).map(k => toPaths.get(k)!.title),
+    pathsDropped: [...fromPaths.keys()].filter(k => !toPaths.has(k)).map(k => fromPaths.get(k)!.title),
+    fitChanges: [...toPaths.entries()]
+      .filter(([k, p]) => fromPaths.has(k) && fromPaths.get(k)!.fitScore > 0 && p.fitScore > 0)
+      .map(([k, p]) => ({ path: p.title, delta: p.fitScore - fromPaths.get(k)!.fitScore }))
+      .filter(change => change.delta !== 0),
+    skillsToLearnAdded: difference(after.skillsToLearn, before.skillsToLearn),
+    skillsToLearnDropped: difference(before.skillsToLearn, after.skillsToLearn),
+    internshipsAdded: difference(after.internshipRoles, before.internshipRoles),
+    internshipsDropped: difference(before.internshipRoles, after.internshipRoles)
+  };
+}
+
+export const isEmptyDiff = (diff: RecommendationDiff) => Object.values(diff).every(list => list.length === 0);
+
+function compareStep(from: HistoryItem, to: HistoryItem): ComparisonStep {
+  const before = parseSkills(from.inputs.skills);
+  const after = parseSkills(to.inputs.skills);
+  const byName = new Map<string, NormalizedSkill>(before.map(s => [s.name.toLowerCase(), s]));
+  const levelChanges = after
+    .filter(s => byName.has(s.name.toLowerCase()) && byName.get(s.name.toLowerCase())!.level !== s.level)
+    .map(s => ({ skill: s.name, from: byName.get(s.name.toLowerCase())!.level, to: s.level }));
+
+  const { pathsAdded, pathsDropped, fitChanges } = diffRecommendations(from.recommendation, to.recommendation);
+
+  return {
+    from,
+    to,
+    skillsGained: difference(after.map(s => s.name), before.map(s => s.name)),
+    skillsDropped: difference(before.map(s => s.name), after.map(s => s.name)),
+    levelChanges,
+    interestsGained: difference(parseInterests(to.inputs.interests), parseInterests(from.inputs.interests)),
+    interestsDropped: difference(parseInterests(from.inputs.interests), parseInterests(to.inputs.interests)),
+    pathsAdded,
+    pathsDropped,
+    fitChanges,
+    educationChanged: from.inputs.education.trim() !== to.inputs.education.trim()
+  };
+}
+
+/**
+ * Lines up saved roadmaps for side-by-side review. `items` may be in any
+ * order; they are compared oldest first using the order of `chronology`
+ * (the history list, newest first).
+ */
+export function compareHistoryItems(items: HistoryItem[], chronology: HistoryItem[]): HistoryComparison {
+  const position = new Map(chronology.map((item, i) => [item.id, i]));
+  const ordered = [...items].sort((a, b) => (position.get(b.id) ?? 0) - (position.get(a.id) ?? 0));
+
+  const careerPaths = collect<CareerPath>(ordered, item => item.recommendation.careerPaths, pathKey, p => p.title, p => p.fitScore);
+
+  return {
+    items: ordered,
+    careerPaths,
+    skillsToLearn: collect(ordered, item => item.recommendation.skillsToLearn, s => s.toLowerCase(), s => s),
+    steps: ordered.slice(1).map((item, i) => compareStep(ordered[i], item))
+  };
+}
+
+export const isShared = (entry: ComparedEntry) => entry.presentIn.every(Boolean);
+export const isUnique = (entry: ComparedEntry) => entry.presentIn.filter(Boolean).length === 1;
@@ -0,0 +1,117 @@
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { ResumeSource } from '../types';
+
+export const MAX_RESUME_BYTES = 10 * 1024 * 1024;
+
+export type ResumeKind = 'pdf' | 'docx' | 'txt';
+
+/** A resume file that cannot be read locally, with a message fit for the UI. */
+export class DocumentIngestionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentIngestionError';
+  }
+}
+
+const MIME_TYPES: Record<ResumeKind, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  txt: 'text/plain'
+};
+
+export const ACCEPTED_EXTENSIONS = '.pdf,.docx,.txt';
+
+export function detectKind(file: File): ResumeKind | null {
+  const name = file.name.toLowerCase();
+  if (file.type === MIME_TYPES.pdf || name.endsWith('.pdf')) return 'pdf';
+  if (file.type === MIME_TYPES.docx || name.endsWith('.docx')) return 'docx';
+  if (file.type === MIME_TYPES.txt || name.endsWith('.txt')) return 'txt';
+  return null;
+}
+
+/** Checks type and size, throwing a `DocumentIngestionError` explaining any problem. */
+export function validateResumeFile(file: File): ResumeKind {
+  if (file.name.toLowerCase().endsWith('.doc') || file.type === 'application/msword') {
+    throw new DocumentIngestionError('Legacy .doc files cannot be read. Save the resume as DOCX or PDF and try again.');
+  }
+  const kind = detectKind(file);
+  if (!kind) {
+    throw new DocumentIngestionError('Please upload a PDF, DOCX or TXT file.');
+  }
+  if (file.size > MAX_RESUME_BYTES) {
+    const sizeMb = (file.size / 1024 / 1024).toFixed(1);
+    throw new DocumentIngestionError(`This file is ${sizeMb} MB; files must be under ${MAX_RESUME_BYTES / 1024 / 1024} MB.`);
+  }
+  if (file.size === 0) {
+    throw new DocumentIngestionError('This file is empty.');
+  }
+  return kind;
+}
+
+// The PDF and DOCX parsers are loaded on first use to keep them out of the main bundle.
+async function extractPdfText(data: ArrayBuffer): Promise<string> {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  const pages: string[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const content = await page.getTextContent();
+    pages.push(
+      content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('')
+    );
+  }
+  await pdf.destroy();
+  return pages.join('\n\n');
+}
+
+const tidy = (text: string) =>
+  text
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+export async function extractText(file: File, kind: ResumeKind = validateResumeFile(file)): Promise<string> {
+  try {
+    switch (kind) {
+      case 'txt':
+        return tidy(await file.text());
+      case 'docx': {
+        const { default: mammoth } = await import('mammoth');
+        const { value } = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+        return tidy(value);
+      }
+      case 'pdf':
+        return tidy(await extractPdfText(await file.arrayBuffer()));
+    }
+  } catch (err) {
+    console.error('Text extraction failed', err);
+    throw new DocumentIngestionError(`Could not read text from ${file.name}. The file may be damaged or password-protected.`);
+  }
+}
+
+const fileToBase64 = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => {
+      const base64String = (reader.result as string).split(',')[1];
+      resolve(base64String);
+    };
+    reader.onerror = (error) => reject(error);
+  });
+};
+
+/**
+ * What to send to `scanResume`: the reviewed text when there is any, otherwise
+ * the original file so the model can OCR it (e.g. a scanned, image-only PDF).
+ */
+export async function toResumeSource(file: File, kind: ResumeKind, text: string): Promise<ResumeSource> {
+  if (text.trim()) return { text };
+  if (kind !== 'pdf') {
+    throw new DocumentIngestionError(`No text was found in ${file.name}.`);
+  }
+  return { data: await fileToBase64(file), mimeType: MIME_TYPES[kind] };
+}
@@ -0,0 +1,21 @@
+import type { AIErrorCategory } from '../types';
+import { ApiError } from '../services/http';
+import { DocumentIngestionError } from './documentIngestion';
+import { ImportError } from './export';
+
+const ERROR_LABELS: Record<AIErrorCategory, string> = {
+  network: 'Connection problem',
+  quota: 'AI quota reached',
+  rate_limit: 'Too many requests',
+  safety: 'Blocked by safety filters',
+  malformed_output: 'Incomplete AI response',
+  unknown: 'Something went wrong'
+};
+
+/** Turns a thrown error into a message for the UI, prefixed with its failure category. */
+export const describeError = (err: unknown, fallback: string) =>
+  err instanceof ApiError
+    ? `${ERROR_LABELS[err.category]}: ${err.message}`
+    : err instanceof DocumentIngestionError || err instanceof ImportError
+      ? err.message
+      : fallback;
@@ -0,0 +1,177 @@
+import { createElement } from 'react';
+import type { HistoryItem } from '../types';
+import { formatSalaryBand } from './format';
+import { PROJECT_STATUS_LABELS } from './projects';
+
+/** Bump when the exported JSON shape changes in a way importers must handle. */
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export interface HistoryExport {
+  schemaVersion: number;
+  exportedAt: string;
+  items: HistoryItem[];
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+const list = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+
+/** A readable report of one saved roadmap; also the source of the printable PDF. */
+export function toMarkdown(item: HistoryItem): string {
+  const { recommendation: rec, inputs, roadmap } = item;
+  const sections: string[] = [
+    `# ${item.title}`,
+    `_Saved ${item.date}_`,
+    '## Profile',
+    list([
+      `**Education:** ${inputs.education}`,
+      `**Skills:** ${inputs.skills}`,
+      `**Interests:** ${inputs.interests}`,
+      ...(inputs.experience ? [`**Experience:** ${inputs.experience.split('\n').join('; ')}`] : [])
+    ]),
+    '## Summary',
+    `> ${rec.summary}`,
+    '## Career Paths'
+  ];
+
+  rec.careerPaths.forEach((path, i) => {
+    sections.push(`### ${i + 1}. ${path.title}${path.fitScore > 0 ? ` — ${path.fitScore}% fit` : ''}`);
+    if (path.rationale) sections.push(path.rationale);
+    const details = [
+      path.entryLevelTitles.length && `**Entry-level titles:** ${path.entryLevelTitles.join(', ')}`,
+      path.exampleEmployers.length && `**Example employers:** ${path.exampleEmployers.join(', ')}`,
+      path.transferableSkills.length && `**Skills that transfer:** ${path.transferableSkills.join(', ')}`,
+      ...path.salaryBands.map(band => `**Entry-level pay (${band.region}):** ${formatSalaryBand(band)}`)
+    ].filter(Boolean) as string[];
+    if (details.length) sections.push(list(details));
+  });
+
+  sections.push('## Internship Roles', list(rec.internshipRoles), '## Skills to Learn', list(rec.skillsToLearn));
+
+  if (roadmap) {
+    sections.push(`## Learning Roadmap: ${roadmap.careerPath}`, `_About ${roadmap.totalHours} hours in total_`);
+    for (const milestone of roadmap.milestones) {
+      sections.push(
+        `### ${milestone.period} — ${milestone.title}`,
+        list([
+          `**Skills:** ${milestone.skills.join(', ')}`,
+          `**Project:** ${milestone.project.title} — ${milestone.project.description}`,
+          `**Estimated effort:** ${milestone.estimatedHours} hours`
+        ])
+      );
+    }
+  }
+
+  if (item.projects?.ideas.length) {
+    sections.push(`## Project Ideas: ${item.projects.careerPath}`);
+    for (const idea of item.projects.ideas) {
+      sections.push(
+        `### ${idea.title} (${idea.level})${idea.status ? ` — ${PROJECT_STATUS_LABELS[idea.status]}` : ''}`,
+        idea.description,
+        list(
+          [
+            `**Skills covered:** ${idea.skillsCovered.join(', ')}`,
+            idea.billOfMaterials.length &&
+              `**Bill of materials:** ${idea.billOfMaterials.map(part => `${part.quantity}× ${part.name}`).join(', ')}`,
+            idea.tools.length && `**Tools:** ${idea.tools.join(', ')}`,
+            `**You will learn to:** ${idea.learningOutcomes.join('; ')}`,
+            `**Estimated effort:** ${idea.estimatedHours} hours`
+          ].filter(Boolean) as string[]
+        )
+      );
+    }
+  }
+
+  if (item.conversation?.length) {
+    sections.push('## Follow-up Questions');
+    for (const message of item.conversation) {
+      sections.push(message.role === 'user' ? `**Q:** ${message.content}` : message.content);
+    }
+  }
+
+  return sections.join('\n\n') + '\n';
+}
+
+export function toExportJson(items: HistoryItem[]): string {
+  const payload: HistoryExport = {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    items
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+/**
+ * Reads an exported JSON file. Only the envelope is checked here; each item
+ * is checked on import with `parseHistoryItem`, by the server or, for guests,
+ * in this browser.
+ */
+export function parseExportJson(text: string): HistoryItem[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportError('This file is not valid JSON.');
+  }
+
+  const payload = data as Partial<HistoryExport>;
+  if (!payload || typeof payload !== 'object' || typeof payload.schemaVersion !== 'number' || !Array.isArray(payload.items)) {
+    throw new ImportError('This file is not a roadmap export.');
+  }
+  if (payload.schemaVersion > EXPORT_SCHEMA_VERSION) {
+    throw new ImportError('This file was exported by a newer version of the app.');
+  }
+  return payload.items;
+}
+
+export const fileName = (title: string, extension: string) =>
+  `${title.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'roadmap'}.${extension}`;
+
+export function downloadFile(name: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const PRINT_STYLES = `
+  body { font-family: Inter, system-ui, sans-serif; color: #111; max-width: 720px; margin: 40px auto; line-height: 1.55; font-size: 13px; }
+  h1 { font-size: 24px; margin-bottom: 4px; }
+  h2 { font-size: 16px; margin-top: 28px; padding-bottom: 4px; border-bottom: 1px solid #ddd; color: #047857; }
+  h3 { font-size: 14px; margin-bottom: 4px; }
+  blockquote { margin: 0; padding: 8px 14px; background: #ecfdf5; border-left: 3px solid #059669; }
+  ul { padding-left: 18px; }
+  h3, li { break-inside: avoid; }
+`;
+
+/**
+ * Opens the browser print dialog on a formatted report, from which students
+ * save a PDF. Rendered in a hidden iframe so the app itself is not printed.
+ */
+export async function printReport(item: HistoryItem) {
+  const [{ renderToStaticMarkup }, { default: Markdown }] = await Promise.all([
+    import('react-dom/server'),
+    import('react-markdown')
+  ]);
+  const body = renderToStaticMarkup(createElement(Markdown, null, toMarkdown(item)));
+
+  const frame = document.createElement('iframe');
+  frame.style.cssText = 'position:fixed;width:0;height:0;border:0;';
+  document.body.appendChild(frame);
+  const doc = frame.contentDocument!;
+  doc.open();
+  doc.write(`<!doctype html><html><head><title>${item.title.replace(/</g, '&lt;')}</title><style>${PRINT_STYLES}</style></head><body>${body}</body></html>`);
+  doc.close();
+
+  frame.contentWindow!.focus();
+  frame.contentWindow!.print();
+  // print() blocks until the dialog closes in most browsers; give the rest a moment
+  setTimeout(() => frame.remove(), 1000);
+}
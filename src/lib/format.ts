@@ -0,0 +1,39 @@
+import type { SalaryBand } from '../types';
+
+export const formatSalaryBand = (band: SalaryBand) => {
+  const format = (value: number) => {
+    try {
+      return new Intl.NumberFormat(undefined, {
+        style: 'currency',
+        currency: band.currency,
+        notation: 'compact',
+        maximumFractionDigits: 1
+      }).format(value);
+    } catch {
+      // Unknown currency code from the model
+      return `${band.currency} ${value.toLocaleString()}`;
+    }
+  };
+  return `${format(band.min)} – ${format(band.max)}`;
+};
+
+const TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['day', 86_400_000],
+  ['hour', 3_600_000],
+  ['minute', 60_000]
+];
+
+/** "5 minutes ago", or "just now" for anything under a minute. */
+export const formatTimeAgo = (iso: string, now = Date.now()) => {
+  const elapsed = now - new Date(iso).getTime();
+  const unit = TIME_UNITS.find(([, ms]) => elapsed >= ms);
+  if (!unit) return 'just now';
+  return new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' }).format(-Math.floor(elapsed / unit[1]), unit[0]);
+};
+
+/** A wait as "42s", "4:05" or "3h 12m". */
+export const formatDuration = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { CareerPath } from '../types';
+import { isStoredRecommendation, parseHistoryItem, upgradeRecommendation } from './history';
+
+const PATH: CareerPath = {
+  title: 'FPGA Design',
+  fitScore: 80,
+  rationale: 'You know Verilog.',
+  entryLevelTitles: ['FPGA Engineer'],
+  exampleEmployers: ['AMD'],
+  salaryBands: [],
+  transferableSkills: ['Verilog']
+};
+
+describe('upgradeRecommendation', () => {
+  test('turns career paths saved as plain titles into path objects', () => {
+    const upgraded = upgradeRecommendation({
+      careerPaths: ['VLSI Design Engineer', 'Embedded Systems Engineer'],
+      internshipRoles: ['VLSI Intern'],
+      skillsToLearn: ['SystemVerilog'],
+      summary: 'Old roadmap.'
+    });
+    assert.deepEqual(
+      upgraded.careerPaths.map((path) => [path.title, path.fitScore, path.entryLevelTitles]),
+      [
+        ['VLSI Design Engineer', 0, []],
+        ['Embedded Systems Engineer', 0, []]
+      ]
+    );
+    assert.deepEqual(upgraded.skillsToLearn, ['SystemVerilog']);
+    assert.equal(upgraded.summary, 'Old roadmap.');
+  });
+
+  test('leaves current recommendations unchanged', () => {
+    const current = { careerPaths: [PATH], internshipRoles: [], skillsToLearn: [], summary: 'New.' };
+    assert.deepEqual(upgradeRecommendation(current), current);
+  });
+});
+
+describe('isStoredRecommendation', () => {
+  test('accepts current and legacy recommendations', () => {
+    assert.ok(isStoredRecommendation({ careerPaths: [PATH], internshipRoles: [], skillsToLearn: [], summary: '' }));
+    assert.ok(isStoredRecommendation({ careerPaths: ['VLSI Engineer'], internshipRoles: [], skillsToLearn: [], summary: '' }));
+  });
+
+  test('rejects anything without a list of paths', () => {
+    for (const value of [null, undefined, 'VLSI', 42, {}, { careerPaths: 'VLSI' }, { careerPaths: [1, 2] }]) {
+      assert.equal(isStoredRecommendation(value), false, JSON.stringify(value));
+    }
+  });
+});
+
+describe('parseHistoryItem', () => {
+  const item = {
+    id: 'h1',
+    title: 'Old plan',
+    date: '1 Jan 2024',
+    recommendation: {
+      careerPaths: ['VLSI Engineer'],
+      internshipRoles: ['VLSI Intern'],
+      skillsToLearn: ['UVM'],
+      summary: ''
+    },
+    inputs: { education: 'B.Tech ECE', skills: 'Verilog', interests: 'VLSI' }
+  };
+
+  test('upgrades legacy career paths', () => {
+    assert.equal(parseHistoryItem(item)?.recommendation.careerPaths[0].title, 'VLSI Engineer');
+  });
+
+  test('rejects items the server would not save', () => {
+    const broken = [
+      null,
+      { ...item, id: 42 },
+      { ...item, inputs: undefined },
+      { ...item, recommendation: { ...item.recommendation, internshipRoles: [] } },
+      { ...item, recommendation: { ...item.recommendation, careerPaths: [{ title: 'VLSI Engineer' }] } }
+    ];
+    for (const value of broken) assert.equal(parseHistoryItem(value), undefined, JSON.stringify(value));
+  });
+});
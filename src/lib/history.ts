@@ -0,0 +1,57 @@
+import type { CareerPath, CareerRecommendation, HistoryItem } from '../types';
+import { historyItemSchema } from './schemas';
+import { validateSchema } from './validation';
+
+/**
+ * Saved roadmaps as read back from storage or an export file, shared by the
+ * server and by guests, who keep roadmaps in this browser.
+ */
+
+/** A recommendation as saved before career paths became structured objects, when they could be plain titles. */
+export type StoredRecommendation = Omit<CareerRecommendation, 'careerPaths'> & {
+  careerPaths: (CareerPath | string)[];
+};
+
+/** Whether a saved or imported value has the shape `upgradeRecommendation` can work on. */
+export const isStoredRecommendation = (value: unknown): value is StoredRecommendation =>
+  typeof value === 'object' &&
+  value !== null &&
+  Array.isArray((value as { careerPaths?: unknown }).careerPaths) &&
+  (value as { careerPaths: unknown[] }).careerPaths.every(
+    (path) => typeof path === 'string' || (typeof path === 'object' && path !== null)
+  );
+
+/** Upgrades roadmaps saved while `careerPaths` was a plain list of titles. */
+export function upgradeRecommendation(recommendation: StoredRecommendation): CareerRecommendation {
+  return {
+    ...recommendation,
+    careerPaths: recommendation.careerPaths.map((path) =>
+      typeof path === 'string'
+        ? {
+            title: path,
+            fitScore: 0,
+            rationale: '',
+            entryLevelTitles: [],
+            exampleEmployers: [],
+            salaryBands: [],
+            transferableSkills: []
+          }
+        : path
+    )
+  };
+}
+
+/**
+ * An exported or stored roadmap, upgraded and checked against the schema the
+ * server saves with, or undefined if it does not pass.
+ */
+export function parseHistoryItem(value: unknown): HistoryItem | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const item = value as Record<string, unknown>;
+  const upgraded = isStoredRecommendation(item.recommendation)
+    ? { ...item, recommendation: upgradeRecommendation(item.recommendation) }
+    : item;
+  return typeof upgraded.id === 'string' && !validateSchema(upgraded, historyItemSchema).length
+    ? (upgraded as unknown as HistoryItem)
+    : undefined;
+}
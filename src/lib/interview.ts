@@ -0,0 +1,32 @@
+import type { InterviewSession, ProficiencyLevel } from '../types';
+import { PROFICIENCY_LEVELS, parseSkills } from './skills';
+
+/** Scores below this are treated as a weak area worth retrying. */
+export const PASSING_SCORE = 6;
+
+/** The level the student most often gives their skills, or beginner if they give none. */
+export function defaultInterviewLevel(skills: string): ProficiencyLevel {
+  const counts = new Map<ProficiencyLevel, number>();
+  for (const { level } of parseSkills(skills)) {
+    if (level) counts.set(level, (counts.get(level) ?? 0) + 1);
+  }
+  let best: ProficiencyLevel = 'beginner';
+  for (const level of PROFICIENCY_LEVELS) {
+    if ((counts.get(level) ?? 0) > (counts.get(best) ?? 0)) best = level;
+  }
+  return best;
+}
+
+export const gradedQuestions = (session: InterviewSession) => session.questions.filter(q => q.feedback);
+
+/** Mean score of the graded answers, rounded to one decimal; null until something is graded. */
+export function averageScore(session: InterviewSession): number | null {
+  const graded = gradedQuestions(session);
+  if (!graded.length) return null;
+  const total = graded.reduce((sum, q) => sum + q.feedback!.score, 0);
+  return Math.round((total / graded.length) * 10) / 10;
+}
+
+/** Topics of graded answers that scored below passing, without duplicates. */
+export const weakTopics = (session: InterviewSession) =>
+  Array.from(new Set(gradedQuestions(session).filter(q => q.feedback!.score < PASSING_SCORE).map(q => q.topic)));
@@ -0,0 +1,29 @@
+import type { ProjectPlan, ProjectStatus } from '../types';
+
+export const PROJECT_STATUSES: ProjectStatus[] = ['planned', 'in-progress', 'done'];
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  planned: 'Planned',
+  'in-progress': 'In progress',
+  done: 'Done'
+};
+
+/**
+ * New ideas for `careerPath`, keeping every project the student has already
+ * taken on (from any path) ahead of them.
+ */
+export function mergeProjectPlans(previous: ProjectPlan | null | undefined, next: ProjectPlan): ProjectPlan {
+  const tracked = previous?.ideas.filter(idea => idea.status) ?? [];
+  const titles = new Set(tracked.map(idea => idea.title.toLowerCase()));
+  return {
+    ...next,
+    ideas: [...tracked, ...next.ideas.filter(idea => !titles.has(idea.title.toLowerCase()))]
+  };
+}
+
+/** How many projects are in each status, for progress summaries. */
+export function projectProgress(plan: ProjectPlan): Record<ProjectStatus, number> {
+  const counts: Record<ProjectStatus, number> = { planned: 0, 'in-progress': 0, done: 0 };
+  for (const idea of plan.ideas) if (idea.status) counts[idea.status]++;
+  return counts;
+}
@@ -0,0 +1,66 @@
+import type { CareerRecommendation, RecommendationVersion, RefinementConstraints } from '../types';
+import { CAREER_TRACKS, findTrack, normalizeTerm } from './taxonomy';
+import { formatSkills, parseSkills } from './skills';
+
+export const emptyConstraints = (): RefinementConstraints => ({
+  pinnedPaths: [],
+  rejectedPaths: [],
+  hypotheticalSkills: []
+});
+
+export const hasConstraints = (c: RefinementConstraints) =>
+  c.pinnedPaths.length > 0 || c.rejectedPaths.length > 0 || c.hypotheticalSkills.length > 0;
+
+/** Whether two path titles name the same career path, by taxonomy track where both are known. */
+export function samePath(a: string, b: string): boolean {
+  if (normalizeTerm(a) === normalizeTerm(b)) return true;
+  const [trackA, trackB] = [findTrack(a), findTrack(b)];
+  return !!trackA && trackA.id === trackB?.id;
+}
+
+export const isPinned = (c: RefinementConstraints, title: string) => c.pinnedPaths.some(p => samePath(p, title));
+export const isRejected = (c: RefinementConstraints, title: string) =>
+  c.rejectedPaths.some(r => samePath(r.title, title));
+
+/** Whether every track in the catalog is rejected, which leaves nothing to recommend. */
+export const rejectsEveryTrack = (c: RefinementConstraints) => CAREER_TRACKS.every(track => isRejected(c, track.name));
+
+/** The student's skills with the hypothetical ones added, in normalized form. */
+export const withHypotheticalSkills = (skills: string, c: RefinementConstraints) =>
+  c.hypotheticalSkills.length ? formatSkills(parseSkills([skills, ...c.hypotheticalSkills].join(', '))) : skills;
+
+/** Problems with a recommendation that ignores pinned or rejected paths. */
+export function constraintIssues(rec: CareerRecommendation, c: RefinementConstraints): string[] {
+  const titles = rec.careerPaths.map(p => p.title);
+  return [
+    ...c.pinnedPaths
+      .filter(pinned => !titles.some(title => samePath(pinned, title)))
+      .map(pinned => `$.careerPaths must include the pinned path "${pinned}"`),
+    ...rec.careerPaths
+      .map((path, i) => ({ path, i }))
+      .filter(({ path }) => isRejected(c, path.title))
+      .map(({ path, i }) => `$.careerPaths[${i}].title "${path.title}" was rejected by the student`)
+  ];
+}
+
+/** Short label for a version in the chain, e.g. "Pinned FPGA · +Cadence Virtuoso". */
+export function describeConstraints(c: RefinementConstraints): string {
+  const parts = [
+    ...c.pinnedPaths.map(p => `Pinned ${p}`),
+    ...c.rejectedPaths.map(r => `Rejected ${r.title}`),
+    ...c.hypotheticalSkills.map(s => `+${s}`)
+  ];
+  return parts.length ? parts.join(' · ') : 'Original';
+}
+
+export const newVersion = (
+  recommendation: CareerRecommendation,
+  constraints: RefinementConstraints,
+  parentId: string | null
+): RecommendationVersion => ({
+  id: crypto.randomUUID(),
+  parentId,
+  recommendation,
+  constraints,
+  createdAt: new Date().toISOString()
+});
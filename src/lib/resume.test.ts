@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { ResumeData } from '../types';
+import { resumeToProfile } from './resume';
+
+const RESUME: ResumeData = {
+  education: [{ degree: 'B.Tech ECE', institution: 'NIT Trichy', year: '2026', cgpa: '8.4', confidence: 0.9 }],
+  skills: {
+    languages: [{ name: 'Verilog', confidence: 0.9 }],
+    edaTools: [{ name: 'Xilinx Vivado', confidence: 0.8 }],
+    hardwarePlatforms: [],
+    protocols: [{ name: 'SPI', confidence: 0.7 }],
+    other: []
+  },
+  projects: [
+    {
+      title: '8-bit RISC processor',
+      description: 'Synthesised on a Basys 3 board',
+      technologies: ['Verilog', 'Vivado'],
+      confidence: 0.8
+    }
+  ],
+  internships: [
+    { organization: 'DRDO', role: 'Signal processing intern', duration: '2 months', description: '', confidence: 0.7 }
+  ],
+  certifications: [{ name: 'VLSI Design', issuer: 'NPTEL', year: '2025', confidence: 0.9 }],
+  interests: [{ name: 'VLSI', confidence: 0.6 }]
+};
+
+describe('resumeToProfile', () => {
+  test('flattens education, skills and interests', () => {
+    const profile = resumeToProfile(RESUME);
+    assert.equal(profile.education, 'B.Tech ECE, NIT Trichy (2026), CGPA 8.4');
+    assert.match(profile.skills, /Verilog/);
+    assert.match(profile.skills, /SPI/);
+    assert.match(profile.interests, /VLSI/);
+  });
+
+  test('keeps projects, internships and certifications as experience', () => {
+    assert.equal(
+      resumeToProfile(RESUME).experience,
+      [
+        'Project: 8-bit RISC processor (Verilog, Vivado) – Synthesised on a Basys 3 board',
+        'Internship: Signal processing intern, DRDO (2 months)',
+        'Certification: VLSI Design, NPTEL (2025)'
+      ].join('\n')
+    );
+  });
+
+  test('leaves experience out when the resume has none', () => {
+    const profile = resumeToProfile({ ...RESUME, projects: [], internships: [], certifications: [] });
+    assert.equal('experience' in profile, false);
+  });
+});
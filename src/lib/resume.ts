@@ -0,0 +1,64 @@
+import type { ExtractedSkill, ProfileInputs, ResumeData, ResumeSkills } from '../types';
+import { normalizeInterestText, normalizeSkillText } from './skills';
+
+export const SKILL_CATEGORY_LABELS: Record<keyof ResumeSkills, string> = {
+  languages: 'Languages',
+  edaTools: 'EDA Tools',
+  hardwarePlatforms: 'Hardware Platforms',
+  protocols: 'Protocols',
+  other: 'Other'
+};
+
+/** Below this confidence a field is flagged for the student to double-check. */
+export const LOW_CONFIDENCE = 0.6;
+
+const names = (skills: ExtractedSkill[]) => skills.map(s => s.name.trim()).filter(Boolean);
+
+/** Projects, internships and certifications as one line each, for the profile's `experience`. */
+export function resumeExperience(data: ResumeData): string {
+  const detail = (text: string) => (text.trim() ? ` – ${text.trim()}` : '');
+  const projects = data.projects
+    .filter(p => p.title.trim())
+    .map(p => {
+      const technologies = p.technologies.map(t => t.trim()).filter(Boolean);
+      return `Project: ${p.title.trim()}${technologies.length ? ` (${technologies.join(', ')})` : ''}${detail(p.description)}`;
+    });
+  const internships = data.internships
+    .filter(i => i.role.trim() || i.organization.trim())
+    .map(i => {
+      const where = [i.role, i.organization].map(part => part.trim()).filter(Boolean).join(', ');
+      return `Internship: ${where}${i.duration.trim() ? ` (${i.duration.trim()})` : ''}${detail(i.description)}`;
+    });
+  const certifications = data.certifications
+    .filter(c => c.name.trim())
+    .map(c => {
+      const issuer = c.issuer.trim() ? `, ${c.issuer.trim()}` : '';
+      return `Certification: ${c.name.trim()}${issuer}${c.year.trim() ? ` (${c.year.trim()})` : ''}`;
+    });
+  return [...projects, ...internships, ...certifications].join('\n');
+}
+
+/** Flattens reviewed resume data into the free-text profile used for recommendations. */
+export function resumeToProfile(data: ResumeData): ProfileInputs {
+  const education = data.education
+    .map(e => {
+      const parts = [e.degree, e.institution].filter(Boolean).join(', ');
+      const year = e.year ? ` (${e.year})` : '';
+      const cgpa = e.cgpa ? `, CGPA ${e.cgpa}` : '';
+      return `${parts}${year}${cgpa}`;
+    })
+    .filter(Boolean)
+    .join('; ');
+
+  const skills = (Object.keys(SKILL_CATEGORY_LABELS) as (keyof ResumeSkills)[])
+    .flatMap(key => names(data.skills[key]))
+    .join(', ');
+
+  const experience = resumeExperience(data);
+  return {
+    education,
+    skills: normalizeSkillText(skills),
+    interests: normalizeInterestText(names(data.interests).join(', ')),
+    ...(experience ? { experience } : {})
+  };
+}
@@ -0,0 +1,381 @@
+import type { JsonSchema } from './validation';
+
+const confidenceSchema: JsonSchema = { type: 'number', minimum: 0, maximum: 1 };
+
+const extractedSkillSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    confidence: confidenceSchema
+  },
+  required: ['name', 'confidence']
+};
+
+const skillListSchema: JsonSchema = { type: 'array', items: extractedSkillSchema };
+
+export const resumeDataSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    education: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          degree: { type: 'string' },
+          institution: { type: 'string' },
+          year: { type: 'string' },
+          cgpa: { type: 'string' },
+          confidence: confidenceSchema
+        },
+        required: ['degree', 'institution', 'year', 'cgpa', 'confidence']
+      }
+    },
+    skills: {
+      type: 'object',
+      properties: {
+        languages: skillListSchema,
+        edaTools: skillListSchema,
+        hardwarePlatforms: skillListSchema,
+        protocols: skillListSchema,
+        other: skillListSchema
+      },
+      required: ['languages', 'edaTools', 'hardwarePlatforms', 'protocols', 'other']
+    },
+    projects: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          description: { type: 'string' },
+          technologies: { type: 'array', items: { type: 'string' } },
+          confidence: confidenceSchema
+        },
+        required: ['title', 'description', 'technologies', 'confidence']
+      }
+    },
+    internships: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          organization: { type: 'string' },
+          role: { type: 'string' },
+          duration: { type: 'string' },
+          description: { type: 'string' },
+          confidence: confidenceSchema
+        },
+        required: ['organization', 'role', 'duration', 'description', 'confidence']
+      }
+    },
+    certifications: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          issuer: { type: 'string' },
+          year: { type: 'string' },
+          confidence: confidenceSchema
+        },
+        required: ['name', 'issuer', 'year', 'confidence']
+      }
+    },
+    interests: skillListSchema
+  },
+  required: ['education', 'skills', 'projects', 'internships', 'certifications', 'interests']
+};
+
+const salaryBandSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    region: { type: 'string' },
+    currency: { type: 'string', description: 'ISO 4217 currency code' },
+    min: { type: 'number', minimum: 0 },
+    max: { type: 'number', minimum: 0 }
+  },
+  required: ['region', 'currency', 'min', 'max']
+};
+
+export const careerPathSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    fitScore: { type: 'integer', minimum: 0, maximum: 100 },
+    rationale: { type: 'string' },
+    entryLevelTitles: { type: 'array', items: { type: 'string' } },
+    exampleEmployers: { type: 'array', items: { type: 'string' } },
+    salaryBands: { type: 'array', items: salaryBandSchema },
+    transferableSkills: { type: 'array', items: { type: 'string' } }
+  },
+  required: [
+    'title',
+    'fitScore',
+    'rationale',
+    'entryLevelTitles',
+    'exampleEmployers',
+    'salaryBands',
+    'transferableSkills'
+  ]
+};
+
+export const careerRecommendationSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    careerPaths: {
+      type: 'array',
+      items: careerPathSchema,
+      minItems: 1
+    },
+    internshipRoles: {
+      type: 'array',
+      items: { type: 'string' },
+      minItems: 1
+    },
+    skillsToLearn: {
+      type: 'array',
+      items: { type: 'string' },
+      minItems: 1
+    },
+    summary: {
+      type: 'string'
+    }
+  },
+  required: ['careerPaths', 'internshipRoles', 'skillsToLearn', 'summary']
+};
+
+const milestoneSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    period: { type: 'string' },
+    skills: { type: 'array', items: { type: 'string' }, minItems: 1 },
+    prerequisites: { type: 'array', items: { type: 'string' } },
+    project: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        description: { type: 'string' }
+      },
+      required: ['title', 'description']
+    },
+    estimatedHours: { type: 'number', minimum: 0 }
+  },
+  required: ['id', 'title', 'period', 'skills', 'prerequisites', 'project', 'estimatedHours']
+};
+
+/** What the model returns; `careerPath` and `totalHours` are filled in by the server. */
+export const roadmapResponseSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    milestones: { type: 'array', items: milestoneSchema, minItems: 1 }
+  },
+  required: ['milestones']
+};
+
+export const learningRoadmapSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    careerPath: { type: 'string' },
+    granularity: { type: 'string', enum: ['week', 'month'] },
+    totalHours: { type: 'number', minimum: 0 },
+    milestones: { type: 'array', items: milestoneSchema, minItems: 1 }
+  },
+  required: ['careerPath', 'granularity', 'totalHours', 'milestones']
+};
+
+const skillGapSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    skill: { type: 'string' },
+    actions: { type: 'array', items: { type: 'string' }, minItems: 1 }
+  },
+  required: ['skill', 'actions']
+};
+
+export const skillGapAnalysisSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    jobTitle: { type: 'string' },
+    readinessScore: { type: 'integer', minimum: 0, maximum: 100 },
+    matchedSkills: { type: 'array', items: { type: 'string' } },
+    missingMustHaves: { type: 'array', items: skillGapSchema },
+    missingNiceToHaves: { type: 'array', items: skillGapSchema },
+    summary: { type: 'string' }
+  },
+  required: [
+    'jobTitle',
+    'readinessScore',
+    'matchedSkills',
+    'missingMustHaves',
+    'missingNiceToHaves',
+    'summary'
+  ]
+};
+
+const billOfMaterialsItemSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    kind: { type: 'string', description: 'board, sensor, IC, module, passive or other' },
+    quantity: { type: 'integer', minimum: 1 }
+  },
+  required: ['name', 'kind', 'quantity']
+};
+
+const projectIdeaProperties: Record<string, JsonSchema> = {
+  title: { type: 'string' },
+  level: { type: 'string', enum: ['beginner', 'intermediate', 'advanced'] },
+  description: { type: 'string' },
+  billOfMaterials: { type: 'array', items: billOfMaterialsItemSchema },
+  tools: { type: 'array', items: { type: 'string' } },
+  learningOutcomes: { type: 'array', items: { type: 'string' }, minItems: 1 },
+  skillsCovered: { type: 'array', items: { type: 'string' }, minItems: 1 },
+  estimatedHours: { type: 'number', minimum: 0 }
+};
+
+const projectIdeaRequired = Object.keys(projectIdeaProperties);
+
+/** What the model returns; ids are assigned by the server and status by the student. */
+export const projectIdeasResponseSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    ideas: {
+      type: 'array',
+      items: { type: 'object', properties: projectIdeaProperties, required: projectIdeaRequired },
+      minItems: 1
+    }
+  },
+  required: ['ideas']
+};
+
+export const projectPlanSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    careerPath: { type: 'string' },
+    ideas: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          ...projectIdeaProperties,
+          status: { type: 'string', enum: ['planned', 'in-progress', 'done'] }
+        },
+        required: ['id', ...projectIdeaRequired]
+      }
+    }
+  },
+  required: ['careerPath', 'ideas']
+};
+
+export const profileInputsSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    education: { type: 'string' },
+    skills: { type: 'string' },
+    interests: { type: 'string' },
+    experience: { type: 'string' }
+  },
+  required: ['education', 'skills', 'interests']
+};
+
+/** What the model returns when asked for interview questions; ids are assigned by the server. */
+export const interviewQuestionsSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          topic: { type: 'string' },
+          question: { type: 'string' }
+        },
+        required: ['topic', 'question']
+      }
+    }
+  },
+  required: ['questions']
+};
+
+export const interviewFeedbackSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    score: { type: 'integer', minimum: 0, maximum: 10 },
+    strengths: { type: 'array', items: { type: 'string' } },
+    improvements: { type: 'array', items: { type: 'string' } },
+    modelAnswer: { type: 'string' }
+  },
+  required: ['score', 'strengths', 'improvements', 'modelAnswer']
+};
+
+export const refinementConstraintsSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    pinnedPaths: { type: 'array', items: { type: 'string' } },
+    rejectedPaths: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          reason: { type: 'string' }
+        },
+        required: ['title', 'reason']
+      }
+    },
+    hypotheticalSkills: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['pinnedPaths', 'rejectedPaths', 'hypotheticalSkills']
+};
+
+// `parentId` (a string, or null for the original) is left out: the schema subset has no nullable types.
+export const recommendationVersionSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    recommendation: careerRecommendationSchema,
+    constraints: refinementConstraintsSchema,
+    createdAt: { type: 'string' }
+  },
+  required: ['id', 'recommendation', 'constraints', 'createdAt']
+};
+
+export const chatMessageSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    role: { type: 'string', enum: ['user', 'assistant'] },
+    content: { type: 'string' }
+  },
+  required: ['role', 'content']
+};
+
+/** What the model returns for a follow-up question. */
+export const chatReplySchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    reply: { type: 'string', description: 'The answer, formatted as Markdown.' }
+  },
+  required: ['reply']
+};
+
+/** Shape accepted when saving or importing a history item; `id` is optional on create. */
+export const historyItemSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    date: { type: 'string' },
+    createdAt: { type: 'string' },
+    recommendation: careerRecommendationSchema,
+    inputs: profileInputsSchema,
+    roadmap: learningRoadmapSchema,
+    projects: projectPlanSchema,
+    conversation: { type: 'array', items: chatMessageSchema },
+    versions: { type: 'array', items: recommendationVersionSchema }
+  },
+  required: ['title', 'date', 'recommendation', 'inputs']
+};
@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { canonicalSkill, parseSkills, SKILL_DICTIONARY } from './skills';
+
+const names = (text: string) => parseSkills(text).map(skill => skill.name);
+
+describe('parseSkills', () => {
+  test('resolves other spellings of the same skill', () => {
+    assert.deepEqual(names('esp-32, BLE, cortex m, tcp ip'), ['ESP32', 'Bluetooth Low Energy', 'ARM Cortex-M', 'TCP/IP']);
+  });
+
+  test('keeps distinct parts and protocols apart', () => {
+    assert.deepEqual(names('ESP8266, ESP32'), ['ESP8266', 'ESP32']);
+    assert.deepEqual(names('8051, AVR, PIC'), ['8051', 'AVR', 'PIC']);
+    assert.deepEqual(names('ARM, Bluetooth, TCP, USART'), ['ARM', 'Bluetooth', 'TCP', 'USART']);
+  });
+
+  test('leaves a vague term as typed rather than narrowing it', () => {
+    assert.deepEqual(canonicalSkill('Serial'), { name: 'Serial', category: 'other' });
+  });
+});
+
+describe('SKILL_DICTIONARY', () => {
+  test('files Git as a software tool, not EDA', () => {
+    assert.equal(canonicalSkill('git').category, 'other');
+  });
+
+  test('gives every spelling a single entry', () => {
+    const owners = new Map<string, string>();
+    for (const entry of SKILL_DICTIONARY) {
+      for (const spelling of [entry.name, ...entry.aliases]) {
+        const key = spelling.toLowerCase().replace(/[\s\-_.]+/g, '');
+        assert.equal(owners.get(key) ?? entry.name, entry.name, `"${spelling}" is claimed twice`);
+        owners.set(key, entry.name);
+      }
+    }
+  });
+});
@@ -0,0 +1,237 @@
+import type { NormalizedSkill, ProficiencyLevel, SkillCategory } from '../types';
+import { CAREER_TRACKS } from './taxonomy';
+
+interface SkillEntry {
+  name: string;
+  category: SkillCategory;
+  aliases: string[];
+}
+
+/**
+ * Canonical skill names with the spellings students commonly use for them.
+ * Names follow the career track taxonomy so normalized skills match it directly.
+ * Aliases are only other spellings and abbreviations of the same thing: a
+ * distinct part, tool or protocol gets its own entry rather than being folded
+ * into a related one.
+ */
+export const SKILL_DICTIONARY: SkillEntry[] = [
+  // Languages
+  { name: 'C', category: 'languages', aliases: ['Embedded C', 'ANSI C', 'C language'] },
+  { name: 'C++', category: 'languages', aliases: ['cpp', 'c plus plus', 'CPP17'] },
+  { name: 'Python', category: 'languages', aliases: ['py', 'python3'] },
+  { name: 'Verilog', category: 'languages', aliases: ['Verilog HDL'] },
+  { name: 'SystemVerilog', category: 'languages', aliases: ['SV', 'System Verilog'] },
+  { name: 'VHDL', category: 'languages', aliases: [] },
+  { name: 'MATLAB', category: 'languages', aliases: ['Matlab programming'] },
+  { name: 'Tcl', category: 'languages', aliases: ['TCL scripting'] },
+  { name: 'Perl', category: 'languages', aliases: [] },
+  { name: 'Shell Scripting', category: 'languages', aliases: ['Bash', 'Shell', 'Bash scripting'] },
+  { name: 'Java', category: 'languages', aliases: [] },
+  { name: 'Rust', category: 'languages', aliases: [] },
+  { name: 'Assembly', category: 'languages', aliases: ['ASM', 'Assembly Language'] },
+  { name: 'ARM Assembly', category: 'languages', aliases: [] },
+  { name: 'UVM', category: 'languages', aliases: ['Universal Verification Methodology'] },
+  { name: 'SystemVerilog Assertions', category: 'languages', aliases: ['SVA'] },
+
+  // EDA and simulation tools
+  { name: 'Vivado', category: 'edaTools', aliases: ['Xilinx Vivado', 'AMD Vivado'] },
+  { name: 'Quartus', category: 'edaTools', aliases: ['Intel Quartus', 'Quartus Prime', 'Altera Quartus'] },
+  { name: 'ModelSim', category: 'edaTools', aliases: ['Model Sim'] },
+  { name: 'Cadence Virtuoso', category: 'edaTools', aliases: ['Virtuoso'] },
+  { name: 'LTspice', category: 'edaTools', aliases: ['LT Spice', 'LTspice XVII'] },
+  { name: 'SPICE Simulation', category: 'edaTools', aliases: ['SPICE'] },
+  { name: 'ngspice', category: 'edaTools', aliases: [] },
+  { name: 'PSpice', category: 'edaTools', aliases: ['OrCAD PSpice'] },
+  { name: 'HSPICE', category: 'edaTools', aliases: ['Synopsys HSPICE'] },
+  { name: 'Simulink', category: 'edaTools', aliases: [] },
+  { name: 'Keysight ADS', category: 'edaTools', aliases: ['ADS', 'Advanced Design System'] },
+  { name: 'Ansys HFSS', category: 'edaTools', aliases: ['HFSS'] },
+  { name: 'KiCad', category: 'edaTools', aliases: ['Ki Cad'] },
+  { name: 'Altium Designer', category: 'edaTools', aliases: ['Altium'] },
+  { name: 'Proteus', category: 'edaTools', aliases: [] },
+  { name: 'Multisim', category: 'edaTools', aliases: ['NI Multisim'] },
+  { name: 'Synopsys Design Compiler', category: 'edaTools', aliases: ['Design Compiler', 'DC Compiler'] },
+  { name: 'Cadence Innovus', category: 'edaTools', aliases: ['Innovus'] },
+  { name: 'Synopsys PrimeTime', category: 'edaTools', aliases: ['PrimeTime'] },
+  { name: 'Verilator', category: 'edaTools', aliases: [] },
+  { name: 'GNU Radio', category: 'edaTools', aliases: ['GNURadio'] },
+  { name: 'LabVIEW', category: 'edaTools', aliases: ['Lab View'] },
+
+  // Hardware platforms
+  { name: 'Arduino', category: 'hardwarePlatforms', aliases: ['Arduino Uno', 'Arduino IDE'] },
+  { name: 'ESP32', category: 'hardwarePlatforms', aliases: ['ESP-32', 'ESP 32'] },
+  { name: 'ESP8266', category: 'hardwarePlatforms', aliases: ['ESP-8266', 'ESP 8266'] },
+  { name: 'STM32', category: 'hardwarePlatforms', aliases: ['STM-32', 'STM 32'] },
+  { name: 'Raspberry Pi', category: 'hardwarePlatforms', aliases: ['RPi', 'Raspberry'] },
+  { name: 'FPGA', category: 'hardwarePlatforms', aliases: ['FPGAs', 'Field Programmable Gate Array'] },
+  { name: 'Zynq', category: 'hardwarePlatforms', aliases: ['Zynq-7000', 'Zynq SoC'] },
+  { name: 'Microcontrollers', category: 'hardwarePlatforms', aliases: ['Microcontroller', 'MCU', 'MCUs'] },
+  { name: '8051', category: 'hardwarePlatforms', aliases: ['8051 Microcontroller', 'Intel 8051', 'MCS-51'] },
+  { name: 'AVR', category: 'hardwarePlatforms', aliases: ['AVR Microcontroller'] },
+  { name: 'PIC', category: 'hardwarePlatforms', aliases: ['PIC Microcontroller', 'PICmicro'] },
+  { name: 'ARM', category: 'hardwarePlatforms', aliases: ['ARM Architecture'] },
+  { name: 'ARM Cortex-M', category: 'hardwarePlatforms', aliases: ['Cortex M'] },
+  { name: 'Oscilloscope', category: 'hardwarePlatforms', aliases: ['DSO'] },
+  { name: 'Logic Analyzer', category: 'hardwarePlatforms', aliases: ['Logic Analyser'] },
+
+  // Protocols and standards
+  { name: 'I2C', category: 'protocols', aliases: ['I²C', 'IIC', 'I2C bus'] },
+  { name: 'SPI', category: 'protocols', aliases: ['SPI bus'] },
+  { name: 'UART', category: 'protocols', aliases: [] },
+  { name: 'USART', category: 'protocols', aliases: [] },
+  { name: 'CAN', category: 'protocols', aliases: ['CAN bus', 'CANbus'] },
+  { name: 'USB', category: 'protocols', aliases: [] },
+  { name: 'Ethernet', category: 'protocols', aliases: [] },
+  { name: 'TCP/IP', category: 'protocols', aliases: ['TCP IP', 'Internet Protocol Suite'] },
+  { name: 'TCP', category: 'protocols', aliases: ['Transmission Control Protocol'] },
+  { name: 'AXI', category: 'protocols', aliases: ['AMBA AXI', 'AXI4'] },
+  { name: 'MQTT', category: 'protocols', aliases: [] },
+  { name: 'Bluetooth Low Energy', category: 'protocols', aliases: ['BLE', 'Bluetooth LE'] },
+  { name: 'Bluetooth', category: 'protocols', aliases: [] },
+  { name: 'LTE', category: 'protocols', aliases: ['4G', '4G LTE'] },
+  { name: '5G NR', category: 'protocols', aliases: ['5G', '5G New Radio'] },
+  { name: 'JTAG', category: 'protocols', aliases: [] },
+
+  // Concepts and everything else
+  { name: 'Digital Logic', category: 'other', aliases: ['Digital Electronics', 'Digital Logic Design', 'Logic Design'] },
+  { name: 'Circuit Design', category: 'other', aliases: ['Circuits', 'Electronic Circuits'] },
+  { name: 'Analog Circuit Design', category: 'other', aliases: ['Analog Design', 'Analog Electronics', 'Analog Circuits'] },
+  { name: 'CMOS', category: 'other', aliases: ['CMOS Design', 'CMOS VLSI'] },
+  { name: 'Static Timing Analysis', category: 'other', aliases: ['STA', 'Timing Analysis'] },
+  { name: 'Computer Architecture', category: 'other', aliases: ['COA', 'Computer Organization'] },
+  { name: 'Signal Processing', category: 'other', aliases: ['DSP', 'Digital Signal Processing'] },
+  { name: 'Control Systems', category: 'other', aliases: ['Control Theory', 'Controls'] },
+  { name: 'PID Control', category: 'other', aliases: ['PID'] },
+  { name: 'RTOS', category: 'other', aliases: ['Real-Time Operating Systems', 'Real Time Operating System'] },
+  { name: 'Embedded Linux', category: 'other', aliases: [] },
+  { name: 'Yocto Project', category: 'other', aliases: ['Yocto'] },
+  { name: 'Buildroot', category: 'other', aliases: [] },
+  { name: 'FreeRTOS', category: 'other', aliases: ['Free RTOS'] },
+  { name: 'Linux', category: 'other', aliases: ['GNU/Linux'] },
+  { name: 'Linux Kernel', category: 'other', aliases: [] },
+  { name: 'PCB Design', category: 'other', aliases: ['PCB', 'PCB Layout'] },
+  { name: 'Electromagnetics', category: 'other', aliases: ['EM Theory', 'EMFT', 'Electromagnetic Theory'] },
+  { name: 'Antenna Design', category: 'other', aliases: ['Antennas'] },
+  { name: 'Digital Communication', category: 'other', aliases: ['Digital Comms'] },
+  { name: 'Communication Systems', category: 'other', aliases: [] },
+  { name: 'Wireless Communication', category: 'other', aliases: ['Wireless'] },
+  { name: 'Machine Learning', category: 'other', aliases: ['ML'] },
+  { name: 'Deep Learning', category: 'other', aliases: [] },
+  { name: 'Computer Vision', category: 'other', aliases: [] },
+  { name: 'OpenCV', category: 'other', aliases: [] },
+  { name: 'ROS', category: 'other', aliases: ['ROS2', 'Robot Operating System'] },
+  { name: 'Power Converters', category: 'other', aliases: [] },
+  { name: 'Power Electronics', category: 'other', aliases: [] },
+  { name: 'SMPS', category: 'other', aliases: ['Switch Mode Power Supply', 'Switched-Mode Power Supply'] },
+  { name: 'Semiconductor Physics', category: 'other', aliases: ['Semiconductor Devices', 'Device Physics'] },
+
+  // Software tools
+  { name: 'Git', category: 'other', aliases: [] },
+  { name: 'STM32CubeIDE', category: 'other', aliases: ['STM32 Cube IDE'] },
+];
+
+export const PROFICIENCY_LEVELS: ProficiencyLevel[] = ['beginner', 'intermediate', 'advanced'];
+
+const LEVEL_ALIASES: Record<string, ProficiencyLevel> = {
+  beginner: 'beginner',
+  basic: 'beginner',
+  novice: 'beginner',
+  intermediate: 'intermediate',
+  moderate: 'intermediate',
+  advanced: 'advanced',
+  expert: 'advanced',
+  proficient: 'advanced',
+};
+
+/** Case-, space- and punctuation-insensitive key, so "ESP-32" and "esp 32" collide. */
+const lookupKey = (text: string) => text.toLowerCase().replace(/²/g, '2').replace(/[\s\-_.]+/g, '');
+
+const BY_KEY = new Map<string, SkillEntry>();
+for (const entry of SKILL_DICTIONARY) {
+  for (const spelling of [entry.name, ...entry.aliases]) BY_KEY.set(lookupKey(spelling), entry);
+}
+
+/** Resolves a typed skill to its dictionary entry; unknown skills are kept as typed under "other". */
+export function canonicalSkill(text: string): { name: string; category: SkillCategory } {
+  const name = text.trim().replace(/\s+/g, ' ');
+  const entry = BY_KEY.get(lookupKey(name));
+  return entry ? { name: entry.name, category: entry.category } : { name, category: 'other' };
+}
+
+// "Verilog (advanced)" or "Verilog: advanced"
+const LEVEL_SUFFIX = /^(.*?)\s*(?:\(\s*([a-z]+)\s*\)|:\s*([a-z]+))$/i;
+
+function parseSkill(item: string): NormalizedSkill | null {
+  let text = item.trim();
+  let level: ProficiencyLevel | undefined;
+  const match = LEVEL_SUFFIX.exec(text);
+  const suffix = match && LEVEL_ALIASES[(match[2] || match[3]).toLowerCase()];
+  if (suffix) {
+    text = match[1];
+    level = suffix;
+  }
+  if (!text) return null;
+  return { ...canonicalSkill(text), ...(level ? { level } : {}) };
+}
+
+/** Splits a comma/semicolon/newline separated skill list, resolving aliases and dropping duplicates. */
+export function parseSkills(text: string): NormalizedSkill[] {
+  const seen = new Map<string, NormalizedSkill>();
+  for (const item of text.split(/[,;\n]/)) {
+    const skill = parseSkill(item);
+    if (!skill) continue;
+    const key = skill.name.toLowerCase();
+    // A repeated skill keeps the first position but picks up a level if only the later one had it.
+    const existing = seen.get(key);
+    if (!existing) seen.set(key, skill);
+    else if (!existing.level && skill.level) existing.level = skill.level;
+  }
+  return Array.from(seen.values());
+}
+
+export const formatSkill = (skill: NormalizedSkill) =>
+  skill.level ? `${skill.name} (${skill.level})` : skill.name;
+
+export const formatSkills = (skills: NormalizedSkill[]) => skills.map(formatSkill).join(', ');
+
+/** The canonical form of a skill list, as sent to the model and saved with history. */
+export const normalizeSkillText = (text: string) => formatSkills(parseSkills(text));
+
+/** Dictionary skills whose name or an alias starts with (or, failing that, contains) `query`. */
+export function suggestSkills(query: string, exclude: string[] = [], limit = 6): string[] {
+  const key = lookupKey(query);
+  if (!key) return [];
+  const taken = new Set(exclude.map(name => name.toLowerCase()));
+  const available = SKILL_DICTIONARY.filter(entry => !taken.has(entry.name.toLowerCase()));
+  const spellings = (entry: SkillEntry) => [entry.name, ...entry.aliases].map(lookupKey);
+  const prefixed = available.filter(entry => spellings(entry).some(s => s.startsWith(key)));
+  const containing = available.filter(entry => !prefixed.includes(entry) && spellings(entry).some(s => s.includes(key)));
+  return [...prefixed, ...containing].slice(0, limit).map(entry => entry.name);
+}
+
+const INTEREST_TOPICS = Array.from(
+  new Set(CAREER_TRACKS.flatMap(track => [...track.interests, track.label]))
+);
+
+/** Splits an interest list, matching taxonomy topics case-insensitively and dropping duplicates. */
+export function parseInterests(text: string): string[] {
+  const seen = new Map<string, string>();
+  for (const item of text.split(/[,;\n]/)) {
+    const trimmed = item.trim().replace(/\s+/g, ' ');
+    if (!trimmed) continue;
+    const topic = INTEREST_TOPICS.find(t => lookupKey(t) === lookupKey(trimmed)) ?? trimmed;
+    if (!seen.has(topic.toLowerCase())) seen.set(topic.toLowerCase(), topic);
+  }
+  return Array.from(seen.values());
+}
+
+export const normalizeInterestText = (text: string) => parseInterests(text).join(', ');
+
+export function suggestInterests(query: string, exclude: string[] = [], limit = 6): string[] {
+  const key = lookupKey(query);
+  if (!key) return [];
+  const taken = new Set(exclude.map(name => name.toLowerCase()));
+  return INTEREST_TOPICS.filter(topic => !taken.has(topic.toLowerCase()) && lookupKey(topic).includes(key))
+    .sort((a, b) => Number(!lookupKey(a).startsWith(key)) - Number(!lookupKey(b).startsWith(key)))
+    .slice(0, limit);
+}
@@ -0,0 +1,224 @@
+import type { CareerTrack } from '../types';
+
+/**
+ * Bump when tracks are added, renamed or removed so saved recommendations
+ * record which catalog they were checked against.
+ */
+export const TAXONOMY_VERSION = '2026.1';
+
+export const CAREER_TRACKS: CareerTrack[] = [
+  {
+    id: 'rtl-design',
+    name: 'Digital / RTL Design',
+    label: 'VLSI',
+    aliases: ['VLSI Design', 'ASIC Design', 'Digital Design', 'RTL Design', 'Chip Design', 'Front-End VLSI'],
+    description: 'Designing digital logic for ASICs and SoCs in a hardware description language, from microarchitecture to synthesizable RTL.',
+    coreSkills: ['Verilog', 'Digital Logic', 'CMOS', 'SystemVerilog', 'Computer Architecture', 'Synthesis', 'Static Timing Analysis', 'Clock Domain Crossing', 'Low-Power Design'],
+    tools: ['Synopsys Design Compiler', 'Cadence Genus', 'Verilator', 'Yosys', 'SpyGlass'],
+    interests: ['Chip Design', 'ASIC', 'Processor Design', 'SoC'],
+    roles: ['RTL Design Engineer', 'ASIC Design Engineer', 'Digital Design Engineer', 'VLSI Design Engineer', 'SoC Design Engineer'],
+    employers: ['Intel', 'AMD', 'Qualcomm', 'NVIDIA', 'Texas Instruments'],
+  },
+  {
+    id: 'vlsi-verification',
+    name: 'VLSI Design Verification',
+    label: 'Verification',
+    aliases: ['Design Verification', 'ASIC Verification', 'Functional Verification', 'DV'],
+    description: 'Proving that RTL behaves as specified using constrained-random testbenches, assertions and coverage before tape-out.',
+    coreSkills: ['SystemVerilog', 'UVM', 'SystemVerilog Assertions', 'Functional Coverage', 'Constrained Random Verification', 'Formal Verification', 'Verilog', 'Digital Logic'],
+    tools: ['Synopsys VCS', 'Cadence Xcelium', 'Siemens Questa', 'Verdi', 'Cadence JasperGold'],
+    interests: ['Verification', 'Testbenches', 'Chip Design'],
+    roles: ['Design Verification Engineer', 'ASIC Verification Engineer', 'Verification Engineer', 'Formal Verification Engineer'],
+    employers: ['Synopsys', 'Cadence', 'Qualcomm', 'Broadcom', 'MediaTek'],
+  },
+  {
+    id: 'physical-design',
+    name: 'VLSI Physical Design',
+    label: 'Physical Design',
+    aliases: ['Physical Design', 'Back-End VLSI', 'Place and Route', 'VLSI Physical Design'],
+    description: 'Turning a synthesized netlist into a manufacturable layout: floorplanning, placement, clock tree synthesis, routing and sign-off.',
+    coreSkills: ['Floorplanning', 'Placement and Routing', 'Clock Tree Synthesis', 'Static Timing Analysis', 'Physical Verification', 'IR Drop Analysis', 'CMOS', 'Tcl'],
+    tools: ['Cadence Innovus', 'Synopsys ICC2', 'Synopsys PrimeTime', 'Calibre', 'OpenROAD'],
+    interests: ['Chip Layout', 'Timing Closure', 'Tape-Out'],
+    roles: ['Physical Design Engineer', 'STA Engineer', 'Physical Verification Engineer', 'Layout Engineer'],
+    employers: ['Intel', 'Qualcomm', 'Synopsys', 'Samsung Semiconductor', 'Marvell'],
+  },
+  {
+    id: 'analog-mixed-signal',
+    name: 'Analog & Mixed-Signal IC Design',
+    label: 'Analog',
+    aliases: ['Analog Design', 'Analog IC Design', 'Mixed-Signal Design', 'AMS Design', 'Analog Circuit Design'],
+    description: 'Designing amplifiers, data converters, PLLs, references and power management blocks at the transistor level.',
+    coreSkills: ['Analog Circuit Design', 'CMOS', 'Op-Amp Design', 'Data Converters', 'PLL Design', 'Bandgap References', 'SPICE Simulation', 'Analog Layout', 'Noise Analysis'],
+    tools: ['Cadence Virtuoso', 'Spectre', 'LTspice', 'HSPICE', 'Calibre'],
+    interests: ['Analog Circuits', 'ADC/DAC', 'Mixed-Signal'],
+    roles: ['Analog Design Engineer', 'Mixed-Signal Design Engineer', 'Analog Layout Engineer', 'Circuit Design Engineer'],
+    employers: ['Texas Instruments', 'Analog Devices', 'Infineon', 'NXP', 'STMicroelectronics'],
+  },
+  {
+    id: 'rf-microwave',
+    name: 'RF & Microwave Engineering',
+    label: 'RF',
+    aliases: ['RF Engineering', 'RF Design', 'Microwave Engineering', 'Antenna Design', 'RFIC Design'],
+    description: 'Designing antennas, RF front ends, filters and RFICs, and characterising them with lab instruments.',
+    coreSkills: ['Electromagnetics', 'Transmission Lines', 'Smith Chart', 'Impedance Matching', 'S-Parameters', 'Antenna Design', 'RF Circuit Design', 'PCB Design'],
+    tools: ['Keysight ADS', 'Ansys HFSS', 'CST Studio', 'Vector Network Analyzer', 'Spectrum Analyzer', 'Cadence AWR'],
+    interests: ['Antennas', 'Wireless', 'Radar', 'Satellite Communication'],
+    roles: ['RF Engineer', 'RF Design Engineer', 'Antenna Engineer', 'RFIC Design Engineer', 'RF Test Engineer'],
+    employers: ['Qorvo', 'Skyworks', 'Keysight', 'ISRO', 'Ericsson'],
+  },
+  {
+    id: 'dsp',
+    name: 'Digital Signal Processing',
+    label: 'DSP',
+    aliases: ['Signal Processing', 'DSP Engineering', 'Audio Signal Processing', 'Image Processing'],
+    description: 'Designing and implementing filters, transforms and estimation algorithms for audio, imaging, radar and communications.',
+    coreSkills: ['Signal Processing', 'Digital Filter Design', 'FFT', 'Linear Algebra', 'Probability and Statistics', 'Fixed-Point Arithmetic', 'Python', 'C'],
+    tools: ['MATLAB', 'Simulink', 'NumPy', 'SciPy', 'GNU Radio'],
+    interests: ['Signal Processing', 'Audio', 'Image Processing', 'Radar'],
+    roles: ['DSP Engineer', 'Signal Processing Engineer', 'Algorithm Engineer', 'Audio DSP Engineer'],
+    employers: ['Texas Instruments', 'Qualcomm', 'Samsung R&D', 'Bose', 'MathWorks'],
+  },
+  {
+    id: 'embedded',
+    name: 'Embedded Systems & Firmware',
+    label: 'Embedded',
+    aliases: ['Embedded Systems', 'Firmware Engineering', 'Embedded Software', 'IoT Engineering', 'Embedded Linux'],
+    description: 'Writing firmware and low-level software for microcontrollers and embedded processors that interacts directly with hardware.',
+    coreSkills: ['C', 'C++', 'Microcontrollers', 'RTOS', 'I2C', 'SPI', 'UART', 'CAN', 'Embedded Linux', 'Device Drivers', 'Debugging'],
+    tools: ['STM32CubeIDE', 'Keil', 'FreeRTOS', 'Zephyr', 'GDB', 'JTAG', 'Logic Analyzer', 'ESP32', 'Arduino'],
+    interests: ['Firmware', 'IoT', 'ESP32', 'Automotive Electronics'],
+    roles: ['Embedded Systems Engineer', 'Firmware Engineer', 'Embedded Software Engineer', 'IoT Engineer', 'BSP Engineer'],
+    employers: ['Bosch', 'Continental', 'NXP', 'Honeywell', 'Tata Elxsi'],
+  },
+  {
+    id: 'fpga',
+    name: 'FPGA Design',
+    label: 'FPGA',
+    aliases: ['FPGA Engineering', 'FPGA Development', 'Hardware Acceleration', 'FPGA Prototyping'],
+    description: 'Implementing and optimising digital designs on FPGAs for prototyping, acceleration and low-volume products.',
+    coreSkills: ['Verilog', 'VHDL', 'Digital Logic', 'Timing Constraints', 'High-Level Synthesis', 'AXI', 'Static Timing Analysis', 'Clock Domain Crossing'],
+    tools: ['Vivado', 'Quartus', 'Vitis HLS', 'ModelSim', 'Zynq'],
+    interests: ['FPGA', 'Hardware Acceleration', 'Prototyping'],
+    roles: ['FPGA Engineer', 'FPGA Design Engineer', 'Hardware Engineer', 'FPGA Prototyping Engineer'],
+    employers: ['AMD Xilinx', 'Intel PSG', 'L&T Technology Services', 'Keysight', 'DRDO'],
+  },
+  {
+    id: 'power-electronics',
+    name: 'Power Electronics',
+    label: 'Power',
+    aliases: ['Power Electronics Design', 'Power Systems', 'Power Supply Design', 'EV Powertrain'],
+    description: 'Designing converters, inverters, motor drives and battery systems for EVs, renewables and consumer power supplies.',
+    coreSkills: ['Power Converters', 'DC-DC Converters', 'Inverters', 'Motor Control', 'Battery Management Systems', 'Control Systems', 'Magnetics Design', 'PCB Design', 'Thermal Design'],
+    tools: ['PLECS', 'PSIM', 'MATLAB', 'Simulink', 'LTspice', 'Oscilloscope'],
+    interests: ['Electric Vehicles', 'Renewable Energy', 'Motor Drives'],
+    roles: ['Power Electronics Engineer', 'Hardware Design Engineer', 'BMS Engineer', 'Motor Control Engineer'],
+    employers: ['Tesla', 'Infineon', 'ABB', 'Ather Energy', 'Delta Electronics'],
+  },
+  {
+    id: 'telecom',
+    name: 'Wireless & Telecom Networks',
+    label: 'Telecom',
+    aliases: ['Telecommunications', 'Wireless Communication', 'Communication Systems', 'Networking', '5G Engineering'],
+    description: 'Designing, testing and operating cellular, wireless and wired communication systems from physical layer to protocol stack.',
+    coreSkills: ['Digital Communication', 'Wireless Communication', 'Signal Processing', 'LTE', '5G NR', 'OFDM', 'TCP/IP', 'Networking', 'Python'],
+    tools: ['MATLAB', 'Wireshark', 'ns-3', 'GNU Radio', 'USRP', 'Spectrum Analyzer'],
+    interests: ['Wireless', '5G', 'Networking', 'Satellite Communication'],
+    roles: ['Telecom Engineer', 'RF Planning Engineer', 'Wireless Systems Engineer', 'Network Engineer', 'Protocol Engineer'],
+    employers: ['Nokia', 'Ericsson', 'Jio', 'Cisco', 'Qualcomm'],
+  },
+  {
+    id: 'semiconductor-process',
+    name: 'Semiconductor Process & Fabrication',
+    label: 'Fab',
+    aliases: ['Semiconductor Manufacturing', 'Process Engineering', 'Semiconductor Fabrication', 'Device Engineering'],
+    description: 'Developing and running the fabrication steps that make chips, and characterising devices and yield.',
+    coreSkills: ['Semiconductor Physics', 'Device Physics', 'Lithography', 'Thin Film Deposition', 'Etching', 'Statistical Process Control', 'Yield Analysis', 'Cleanroom Practices'],
+    tools: ['Sentaurus TCAD', 'Silvaco TCAD', 'JMP', 'SEM', 'Ellipsometer'],
+    interests: ['Semiconductor Fabrication', 'Nanotechnology', 'Materials'],
+    roles: ['Process Engineer', 'Device Engineer', 'Yield Engineer', 'Process Integration Engineer', 'TCAD Engineer'],
+    employers: ['TSMC', 'Intel', 'Micron', 'Applied Materials', 'Tata Electronics'],
+  },
+  {
+    id: 'silicon-validation',
+    name: 'Post-Silicon Validation & Test',
+    label: 'Validation',
+    aliases: ['Post-Silicon Validation', 'Silicon Validation', 'Test Engineering', 'DFT', 'Product Engineering'],
+    description: 'Bringing up first silicon, validating it on the bench and in test, and building design-for-test structures.',
+    coreSkills: ['Design for Testability', 'Scan Insertion', 'ATPG', 'Boundary Scan', 'Lab Instrumentation', 'Python', 'Debugging', 'Digital Logic'],
+    tools: ['Synopsys TestMAX', 'Tessent', 'Oscilloscope', 'Logic Analyzer', 'ATE', 'LabVIEW'],
+    interests: ['Testing', 'Silicon Bring-Up', 'Lab Work'],
+    roles: ['Post-Silicon Validation Engineer', 'DFT Engineer', 'Test Engineer', 'Product Engineer', 'Validation Engineer'],
+    employers: ['Intel', 'AMD', 'NVIDIA', 'Micron', 'Qualcomm'],
+  },
+  {
+    id: 'robotics-control',
+    name: 'Robotics & Control Systems',
+    label: 'Robotics',
+    aliases: ['Robotics', 'Control Systems', 'Mechatronics', 'Automation', 'Autonomous Systems'],
+    description: 'Building sensing, actuation and control for robots, drones and automated machines.',
+    coreSkills: ['Control Systems', 'Python', 'C++', 'Sensors and Actuators', 'Kinematics', 'Computer Vision', 'Microcontrollers', 'PID Control'],
+    tools: ['ROS', 'Gazebo', 'MATLAB', 'Simulink', 'OpenCV', 'Arduino'],
+    interests: ['Automation', 'ROS', 'Mechatronics', 'Drones'],
+    roles: ['Robotics Engineer', 'Controls Engineer', 'Automation Engineer', 'Mechatronics Engineer'],
+    employers: ['Boston Dynamics', 'ABB Robotics', 'GreyOrange', 'Addverb', 'Siemens'],
+  },
+];
+
+/** Lower-cases and collapses punctuation so "Static-Timing Analysis" and "static timing analysis" compare equal. */
+export const normalizeTerm = (term: string) =>
+  term.toLowerCase().replace(/[^a-z0-9+#]+/g, ' ').trim();
+
+/**
+ * 0 when unrelated, otherwise higher for closer matches: exact matches beat
+ * whole-word containment, and longer contained terms beat shorter ones.
+ */
+export const matchScore = (value: string, term: string) => {
+  if (!value || !term) return 0;
+  if (value === term) return 1000;
+  const [shorter, longer] = value.length < term.length ? [value, term] : [term, value];
+  if (shorter.length < 3) return 0;
+  return ` ${longer} `.includes(` ${shorter} `) ? shorter.length : 0;
+};
+
+/** Finds the track a career path title belongs to by its name, aliases or typical roles. */
+export function findTrack(title: string): CareerTrack | undefined {
+  const value = normalizeTerm(title);
+  let best: CareerTrack | undefined;
+  let bestScore = 0;
+  for (const track of CAREER_TRACKS) {
+    for (const candidate of [track.name, ...track.aliases, ...track.roles]) {
+      const score = matchScore(value, normalizeTerm(candidate));
+      if (score > bestScore) {
+        best = track;
+        bestScore = score;
+      }
+    }
+  }
+  return best;
+}
+
+const KNOWN_SKILLS = Array.from(
+  new Set(CAREER_TRACKS.flatMap((track) => [...track.coreSkills, ...track.tools].map(normalizeTerm)))
+);
+
+/** Whether a skill or tool appears, or is named within, any track in the taxonomy. */
+export const isKnownSkill = (skill: string) => {
+  const value = normalizeTerm(skill);
+  return KNOWN_SKILLS.some((term) => matchScore(value, term) > 0);
+};
+
+export interface QuickStartTemplate {
+  trackId: string;
+  label: string;
+  skills: string;
+  interests: string;
+}
+
+/** One-click profile presets, one per track. */
+export const QUICK_START_TEMPLATES: QuickStartTemplate[] = CAREER_TRACKS.map((track) => ({
+  trackId: track.id,
+  label: track.label,
+  skills: track.coreSkills.slice(0, 4).join(', '),
+  interests: track.interests.slice(0, 3).join(', '),
+}));
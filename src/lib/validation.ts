@@ -0,0 +1,92 @@
+/**
+ * A provider-neutral subset of JSON Schema, enough to describe the structured
+ * responses the app asks for.
+ */
+export type JsonSchema =
+  | { type: 'string'; description?: string; enum?: string[] }
+  | { type: 'number' | 'integer'; description?: string; minimum?: number; maximum?: number }
+  | { type: 'boolean'; description?: string }
+  | { type: 'array'; description?: string; items: JsonSchema; minItems?: number }
+  | {
+      type: 'object';
+      description?: string;
+      properties: Record<string, JsonSchema>;
+      required?: string[];
+    };
+
+/** `value` is only set when `issues` is empty. */
+export interface ValidationResult<T> {
+  value?: T;
+  issues: string[];
+}
+
+/** Checks `value` against `schema`, returning one message per violation. */
+export function validateSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path} must be a string`];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path} must be one of ${schema.enum.join(', ')}`];
+      }
+      return [];
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || Number.isNaN(value)) return [`${path} must be a number`];
+      if (schema.type === 'integer' && !Number.isInteger(value)) return [`${path} must be an integer`];
+      const issues: string[] = [];
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        issues.push(`${path} must be >= ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        issues.push(`${path} must be <= ${schema.maximum}`);
+      }
+      return issues;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path} must be an array`];
+      const issues: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        issues.push(`${path} must have at least ${schema.minItems} item(s)`);
+      }
+      value.forEach((item, i) => issues.push(...validateSchema(item, schema.items, `${path}[${i}]`)));
+      return issues;
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const issues: string[] = [];
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined) issues.push(`${path}.${key} is required`);
+      }
+      for (const [key, propSchema] of Object.entries(schema.properties)) {
+        if (record[key] !== undefined) {
+          issues.push(...validateSchema(record[key], propSchema, `${path}.${key}`));
+        }
+      }
+      return issues;
+    }
+  }
+}
+
+/**
+ * Parses model output and validates it. Tolerates a surrounding Markdown code
+ * fence, which some OpenAI-compatible local models add despite JSON mode.
+ */
+export function parseAndValidate<T>(text: string, schema: JsonSchema): ValidationResult<T> {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  if (!trimmed) return { issues: ['response was empty'] };
+
+  let value: unknown;
+  try {
+    value = JSON.parse(trimmed);
+  } catch (e) {
+    return { issues: [`response is not valid JSON (${(e as Error).message})`] };
+  }
+
+  const issues = validateSchema(value, schema);
+  return issues.length ? { issues } : { value: value as T, issues };
+}
@@ -1,10 +1,14 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import SharedRoadmapView from './components/SharedRoadmapView.tsx';
 import './index.css';
 
+// Shared links (/share/:id) open a read-only view instead of the app.
+const shareId = window.location.pathname.match(/^\/share\/([\w-]+)\/?$/)?.[1];
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {shareId ? <SharedRoadmapView shareId={shareId} /> : <App />}
   </StrictMode>,
 );
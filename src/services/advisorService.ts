@@ -0,0 +1,40 @@
+import type { AdvisorComment, CohortDashboard, CohortFilter, StudentDetail } from "../types";
+import { requestJson } from "./http";
+
+export type { AdvisorComment, CohortDashboard, CohortFilter, StudentDetail } from "../types";
+
+const studentUrl = (studentId: string) => `/api/advisor/students/${encodeURIComponent(studentId)}`;
+
+/** Path and skill-gap aggregates over the students who share with advisors, optionally for one year/section. */
+export async function getCohortDashboard(filter: CohortFilter): Promise<CohortDashboard> {
+  const params = new URLSearchParams();
+  if (filter.year) params.set("year", String(filter.year));
+  if (filter.section) params.set("section", filter.section);
+  const query = params.toString();
+  return requestJson<CohortDashboard>(
+    `/api/advisor/dashboard${query ? `?${query}` : ""}`,
+    {},
+    "Could not load the advisor dashboard."
+  );
+}
+
+export async function getStudentDetail(studentId: string): Promise<StudentDetail> {
+  return requestJson<StudentDetail>(studentUrl(studentId), {}, "Could not load this student.");
+}
+
+export async function addAdvisorComment(studentId: string, body: string): Promise<AdvisorComment> {
+  return requestJson<AdvisorComment>(
+    `${studentUrl(studentId)}/comments`,
+    { method: "POST", body: { body } },
+    "Could not add your comment."
+  );
+}
+
+/** Advisors can only delete their own comments. */
+export async function deleteAdvisorComment(studentId: string, commentId: string): Promise<void> {
+  return requestJson<void>(
+    `${studentUrl(studentId)}/comments/${encodeURIComponent(commentId)}`,
+    { method: "DELETE" },
+    "Could not delete this comment."
+  );
+}
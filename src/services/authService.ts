@@ -0,0 +1,49 @@
+import type { AuthSession, ProfileInputs, User } from "../types";
+import { requestJson } from "./http";
+
+export type { AuthSession, User } from "../types";
+
+export async function getSession(): Promise<AuthSession> {
+  return requestJson<AuthSession>("/api/auth/session", {}, "Could not check whether you are signed in.");
+}
+
+export async function register(email: string, password: string, displayName: string): Promise<User> {
+  return requestJson<User>(
+    "/api/auth/register",
+    { method: "POST", body: { email, password, displayName } },
+    "Could not create your account."
+  );
+}
+
+export async function signIn(email: string, password: string): Promise<User> {
+  return requestJson<User>("/api/auth/login", { method: "POST", body: { email, password } }, "Could not sign in.");
+}
+
+export async function signOut(): Promise<void> {
+  return requestJson<void>("/api/auth/logout", { method: "POST" }, "Could not sign out.");
+}
+
+/** Updates the display name, saved profile, class or advisor consent; a `null` forgets that field. */
+export async function updateAccount(changes: {
+  displayName?: string;
+  profile?: ProfileInputs | null;
+  year?: number | null;
+  section?: string | null;
+  shareWithAdvisors?: boolean;
+}): Promise<User> {
+  return requestJson<User>("/api/account", { method: "PATCH", body: changes }, "Could not save your profile.");
+}
+
+/** Also signs out every other browser the account is signed in on. */
+export async function changePassword(currentPassword: string, newPassword: string): Promise<void> {
+  return requestJson<void>(
+    "/api/account/password",
+    { method: "POST", body: { currentPassword, newPassword } },
+    "Could not change your password."
+  );
+}
+
+/** Deletes the account with all its roadmaps, shared links and interviews. */
+export async function deleteAccount(password: string): Promise<void> {
+  return requestJson<void>("/api/account", { method: "DELETE", body: { password } }, "Could not delete your account.");
+}
@@ -1,131 +1,229 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import type {
+  Cached,
+  CareerRecommendation,
+  ChatMessage,
+  ChatRequest,
+  LearningRoadmap,
+  ProjectIdeasRequest,
+  ProjectPlan,
+  RecommendationEngine,
+  RecommendationStreamEvent,
+  RefinementConstraints,
+  ResumeData,
+  ResumeSource,
+  RoadmapRequest,
+  SkillGapAnalysis,
+  SkillGapRequest,
+} from "../types";
+import {
+  createMemoryStorage,
+  createResponseCache,
+  createWebStorage,
+  markCached,
+  recommendationCacheKey,
+  resumeCacheKey,
+} from "../lib/cache";
+import { ApiError, errorFromResponse, requestJson } from "./http";
 
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
+export type {
+  AIErrorCategory,
+  Cached,
+  CareerRecommendation,
+  ChatMessage,
+  LearningRoadmap,
+  ProfileInputs,
+  ProjectPlan,
+  RecommendationEngine,
+  RecommendationVersion,
+  RefinementConstraints,
+  ResumeData,
+  RoadmapGranularity,
+  SkillGapAnalysis,
+} from "../types";
 
-export interface CareerRecommendation {
-  careerPaths: string[];
-  internshipRoles: string[];
-  skillsToLearn: string[];
-  summary: string;
+export interface RecommendationOptions {
+  /** Use the streaming endpoint, reporting each partial result to `onPartial`. */
+  stream?: boolean;
+  onPartial?: (partial: Partial<CareerRecommendation>) => void;
+  signal?: AbortSignal;
+  /** Projects, internships and certifications, e.g. from an imported resume. */
+  experience?: string;
+  /** Defaults to "ai"; the server falls back to "rules" on its own when the model is unavailable. */
+  engine?: RecommendationEngine;
+  /** Pinned, rejected and hypothetical changes when refining an earlier recommendation. */
+  constraints?: RefinementConstraints;
+  /** Ignore cached results, in this browser and on the server, and ask the model again. */
+  refresh?: boolean;
 }
 
-export interface ResumeData {
-  education: string;
-  skills: string;
-  interests: string;
+// The server keeps its own cache keyed on the prompt version and model, so this
+// one only has to spare repeat clicks and reloads a round trip.
+const CACHE_TTL_MINUTES = Number(import.meta.env.VITE_CACHE_TTL_MINUTES ?? 60);
+
+const cacheStorage = typeof localStorage === "undefined" ? createMemoryStorage() : createWebStorage(localStorage);
+
+const responseCache = createResponseCache({
+  storage: cacheStorage,
+  ttlMs: (Number.isFinite(CACHE_TTL_MINUTES) ? CACHE_TTL_MINUTES : 60) * 60_000,
+});
+
+// Prompt versions and model reported by the server, so a new prompt or model
+// isn't answered from results cached in this browser for the old one.
+let cacheScope: string[] = [];
+
+export function setCacheScope(scope: string[]) {
+  cacheScope = scope;
+}
+
+/** Forgets every cached scan and recommendation, which hold the last person's resume and profile. */
+export function clearCachedResponses() {
+  cacheStorage.clear();
 }
 
 export async function scanResume(
-  base64Data: string,
-  mimeType: string
-): Promise<ResumeData> {
-  const prompt = `
-    You are an expert recruiter. Extract the following information from this resume:
-    1. Education (Degree, Year, Institution)
-    2. Skills (Technical skills, programming languages, tools)
-    3. Interests (Areas of interest, specializations)
-
-    If any field is missing, provide a reasonable guess based on the context or leave it as a short descriptive string.
-    Focus on Electronics and Communication Engineering (ECE) context if applicable.
-
-    Provide the response in JSON format with the following structure:
-    {
-      "education": "...",
-      "skills": "...",
-      "interests": "..."
-    }
-  `;
-
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: [
-      {
-        inlineData: {
-          data: base64Data,
-          mimeType: mimeType,
-        },
-      },
-      {
-        text: prompt,
-      },
-    ],
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          education: { type: Type.STRING },
-          skills: { type: Type.STRING },
-          interests: { type: Type.STRING },
-        },
-        required: ["education", "skills", "interests"],
-      },
-    },
-  });
+  source: ResumeSource,
+  signal?: AbortSignal,
+  refresh = false
+): Promise<Cached<ResumeData>> {
+  const result = await responseCache.load<Cached<ResumeData>>(
+    await resumeCacheKey(source, cacheScope),
+    (sharedSignal) =>
+      requestJson<Cached<ResumeData>>(
+        "/api/scan-resume",
+        { method: "POST", body: { ...source, refresh }, signal: sharedSignal },
+        "Could not scan the resume. Please try manual input."
+      ),
+    { signal, refresh }
+  );
+  return markCached(result);
+}
 
+async function streamCareerRecommendations(
+  body: {
+    education: string;
+    skills: string;
+    interests: string;
+    experience?: string;
+    engine?: RecommendationEngine;
+    constraints?: RefinementConstraints;
+    refresh?: boolean;
+  },
+  onPartial: (partial: Partial<CareerRecommendation>) => void,
+  signal: AbortSignal
+): Promise<Cached<CareerRecommendation>> {
+  const fallbackError = "Could not generate recommendations. Please try again.";
+  let response: Response;
   try {
-    return JSON.parse(response.text || "{}");
-  } catch (e) {
-    console.error("Failed to parse scan response", e);
-    throw new Error("Could not scan the resume. Please try manual input.");
+    response = await fetch("/api/recommendations/stream", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    throw new ApiError("Could not reach the server. Check your connection and try again.", 0, "network");
   }
+
+  if (!response.ok || !response.body) {
+    const payload = await response.json().catch(() => null);
+    throw errorFromResponse(response, payload, fallbackError);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line) as RecommendationStreamEvent;
+      if (event.type === "partial") onPartial(event.data);
+      else if (event.type === "done") return event.data;
+      else throw new ApiError(event.error, response.status, event.category);
+    }
+  }
+  throw new ApiError("The response ended before the recommendations were complete.", response.status, "network");
 }
 
 export async function getCareerRecommendations(
   education: string,
   skills: string,
-  interests: string
-): Promise<CareerRecommendation> {
-  const prompt = `
-    You are a career advisor specializing in Electronics and Communication Engineering (ECE).
-    Based on the following student profile, provide career recommendations.
-    
-    Education: ${education}
-    Skills: ${skills}
-    Interests: ${interests}
-    
-    Provide the response in JSON format with the following structure:
+  interests: string,
+  options: RecommendationOptions = {}
+): Promise<Cached<CareerRecommendation>> {
+  const { experience, engine, constraints, refresh = false } = options;
+  const body = {
+    education,
+    skills,
+    interests,
+    experience: experience?.trim() || undefined,
+    engine,
+    constraints,
+    refresh,
+  };
+  const result = await responseCache.load<Cached<CareerRecommendation>, Partial<CareerRecommendation>>(
+    await recommendationCacheKey(body, cacheScope),
+    (sharedSignal, progress) =>
+      options.stream
+        ? streamCareerRecommendations(body, progress, sharedSignal)
+        : requestJson<Cached<CareerRecommendation>>(
+            "/api/recommendations",
+            { method: "POST", body, signal: sharedSignal },
+            "Could not generate recommendations. Please try again."
+          ),
     {
-      "careerPaths": ["path1", "path2", ...],
-      "internshipRoles": ["role1", "role2", ...],
-      "skillsToLearn": ["skill1", "skill2", ...],
-      "summary": "A brief encouraging summary of why these paths fit."
+      signal: options.signal,
+      refresh,
+      onProgress: options.onPartial,
+      // Offline estimates are instant anyway, and a fallback should be retried against the model.
+      shouldStore: (recommendation) => recommendation.engine === "ai",
     }
-  `;
-
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          careerPaths: {
-            type: Type.ARRAY,
-            items: { type: Type.STRING },
-          },
-          internshipRoles: {
-            type: Type.ARRAY,
-            items: { type: Type.STRING },
-          },
-          skillsToLearn: {
-            type: Type.ARRAY,
-            items: { type: Type.STRING },
-          },
-          summary: {
-            type: Type.STRING,
-          },
-        },
-        required: ["careerPaths", "internshipRoles", "skillsToLearn", "summary"],
-      },
-    },
-  });
+  );
+  return markCached(result);
+}
 
-  try {
-    return JSON.parse(response.text || "{}");
-  } catch (e) {
-    console.error("Failed to parse Gemini response", e);
-    throw new Error("Could not generate recommendations. Please try again.");
-  }
+export async function generateLearningRoadmap(
+  request: RoadmapRequest,
+  signal?: AbortSignal
+): Promise<LearningRoadmap> {
+  return requestJson<LearningRoadmap>(
+    "/api/roadmap",
+    { method: "POST", body: request, signal },
+    "Could not build a learning roadmap. Please try again."
+  );
+}
+
+export async function generateProjectIdeas(
+  request: ProjectIdeasRequest,
+  signal?: AbortSignal
+): Promise<ProjectPlan> {
+  return requestJson<ProjectPlan>(
+    "/api/projects",
+    { method: "POST", body: request, signal },
+    "Could not suggest projects. Please try again."
+  );
+}
+
+export async function analyzeSkillGap(
+  request: SkillGapRequest,
+  signal?: AbortSignal
+): Promise<SkillGapAnalysis> {
+  return requestJson<SkillGapAnalysis>(
+    "/api/skill-gap",
+    { method: "POST", body: request, signal },
+    "Could not analyze this job description. Please try again."
+  );
+}
+
+export async function askFollowUp(request: ChatRequest, signal?: AbortSignal): Promise<ChatMessage> {
+  return requestJson<ChatMessage>(
+    "/api/chat",
+    { method: "POST", body: request, signal },
+    "Could not answer this question. Please try again."
+  );
 }
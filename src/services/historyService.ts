@@ -0,0 +1,156 @@
+import type {
+  CareerRecommendation,
+  ChatMessage,
+  HistoryItem,
+  LearningRoadmap,
+  ProjectPlan,
+  RecommendationVersion,
+} from "../types";
+import { requestJson } from "./http";
+import {
+  clearLocalHistory,
+  createLocalItem,
+  deleteLocalItem,
+  getLocalItem,
+  importLocalItems,
+  readLocalHistory,
+  removeLocalItems,
+  updateLocalItem,
+} from "./localHistory";
+
+export type { HistoryItem } from "../types";
+
+let guest = false;
+
+/** Guests keep roadmaps in this browser instead of an account; every function below follows this. */
+export function keepHistoryLocally(enabled: boolean) {
+  guest = enabled;
+}
+
+export async function listHistory(): Promise<HistoryItem[]> {
+  if (guest) return readLocalHistory();
+  return requestJson<HistoryItem[]>("/api/history", {}, "Could not load saved roadmaps.");
+}
+
+export async function getHistoryItem(id: string): Promise<HistoryItem> {
+  if (guest) return getLocalItem(id);
+  return requestJson<HistoryItem>(
+    `/api/history/${encodeURIComponent(id)}`,
+    {},
+    "Could not load this roadmap."
+  );
+}
+
+export async function createHistoryItem(item: Omit<HistoryItem, "id">): Promise<HistoryItem> {
+  if (guest) return createLocalItem(item);
+  return requestJson<HistoryItem>(
+    "/api/history",
+    { method: "POST", body: item },
+    "Could not save this roadmap."
+  );
+}
+
+export async function renameHistoryItem(id: string, title: string): Promise<HistoryItem> {
+  if (guest) return updateLocalItem(id, { title });
+  return requestJson<HistoryItem>(
+    `/api/history/${encodeURIComponent(id)}`,
+    { method: "PATCH", body: { title } },
+    "Could not rename this roadmap."
+  );
+}
+
+export async function setHistoryRoadmap(
+  id: string,
+  roadmap: LearningRoadmap | null
+): Promise<HistoryItem> {
+  if (guest) return updateLocalItem(id, { roadmap });
+  return requestJson<HistoryItem>(
+    `/api/history/${encodeURIComponent(id)}`,
+    { method: "PATCH", body: { roadmap } },
+    "Could not save the learning roadmap."
+  );
+}
+
+/** Stores project ideas and their statuses on a saved roadmap; `null` removes them. */
+export async function setHistoryProjects(id: string, projects: ProjectPlan | null): Promise<HistoryItem> {
+  if (guest) return updateLocalItem(id, { projects });
+  return requestJson<HistoryItem>(
+    `/api/history/${encodeURIComponent(id)}`,
+    { method: "PATCH", body: { projects } },
+    "Could not save project progress."
+  );
+}
+
+export async function setHistoryRecommendation(
+  id: string,
+  recommendation: CareerRecommendation,
+  versions: RecommendationVersion[]
+): Promise<HistoryItem> {
+  if (guest) return updateLocalItem(id, { recommendation, versions });
+  return requestJson<HistoryItem>(
+    `/api/history/${encodeURIComponent(id)}`,
+    { method: "PATCH", body: { recommendation, versions } },
+    "Could not save the refined recommendation."
+  );
+}
+
+export async function setHistoryConversation(
+  id: string,
+  conversation: ChatMessage[] | null
+): Promise<HistoryItem> {
+  if (guest) return updateLocalItem(id, { conversation });
+  return requestJson<HistoryItem>(
+    `/api/history/${encodeURIComponent(id)}`,
+    { method: "PATCH", body: { conversation } },
+    "Could not save the conversation."
+  );
+}
+
+export async function deleteHistoryItem(id: string): Promise<void> {
+  if (guest) return deleteLocalItem(id);
+  return requestJson<void>(
+    `/api/history/${encodeURIComponent(id)}`,
+    { method: "DELETE" },
+    "Could not delete this roadmap."
+  );
+}
+
+export async function clearHistory(): Promise<void> {
+  if (guest) return clearLocalHistory();
+  return requestJson<void>("/api/history", { method: "DELETE" }, "Could not clear history.");
+}
+
+export interface ImportResult {
+  imported: number;
+  /** Items already in history (same id) or that failed validation. */
+  skipped: number;
+  /** Ids of the items now in history, whether imported or already there. */
+  savedIds: string[];
+}
+
+/** Adds exported roadmaps to history; items whose id already exists are skipped. */
+export async function importHistoryItems(items: unknown[]): Promise<ImportResult> {
+  if (guest) return importLocalItems(items);
+  return requestJson<ImportResult>(
+    "/api/history/import",
+    { method: "POST", body: { items } },
+    "Could not import these roadmaps."
+  );
+}
+
+/** How many roadmaps are kept in this browser, e.g. from using the app as a guest. */
+export const countLocalHistory = () => readLocalHistory().length;
+
+/**
+ * Moves roadmaps kept in this browser (by a guest, or by older versions of the
+ * app) into the signed-in account, then drops the local copies of those the
+ * account now has. Returns how many were imported and how many the server
+ * refused, which stay in this browser.
+ */
+export async function importLocalHistory(): Promise<{ imported: number; kept: number }> {
+  const items = readLocalHistory();
+  if (!items.length) return { imported: 0, kept: 0 };
+  const { imported, savedIds } = await importHistoryItems(items);
+  removeLocalItems(savedIds);
+  return { imported, kept: readLocalHistory().length };
+}
@@ -0,0 +1,57 @@
+import type { AIErrorCategory } from "../types";
+
+/** A failed API call, carrying the HTTP status and (for AI calls) the failure category. */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly category: AIErrorCategory = "unknown",
+    /** Seconds to wait before trying again, from a 429's `Retry-After`. */
+    readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/** The `ApiError` for a failed response whose JSON body (if any) is `payload`. */
+export function errorFromResponse(
+  response: Response,
+  payload: { error?: string; category?: AIErrorCategory } | null,
+  fallbackError: string
+): ApiError {
+  const retryAfter = Number(response.headers.get("Retry-After"));
+  return new ApiError(
+    payload?.error || fallbackError,
+    response.status,
+    payload?.category,
+    retryAfter > 0 ? retryAfter : undefined
+  );
+}
+
+export async function requestJson<T>(
+  url: string,
+  init: { method?: string; body?: unknown; signal?: AbortSignal },
+  fallbackError: string
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: init.method ?? "GET",
+      headers: init.body === undefined ? undefined : { "Content-Type": "application/json" },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      signal: init.signal,
+    });
+  } catch (err) {
+    if (init.signal?.aborted) throw err;
+    throw new ApiError("Could not reach the server. Check your connection and try again.", 0, "network");
+  }
+
+  if (response.status === 204) return undefined as T;
+
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw errorFromResponse(response, payload, fallbackError);
+  }
+  return payload as T;
+}
@@ -0,0 +1,45 @@
+import type { InterviewRequest, InterviewSession } from "../types";
+import { requestJson } from "./http";
+
+export type { InterviewSession } from "../types";
+
+const sessionUrl = (id: string) => `/api/interviews/${encodeURIComponent(id)}`;
+
+/** Past mock interviews for a role, most recently practised first. */
+export async function listInterviewSessions(role: string): Promise<InterviewSession[]> {
+  return requestJson<InterviewSession[]>(
+    `/api/interviews?role=${encodeURIComponent(role)}`,
+    {},
+    "Could not load past interviews."
+  );
+}
+
+/** Generates questions for a new session; pass `focusTopics` to retry weak areas only. */
+export async function startInterview(
+  request: InterviewRequest,
+  signal?: AbortSignal
+): Promise<InterviewSession> {
+  return requestJson<InterviewSession>(
+    "/api/interviews",
+    { method: "POST", body: request, signal },
+    "Could not prepare interview questions. Please try again."
+  );
+}
+
+/** Grades an answer and returns the session with the feedback stored on the question. */
+export async function submitInterviewAnswer(
+  sessionId: string,
+  questionId: string,
+  answer: string,
+  signal?: AbortSignal
+): Promise<InterviewSession> {
+  return requestJson<InterviewSession>(
+    `${sessionUrl(sessionId)}/questions/${encodeURIComponent(questionId)}/answer`,
+    { method: "POST", body: { answer }, signal },
+    "Could not grade this answer. Please try again."
+  );
+}
+
+export async function deleteInterviewSession(id: string): Promise<void> {
+  return requestJson<void>(sessionUrl(id), { method: "DELETE" }, "Could not delete this interview.");
+}
@@ -0,0 +1,117 @@
+import { isStoredRecommendation, parseHistoryItem, upgradeRecommendation } from "../lib/history";
+import type { HistoryItem } from "../types";
+import { ApiError } from "./http";
+
+/**
+ * Roadmaps kept in this browser's localStorage: by guests, and by versions of
+ * the app from before the server stored them. Signing in offers to move them
+ * into the account.
+ */
+export const LOCAL_HISTORY_KEY = "ece_career_history";
+
+// Only a shallow check: what is already stored is kept, like the server keeps its rows, so a
+// roadmap saved by an older version is upgraded rather than dropped on the next write.
+const isStoredItem = (item: unknown): item is HistoryItem => {
+  const candidate = item as Partial<HistoryItem> | null;
+  return (
+    !!candidate &&
+    typeof candidate === "object" &&
+    typeof candidate.id === "string" &&
+    typeof candidate.title === "string" &&
+    typeof candidate.date === "string" &&
+    isStoredRecommendation(candidate.recommendation) &&
+    typeof candidate.inputs?.education === "string"
+  );
+};
+
+/** The stored roadmaps, newest first and upgraded; unreadable storage counts as empty. */
+export function readLocalHistory(): HistoryItem[] {
+  try {
+    const items: unknown = JSON.parse(localStorage.getItem(LOCAL_HISTORY_KEY) ?? "[]");
+    return Array.isArray(items)
+      ? items
+          .filter(isStoredItem)
+          .map((item) => ({ ...item, recommendation: upgradeRecommendation(item.recommendation) }))
+      : [];
+  } catch (e) {
+    console.error("Failed to read roadmaps saved in this browser", e);
+    return [];
+  }
+}
+
+function write(items: HistoryItem[]) {
+  try {
+    if (items.length) localStorage.setItem(LOCAL_HISTORY_KEY, JSON.stringify(items));
+    else localStorage.removeItem(LOCAL_HISTORY_KEY);
+  } catch {
+    throw new ApiError("This browser has no room left for roadmaps. Delete some, or sign in to keep them in an account.", 0);
+  }
+}
+
+const notFound = () => new ApiError("Roadmap not found.", 404);
+
+export function getLocalItem(id: string): HistoryItem {
+  const item = readLocalHistory().find((h) => h.id === id);
+  if (!item) throw notFound();
+  return item;
+}
+
+export function createLocalItem(item: Omit<HistoryItem, "id">): HistoryItem {
+  const created: HistoryItem = { ...item, id: crypto.randomUUID(), createdAt: new Date().toISOString() };
+  write([created, ...readLocalHistory()]);
+  return created;
+}
+
+/** Applies `changes` to a stored roadmap; a `null` or empty value removes that field. */
+export function updateLocalItem(
+  id: string,
+  changes: { [K in keyof HistoryItem]?: HistoryItem[K] | null }
+): HistoryItem {
+  const items = readLocalHistory();
+  const index = items.findIndex((h) => h.id === id);
+  if (index < 0) throw notFound();
+  const updated = { ...items[index] } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === null || (Array.isArray(value) && !value.length)) delete updated[key];
+    else if (value !== undefined) updated[key] = value;
+  }
+  items[index] = updated as unknown as HistoryItem;
+  write(items);
+  return items[index];
+}
+
+export function deleteLocalItem(id: string) {
+  const items = readLocalHistory();
+  if (!items.some((h) => h.id === id)) throw notFound();
+  write(items.filter((h) => h.id !== id));
+}
+
+export function clearLocalHistory() {
+  write([]);
+}
+
+/** Drops the roadmaps with these ids, e.g. once they are in an account. */
+export function removeLocalItems(ids: string[]) {
+  const removed = new Set(ids);
+  write(readLocalHistory().filter((h) => !removed.has(h.id)));
+}
+
+// Roadmaps saved before `createdAt` existed sort as the oldest.
+const savedAt = (item: HistoryItem) => Date.parse(item.createdAt ?? "") || 0;
+
+/**
+ * Adds roadmaps that pass the same checks as an import into an account and are
+ * not stored yet, placed by when they were first saved. Items from older
+ * exports, without `createdAt`, keep their newest-first order as of now.
+ */
+export function importLocalItems(items: unknown[]): { imported: number; skipped: number; savedIds: string[] } {
+  const existing = readLocalHistory();
+  const ids = new Set(existing.map((h) => h.id));
+  const valid = items.map(parseHistoryItem).filter((item): item is HistoryItem => !!item);
+  const now = Date.now();
+  const added = valid
+    .filter((item) => !ids.has(item.id) && ids.add(item.id))
+    .map((item, i) => (savedAt(item) ? item : { ...item, createdAt: new Date(now - i).toISOString() }));
+  write([...added, ...existing].sort((a, b) => savedAt(b) - savedAt(a)));
+  return { imported: added.length, skipped: items.length - added.length, savedIds: valid.map((item) => item.id) };
+}
@@ -0,0 +1,39 @@
+import type { ShareLink, SharedRoadmap } from "../types";
+import { requestJson } from "./http";
+
+export type { ShareLink, SharedRoadmap } from "../types";
+
+const sharesUrl = (historyId: string) => `/api/history/${encodeURIComponent(historyId)}/shares`;
+
+/** Active (not revoked or expired) links for a saved roadmap. */
+export async function listShareLinks(historyId: string): Promise<ShareLink[]> {
+  return requestJson<ShareLink[]>(sharesUrl(historyId), {}, "Could not load shared links.");
+}
+
+/** Snapshots a saved roadmap behind a new link; `expiresInDays` of null never expires. */
+export async function createShareLink(
+  historyId: string,
+  expiresInDays: number | null
+): Promise<ShareLink> {
+  return requestJson<ShareLink>(
+    sharesUrl(historyId),
+    { method: "POST", body: { expiresInDays } },
+    "Could not create a shared link."
+  );
+}
+
+export async function revokeShareLink(historyId: string, shareId: string): Promise<void> {
+  return requestJson<void>(
+    `${sharesUrl(historyId)}/${encodeURIComponent(shareId)}`,
+    { method: "DELETE" },
+    "Could not turn off this link."
+  );
+}
+
+export async function getSharedRoadmap(shareId: string): Promise<SharedRoadmap> {
+  return requestJson<SharedRoadmap>(
+    `/api/shares/${encodeURIComponent(shareId)}`,
+    {},
+    "Could not load this shared roadmap."
+  );
+}
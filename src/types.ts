@@ -0,0 +1,445 @@
+/** Expected annual pay for an entry-level role in one region. */
+export interface SalaryBand {
+  region: string;
+  /** ISO 4217 code, e.g. "INR" or "USD". */
+  currency: string;
+  min: number;
+  max: number;
+}
+
+export interface CareerPath {
+  title: string;
+  /** How well the path matches the student's profile, 0–100. */
+  fitScore: number;
+  rationale: string;
+  entryLevelTitles: string[];
+  exampleEmployers: string[];
+  salaryBands: SalaryBand[];
+  /** Skills the student already has that carry over to this path. */
+  transferableSkills: string[];
+  /** Id of the taxonomy track this path maps to; absent on items saved before the taxonomy. */
+  trackId?: string;
+}
+
+export interface CareerRecommendation {
+  careerPaths: CareerPath[];
+  internshipRoles: string[];
+  skillsToLearn: string[];
+  summary: string;
+  /** Version of the career track taxonomy the paths were checked against. */
+  taxonomyVersion?: string;
+  /** Prompt that produced this, e.g. "career_recommendation@1"; absent for the offline recommender. */
+  promptVersion?: string;
+  /** "rules" when produced by the offline recommender instead of a model. */
+  engine?: RecommendationEngine;
+}
+
+/** "ai" asks the configured model; "rules" uses the deterministic offline recommender. */
+export type RecommendationEngine = "ai" | "rules";
+
+/** Student feedback applied when regenerating a recommendation ("what if" refinement). */
+export interface RefinementConstraints {
+  /** Career path titles that must stay in the recommendation. */
+  pinnedPaths: string[];
+  /** Paths the student ruled out, with their reason. */
+  rejectedPaths: { title: string; reason: string }[];
+  /** Skills the student is considering learning, treated as if they already had them. */
+  hypotheticalSkills: string[];
+}
+
+/**
+ * One step in a chain of refinements. `constraints` is the full set that
+ * produced this version (empty for the original), not just the latest change.
+ */
+export interface RecommendationVersion {
+  id: string;
+  parentId: string | null;
+  recommendation: CareerRecommendation;
+  constraints: RefinementConstraints;
+  createdAt: string;
+}
+
+/** One entry in the curated ECE career track taxonomy (see `src/lib/taxonomy.ts`). */
+export interface CareerTrack {
+  id: string;
+  name: string;
+  /** Short label used for Quick Start templates. */
+  label: string;
+  /** Other names the track goes by, matched against model-returned path titles. */
+  aliases: string[];
+  description: string;
+  coreSkills: string[];
+  tools: string[];
+  /** Topics a student interested in this track would typically list. */
+  interests: string[];
+  /** Typical entry-level job titles. */
+  roles: string[];
+  /** Well-known companies hiring for the track. */
+  employers: string[];
+}
+
+export type RoadmapGranularity = "week" | "month";
+
+export interface RoadmapMilestone {
+  /** Stable id within the roadmap, referenced by `prerequisites`. */
+  id: string;
+  title: string;
+  /** Human-readable span, e.g. "Weeks 1–2" or "Month 3". */
+  period: string;
+  skills: string[];
+  /** Ids of milestones that must be completed first. */
+  prerequisites: string[];
+  project: { title: string; description: string };
+  estimatedHours: number;
+}
+
+/** A time-phased plan for reaching one career path, milestones in prerequisite order. */
+export interface LearningRoadmap {
+  careerPath: string;
+  granularity: RoadmapGranularity;
+  totalHours: number;
+  milestones: RoadmapMilestone[];
+  promptVersion?: string;
+}
+
+export interface RoadmapRequest {
+  careerPath: string;
+  inputs: ProfileInputs;
+  skillsToLearn: string[];
+  granularity: RoadmapGranularity;
+}
+
+export type ProjectStatus = "planned" | "in-progress" | "done";
+
+/** A part to buy or borrow for a project. */
+export interface BillOfMaterialsItem {
+  name: string;
+  /** e.g. "board", "sensor", "IC", "module" or "passive". */
+  kind: string;
+  quantity: number;
+}
+
+/** A hands-on project that exercises some of the skills a student still needs. */
+export interface ProjectIdea {
+  id: string;
+  title: string;
+  level: ProficiencyLevel;
+  description: string;
+  billOfMaterials: BillOfMaterialsItem[];
+  /** Software, EDA tools and lab equipment. */
+  tools: string[];
+  learningOutcomes: string[];
+  /** Entries from `skillsToLearn` the project covers. */
+  skillsCovered: string[];
+  estimatedHours: number;
+  /** Unset until the student takes the project on. */
+  status?: ProjectStatus;
+}
+
+export interface ProjectPlan {
+  careerPath: string;
+  ideas: ProjectIdea[];
+  /** Prompt behind the most recent ideas; earlier tracked ideas may come from an older one. */
+  promptVersion?: string;
+}
+
+export interface ProjectIdeasRequest {
+  careerPath: string;
+  inputs: ProfileInputs;
+  skillsToLearn: string[];
+}
+
+export interface SkillGap {
+  skill: string;
+  /** Concrete steps that would close the gap, e.g. a course, project or practice task. */
+  actions: string[];
+}
+
+/** How a student's profile measures up against one job description. */
+export interface SkillGapAnalysis {
+  jobTitle: string;
+  /** Overall readiness for the role, 0–100. */
+  readinessScore: number;
+  matchedSkills: string[];
+  missingMustHaves: SkillGap[];
+  missingNiceToHaves: SkillGap[];
+  summary: string;
+}
+
+export interface SkillGapRequest {
+  jobDescription: string;
+  inputs: ProfileInputs;
+}
+
+/** Model-graded feedback on one typed interview answer. */
+export interface InterviewFeedback {
+  /** 0–10, where 6 or more is an acceptable answer for the level. */
+  score: number;
+  strengths: string[];
+  improvements: string[];
+  /** A concise strong answer to compare against. */
+  modelAnswer: string;
+  promptVersion?: string;
+}
+
+export interface InterviewQuestion {
+  id: string;
+  /** Subject area, e.g. "Op-amps" or "C pointers"; used to find weak areas to retry. */
+  topic: string;
+  question: string;
+  answer?: string;
+  feedback?: InterviewFeedback;
+  promptVersion?: string;
+}
+
+/** A stored mock interview for one internship role. */
+export interface InterviewSession {
+  id: string;
+  role: string;
+  level: ProficiencyLevel;
+  /** Topics the questions were limited to when retrying weak areas; empty for a full session. */
+  focusTopics: string[];
+  questions: InterviewQuestion[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InterviewRequest {
+  role: string;
+  level: ProficiencyLevel;
+  inputs: ProfileInputs;
+  focusTopics?: string[];
+}
+
+export type ChatRole = "user" | "assistant";
+
+/** One turn of a follow-up conversation; assistant replies are Markdown. */
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  /** Set on assistant replies. */
+  promptVersion?: string;
+}
+
+/** A follow-up question, grounded on the profile and recommendation it is about. */
+export interface ChatRequest {
+  inputs: ProfileInputs;
+  recommendation: CareerRecommendation;
+  /** The conversation so far, ending with the student's new question. */
+  messages: ChatMessage[];
+}
+
+/** A generated result; `cachedAt` is when it was first stored, if it was served from the response cache. */
+export type Cached<T> = T & { cachedAt?: string };
+
+/** One line of the NDJSON body returned by `POST /api/recommendations/stream`. */
+export type RecommendationStreamEvent =
+  | { type: "partial"; data: Partial<CareerRecommendation> }
+  | { type: "done"; data: Cached<CareerRecommendation> }
+  | { type: "error"; error: string; category: AIErrorCategory };
+
+/** Resume content sent for scanning: extracted text, or a base64 file when no text could be read. */
+export type ResumeSource = { text: string } | { data: string; mimeType: string };
+
+/** Model confidence that an extracted value is correct, 0–1. */
+export type Confidence = number;
+
+export interface EducationEntry {
+  degree: string;
+  institution: string;
+  year: string;
+  /** CGPA or percentage as written on the resume; empty when absent. */
+  cgpa: string;
+  confidence: Confidence;
+}
+
+export interface ExtractedSkill {
+  name: string;
+  confidence: Confidence;
+}
+
+export interface ResumeSkills {
+  languages: ExtractedSkill[];
+  edaTools: ExtractedSkill[];
+  hardwarePlatforms: ExtractedSkill[];
+  protocols: ExtractedSkill[];
+  other: ExtractedSkill[];
+}
+
+export interface ResumeProject {
+  title: string;
+  description: string;
+  technologies: string[];
+  confidence: Confidence;
+}
+
+export interface ResumeInternship {
+  organization: string;
+  role: string;
+  duration: string;
+  description: string;
+  confidence: Confidence;
+}
+
+export interface ResumeCertification {
+  name: string;
+  issuer: string;
+  year: string;
+  confidence: Confidence;
+}
+
+export interface ResumeData {
+  education: EducationEntry[];
+  skills: ResumeSkills;
+  projects: ResumeProject[];
+  internships: ResumeInternship[];
+  certifications: ResumeCertification[];
+  interests: ExtractedSkill[];
+}
+
+/**
+ * Why an AI request failed, as reported by the API in `{ error, category }`.
+ * `rate_limit` is the app's own request limits; `quota` is a provider quota or the daily budget.
+ */
+export type AIErrorCategory = "network" | "quota" | "rate_limit" | "safety" | "malformed_output" | "unknown";
+
+export interface ProfileInputs {
+  education: string;
+  /** Comma-separated canonical skill names, optionally with a level, e.g. "Verilog (advanced), Python". */
+  skills: string;
+  interests: string;
+  /** Projects, internships and certifications, one per line, e.g. from an imported resume. */
+  experience?: string;
+}
+
+/** Advisors (faculty or the placement cell) also see the dashboard of students who chose to share. */
+export type UserRole = "student" | "advisor";
+
+/** A student account. `profile` is their saved education, skills and interests, used to prefill the form. */
+export interface User {
+  id: string;
+  email: string;
+  displayName: string;
+  profile: ProfileInputs | null;
+  createdAt: string;
+  role: UserRole;
+  /** Year of study, e.g. 3 for a third-year student. */
+  year: number | null;
+  /** Class section, upper-cased, e.g. "B". */
+  section: string | null;
+  /** Consent for advisors to see this student's saved roadmaps; off until the student turns it on. */
+  shareWithAdvisors: boolean;
+}
+
+/** Who is signed in, and whether the app may be used without an account (roadmaps then stay in the browser). */
+export interface AuthSession {
+  user: User | null;
+  allowGuests: boolean;
+  /** Prompt versions and model the server answers with; browser caches are keyed on them too. */
+  cacheScope: string[];
+}
+
+/** Grouping used for skills, shared by resume extraction and the skill dictionary. */
+export type SkillCategory = keyof ResumeSkills;
+
+export type ProficiencyLevel = "beginner" | "intermediate" | "advanced";
+
+/** One skill after alias resolution (see `src/lib/skills.ts`). */
+export interface NormalizedSkill {
+  name: string;
+  category: SkillCategory;
+  level?: ProficiencyLevel;
+}
+
+export interface HistoryItem {
+  id: string;
+  title: string;
+  date: string;
+  /** When it was first saved, as an ISO string; `date` is only for display. Missing from older exports. */
+  createdAt?: string;
+  recommendation: CareerRecommendation;
+  inputs: ProfileInputs;
+  roadmap?: LearningRoadmap;
+  /** Project ideas and the student's progress on them. */
+  projects?: ProjectPlan;
+  /** Follow-up questions asked about this recommendation, oldest first. */
+  conversation?: ChatMessage[];
+  /** Refinements of the recommendation, oldest first; `recommendation` is the latest one viewed. */
+  versions?: RecommendationVersion[];
+}
+
+/** A read-only link to a snapshot of a saved roadmap. Dates are ISO strings. */
+export interface ShareLink {
+  id: string;
+  url: string;
+  createdAt: string;
+  /** Null when the link never expires. */
+  expiresAt: string | null;
+}
+
+/** What a share link shows: the saved roadmap as it was when shared. */
+export interface SharedRoadmap extends Omit<HistoryItem, "id" | "conversation"> {
+  sharedAt: string;
+  expiresAt: string | null;
+}
+
+/** Narrows the advisor dashboard to one year of study and/or section. */
+export interface CohortFilter {
+  year?: number;
+  section?: string;
+}
+
+/** A student who shares with advisors, as listed on the dashboard. Dates are ISO strings. */
+export interface StudentSummary {
+  id: string;
+  displayName: string;
+  email: string;
+  year: number | null;
+  section: string | null;
+  roadmaps: number;
+  lastSavedAt: string | null;
+  /** First career path of the latest saved roadmap. */
+  topPath: string | null;
+}
+
+/** How many students' latest roadmaps include a career track, and for how many it comes first. */
+export interface PathCount {
+  path: string;
+  students: number;
+  topChoice: number;
+}
+
+export interface SkillGapCount {
+  skill: string;
+  students: number;
+}
+
+/** Aggregates over the latest saved roadmap of each sharing student matching the filter. */
+export interface CohortDashboard {
+  filter: CohortFilter;
+  students: StudentSummary[];
+  /** Students matching the filter who have not agreed to share; only their number is reported. */
+  notSharing: number;
+  paths: PathCount[];
+  skillGaps: SkillGapCount[];
+  withoutRoadmaps: StudentSummary[];
+  /** Every year and section seen among students, for the filter controls. */
+  years: number[];
+  sections: string[];
+}
+
+export interface AdvisorComment {
+  id: string;
+  body: string;
+  /** Null once the advisor's account is deleted. */
+  advisorId: string | null;
+  advisorName: string | null;
+  createdAt: string;
+}
+
+/** One student's drill-down: their profile, saved roadmaps (without private conversations) and advisor comments. */
+export interface StudentDetail {
+  student: StudentSummary & { profile: ProfileInputs | null };
+  roadmaps: Omit<HistoryItem, "conversation">[];
+  comments: AdvisorComment[];
+}